@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "WorkflowRun" ADD COLUMN     "batchIndex" INTEGER,
+ADD COLUMN     "batchRunId" TEXT;
+
+-- CreateTable
+CREATE TABLE "BatchRun" (
+    "id" TEXT NOT NULL,
+    "workflowId" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "rows" JSONB NOT NULL,
+    "rowCount" INTEGER NOT NULL,
+    "concurrency" INTEGER NOT NULL,
+    "rowErrors" JSONB,
+    "triggerRunId" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "BatchRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "WorkflowRun_batchRunId_idx" ON "WorkflowRun"("batchRunId");
+
+-- CreateIndex
+CREATE INDEX "BatchRun_workflowId_startedAt_idx" ON "BatchRun"("workflowId", "startedAt" DESC);
+
+-- AddForeignKey
+ALTER TABLE "WorkflowRun" ADD CONSTRAINT "WorkflowRun_batchRunId_fkey" FOREIGN KEY ("batchRunId") REFERENCES "BatchRun"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BatchRun" ADD CONSTRAINT "BatchRun_workflowId_fkey" FOREIGN KEY ("workflowId") REFERENCES "Workflow"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,7 @@
+-- Saved provider keys were stored in plain text. They cannot be encrypted
+-- from SQL, so they are dropped and workspaces save them again.
+
+-- AlterTable
+ALTER TABLE "ProviderCredential" DROP COLUMN "apiKey",
+ADD COLUMN     "apiKeyHint" TEXT,
+ADD COLUMN     "encryptedApiKey" TEXT;
@@ -0,0 +1,5 @@
+-- CreateIndex
+CREATE INDEX "WorkflowRun_triggerRunId_idx" ON "WorkflowRun"("triggerRunId");
+
+-- CreateIndex
+CREATE INDEX "BatchRun_triggerRunId_idx" ON "BatchRun"("triggerRunId");
@@ -2,21 +2,28 @@
  * Trigger.dev API Route
  * 
  * API endpoint for triggering Trigger.dev tasks from the client.
- * Handles LLM, Crop Image, and Extract Frame tasks.
+ * Handles LLM, Chat, Generate Image, Crop Image, Transform Image, Composite, Trim Video, and Extract Frame tasks, and cancelling runs.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { tasks, runs } from '@trigger.dev/sdk/v3';
+import { getAuthUser } from '@/lib/auth-server';
+import { getUserRunTag } from '@/types/workflow.types';
 import type { LLMTaskPayload } from '@/trigger/llmTask';
+import type { ChatTaskPayload } from '@/trigger/chatTask';
+import type { GenerateImageTaskPayload } from '@/trigger/generateImageTask';
 import type { CropImageTaskPayload } from '@/trigger/cropImageTask';
+import type { TransformImageTaskPayload } from '@/trigger/transformImageTask';
+import type { CompositeImageTaskPayload } from '@/trigger/compositeImageTask';
+import type { TrimVideoTaskPayload } from '@/trigger/trimVideoTask';
 import type { ExtractFrameTaskPayload } from '@/trigger/extractFrameTask';
 
 // Task type definitions
-type TaskType = 'llm' | 'crop-image' | 'extract-frame';
+type TaskType = 'llm' | 'chat' | 'generate-image' | 'crop-image' | 'transform-image' | 'composite-image' | 'trim-video' | 'extract-frame';
 
 interface TriggerRequest {
     taskType: TaskType;
-    payload: LLMTaskPayload | CropImageTaskPayload | ExtractFrameTaskPayload;
+    payload: LLMTaskPayload | ChatTaskPayload | GenerateImageTaskPayload | CropImageTaskPayload | TransformImageTaskPayload | CompositeImageTaskPayload | TrimVideoTaskPayload | ExtractFrameTaskPayload;
 }
 
 export async function POST(request: NextRequest) {
@@ -31,17 +38,37 @@ export async function POST(request: NextRequest) {
             );
         }
 
+        // Node tasks share a per-user queue with workflow runs (see src/trigger/queues.ts)
+        const user = await getAuthUser();
+        const options = { concurrencyKey: user.id, tags: [getUserRunTag(user.id)] };
+
         let handle;
 
         switch (taskType) {
             case 'llm':
-                handle = await tasks.trigger('llm-gemini', payload as LLMTaskPayload);
+                // Calls are made with the signed-in user's provider credentials
+                handle = await tasks.trigger('llm-gemini', { ...(payload as LLMTaskPayload), userId: user.id }, options);
+                break;
+            case 'chat':
+                handle = await tasks.trigger('llm-chat', { ...(payload as ChatTaskPayload), userId: user.id }, options);
+                break;
+            case 'generate-image':
+                handle = await tasks.trigger('generate-image', payload as GenerateImageTaskPayload, options);
                 break;
             case 'crop-image':
-                handle = await tasks.trigger('crop-image', payload as CropImageTaskPayload);
+                handle = await tasks.trigger('crop-image', payload as CropImageTaskPayload, options);
+                break;
+            case 'transform-image':
+                handle = await tasks.trigger('transform-image', payload as TransformImageTaskPayload, options);
+                break;
+            case 'composite-image':
+                handle = await tasks.trigger('composite-image', payload as CompositeImageTaskPayload, options);
+                break;
+            case 'trim-video':
+                handle = await tasks.trigger('trim-video', payload as TrimVideoTaskPayload, options);
                 break;
             case 'extract-frame':
-                handle = await tasks.trigger('extract-video-frame', payload as ExtractFrameTaskPayload);
+                handle = await tasks.trigger('extract-video-frame', payload as ExtractFrameTaskPayload, options);
                 break;
             default:
                 return NextResponse.json(
@@ -94,6 +121,7 @@ export async function GET(request: NextRequest) {
             status: run.status,
             output: run.output,
             error: errorMessage,
+            metadata: run.metadata,
             isCompleted: run.status === 'COMPLETED',
             isFailed: run.status === 'FAILED' || run.status === 'CANCELED' || run.status === 'SYSTEM_FAILURE',
         });
@@ -105,3 +133,51 @@ export async function GET(request: NextRequest) {
         );
     }
 }
+
+/**
+ * Cancel in-flight runs of the signed-in user, by run id or by tag (a node's
+ * run inside a workflow run)
+ */
+export async function DELETE(request: NextRequest) {
+    try {
+        const user = await getAuthUser();
+        const userTag = getUserRunTag(user.id);
+        const searchParams = request.nextUrl.searchParams;
+        const runId = searchParams.get('runId');
+        const tag = searchParams.get('tag');
+
+        if (!runId && !tag) {
+            return NextResponse.json(
+                { error: 'Missing runId or tag parameter' },
+                { status: 400 }
+            );
+        }
+
+        const runIds: string[] = [];
+
+        if (runId) {
+            // Node runs carry the user's tag; workflow runs name their owner in the payload
+            const run = await runs.retrieve(runId);
+            if (!run.tags.includes(userTag) && (run.payload as { userId?: string } | undefined)?.userId !== user.id) {
+                return NextResponse.json({ error: 'Run not found' }, { status: 404 });
+            }
+            runIds.push(runId);
+        } else if (tag) {
+            for await (const run of runs.list({ tag, status: ['QUEUED', 'DELAYED', 'EXECUTING', 'WAITING'] })) {
+                if (run.tags.includes(userTag)) {
+                    runIds.push(run.id);
+                }
+            }
+        }
+
+        await Promise.all(runIds.map((id) => runs.cancel(id)));
+
+        return NextResponse.json({ success: true, cancelledRunIds: runIds });
+    } catch (error) {
+        console.error('Trigger cancel error:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,88 @@
+/**
+ * REST API: Run Status
+ *
+ * Status of a run started through POST /api/v1/workflows/:id/runs, with the
+ * values of its Workflow Output nodes (by name) and every node's run from
+ * the workflow history.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { runs } from '@trigger.dev/sdk/v3';
+import prisma from '@/lib/db';
+import { authenticateApiKey } from '@/lib/apiKeys';
+import { getRunOutputValues } from '@/lib/workflowReferences';
+import type { WorkflowNode } from '@/types/workflow.types';
+import type { runWorkflowTask } from '@/trigger/runWorkflowTask';
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ runId: string }> }
+) {
+    try {
+        const user = await authenticateApiKey(request);
+        if (!user) {
+            return NextResponse.json({ error: 'Invalid or missing API key' }, { status: 401 });
+        }
+
+        const { runId } = await params;
+        const workflowRun = await prisma.workflowRun.findFirst({
+            where: { triggerRunId: runId, workflow: { userId: user.id } },
+            include: {
+                workflow: { select: { nodes: true } },
+                nodeRuns: { orderBy: { startedAt: 'asc' } },
+            },
+        });
+
+        // The orchestrator records the run once it starts; until then, ask Trigger.dev
+        if (!workflowRun) {
+            const run = await runs.retrieve<typeof runWorkflowTask>(runId).catch(() => null);
+            if (!run || run.payload?.userId !== user.id) {
+                return NextResponse.json({ error: 'Run not found' }, { status: 404 });
+            }
+            const failed = run.status === 'FAILED' || run.status === 'CRASHED' || run.status === 'SYSTEM_FAILURE';
+            const cancelled = run.status === 'CANCELED';
+            return NextResponse.json({
+                runId,
+                workflowId: run.payload.workflowId,
+                status: failed ? 'failed' : cancelled ? 'cancelled' : 'queued',
+                error: failed ? (run.error?.message ?? 'Run failed') : undefined,
+                outputs: {},
+                nodes: [],
+            });
+        }
+
+        const nodes = (workflowRun.workflow.nodes as unknown as WorkflowNode[]) || [];
+        const outputs = getRunOutputValues(nodes, workflowRun.nodeRuns);
+
+        return NextResponse.json({
+            runId,
+            workflowId: workflowRun.workflowId,
+            status: workflowRun.status,
+            startedAt: workflowRun.startedAt,
+            completedAt: workflowRun.completedAt,
+            duration: workflowRun.duration,
+            inputs: workflowRun.inputs ?? {},
+            outputs,
+            nodes: workflowRun.nodeRuns.map((nodeRun) => ({
+                id: nodeRun.id,
+                nodeId: nodeRun.nodeId,
+                nodeName: nodeRun.nodeName,
+                nodeType: nodeRun.nodeType,
+                status: nodeRun.status,
+                iteration: nodeRun.iteration,
+                parentNodeRunId: nodeRun.parentNodeRunId,
+                startedAt: nodeRun.startedAt,
+                completedAt: nodeRun.completedAt,
+                duration: nodeRun.duration,
+                output: nodeRun.outputData,
+                error: nodeRun.error,
+            })),
+        });
+    } catch (error) {
+        console.error('Run status API error:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+        );
+    }
+}
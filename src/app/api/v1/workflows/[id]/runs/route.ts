@@ -0,0 +1,87 @@
+/**
+ * REST API: Start a Workflow Run
+ *
+ * Runs a saved workflow (the run-workflow orchestrator task) with values for
+ * its Workflow Input nodes, keyed by input name or node id. Inputs left out
+ * use their defaults. Poll GET /api/v1/runs/:runId for the result.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { tasks } from '@trigger.dev/sdk/v3';
+import prisma from '@/lib/db';
+import { authenticateApiKey } from '@/lib/apiKeys';
+import { getWorkflowSignature } from '@/lib/workflowReferences';
+import type { WorkflowNode } from '@/types/workflow.types';
+import type { runWorkflowTask } from '@/trigger/runWorkflowTask';
+
+interface StartRunRequest {
+    inputs?: Record<string, unknown>;
+    force?: boolean;
+}
+
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const user = await authenticateApiKey(request);
+        if (!user) {
+            return NextResponse.json({ error: 'Invalid or missing API key' }, { status: 401 });
+        }
+
+        const { id } = await params;
+        const workflow = await prisma.workflow.findFirst({
+            where: { id, userId: user.id },
+            select: { id: true, nodes: true },
+        });
+        if (!workflow) {
+            return NextResponse.json({ error: 'Workflow not found' }, { status: 404 });
+        }
+
+        const body = (await request.json().catch(() => ({}))) as StartRunRequest;
+        const supplied = body.inputs ?? {};
+        if (typeof supplied !== 'object' || Array.isArray(supplied)) {
+            return NextResponse.json({ error: 'inputs must be an object' }, { status: 400 });
+        }
+
+        // Resolve names to input node ids, which is what the orchestrator expects
+        const { inputs: ports } = getWorkflowSignature((workflow.nodes as unknown as WorkflowNode[]) || []);
+        const inputs: Record<string, string> = {};
+        for (const [key, value] of Object.entries(supplied)) {
+            const port = ports.find((p) => p.id === key) ?? ports.find((p) => p.name === key);
+            if (!port) {
+                return NextResponse.json({ error: `Unknown input: ${key}` }, { status: 400 });
+            }
+            if (typeof value !== 'string') {
+                return NextResponse.json({ error: `Input "${key}" must be a string` }, { status: 400 });
+            }
+            inputs[port.id] = value;
+        }
+
+        const missing = ports.filter((p) => p.required && !inputs[p.id]?.trim() && !p.defaultValue?.trim());
+        if (missing.length > 0) {
+            return NextResponse.json(
+                { error: `Missing required inputs: ${missing.map((p) => p.name || p.id).join(', ')}` },
+                { status: 400 }
+            );
+        }
+
+        const handle = await tasks.trigger<typeof runWorkflowTask>('run-workflow', {
+            workflowId: workflow.id,
+            userId: user.id,
+            runScope: 'full',
+            force: body.force,
+            inputs,
+        }, {
+            concurrencyKey: user.id, // per-user copy of workflowRunQueue
+        });
+
+        return NextResponse.json({ runId: handle.id, status: 'queued' }, { status: 202 });
+    } catch (error) {
+        console.error('Start run API error:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+        );
+    }
+}
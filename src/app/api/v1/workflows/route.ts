@@ -0,0 +1,47 @@
+/**
+ * REST API: Workflows
+ *
+ * Lists the API key owner's workflows, with the inputs each accepts and the
+ * outputs it returns when run through POST /api/v1/workflows/:id/runs.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/db';
+import { authenticateApiKey } from '@/lib/apiKeys';
+import { getWorkflowSignature } from '@/lib/workflowReferences';
+import type { WorkflowNode } from '@/types/workflow.types';
+
+export async function GET(request: NextRequest) {
+    try {
+        const user = await authenticateApiKey(request);
+        if (!user) {
+            return NextResponse.json({ error: 'Invalid or missing API key' }, { status: 401 });
+        }
+
+        const workflows = await prisma.workflow.findMany({
+            where: { userId: user.id },
+            orderBy: { updatedAt: 'desc' },
+            select: {
+                id: true,
+                name: true,
+                folderId: true,
+                nodes: true,
+                createdAt: true,
+                updatedAt: true,
+            },
+        });
+
+        return NextResponse.json({
+            workflows: workflows.map(({ nodes, ...workflow }) => ({
+                ...workflow,
+                ...getWorkflowSignature((nodes as unknown as WorkflowNode[]) || []),
+            })),
+        });
+    } catch (error) {
+        console.error('Workflows API error:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+        );
+    }
+}
@@ -48,6 +48,8 @@ import {
   ChevronDown,
   Plus,
   Search,
+  KeyRound,
+  Bot,
 } from 'lucide-react';
 
 // Import modular dashboard components
@@ -58,6 +60,8 @@ import {
   FolderCard,
   MoveDialog,
   CreateFolderDialog,
+  ApiKeysDialog,
+  ModelProvidersDialog,
   SHOWCASE_ITEMS,
   formatTimeAgo,
 } from '@/components/dashboard';
@@ -83,6 +87,8 @@ export default function DashboardPage() {
   const [moveDialogOpen, setMoveDialogOpen] = React.useState(false);
   const [workflowToMove, setWorkflowToMove] = React.useState<Workflow | null>(null);
   const [selectedMoveTarget, setSelectedMoveTarget] = React.useState<string | null>(null);
+  const [apiKeysDialogOpen, setApiKeysDialogOpen] = React.useState(false);
+  const [providersDialogOpen, setProvidersDialogOpen] = React.useState(false);
 
   // Search and view state
   const [searchQuery, setSearchQuery] = React.useState('');
@@ -420,6 +426,26 @@ export default function DashboardPage() {
 
             {/* Bottom actions */}
             <div className="pt-3">
+              <button
+                type="button"
+                onClick={() => setProvidersDialogOpen(true)}
+                className="flex w-full items-center gap-3 rounded-md px-3 py-2 text-left text-foreground/80 hover:bg-card/60 hover:text-foreground"
+              >
+                <span className="grid h-8 w-8 place-items-center">
+                  <Bot className="h-5 w-5" />
+                </span>
+                <span className="text-[14px] font-medium">Model providers</span>
+              </button>
+              <button
+                type="button"
+                onClick={() => setApiKeysDialogOpen(true)}
+                className="flex w-full items-center gap-3 rounded-md px-3 py-2 text-left text-foreground/80 hover:bg-card/60 hover:text-foreground"
+              >
+                <span className="grid h-8 w-8 place-items-center">
+                  <KeyRound className="h-5 w-5" />
+                </span>
+                <span className="text-[14px] font-medium">API keys</span>
+              </button>
               <button
                 type="button"
                 onClick={handleLogout}
@@ -728,6 +754,16 @@ export default function DashboardPage() {
         onFolderNameChange={setNewFolderName}
         onCreate={handleCreateFolder}
       />
+
+      <ApiKeysDialog
+        open={apiKeysDialogOpen}
+        onOpenChange={setApiKeysDialogOpen}
+      />
+
+      <ModelProvidersDialog
+        open={providersDialogOpen}
+        onOpenChange={setProvidersDialogOpen}
+      />
     </div>
   );
 }
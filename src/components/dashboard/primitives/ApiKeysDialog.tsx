@@ -0,0 +1,148 @@
+'use client';
+
+import * as React from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Check, Copy, Trash2 } from 'lucide-react';
+import { listApiKeys, createApiKey, deleteApiKey } from '@/lib/actions';
+import type { ApiKey, ApiKeysDialogProps } from '../types';
+import { formatTimeAgo } from '../utils';
+
+/*
+ * ApiKeysDialog Component
+ *
+ * Dialog for managing the personal API keys used by the REST API (/api/v1).
+ * A new key is shown once, right after it is created.
+ */
+export function ApiKeysDialog({ open, onOpenChange }: ApiKeysDialogProps) {
+  const queryClient = useQueryClient();
+  const [name, setName] = React.useState('');
+  const [createdKey, setCreatedKey] = React.useState<string | null>(null);
+  const [copied, setCopied] = React.useState(false);
+
+  const apiKeysQuery = useQuery({
+    queryKey: ['apiKeys'],
+    queryFn: () => listApiKeys(),
+    enabled: open,
+  });
+  const createMutation = useMutation({
+    mutationFn: (input: { name: string }) => createApiKey(input),
+    onSuccess: (data) => {
+      setName('');
+      setCreatedKey(data.key);
+      setCopied(false);
+      queryClient.invalidateQueries({ queryKey: ['apiKeys'] });
+    },
+  });
+  const deleteMutation = useMutation({
+    mutationFn: (input: { id: string }) => deleteApiKey(input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['apiKeys'] });
+    },
+  });
+
+  const apiKeys: ApiKey[] = apiKeysQuery.data?.apiKeys ?? [];
+
+  // Never keep a created key around once the dialog is closed
+  React.useEffect(() => {
+    if (!open) setCreatedKey(null);
+  }, [open]);
+
+  const handleCreate = () => {
+    if (!name.trim() || createMutation.isPending) return;
+    createMutation.mutate({ name: name.trim() });
+  };
+
+  const handleCopy = async () => {
+    if (!createdKey) return;
+    await navigator.clipboard.writeText(createdKey);
+    setCopied(true);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px] bg-card border-border">
+        <DialogHeader>
+          <DialogTitle>API keys</DialogTitle>
+          <DialogDescription>
+            Run your workflows from outside the editor with the REST API at /api/v1.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          {/* Create */}
+          <div className="flex gap-2">
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Key name, e.g. CI"
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleCreate();
+              }}
+            />
+            <Button
+              onClick={handleCreate}
+              disabled={!name.trim() || createMutation.isPending}
+              className="bg-[#faffc7] text-black hover:bg-[#f4f8cd]"
+            >
+              Create
+            </Button>
+          </div>
+
+          {createdKey && (
+            <div className="rounded-md border border-purple-500 bg-purple-500/10 p-3 space-y-2">
+              <p className="text-xs text-foreground/70">
+                Copy this key now. It won&apos;t be shown again.
+              </p>
+              <div className="flex items-center gap-2">
+                <code className="flex-1 truncate rounded bg-muted/40 px-2 py-1 text-xs">{createdKey}</code>
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={handleCopy}>
+                  {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {/* Existing keys */}
+          <div className="space-y-1">
+            {apiKeys.length === 0 && !apiKeysQuery.isLoading && (
+              <p className="text-sm text-foreground/50">No API keys yet.</p>
+            )}
+            {apiKeys.map((apiKey) => (
+              <div
+                key={apiKey.id}
+                className="flex items-center gap-3 rounded-md px-3 py-2 hover:bg-muted/40"
+              >
+                <div className="min-w-0 flex-1">
+                  <div className="truncate text-sm">{apiKey.name}</div>
+                  <div className="text-xs text-foreground/50">
+                    {apiKey.prefix}… ·{' '}
+                    {apiKey.lastUsedAt ? `Last used: ${formatTimeAgo(apiKey.lastUsedAt)}` : 'Never used'}
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-foreground/60 hover:text-red-400"
+                  disabled={deleteMutation.isPending}
+                  onClick={() => deleteMutation.mutate({ id: apiKey.id })}
+                  title="Revoke key"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -19,14 +19,17 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
-import { Copy, ExternalLink, FolderInput, Pencil, Trash2 } from 'lucide-react';
+import { AlertTriangle, CalendarClock, Copy, ExternalLink, FolderInput, Pencil, Trash2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
 import type { FileCardProps } from '../types';
 import { formatTimeAgo } from '../utils';
 
 /**
  * FileCard Component
  * 
- * A card displaying a workflow file with context menu actions
+ * A card displaying a workflow file with context menu actions.
+ * Scheduled workflows show their schedule, and a warning when the last
+ * scheduled run failed.
  */
 export function FileCard({
   workflow,
@@ -39,6 +42,9 @@ export function FileCard({
   const [renameDialogOpen, setRenameDialogOpen] = React.useState(false);
   const [newName, setNewName] = React.useState(workflow.name);
 
+  const schedule = workflow.schedule;
+  const scheduleFailed = schedule?.lastRunStatus === 'failed' || schedule?.lastRunStatus === 'partial';
+
   const handleOpen = () => {
     router.push(`/dashboard/workflow/${workflow.id}`);
   };
@@ -80,6 +86,22 @@ export function FileCard({
               <div className="text-[14px] text-muted-foreground">
                 Last edited {formatTimeAgo(workflow.updatedAt)}
               </div>
+              {schedule && (
+                <div
+                  className={cn(
+                    'mt-1 flex items-center gap-1.5 text-[13px]',
+                    scheduleFailed ? 'text-red-400' : 'text-muted-foreground'
+                  )}
+                  title={scheduleFailed ? schedule.lastError ?? undefined : schedule.cron}
+                >
+                  {scheduleFailed ? <AlertTriangle className="h-3.5 w-3.5" /> : <CalendarClock className="h-3.5 w-3.5" />}
+                  {scheduleFailed && schedule.lastRunAt
+                    ? `Scheduled run ${schedule.lastRunStatus === 'partial' ? 'partly failed' : 'failed'} ${formatTimeAgo(schedule.lastRunAt)}`
+                    : schedule.enabled
+                      ? `Scheduled · ${schedule.cron}`
+                      : 'Schedule paused'}
+                </div>
+              )}
             </div>
           </div>
         </ContextMenuTrigger>
@@ -0,0 +1,143 @@
+'use client';
+
+import * as React from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { listProviderCredentials, saveProviderCredential, deleteProviderCredential } from '@/lib/actions';
+import { LLM_PROVIDERS, type LLMProviderInfo, type ProviderCredentialSummary } from '@/types/workflow.types';
+import type { ModelProvidersDialogProps } from '../types';
+
+/*
+ * One provider's API key and (for OpenAI-compatible providers) base URL
+ */
+function ProviderSettings({ info, summary }: { info: LLMProviderInfo; summary?: ProviderCredentialSummary }) {
+  const queryClient = useQueryClient();
+  const [apiKey, setApiKey] = React.useState('');
+  const [baseUrl, setBaseUrl] = React.useState(summary?.baseUrl ?? '');
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    setBaseUrl(summary?.baseUrl ?? '');
+  }, [summary?.baseUrl]);
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      saveProviderCredential({
+        provider: info.id,
+        apiKey: apiKey.trim() ? apiKey : undefined,
+        baseUrl: info.defaultBaseUrl ? baseUrl : undefined,
+      }),
+    onSuccess: () => {
+      setApiKey('');
+      setError(null);
+      queryClient.invalidateQueries({ queryKey: ['providerCredentials'] });
+    },
+    onError: (err) => setError(err instanceof Error ? err.message : 'Failed to save'),
+  });
+  const clearMutation = useMutation({
+    mutationFn: () => deleteProviderCredential({ provider: info.id }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['providerCredentials'] }),
+  });
+
+  const keyStatus = summary?.apiKeyHint
+    ? `Using your key ${summary.apiKeyHint}`
+    : summary?.hasServerKey
+      ? "Using the server's key"
+      : info.apiKeyRequired
+        ? 'No key set'
+        : 'No key needed';
+  const isDirty = apiKey.trim() !== '' || (!!info.defaultBaseUrl && baseUrl !== (summary?.baseUrl ?? ''));
+
+  return (
+    <div className="rounded-md border border-border/60 p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium">{info.label}</span>
+        <span className="text-xs text-foreground/50">{keyStatus}</span>
+      </div>
+      <Input
+        type="password"
+        value={apiKey}
+        onChange={(e) => setApiKey(e.target.value)}
+        placeholder={summary?.apiKeyHint ? 'Replace API key' : info.apiKeyRequired ? 'API key' : 'API key (optional)'}
+        autoComplete="off"
+      />
+      {info.defaultBaseUrl && (
+        <Input
+          value={baseUrl}
+          onChange={(e) => setBaseUrl(e.target.value)}
+          placeholder={`Base URL (default ${info.defaultBaseUrl}; others need your own key)`}
+        />
+      )}
+      {error && <p className="text-xs text-red-400">{error}</p>}
+      <div className="flex justify-end gap-2">
+        {(summary?.apiKeyHint || summary?.baseUrl) && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-red-400 hover:text-red-400"
+            disabled={clearMutation.isPending}
+            onClick={() => clearMutation.mutate()}
+          >
+            Clear
+          </Button>
+        )}
+        <Button
+          size="sm"
+          onClick={() => saveMutation.mutate()}
+          disabled={!isDirty || saveMutation.isPending}
+          className="bg-[#faffc7] text-black hover:bg-[#f4f8cd]"
+        >
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/*
+ * ModelProvidersDialog Component
+ *
+ * Dialog for the workspace's model provider settings: API keys for Gemini,
+ * OpenAI and Anthropic, and the address of a local OpenAI-compatible server
+ * (Ollama, llama.cpp). LLM and condition nodes use these over the server's
+ * own keys. Saved keys are never shown again.
+ */
+export function ModelProvidersDialog({ open, onOpenChange }: ModelProvidersDialogProps) {
+  const providersQuery = useQuery({
+    queryKey: ['providerCredentials'],
+    queryFn: () => listProviderCredentials(),
+    enabled: open,
+  });
+  const summaries = providersQuery.data?.providers ?? [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px] bg-card border-border">
+        <DialogHeader>
+          <DialogTitle>Model providers</DialogTitle>
+          <DialogDescription>
+            API keys and servers your LLM nodes run on. Without your own key, a provider uses the server&apos;s.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[60vh] overflow-y-auto space-y-3 py-2">
+          {LLM_PROVIDERS.map((info) => (
+            <ProviderSettings
+              key={info.id}
+              info={info}
+              summary={summaries.find((s) => s.provider === info.id)}
+            />
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
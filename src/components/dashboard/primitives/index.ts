@@ -3,3 +3,5 @@ export { ShowcaseCard } from './ShowcaseCard';
 export { FileCard } from './FileCard';
 export { FolderCard } from './FolderCard';
 export { MoveDialog, CreateFolderDialog } from './Dialogs';
+export { ApiKeysDialog } from './ApiKeysDialog';
+export { ModelProvidersDialog } from './ModelProvidersDialog';
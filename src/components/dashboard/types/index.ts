@@ -13,10 +13,22 @@ export interface Workflow {
     name: string;
     thumbnail?: string | null;
     folderId?: string | null;
+    schedule?: WorkflowScheduleSummary | null;
     createdAt: Date | string;
     updatedAt: Date | string;
 }
 
+/**
+ * Schedule of a workflow, with how its last scheduled run went
+ */
+export interface WorkflowScheduleSummary {
+    enabled: boolean;
+    cron: string;
+    lastRunAt: Date | string | null;
+    lastRunStatus: string | null;
+    lastError: string | null;
+}
+
 /**
  * Folder type for dashboard
  * createdAt/updatedAt may be Date or string (server action serialization)
@@ -103,3 +115,30 @@ export interface CreateFolderDialogProps {
     onFolderNameChange: (name: string) => void;
     onCreate: () => void;
 }
+
+/**
+ * Personal API key, as listed on the dashboard (the key itself is never returned)
+ */
+export interface ApiKey {
+    id: string;
+    name: string;
+    prefix: string;
+    lastUsedAt: Date | string | null;
+    createdAt: Date | string;
+}
+
+/**
+ * Props for API keys dialog
+ */
+export interface ApiKeysDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Props for model providers dialog
+ */
+export interface ModelProvidersDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+}
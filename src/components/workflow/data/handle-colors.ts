@@ -1,3 +1,4 @@
+import type { WorkflowValueType } from '@/types/workflow.types';
 import type { HandleColor } from '../types';
 
 /**
@@ -9,6 +10,15 @@ export const HANDLE_COLORS: Record<HandleColor, string> = {
     cyan: '#22D3EE',
 };
 
+/**
+ * Handle color for each value type a workflow input / output can carry
+ */
+export const VALUE_TYPE_COLORS: Record<WorkflowValueType, HandleColor> = {
+    text: 'green',
+    image: 'cyan',
+    video: 'magenta',
+};
+
 /**
  * Get handle style based on color and connection state
  * 
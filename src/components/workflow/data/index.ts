@@ -1 +1 @@
-export { HANDLE_COLORS, getHandleStyle } from './handle-colors';
+export { HANDLE_COLORS, VALUE_TYPE_COLORS, getHandleStyle } from './handle-colors';
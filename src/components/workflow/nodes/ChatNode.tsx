@@ -0,0 +1,576 @@
+'use client';
+
+import * as React from 'react';
+import { Position, type NodeProps } from '@xyflow/react';
+import { cn } from '@/lib/utils';
+import { useWorkflowStore, type WorkflowState } from '@/stores/workflowStore';
+import { resolveNodeExecution } from '@/lib/nodeExecutor';
+import {
+  type ChatFlowNode,
+  type ChatMessage,
+  CHAT_HANDLES,
+  DEFAULT_LLM_PROVIDER,
+  MAX_CHAT_BRANCHES,
+  formatChatTranscript,
+  getPartialOutputKey,
+} from '@/types/workflow.types';
+import { useNodeRunResult } from '@/hooks/useNodeRun';
+import type { chatTask } from '@/trigger/chatTask';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { GitBranch, Loader2, Lock, MessagesSquare, Pencil, Plus, Send, X } from 'lucide-react';
+
+import {
+  NodeShell,
+  HandleWithLabel,
+  RenameDialog,
+  RunSettingsDialog,
+  NodeDropdownMenu,
+  ModelSelect,
+} from '../primitives';
+
+// Types for Trigger.dev task API
+interface TriggerTaskResponse {
+  success: boolean;
+  runId: string;
+  publicAccessToken?: string;
+  error?: string;
+}
+
+/**
+ * Node data for a conversation: its messages, plus the reply and transcript
+ * the output handles carry
+ */
+const toConversation = (messages: ChatMessage[]) => ({
+  messages,
+  output: messages.filter((message) => message.role === 'model').at(-1)?.text,
+  transcript: formatChatTranscript(messages),
+});
+
+/**
+ * ChatNode Component
+ *
+ * A multi-turn conversation with an LLM, run via Trigger.dev.
+ * Features:
+ * - Model selector and system prompt, as on the LLM node
+ * - Input handle for the next user turn, or a message box when unconnected
+ * - Output handles for the latest reply and the whole transcript
+ * - Edit any turn: an edited user turn is sent again, replacing what followed it
+ * - Branch from any turn; the conversation set aside can be switched back to
+ */
+export function ChatNode({ id, data, selected }: NodeProps<ChatFlowNode>) {
+  const updateNodeData = useWorkflowStore((s: WorkflowState) => s.updateNodeData);
+  const propagateOutput = useWorkflowStore((s: WorkflowState) => s.propagateOutput);
+  const addTask = useWorkflowStore((s: WorkflowState) => s.addTask);
+  const updateTask = useWorkflowStore((s: WorkflowState) => s.updateTask);
+  const edges = useWorkflowStore((s: WorkflowState) => s.edges);
+  // Workflow history functions
+  const workflowId = useWorkflowStore((s: WorkflowState) => s.workflowId);
+  const startRun = useWorkflowStore((s: WorkflowState) => s.startRun);
+  const addNodeToRun = useWorkflowStore((s: WorkflowState) => s.addNodeToRun);
+  const completeNodeRun = useWorkflowStore((s: WorkflowState) => s.completeNodeRun);
+  const completeRun = useWorkflowStore((s: WorkflowState) => s.completeRun);
+  // Realtime subscription to this node's Trigger.dev run
+  const { run: liveRun, waitForRun } = useNodeRunResult<typeof chatTask>();
+
+  const [renameDialogOpen, setRenameDialogOpen] = React.useState(false);
+  const [runSettingsOpen, setRunSettingsOpen] = React.useState(false);
+  const [newLabel, setNewLabel] = React.useState(data.label || 'Chat');
+  const [pendingMessage, setPendingMessage] = React.useState<string | null>(null);
+  const [editing, setEditing] = React.useState<{ id: string; text: string } | null>(null);
+
+  const displayLabel = data.label || 'Chat';
+  const isLocked = data.isLocked || false;
+  const isLoading = data.isLoading || false;
+  const branches = data.branches ?? [];
+
+  const hasSystemPromptConnection = React.useMemo(
+    () => edges.some((e) => e.target === id && e.targetHandle === CHAT_HANDLES.SYSTEM_PROMPT),
+    [edges, id]
+  );
+  const hasMessageConnection = React.useMemo(
+    () => edges.some((e) => e.target === id && e.targetHandle === CHAT_HANDLES.MESSAGE),
+    [edges, id]
+  );
+
+  // Streamed reply to the turn being sent
+  const partialReply = liveRun?.metadata?.[getPartialOutputKey(id)];
+
+  const handleRename = () => {
+    if (newLabel.trim()) {
+      updateNodeData<ChatFlowNode>(id, { label: newLabel.trim() });
+    }
+    setRenameDialogOpen(false);
+  };
+
+  const toggleLock = () => {
+    updateNodeData<ChatFlowNode>(id, { isLocked: !isLocked });
+  };
+
+  /**
+   * Replace the conversation, setting the current one aside as a branch when
+   * turns of it would otherwise be lost
+   */
+  const replaceConversation = (messages: ChatMessage[]) => {
+    const current = data.messages;
+    const keepsCurrent = current.every((message, index) => messages[index]?.id === message.id);
+    const archived = keepsCurrent
+      ? branches
+      : [...branches, { id: crypto.randomUUID(), messages: current }].slice(-MAX_CHAT_BRANCHES);
+
+    const conversation = toConversation(messages);
+    updateNodeData<ChatFlowNode>(id, { ...conversation, branches: archived });
+    propagateOutput(id, conversation.output ?? '', CHAT_HANDLES.REPLY);
+    propagateOutput(id, conversation.transcript, CHAT_HANDLES.TRANSCRIPT);
+  };
+
+  const handleSwitchBranch = (branchId: string) => {
+    const branch = branches.find((b) => b.id === branchId);
+    if (!branch) return;
+    const others = branches.filter((b) => b.id !== branchId);
+    const conversation = toConversation(branch.messages);
+    updateNodeData<ChatFlowNode>(id, {
+      ...conversation,
+      branches: data.messages.length > 0
+        ? [...others, { id: crypto.randomUUID(), messages: data.messages }]
+        : others,
+    });
+    propagateOutput(id, conversation.output ?? '', CHAT_HANDLES.REPLY);
+    propagateOutput(id, conversation.transcript, CHAT_HANDLES.TRANSCRIPT);
+  };
+
+  /**
+   * Send the next user turn: the connected message or the draft, unless
+   * `message` is given (an edited turn being sent again)
+   */
+  const handleSend = async (message?: string) => {
+    updateNodeData<ChatFlowNode>(id, { isLoading: true, error: undefined });
+
+    const taskId = addTask(id, displayLabel);
+
+    // Start workflow history run for this individual node
+    let runId: string | null = null;
+    let nodeRunId: string | null = null;
+
+    if (workflowId) {
+      runId = await startRun(workflowId, 'single', [id]);
+    }
+
+    try {
+      // Read the conversation from the store: an edit may have just truncated it
+      const { nodes, edges: currentEdges } = useWorkflowStore.getState();
+      const node = nodes.find((n) => n.id === id) as ChatFlowNode | undefined;
+      if (!node) {
+        throw new Error('Chat node not found');
+      }
+      const execution = message === undefined
+        ? resolveNodeExecution(node, nodes, currentEdges, undefined, { force: true })
+        : resolveNodeExecution(
+            { ...node, data: { ...node.data, draft: message } },
+            nodes,
+            currentEdges.filter((e) => !(e.target === id && e.targetHandle === CHAT_HANDLES.MESSAGE)),
+            undefined,
+            { force: true }
+          );
+      const payload = execution.kind === 'task' ? execution.payload : undefined;
+
+      // Record node run to history BEFORE validation to capture errors
+      const inputData = {
+        provider: data.provider ?? DEFAULT_LLM_PROVIDER,
+        model: data.model,
+        systemPrompt: payload?.systemPrompt,
+        message: payload?.message ?? '(not provided)',
+        historyLength: node.data.messages.length,
+      };
+
+      if (runId) {
+        nodeRunId = await addNodeToRun(runId, id, displayLabel, 'chat', inputData);
+      }
+
+      if (execution.kind === 'invalid') {
+        throw new Error(execution.error);
+      }
+      setPendingMessage(payload?.message as string);
+
+      // Trigger the Trigger.dev task
+      const triggerResponse = await fetch('/api/trigger', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ taskType: 'chat', payload }),
+      });
+
+      const triggerResult: TriggerTaskResponse = await triggerResponse.json();
+
+      if (!triggerResult.success || !triggerResult.runId || !triggerResult.publicAccessToken) {
+        throw new Error(triggerResult.error || 'Failed to trigger chat task');
+      }
+
+      // Lets the task manager cancel this run
+      updateTask(taskId, { triggerRunId: triggerResult.runId });
+
+      // Wait for completion via Realtime
+      const runResult = await waitForRun(triggerResult.runId, triggerResult.publicAccessToken);
+      setPendingMessage(null);
+
+      if (runResult.isCancelled) {
+        updateNodeData<ChatFlowNode>(id, { isLoading: false });
+        updateTask(taskId, { status: 'cancelled', completedAt: new Date() });
+        if (nodeRunId) {
+          await completeNodeRun(nodeRunId, 'cancelled');
+        }
+        if (runId) {
+          await completeRun(runId, 'cancelled');
+        }
+        return;
+      }
+
+      if (runResult.isFailed || !runResult.output) {
+        throw new Error(runResult.error || 'Chat task failed');
+      }
+
+      const { reply, transcript, messages } = runResult.output;
+
+      // A draft typed while an earlier turn was being resent is kept
+      updateNodeData<ChatFlowNode>(id, {
+        messages,
+        output: reply,
+        transcript,
+        ...(message === undefined && { draft: '' }),
+        isLoading: false,
+        error: undefined,
+      });
+
+      updateTask(taskId, { status: 'completed', completedAt: new Date() });
+      propagateOutput(id, reply, CHAT_HANDLES.REPLY);
+      propagateOutput(id, transcript, CHAT_HANDLES.TRANSCRIPT);
+
+      // Complete node run and workflow run in history
+      if (nodeRunId) {
+        await completeNodeRun(nodeRunId, 'completed', { reply, transcript });
+      }
+      if (runId) {
+        await completeRun(runId, 'completed');
+      }
+
+    } catch (error) {
+      setPendingMessage(null);
+      const errorStr =
+        error instanceof Error
+          ? error.message
+          : typeof error === 'string'
+            ? error
+            : typeof error === 'object' && error !== null && 'message' in error
+              ? String((error as { message?: unknown }).message)
+              : 'Unknown error';
+      const safeError = errorStr && errorStr !== '[object Object]' ? errorStr : 'Task failed. See Trigger.dev dashboard for details.';
+
+      updateNodeData<ChatFlowNode>(id, {
+        isLoading: false,
+        error: safeError,
+      });
+
+      updateTask(taskId, {
+        status: 'failed',
+        completedAt: new Date(),
+        error: safeError,
+      });
+
+      // Record failure in history
+      if (nodeRunId) {
+        await completeNodeRun(nodeRunId, 'failed', undefined, safeError);
+      }
+      if (runId) {
+        await completeRun(runId, 'failed');
+      }
+    }
+  };
+
+  const handleSaveEdit = () => {
+    if (!editing) return;
+    const index = data.messages.findIndex((m) => m.id === editing.id);
+    const message = data.messages[index];
+    setEditing(null);
+    if (!message || !editing.text.trim()) return;
+
+    if (message.role === 'model') {
+      // Rewriting a reply steers the turns that follow; nothing is sent
+      replaceConversation(data.messages.map((m) => (m.id === message.id ? { ...m, text: editing.text } : m)));
+      return;
+    }
+    // The edited turn replaces it and everything after it
+    replaceConversation(data.messages.slice(0, index));
+    void handleSend(editing.text);
+  };
+
+  const handleBranchFrom = (index: number) => {
+    replaceConversation(data.messages.slice(0, index + 1));
+  };
+
+  return (
+    <div className={cn("relative group/node", isLoading && "node-running-glow rounded-xl")}>
+      {/* Input Handles */}
+      <div className="absolute left-0 top-0 h-full flex flex-col justify-center gap-8" style={{ transform: 'translateX(-6px)' }}>
+        <HandleWithLabel
+          type="target"
+          position={Position.Left}
+          id={CHAT_HANDLES.SYSTEM_PROMPT}
+          nodeId={id}
+          label="system_prompt"
+          color="magenta"
+          style={{ position: 'relative', top: 0 }}
+        />
+        <HandleWithLabel
+          type="target"
+          position={Position.Left}
+          id={CHAT_HANDLES.MESSAGE}
+          nodeId={id}
+          label="message"
+          color="magenta"
+          style={{ position: 'relative', top: 0 }}
+        />
+      </div>
+
+      {/* Output Handles */}
+      <div className="absolute right-0 top-0 h-full flex flex-col justify-center gap-8" style={{ transform: 'translateX(6px)' }}>
+        <HandleWithLabel
+          type="source"
+          position={Position.Right}
+          id={CHAT_HANDLES.REPLY}
+          nodeId={id}
+          label="reply"
+          color="green"
+          style={{ position: 'relative', top: 0 }}
+        />
+        <HandleWithLabel
+          type="source"
+          position={Position.Right}
+          id={CHAT_HANDLES.TRANSCRIPT}
+          nodeId={id}
+          label="transcript"
+          color="green"
+          style={{ position: 'relative', top: 0 }}
+        />
+      </div>
+
+      <NodeShell
+        title={displayLabel}
+        icon={<MessagesSquare className="h-4 w-4" />}
+        selected={selected}
+        className="w-100"
+        right={
+          <div className="flex items-center gap-1">
+            {isLocked && <Lock className="h-4 w-4 text-foreground/50" />}
+            <NodeDropdownMenu
+              nodeId={id}
+              label={displayLabel}
+              isLocked={isLocked}
+              onToggleLock={toggleLock}
+              onOpenRename={() => {
+                setNewLabel(displayLabel);
+                setRenameDialogOpen(true);
+              }}
+              onOpenRunSettings={() => setRunSettingsOpen(true)}
+            />
+          </div>
+        }
+      >
+        <div className="space-y-4">
+          {/* Model Selector */}
+          <div>
+            <label className="text-xs text-foreground/60 mb-1 block">Model</label>
+            <ModelSelect
+              provider={data.provider}
+              model={data.model}
+              onChange={(value) => updateNodeData<ChatFlowNode>(id, value)}
+            />
+          </div>
+
+          {/* System prompt: manual entry, disabled when connected */}
+          <div>
+            <label className="text-xs text-foreground/60 mb-1 block">System prompt (optional)</label>
+            <Textarea
+              value={hasSystemPromptConnection ? '' : (data.systemPrompt ?? '')}
+              onChange={(e) => updateNodeData<ChatFlowNode>(id, { systemPrompt: e.target.value })}
+              placeholder={hasSystemPromptConnection ? 'From connection' : 'Optional system instructions...'}
+              className={cn(
+                'nodrag min-h-14 resize-y bg-muted/40 text-sm',
+                hasSystemPromptConnection && 'cursor-not-allowed opacity-60'
+              )}
+              disabled={hasSystemPromptConnection}
+            />
+          </div>
+
+          {/* Branches */}
+          <div className="flex items-center gap-2">
+            {branches.length > 0 && (
+              <Select value="" onValueChange={handleSwitchBranch} disabled={isLoading}>
+                <SelectTrigger className="nodrag h-8 flex-1 bg-muted/40 text-xs">
+                  <SelectValue placeholder={`Switch branch (${branches.length} set aside)`} />
+                </SelectTrigger>
+                <SelectContent>
+                  {branches.map((branch, index) => (
+                    <SelectItem key={branch.id} value={branch.id}>
+                      {`${index + 1}. ${branch.messages[0]?.text.slice(0, 40) ?? 'Empty'} (${branch.messages.length} turns)`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => replaceConversation([])}
+              disabled={isLoading || data.messages.length === 0}
+              className="nodrag ml-auto text-xs"
+            >
+              <Plus className="mr-1 h-3.5 w-3.5" />
+              New chat
+            </Button>
+          </div>
+
+          {/* Conversation */}
+          {(data.messages.length > 0 || pendingMessage !== null) && (
+            <div className="nodrag nowheel max-h-80 space-y-2 overflow-y-auto">
+              {data.messages.map((message, index) => (
+                <div
+                  key={message.id}
+                  className={cn(
+                    'group/turn rounded-lg p-2 text-sm',
+                    message.role === 'user' ? 'ml-6 bg-muted/60' : 'mr-6 bg-muted/20'
+                  )}
+                >
+                  <div className="mb-1 flex items-center gap-1 text-xs text-foreground/50">
+                    <span className="mr-auto">{message.role === 'user' ? 'User' : 'Model'}</span>
+                    {!isLoading && editing?.id !== message.id && (
+                      <div className="flex gap-1 opacity-0 group-hover/turn:opacity-100">
+                        <button
+                          type="button"
+                          onClick={() => setEditing({ id: message.id, text: message.text })}
+                          className="hover:text-foreground"
+                          title={message.role === 'user' ? 'Edit and send again' : 'Edit reply'}
+                        >
+                          <Pencil className="h-3 w-3" />
+                        </button>
+                        {index < data.messages.length - 1 && (
+                          <button
+                            type="button"
+                            onClick={() => handleBranchFrom(index)}
+                            className="hover:text-foreground"
+                            title="Branch from here"
+                          >
+                            <GitBranch className="h-3 w-3" />
+                          </button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                  {editing?.id === message.id ? (
+                    <div className="space-y-2">
+                      <Textarea
+                        value={editing.text}
+                        onChange={(e) => setEditing({ id: message.id, text: e.target.value })}
+                        className="min-h-14 resize-y bg-muted/40 text-sm"
+                        autoFocus
+                      />
+                      <div className="flex justify-end gap-1">
+                        <Button variant="ghost" size="sm" onClick={() => setEditing(null)} className="h-7 text-xs">
+                          Cancel
+                        </Button>
+                        <Button size="sm" onClick={handleSaveEdit} disabled={!editing.text.trim()} className="h-7 text-xs">
+                          {message.role === 'user' ? 'Send' : 'Save'}
+                        </Button>
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="whitespace-pre-wrap break-words">{message.text}</div>
+                  )}
+                </div>
+              ))}
+              {pendingMessage !== null && (
+                <>
+                  <div className="ml-6 rounded-lg bg-muted/60 p-2 text-sm whitespace-pre-wrap break-words">
+                    {pendingMessage}
+                  </div>
+                  <div className="mr-6 rounded-lg bg-muted/20 p-2 text-sm whitespace-pre-wrap break-words text-foreground/70">
+                    {typeof partialReply === 'string' && partialReply ? partialReply : 'Generating response...'}
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+
+          {/* Next message: manual entry, disabled when connected */}
+          <Textarea
+            value={hasMessageConnection ? '' : (data.draft ?? '')}
+            onChange={(e) => updateNodeData<ChatFlowNode>(id, { draft: e.target.value })}
+            placeholder={hasMessageConnection ? 'From connection' : 'Type a message or connect a Text node...'}
+            className={cn(
+              'nodrag min-h-14 resize-y bg-muted/40 text-sm',
+              hasMessageConnection && 'cursor-not-allowed opacity-60'
+            )}
+            disabled={hasMessageConnection}
+          />
+
+          {/* Error Display */}
+          {data.error && (
+            <div
+              className={cn(
+                'rounded-lg p-3 text-sm',
+                'bg-red-500/10 text-red-400 border border-red-500/30'
+              )}
+            >
+              <div className="flex items-start gap-2">
+                <X className="h-4 w-4 mt-0.5 shrink-0" />
+                <span>{typeof data.error === 'string' ? data.error : String(data.error)}</span>
+              </div>
+            </div>
+          )}
+
+          {/* Send Button */}
+          <Button
+            onClick={() => handleSend()}
+            disabled={isLoading}
+            className="w-full bg-black hover:bg-black/90 text-white"
+          >
+            {isLoading ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Running...
+              </>
+            ) : (
+              <>
+                <Send className="mr-2 h-4 w-4" />
+                Send
+              </>
+            )}
+          </Button>
+        </div>
+      </NodeShell>
+
+      <RenameDialog
+        open={renameDialogOpen}
+        onOpenChange={setRenameDialogOpen}
+        value={newLabel}
+        onChange={setNewLabel}
+        onSubmit={handleRename}
+      />
+
+      <RunSettingsDialog
+        open={runSettingsOpen}
+        onOpenChange={setRunSettingsOpen}
+        value={data.execution}
+        onSubmit={(execution) => {
+          updateNodeData<ChatFlowNode>(id, { execution });
+          setRunSettingsOpen(false);
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+'use client';
+
+import * as React from 'react';
+import { Position, type NodeProps } from '@xyflow/react';
+import { useWorkflowStore, type WorkflowState } from '@/stores/workflowStore';
+import { type CollectFlowNode, COLLECT_HANDLES } from '@/types/workflow.types';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Lock, Merge } from 'lucide-react';
+
+import {
+  NodeShell,
+  HandleWithLabel,
+  RenameDialog,
+  NodeDropdownMenu,
+} from '../primitives';
+
+/**
+ * CollectNode Component
+ *
+ * Gathers the outputs a Map node's items produced back into one list.
+ * Features:
+ * - Input handle for the per-item output
+ * - Text output (one item per line, or a JSON array)
+ * - Images output (every item that is an image URL)
+ */
+export function CollectNode({ id, data, selected }: NodeProps<CollectFlowNode>) {
+  const updateNodeData = useWorkflowStore((s: WorkflowState) => s.updateNodeData);
+
+  const [renameDialogOpen, setRenameDialogOpen] = React.useState(false);
+  const [newLabel, setNewLabel] = React.useState(data.label || 'Collect');
+
+  const displayLabel = data.label || 'Collect';
+  const isLocked = data.isLocked || false;
+
+  const handleRename = () => {
+    if (newLabel.trim()) {
+      updateNodeData<CollectFlowNode>(id, { label: newLabel.trim() });
+    }
+    setRenameDialogOpen(false);
+  };
+
+  const toggleLock = () => {
+    updateNodeData<CollectFlowNode>(id, { isLocked: !isLocked });
+  };
+
+  return (
+    <div className="relative group/node">
+      {/* Input Handle */}
+      <div className="absolute left-0 top-1/2 -translate-y-1/2" style={{ transform: 'translate(-6px, -50%)' }}>
+        <HandleWithLabel
+          type="target"
+          position={Position.Left}
+          id={COLLECT_HANDLES.ITEMS}
+          nodeId={id}
+          label="items"
+          color="magenta"
+        />
+      </div>
+
+      {/* Output Handles */}
+      <div className="absolute right-0 top-0 h-full flex flex-col justify-center gap-8" style={{ transform: 'translateX(6px)' }}>
+        <HandleWithLabel
+          type="source"
+          position={Position.Right}
+          id={COLLECT_HANDLES.TEXT}
+          nodeId={id}
+          label="text"
+          color="green"
+          style={{ position: 'relative', top: 0 }}
+        />
+        <HandleWithLabel
+          type="source"
+          position={Position.Right}
+          id={COLLECT_HANDLES.IMAGES}
+          nodeId={id}
+          label="images"
+          color="cyan"
+          style={{ position: 'relative', top: 0 }}
+        />
+      </div>
+
+      <NodeShell
+        title={displayLabel}
+        icon={<Merge className="h-4 w-4" />}
+        selected={selected}
+        className="w-90"
+        right={
+          <div className="flex items-center gap-1">
+            {isLocked && <Lock className="h-4 w-4 text-foreground/50" />}
+            <NodeDropdownMenu
+              nodeId={id}
+              label={displayLabel}
+              isLocked={isLocked}
+              onToggleLock={toggleLock}
+              onOpenRename={() => {
+                setNewLabel(displayLabel);
+                setRenameDialogOpen(true);
+              }}
+            />
+          </div>
+        }
+      >
+        <div className="space-y-4">
+          {/* Text Format */}
+          <div>
+            <label className="text-xs text-foreground/60 mb-1 block">Text output</label>
+            <Select
+              value={data.format}
+              onValueChange={(value) =>
+                updateNodeData<CollectFlowNode>(id, { format: value as CollectFlowNode['data']['format'] })
+              }
+            >
+              <SelectTrigger className="nodrag w-full bg-muted/40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="lines">One item per line</SelectItem>
+                <SelectItem value="json">JSON array</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Result */}
+          {data.items && (
+            <div>
+              <label className="text-xs text-foreground/60 mb-1 block">
+                {data.items.length} {data.items.length === 1 ? 'item' : 'items'} collected
+              </label>
+              <Textarea
+                value={data.output ?? ''}
+                readOnly
+                className="nodrag min-h-20 resize-y bg-muted/40 text-sm"
+              />
+            </div>
+          )}
+        </div>
+      </NodeShell>
+
+      <RenameDialog
+        open={renameDialogOpen}
+        onOpenChange={setRenameDialogOpen}
+        value={newLabel}
+        onChange={setNewLabel}
+        onSubmit={handleRename}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,561 @@
+'use client';
+
+import * as React from 'react';
+import { Position, useUpdateNodeInternals, type NodeProps } from '@xyflow/react';
+import { cn } from '@/lib/utils';
+import { useWorkflowStore, type WorkflowState } from '@/stores/workflowStore';
+import { gatherNodeInputs, resolveNodeExecution } from '@/lib/nodeExecutor';
+import { createCompositeLayer, getCompositeLayerHandle } from '@/lib/compositeLayers';
+import {
+  type CompositeFlowNode,
+  type CompositeFont,
+  type CompositeLayer,
+  type CompositeLayerType,
+  COMPOSITE_FONTS,
+  COMPOSITE_HANDLES,
+  MAX_COMPOSITE_LAYERS,
+} from '@/types/workflow.types';
+import { useNodeRunResult } from '@/hooks/useNodeRun';
+import type { compositeImageTask } from '@/trigger/compositeImageTask';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ImageIcon, Layers, Loader2, Lock, Play, Trash2, Type, X } from 'lucide-react';
+
+import {
+  NodeShell,
+  HandleWithLabel,
+  RenameDialog,
+  RunSettingsDialog,
+  NodeDropdownMenu,
+} from '../primitives';
+
+// Types for Trigger.dev task API
+interface TriggerTaskResponse {
+  success: boolean;
+  runId: string;
+  publicAccessToken?: string;
+  error?: string;
+}
+
+const ALIGN_X: { value: CompositeLayer['alignX']; label: string }[] = [
+  { value: 'left', label: 'Left' },
+  { value: 'center', label: 'Center' },
+  { value: 'right', label: 'Right' },
+];
+
+const ALIGN_Y: { value: CompositeLayer['alignY']; label: string }[] = [
+  { value: 'top', label: 'Top' },
+  { value: 'middle', label: 'Middle' },
+  { value: 'bottom', label: 'Bottom' },
+];
+
+/** Percentage settings of a layer, with their input range */
+const PERCENT_FIELDS: { key: 'offsetX' | 'offsetY' | 'scale' | 'opacity'; label: string; min: number }[] = [
+  { key: 'offsetX', label: 'Offset X %', min: 0 },
+  { key: 'offsetY', label: 'Offset Y %', min: 0 },
+  { key: 'scale', label: 'Size %', min: 1 },
+  { key: 'opacity', label: 'Opacity %', min: 0 },
+];
+
+/**
+ * CompositeNode Component
+ *
+ * A node for drawing text and logos over an image via Trigger.dev (FFmpeg).
+ * Features:
+ * - Input handle for the base image, plus one per layer (text or image)
+ * - Text layers with font, weight and colour; image layers from a URL or connection
+ * - Per-layer alignment, offset, size and opacity
+ * - Output handle with the composited image
+ * - Pulsating glow when processing
+ */
+export function CompositeNode({ id, data, selected }: NodeProps<CompositeFlowNode>) {
+  const updateNodeData = useWorkflowStore((s: WorkflowState) => s.updateNodeData);
+  const addTask = useWorkflowStore((s: WorkflowState) => s.addTask);
+  const updateTask = useWorkflowStore((s: WorkflowState) => s.updateTask);
+  const edges = useWorkflowStore((s: WorkflowState) => s.edges);
+  const nodes = useWorkflowStore((s: WorkflowState) => s.nodes);
+  const onEdgesChange = useWorkflowStore((s: WorkflowState) => s.onEdgesChange);
+  const updateNodeInternals = useUpdateNodeInternals();
+  // Workflow history functions
+  const workflowId = useWorkflowStore((s: WorkflowState) => s.workflowId);
+  const startRun = useWorkflowStore((s: WorkflowState) => s.startRun);
+  const addNodeToRun = useWorkflowStore((s: WorkflowState) => s.addNodeToRun);
+  const completeNodeRun = useWorkflowStore((s: WorkflowState) => s.completeNodeRun);
+  const completeRun = useWorkflowStore((s: WorkflowState) => s.completeRun);
+  // Realtime subscription to this node's Trigger.dev run
+  const { waitForRun } = useNodeRunResult<typeof compositeImageTask>();
+
+  const [renameDialogOpen, setRenameDialogOpen] = React.useState(false);
+  const [runSettingsOpen, setRunSettingsOpen] = React.useState(false);
+  const [newLabel, setNewLabel] = React.useState(data.label || 'Composite');
+
+  const displayLabel = data.label || 'Composite';
+  const isLocked = data.isLocked || false;
+  const isProcessing = data.isProcessing || false;
+  const layers = data.layers;
+
+  // Preview of the connected base image
+  const baseImageUrl = React.useMemo(() => {
+    const baseEdge = edges.find((e) => e.target === id && e.targetHandle === COMPOSITE_HANDLES.BASE_IMAGE);
+    if (!baseEdge) return undefined;
+    const imageUrl = gatherNodeInputs(id, nodes, edges)[`source_${baseEdge.source}_imageUrl`];
+    return typeof imageUrl === 'string' ? imageUrl : undefined;
+  }, [edges, nodes, id]);
+
+  const connectedHandles = React.useMemo(
+    () => new Set(edges.filter((e) => e.target === id).map((e) => e.targetHandle)),
+    [edges, id]
+  );
+
+  // Input handles follow the layers, so React Flow must re-measure them
+  const layerKey = layers.map((layer) => getCompositeLayerHandle(layer)).join('|');
+  React.useEffect(() => {
+    updateNodeInternals(id);
+  }, [layerKey, id, updateNodeInternals]);
+
+  const handleRename = () => {
+    if (newLabel.trim()) {
+      updateNodeData<CompositeFlowNode>(id, { label: newLabel.trim() });
+    }
+    setRenameDialogOpen(false);
+  };
+
+  const toggleLock = () => {
+    updateNodeData<CompositeFlowNode>(id, { isLocked: !isLocked });
+  };
+
+  const updateLayer = (layerId: string, updates: Partial<CompositeLayer>) => {
+    updateNodeData<CompositeFlowNode>(id, {
+      layers: layers.map((layer) => (layer.id === layerId ? { ...layer, ...updates } : layer)),
+    });
+  };
+
+  const addLayer = (type: CompositeLayerType) => {
+    const number = Math.max(0, ...layers.map((layer) => Number(layer.id.replace('layer_', '')) || 0)) + 1;
+    updateNodeData<CompositeFlowNode>(id, { layers: [...layers, createCompositeLayer(type, `layer_${number}`)] });
+  };
+
+  const removeLayer = (layer: CompositeLayer) => {
+    updateNodeData<CompositeFlowNode>(id, { layers: layers.filter((l) => l.id !== layer.id) });
+    // Drop the removed layer's edges, so a layer added later doesn't inherit them
+    const handle = getCompositeLayerHandle(layer);
+    onEdgesChange(
+      edges
+        .filter((e) => e.target === id && e.targetHandle === handle)
+        .map((e) => ({ type: 'remove' as const, id: e.id }))
+    );
+  };
+
+  const handleComposite = async () => {
+    updateNodeData<CompositeFlowNode>(id, { isProcessing: true, error: undefined });
+
+    const taskId = addTask(id, displayLabel);
+
+    // Start workflow history run for this individual node
+    let runId: string | null = null;
+    let nodeRunId: string | null = null;
+
+    if (workflowId) {
+      runId = await startRun(workflowId, 'single', [id]);
+    }
+
+    try {
+      // Resolve the base image and layer inputs from connected nodes, as a workflow run would
+      const { nodes: currentNodes, edges: currentEdges } = useWorkflowStore.getState();
+      const node = currentNodes.find((n) => n.id === id);
+      if (!node) {
+        throw new Error('Composite node not found');
+      }
+      const execution = resolveNodeExecution(node, currentNodes, currentEdges, undefined, { force: true });
+      const payload = execution.kind === 'task' ? execution.payload : undefined;
+
+      // Record node run to history BEFORE validation to capture errors
+      if (runId) {
+        nodeRunId = await addNodeToRun(runId, id, displayLabel, 'composite', payload ?? {
+          baseImageUrl: baseImageUrl ?? '(not connected)',
+          layers,
+        });
+      }
+
+      if (execution.kind === 'invalid') {
+        throw new Error(execution.error);
+      }
+
+      // Trigger the Trigger.dev task
+      const triggerResponse = await fetch('/api/trigger', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ taskType: 'composite-image', payload }),
+      });
+
+      const triggerResult: TriggerTaskResponse = await triggerResponse.json();
+
+      if (!triggerResult.success || !triggerResult.runId || !triggerResult.publicAccessToken) {
+        throw new Error(triggerResult.error || 'Failed to trigger composite task');
+      }
+
+      // Lets the task manager cancel this run
+      updateTask(taskId, { triggerRunId: triggerResult.runId });
+
+      // Wait for completion via Realtime
+      const runResult = await waitForRun(triggerResult.runId, triggerResult.publicAccessToken);
+
+      if (runResult.isCancelled) {
+        updateNodeData<CompositeFlowNode>(id, { isProcessing: false });
+        updateTask(taskId, { status: 'cancelled', completedAt: new Date() });
+        if (nodeRunId) {
+          await completeNodeRun(nodeRunId, 'cancelled');
+        }
+        if (runId) {
+          await completeRun(runId, 'cancelled');
+        }
+        return;
+      }
+
+      if (runResult.isFailed) {
+        throw new Error(runResult.error || 'Composite task failed');
+      }
+
+      const compositeImageUrl = runResult.output?.compositeImageUrl;
+
+      updateNodeData<CompositeFlowNode>(id, {
+        outputImageUrl: compositeImageUrl,
+        isProcessing: false,
+        error: undefined,
+      });
+
+      updateTask(taskId, { status: 'completed', completedAt: new Date() });
+
+      // Complete node run and workflow run in history
+      if (nodeRunId) {
+        await completeNodeRun(nodeRunId, 'completed', { compositeImageUrl });
+      }
+      if (runId) {
+        await completeRun(runId, 'completed');
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const safeError = message && message !== '[object Object]' ? message : 'Task failed. See Trigger.dev dashboard for details.';
+
+      updateNodeData<CompositeFlowNode>(id, {
+        isProcessing: false,
+        error: safeError,
+      });
+
+      updateTask(taskId, {
+        status: 'failed',
+        completedAt: new Date(),
+        error: safeError,
+      });
+
+      // Record failure in history
+      if (nodeRunId) {
+        await completeNodeRun(nodeRunId, 'failed', undefined, safeError);
+      }
+      if (runId) {
+        await completeRun(runId, 'failed');
+      }
+    }
+  };
+
+  return (
+    <div className={cn("relative group/node", isProcessing && "node-processing-glow rounded-xl")}>
+      {/* Input Handles: base image, then one per layer */}
+      <div className="absolute left-0 top-0 h-full flex flex-col justify-center gap-8" style={{ transform: 'translateX(-6px)' }}>
+        <HandleWithLabel
+          type="target"
+          position={Position.Left}
+          id={COMPOSITE_HANDLES.BASE_IMAGE}
+          nodeId={id}
+          label="base_image*"
+          color="cyan"
+          style={{ position: 'relative', top: 0 }}
+        />
+        {layers.map((layer, index) => (
+          <HandleWithLabel
+            key={layer.id}
+            type="target"
+            position={Position.Left}
+            id={getCompositeLayerHandle(layer)}
+            nodeId={id}
+            label={`layer_${index + 1}_${layer.type}`}
+            color={layer.type === 'text' ? 'magenta' : 'cyan'}
+            style={{ position: 'relative', top: 0 }}
+          />
+        ))}
+      </div>
+
+      {/* Output Handle */}
+      <div className="absolute right-0 top-1/2 -translate-y-1/2" style={{ transform: 'translate(6px, -50%)' }}>
+        <HandleWithLabel
+          type="source"
+          position={Position.Right}
+          id={COMPOSITE_HANDLES.OUTPUT}
+          nodeId={id}
+          label="File"
+          color="green"
+        />
+      </div>
+
+      <NodeShell
+        title={displayLabel}
+        icon={<Layers className="h-4 w-4" />}
+        selected={selected}
+        className="w-90"
+        right={
+          <div className="flex items-center gap-1">
+            {isLocked && <Lock className="h-4 w-4 text-foreground/50" />}
+            <NodeDropdownMenu
+              nodeId={id}
+              label={displayLabel}
+              isLocked={isLocked}
+              onToggleLock={toggleLock}
+              onOpenRename={() => {
+                setNewLabel(displayLabel);
+                setRenameDialogOpen(true);
+              }}
+              onOpenRunSettings={() => setRunSettingsOpen(true)}
+            />
+          </div>
+        }
+      >
+        <div className="space-y-4">
+          {/* Base Image Preview */}
+          <div>
+            <label className="text-xs text-foreground/60 mb-1 block">Base Image</label>
+            {baseImageUrl ? (
+              <div className="rounded-lg overflow-hidden bg-muted/40">
+                <img src={baseImageUrl} alt="Base Preview" className="w-full max-h-37.5 object-contain" />
+              </div>
+            ) : (
+              <div className="rounded-lg bg-muted/20 p-4 text-center text-sm text-foreground/50">
+                Connect an image source
+              </div>
+            )}
+          </div>
+
+          {/* Layers, bottom to top */}
+          <div className="space-y-3">
+            {layers.map((layer, index) => {
+              const isConnected = connectedHandles.has(getCompositeLayerHandle(layer));
+              return (
+                <div key={layer.id} className="space-y-2 rounded-lg bg-muted/20 p-2">
+                  <div className="flex items-center gap-2">
+                    {layer.type === 'text' ? <Type className="h-3.5 w-3.5" /> : <ImageIcon className="h-3.5 w-3.5" />}
+                    <span className="flex-1 text-xs text-foreground/60">
+                      Layer {index + 1} · {layer.type === 'text' ? 'Text' : 'Image'}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => removeLayer(layer)}
+                      className="nodrag h-7 w-7 shrink-0"
+                      title="Remove layer"
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+
+                  {layer.type === 'text' ? (
+                    <>
+                      <Textarea
+                        value={isConnected ? '' : (layer.text ?? '')}
+                        onChange={(e) => updateLayer(layer.id, { text: e.target.value })}
+                        placeholder={isConnected ? 'From connection' : 'Headline or watermark text...'}
+                        className={cn(
+                          'nodrag min-h-10 resize-y bg-muted/40 text-sm',
+                          isConnected && 'cursor-not-allowed opacity-60'
+                        )}
+                        disabled={isConnected}
+                      />
+                      <div className="flex items-center gap-2">
+                        <Select
+                          value={layer.font ?? 'sans'}
+                          onValueChange={(value) => updateLayer(layer.id, { font: value as CompositeFont })}
+                        >
+                          <SelectTrigger className="nodrag h-8 flex-1 bg-muted/40 text-xs">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {COMPOSITE_FONTS.map((font) => (
+                              <SelectItem key={font.value} value={font.value}>
+                                {font.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <label className="flex items-center gap-2 text-xs text-foreground/60">
+                          <Switch
+                            checked={!!layer.bold}
+                            onCheckedChange={(checked) => updateLayer(layer.id, { bold: checked })}
+                            className="nodrag"
+                          />
+                          Bold
+                        </label>
+                        <input
+                          type="color"
+                          value={layer.color ?? '#ffffff'}
+                          onChange={(e) => updateLayer(layer.id, { color: e.target.value })}
+                          className="nodrag h-8 w-8 shrink-0 cursor-pointer rounded bg-transparent"
+                          title="Text colour"
+                        />
+                      </div>
+                    </>
+                  ) : (
+                    <Input
+                      value={isConnected ? '' : (layer.imageUrl ?? '')}
+                      onChange={(e) => updateLayer(layer.id, { imageUrl: e.target.value.trim() || undefined })}
+                      placeholder={isConnected ? 'From connection' : 'Logo URL, or connect an image'}
+                      className={cn('nodrag h-8 bg-muted/40 text-xs', isConnected && 'cursor-not-allowed opacity-60')}
+                      disabled={isConnected}
+                    />
+                  )}
+
+                  {/* Alignment */}
+                  <div className="flex items-center gap-2">
+                    <Select
+                      value={layer.alignX}
+                      onValueChange={(value) => updateLayer(layer.id, { alignX: value as CompositeLayer['alignX'] })}
+                    >
+                      <SelectTrigger className="nodrag h-8 flex-1 bg-muted/40 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ALIGN_X.map((align) => (
+                          <SelectItem key={align.value} value={align.value}>
+                            {align.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select
+                      value={layer.alignY}
+                      onValueChange={(value) => updateLayer(layer.id, { alignY: value as CompositeLayer['alignY'] })}
+                    >
+                      <SelectTrigger className="nodrag h-8 flex-1 bg-muted/40 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ALIGN_Y.map((align) => (
+                          <SelectItem key={align.value} value={align.value}>
+                            {align.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  {/* Offset, size and opacity */}
+                  <div className="grid grid-cols-4 gap-2">
+                    {PERCENT_FIELDS.map((field) => (
+                      <div key={field.key}>
+                        <label className="text-[10px] text-foreground/50 mb-0.5 block">{field.label}</label>
+                        <Input
+                          type="number"
+                          min={field.min}
+                          max={100}
+                          value={layer[field.key]}
+                          onChange={(e) => {
+                            const value = parseFloat(e.target.value);
+                            if (Number.isFinite(value)) {
+                              updateLayer(layer.id, { [field.key]: Math.min(Math.max(value, field.min), 100) });
+                            }
+                          }}
+                          className="nodrag h-7 bg-muted/40 px-1.5 text-xs"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+
+            {layers.length < MAX_COMPOSITE_LAYERS && (
+              <div className="flex gap-2">
+                <Button variant="ghost" size="sm" onClick={() => addLayer('text')} className="nodrag flex-1 text-xs">
+                  <Type className="mr-1 h-3.5 w-3.5" />
+                  Add text
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => addLayer('image')} className="nodrag flex-1 text-xs">
+                  <ImageIcon className="mr-1 h-3.5 w-3.5" />
+                  Add image
+                </Button>
+              </div>
+            )}
+          </div>
+
+          {/* Error Display */}
+          {data.error && (
+            <div
+              className={cn(
+                'rounded-lg p-3 text-sm',
+                'bg-red-500/10 text-red-400 border border-red-500/30'
+              )}
+            >
+              <div className="flex items-start gap-2">
+                <X className="h-4 w-4 mt-0.5 shrink-0" />
+                <span>{typeof data.error === 'string' ? data.error : String(data.error)}</span>
+              </div>
+            </div>
+          )}
+
+          {/* Composite Button */}
+          <Button
+            onClick={handleComposite}
+            disabled={isProcessing || !baseImageUrl || layers.length === 0}
+            className="w-full bg-black hover:bg-black/90 text-white"
+          >
+            {isProcessing ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Processing...
+              </>
+            ) : (
+              <>
+                <Play className="mr-2 h-4 w-4" />
+                Composite
+              </>
+            )}
+          </Button>
+
+          {/* Output Image Preview */}
+          {data.outputImageUrl && (
+            <div>
+              <label className="text-xs text-foreground/60 mb-1 block">Output Preview</label>
+              <div className="rounded-lg overflow-hidden bg-muted/40">
+                <img src={data.outputImageUrl} alt="Composite Output" className="w-full max-h-37.5 object-contain" />
+              </div>
+            </div>
+          )}
+        </div>
+      </NodeShell>
+
+      <RenameDialog
+        open={renameDialogOpen}
+        onOpenChange={setRenameDialogOpen}
+        value={newLabel}
+        onChange={setNewLabel}
+        onSubmit={handleRename}
+      />
+
+      <RunSettingsDialog
+        open={runSettingsOpen}
+        onOpenChange={setRunSettingsOpen}
+        value={data.execution}
+        onSubmit={(execution) => {
+          updateNodeData<CompositeFlowNode>(id, { execution });
+          setRunSettingsOpen(false);
+        }}
+      />
+    </div>
+  );
+}
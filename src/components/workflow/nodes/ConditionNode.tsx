@@ -0,0 +1,364 @@
+'use client';
+
+import * as React from 'react';
+import { Position, useUpdateNodeInternals, type NodeProps } from '@xyflow/react';
+import { cn } from '@/lib/utils';
+import { useWorkflowStore, type WorkflowState } from '@/stores/workflowStore';
+import {
+  type ConditionFlowNode,
+  type ConditionOperator,
+  type ConditionRule,
+  type JsonPathComparison,
+  CONDITION_HANDLES,
+} from '@/types/workflow.types';
+import { getConditionBranches, MAX_REGEX_PATTERN_LENGTH } from '@/lib/conditionEvaluator';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { GitBranch, Lock, Plus, Trash2 } from 'lucide-react';
+
+import {
+  NodeShell,
+  HandleWithLabel,
+  RenameDialog,
+  RunSettingsDialog,
+  NodeDropdownMenu,
+  ModelSelect,
+} from '../primitives';
+
+const OPERATORS: { value: ConditionOperator; label: string }[] = [
+  { value: 'contains', label: 'Contains' },
+  { value: 'equals', label: 'Equals' },
+  { value: 'regex', label: 'Matches regex' },
+  { value: 'json-path', label: 'JSON path' },
+  { value: 'llm', label: 'Ask the LLM (yes/no)' },
+];
+
+const JSON_PATH_COMPARISONS: { value: JsonPathComparison; label: string }[] = [
+  { value: 'equals', label: '=' },
+  { value: 'not-equals', label: '≠' },
+  { value: 'contains', label: 'contains' },
+  { value: 'greater-than', label: '>' },
+  { value: 'less-than', label: '<' },
+  { value: 'exists', label: 'exists' },
+];
+
+const VALUE_PLACEHOLDERS: Record<ConditionOperator, string> = {
+  contains: 'Text to look for',
+  equals: 'Expected text',
+  regex: 'Pattern, e.g. ^error',
+  'json-path': 'Value to compare with',
+  llm: 'Question, e.g. Is this a complaint?',
+};
+
+/**
+ * ConditionNode Component
+ *
+ * Routes its text input down one branch of a workflow run.
+ * Features:
+ * - If mode: tests one rule, outputs on 'true' or 'false'
+ * - Switch mode: one output per rule (first match wins) plus 'default'
+ * - Rules: contains, equals, regex, JSON path comparison, LLM yes/no question
+ * - Nodes on the branches not taken are skipped
+ */
+export function ConditionNode({ id, data, selected }: NodeProps<ConditionFlowNode>) {
+  const updateNodeData = useWorkflowStore((s: WorkflowState) => s.updateNodeData);
+  const edges = useWorkflowStore((s: WorkflowState) => s.edges);
+  const onEdgesChange = useWorkflowStore((s: WorkflowState) => s.onEdgesChange);
+  const updateNodeInternals = useUpdateNodeInternals();
+
+  const [renameDialogOpen, setRenameDialogOpen] = React.useState(false);
+  const [runSettingsOpen, setRunSettingsOpen] = React.useState(false);
+  const [newLabel, setNewLabel] = React.useState(data.label || 'Condition');
+
+  const displayLabel = data.label || 'Condition';
+  const isLocked = data.isLocked || false;
+  const isProcessing = data.isProcessing || false;
+  const rules = data.rules || [];
+  const visibleRules = data.mode === 'if' ? rules.slice(0, 1) : rules;
+  const branches = getConditionBranches({ mode: data.mode, rules });
+  const usesLLM = visibleRules.some((rule) => rule.operator === 'llm');
+
+  const hasInputConnection = edges.some(
+    (e) => e.target === id && e.targetHandle === CONDITION_HANDLES.INPUT
+  );
+
+  // Output handles follow the mode and rules, so React Flow must re-measure them
+  const branchKey = branches.map((branch) => branch.handle).join('|');
+  React.useEffect(() => {
+    updateNodeInternals(id);
+  }, [branchKey, id, updateNodeInternals]);
+
+  const handleRename = () => {
+    if (newLabel.trim()) {
+      updateNodeData<ConditionFlowNode>(id, { label: newLabel.trim() });
+    }
+    setRenameDialogOpen(false);
+  };
+
+  const toggleLock = () => {
+    updateNodeData<ConditionFlowNode>(id, { isLocked: !isLocked });
+  };
+
+  const updateRule = (ruleId: string, updates: Partial<ConditionRule>) => {
+    updateNodeData<ConditionFlowNode>(id, {
+      rules: rules.map((rule) => (rule.id === ruleId ? { ...rule, ...updates } : rule)),
+    });
+  };
+
+  const addRule = () => {
+    const number = Math.max(0, ...rules.map((rule) => Number(rule.id.replace('rule_', '')) || 0)) + 1;
+    updateNodeData<ConditionFlowNode>(id, {
+      rules: [
+        ...rules,
+        { id: `rule_${number}`, label: `Rule ${number}`, operator: 'contains', value: '' },
+      ],
+    });
+  };
+
+  const removeRule = (ruleId: string) => {
+    updateNodeData<ConditionFlowNode>(id, { rules: rules.filter((rule) => rule.id !== ruleId) });
+    // Drop the removed branch's edges, so a rule added later doesn't inherit them
+    onEdgesChange(
+      edges
+        .filter((e) => e.source === id && e.sourceHandle === ruleId)
+        .map((e) => ({ type: 'remove' as const, id: e.id }))
+    );
+  };
+
+  return (
+    <div className={cn('relative group/node', isProcessing && 'node-processing-glow rounded-xl')}>
+      {/* Input Handle */}
+      <div className="absolute left-0 top-1/2 -translate-y-1/2" style={{ transform: 'translate(-6px, -50%)' }}>
+        <HandleWithLabel
+          type="target"
+          position={Position.Left}
+          id={CONDITION_HANDLES.INPUT}
+          nodeId={id}
+          label="input"
+          color="magenta"
+        />
+      </div>
+
+      {/* Branch Output Handles */}
+      <div className="absolute right-0 top-0 h-full flex flex-col justify-center gap-8" style={{ transform: 'translateX(6px)' }}>
+        {branches.map((branch) => (
+          <HandleWithLabel
+            key={branch.handle}
+            type="source"
+            position={Position.Right}
+            id={branch.handle}
+            nodeId={id}
+            label={branch.label}
+            color="green"
+            style={{ position: 'relative', top: 0 }}
+          />
+        ))}
+      </div>
+
+      <NodeShell
+        title={displayLabel}
+        icon={<GitBranch className="h-4 w-4" />}
+        selected={selected}
+        className="w-90"
+        right={
+          <div className="flex items-center gap-1">
+            {isLocked && <Lock className="h-4 w-4 text-foreground/50" />}
+            <NodeDropdownMenu
+              nodeId={id}
+              label={displayLabel}
+              isLocked={isLocked}
+              onToggleLock={toggleLock}
+              onOpenRename={() => {
+                setNewLabel(displayLabel);
+                setRenameDialogOpen(true);
+              }}
+              onOpenRunSettings={() => setRunSettingsOpen(true)}
+            />
+          </div>
+        }
+      >
+        <div className="space-y-4">
+          {/* Mode Selector */}
+          <div>
+            <label className="text-xs text-foreground/60 mb-1 block">Mode</label>
+            <Select
+              value={data.mode}
+              onValueChange={(value) =>
+                updateNodeData<ConditionFlowNode>(id, { mode: value as ConditionFlowNode['data']['mode'] })
+              }
+            >
+              <SelectTrigger className="nodrag w-full bg-muted/40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="if">If / else</SelectItem>
+                <SelectItem value="switch">Switch (first matching rule)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Input: manual entry, disabled when connected */}
+          <div>
+            <label className="text-xs text-foreground/60 mb-1 block">Input</label>
+            <Textarea
+              value={hasInputConnection ? '' : (data.inputText ?? '')}
+              onChange={(e) => updateNodeData<ConditionFlowNode>(id, { inputText: e.target.value })}
+              placeholder={hasInputConnection ? 'From connection' : 'Text to test, or connect a Text / LLM node...'}
+              className={cn(
+                'nodrag min-h-14 resize-y bg-muted/40 text-sm',
+                hasInputConnection && 'cursor-not-allowed opacity-60'
+              )}
+              disabled={hasInputConnection}
+            />
+          </div>
+
+          {/* Rules */}
+          <div className="space-y-3">
+            {visibleRules.map((rule) => (
+              <div key={rule.id} className="space-y-2 rounded-lg bg-muted/20 p-2">
+                <div className="flex items-center gap-2">
+                  {data.mode === 'switch' && (
+                    <Input
+                      value={rule.label}
+                      onChange={(e) => updateRule(rule.id, { label: e.target.value })}
+                      placeholder="Branch name"
+                      className="nodrag h-8 flex-1 bg-muted/40 text-xs"
+                    />
+                  )}
+                  <Select
+                    value={rule.operator}
+                    onValueChange={(value) => updateRule(rule.id, { operator: value as ConditionOperator })}
+                  >
+                    <SelectTrigger className="nodrag h-8 flex-1 bg-muted/40 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {OPERATORS.map((operator) => (
+                        <SelectItem key={operator.value} value={operator.value}>
+                          {operator.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {data.mode === 'switch' && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => removeRule(rule.id)}
+                      className="nodrag h-8 w-8 shrink-0"
+                      title="Remove rule"
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  )}
+                </div>
+
+                {rule.operator === 'json-path' && (
+                  <div className="flex items-center gap-2">
+                    <Input
+                      value={rule.path ?? ''}
+                      onChange={(e) => updateRule(rule.id, { path: e.target.value })}
+                      placeholder="$.status"
+                      className="nodrag h-8 flex-1 bg-muted/40 font-mono text-xs"
+                    />
+                    <Select
+                      value={rule.comparison ?? 'equals'}
+                      onValueChange={(value) => updateRule(rule.id, { comparison: value as JsonPathComparison })}
+                    >
+                      <SelectTrigger className="nodrag h-8 w-24 bg-muted/40 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {JSON_PATH_COMPARISONS.map((comparison) => (
+                          <SelectItem key={comparison.value} value={comparison.value}>
+                            {comparison.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
+                {!(rule.operator === 'json-path' && rule.comparison === 'exists') && (
+                  <Input
+                    value={rule.value}
+                    onChange={(e) => updateRule(rule.id, { value: e.target.value })}
+                    placeholder={VALUE_PLACEHOLDERS[rule.operator]}
+                    maxLength={rule.operator === 'regex' ? MAX_REGEX_PATTERN_LENGTH : undefined}
+                    className="nodrag h-8 bg-muted/40 text-xs"
+                  />
+                )}
+
+                {rule.operator !== 'llm' && (
+                  <label className="nodrag flex items-center gap-2 text-xs text-foreground/60">
+                    <input
+                      type="checkbox"
+                      checked={rule.caseSensitive ?? false}
+                      onChange={(e) => updateRule(rule.id, { caseSensitive: e.target.checked })}
+                    />
+                    Case sensitive
+                  </label>
+                )}
+              </div>
+            ))}
+
+            {data.mode === 'switch' && (
+              <Button variant="ghost" size="sm" onClick={addRule} className="nodrag w-full text-xs">
+                <Plus className="mr-1 h-3.5 w-3.5" />
+                Add rule
+              </Button>
+            )}
+          </div>
+
+          {/* Model for LLM rules */}
+          {usesLLM && (
+            <div>
+              <label className="text-xs text-foreground/60 mb-1 block">Model</label>
+              <ModelSelect
+                provider={data.provider}
+                model={data.model}
+                onChange={(value) => updateNodeData<ConditionFlowNode>(id, value)}
+              />
+            </div>
+          )}
+
+          {/* Last Result */}
+          {data.matchedBranch && (
+            <div className="text-xs text-foreground/60">
+              Last run took{' '}
+              <span className="font-medium text-foreground">
+                {branches.find((branch) => branch.handle === data.matchedBranch)?.label ?? data.matchedBranch}
+              </span>
+            </div>
+          )}
+        </div>
+      </NodeShell>
+
+      <RenameDialog
+        open={renameDialogOpen}
+        onOpenChange={setRenameDialogOpen}
+        value={newLabel}
+        onChange={setNewLabel}
+        onSubmit={handleRename}
+      />
+
+      <RunSettingsDialog
+        open={runSettingsOpen}
+        onOpenChange={setRunSettingsOpen}
+        value={data.execution}
+        onSubmit={(execution) => {
+          updateNodeData<ConditionFlowNode>(id, { execution });
+          setRunSettingsOpen(false);
+        }}
+      />
+    </div>
+  );
+}
@@ -5,6 +5,8 @@ import { Position, type NodeProps } from '@xyflow/react';
 import { cn } from '@/lib/utils';
 import { useWorkflowStore, type WorkflowState } from '@/stores/workflowStore';
 import { type CropImageFlowNode, CROP_IMAGE_HANDLES } from '@/types/workflow.types';
+import { useNodeRunResult } from '@/hooks/useNodeRun';
+import type { cropImageTask } from '@/trigger/cropImageTask';
 import {
     Crop,
     Lock,
@@ -24,6 +26,7 @@ import {
     NodeShell,
     HandleWithLabel,
     RenameDialog,
+    RunSettingsDialog,
     NodeDropdownMenu,
 } from '../primitives';
 
@@ -35,15 +38,6 @@ interface TriggerTaskResponse {
     error?: string;
 }
 
-interface TriggerPollResponse {
-    runId: string;
-    status: string;
-    output?: { croppedImageUrl: string };
-    error?: string | Record<string, unknown>;
-    isCompleted: boolean;
-    isFailed: boolean;
-}
-
 /** Normalize API error (string or object) to a string for Error(). Never throws. */
 function toErrorMessage(err: string | Record<string, unknown> | undefined): string {
     try {
@@ -96,8 +90,11 @@ export function CropImageNode({ id, data, selected }: NodeProps<CropImageFlowNod
     const addNodeToRun = useWorkflowStore((s: WorkflowState) => s.addNodeToRun);
     const completeNodeRun = useWorkflowStore((s: WorkflowState) => s.completeNodeRun);
     const completeRun = useWorkflowStore((s: WorkflowState) => s.completeRun);
+    // Realtime subscription to this node's Trigger.dev run
+    const { waitForRun } = useNodeRunResult<typeof cropImageTask>();
 
     const [renameDialogOpen, setRenameDialogOpen] = React.useState(false);
+    const [runSettingsOpen, setRunSettingsOpen] = React.useState(false);
     const [newLabel, setNewLabel] = React.useState(data.label || 'Crop');
     const [localDimensions, setLocalDimensions] = React.useState({ width: 0, height: 0 });
 
@@ -122,11 +119,18 @@ export function CropImageNode({ id, data, selected }: NodeProps<CropImageFlowNod
             const imageData = sourceNode.data as { images?: { imageUrl: string }[] };
             return imageData.images?.[0]?.imageUrl || null;
         }
+        if (sourceNode.type === 'generateImage') {
+            return sourceNode.data.outputImageUrls?.[0] || null;
+        }
         if (sourceNode.type === 'extractFrame') {
             const frameData = sourceNode.data as { outputFrameUrl?: string };
             return frameData.outputFrameUrl || null;
         }
-        if (sourceNode.type === 'cropImage') {
+        if (
+            sourceNode.type === 'cropImage' ||
+            sourceNode.type === 'transformImage' ||
+            sourceNode.type === 'composite'
+        ) {
             const cropData = sourceNode.data as { outputImageUrl?: string };
             return cropData.outputImageUrl || null;
         }
@@ -197,25 +201,6 @@ export function CropImageNode({ id, data, selected }: NodeProps<CropImageFlowNod
         });
     };
 
-    // Poll for task completion
-    const pollTaskResult = async (runId: string): Promise<TriggerPollResponse> => {
-        const maxAttempts = 180; // 3 minutes max
-        const intervalMs = 1000;
-
-        for (let attempt = 0; attempt < maxAttempts; attempt++) {
-            const response = await fetch(`/api/trigger?runId=${runId}`);
-            const result: TriggerPollResponse = await response.json();
-
-            if (result.isCompleted || result.isFailed) {
-                return result;
-            }
-
-            await new Promise(resolve => setTimeout(resolve, intervalMs));
-        }
-
-        throw new Error('Task timed out');
-    };
-
     const handleCrop = async () => {
         if (!inputImageUrl) return;
 
@@ -261,18 +246,18 @@ export function CropImageNode({ id, data, selected }: NodeProps<CropImageFlowNod
 
             const triggerResult: TriggerTaskResponse = await triggerResponse.json();
 
-            if (!triggerResult.success || !triggerResult.runId) {
+            if (!triggerResult.success || !triggerResult.runId || !triggerResult.publicAccessToken) {
                 throw new Error(safeErrorMessage(triggerResult.error, 'Failed to trigger crop task'));
             }
 
-            // Poll for completion
-            const pollResult = await pollTaskResult(triggerResult.runId);
+            // Wait for completion via Realtime
+            const runResult = await waitForRun(triggerResult.runId, triggerResult.publicAccessToken);
 
-            if (pollResult.isFailed) {
-                throw new Error(safeErrorMessage(pollResult.error, 'Crop task failed'));
+            if (runResult.isFailed) {
+                throw new Error(safeErrorMessage(runResult.error, 'Crop task failed'));
             }
 
-            const croppedUrl = pollResult.output?.croppedImageUrl;
+            const croppedUrl = runResult.output?.croppedImageUrl;
 
             if (croppedUrl) {
                 updateNodeData<CropImageFlowNode>(id, {
@@ -361,6 +346,7 @@ export function CropImageNode({ id, data, selected }: NodeProps<CropImageFlowNod
                                 setNewLabel(displayLabel);
                                 setRenameDialogOpen(true);
                             }}
+                            onOpenRunSettings={() => setRunSettingsOpen(true)}
                         />
                     </div>
                 }
@@ -587,6 +573,16 @@ export function CropImageNode({ id, data, selected }: NodeProps<CropImageFlowNod
                 onChange={setNewLabel}
                 onSubmit={handleRename}
             />
+
+            <RunSettingsDialog
+                open={runSettingsOpen}
+                onOpenChange={setRunSettingsOpen}
+                value={data.execution}
+                onSubmit={(execution) => {
+                    updateNodeData<CropImageFlowNode>(id, { execution });
+                    setRunSettingsOpen(false);
+                }}
+            />
         </div>
     );
 }
@@ -4,7 +4,10 @@ import * as React from 'react';
 import { Position, type NodeProps } from '@xyflow/react';
 import { cn } from '@/lib/utils';
 import { useWorkflowStore, type WorkflowState } from '@/stores/workflowStore';
+import { resolveNodeExecution } from '@/lib/nodeExecutor';
 import { type ExtractFrameFlowNode, EXTRACT_FRAME_HANDLES } from '@/types/workflow.types';
+import { useNodeRunResult } from '@/hooks/useNodeRun';
+import type { extractFrameTask } from '@/trigger/extractFrameTask';
 import {
     Film,
     Lock,
@@ -19,6 +22,7 @@ import {
     NodeShell,
     HandleWithLabel,
     RenameDialog,
+    RunSettingsDialog,
     NodeDropdownMenu,
 } from '../primitives';
 
@@ -30,15 +34,6 @@ interface TriggerTaskResponse {
     error?: string;
 }
 
-interface TriggerPollResponse {
-    runId: string;
-    status: string;
-    output?: { frameImageUrl: string };
-    error?: string | Record<string, unknown>;
-    isCompleted: boolean;
-    isFailed: boolean;
-}
-
 /** Normalize API error (string or object) to a string for Error(). Never throws. */
 function toErrorMessage(err: string | Record<string, unknown> | undefined): string {
     try {
@@ -83,9 +78,12 @@ export function ExtractFrameNode({ id, data, selected }: NodeProps<ExtractFrameF
     const addNodeToRun = useWorkflowStore((s: WorkflowState) => s.addNodeToRun);
     const completeNodeRun = useWorkflowStore((s: WorkflowState) => s.completeNodeRun);
     const completeRun = useWorkflowStore((s: WorkflowState) => s.completeRun);
+    // Realtime subscription to this node's Trigger.dev run
+    const { waitForRun } = useNodeRunResult<typeof extractFrameTask>();
     const videoRef = React.useRef<HTMLVideoElement>(null);
 
     const [renameDialogOpen, setRenameDialogOpen] = React.useState(false);
+    const [runSettingsOpen, setRunSettingsOpen] = React.useState(false);
     const [newLabel, setNewLabel] = React.useState(data.label || 'Extract Video Frame');
     const [currentTime, setCurrentTime] = React.useState(data.timestamp || 0);
     const [duration, setDuration] = React.useState(data.videoDuration || 0);
@@ -118,6 +116,11 @@ export function ExtractFrameNode({ id, data, selected }: NodeProps<ExtractFrameF
             return videoData.videoUrl || null;
         }
 
+        // Handle trim video node
+        if (sourceNode.type === 'trimVideo') {
+            return sourceNode.data.outputVideoUrl || null;
+        }
+
         return null;
     }, [edges, nodes, id]);
 
@@ -177,25 +180,6 @@ export function ExtractFrameNode({ id, data, selected }: NodeProps<ExtractFrameF
         }
     };
 
-    // Poll for task completion
-    const pollTaskResult = async (runId: string): Promise<TriggerPollResponse> => {
-        const maxAttempts = 300; // 5 minutes max
-        const intervalMs = 1000;
-
-        for (let attempt = 0; attempt < maxAttempts; attempt++) {
-            const response = await fetch(`/api/trigger?runId=${runId}`);
-            const result: TriggerPollResponse = await response.json();
-
-            if (result.isCompleted || result.isFailed) {
-                return result;
-            }
-
-            await new Promise(resolve => setTimeout(resolve, intervalMs));
-        }
-
-        throw new Error('Task timed out');
-    };
-
     const handleExtractFrame = async () => {
         if (!inputVideoUrl) return;
 
@@ -209,53 +193,46 @@ export function ExtractFrameNode({ id, data, selected }: NodeProps<ExtractFrameF
             runId = await startRun(workflowId, 'single', [id]);
         }
 
-        // Resolve timestamp: seconds or percentage of duration
-        const durationSec = data.videoDuration ?? duration;
-        const timestampSeconds =
-            data.timestampPercent != null && durationSec > 0
-                ? (durationSec * data.timestampPercent) / 100
-                : (data.timestamp ?? currentTime);
-
         try {
-            // Record node run to history before execution
-            const inputData = {
-                videoUrl: inputVideoUrl,
-                timestamp: timestampSeconds,
-                timestampPercent: data.timestampPercent,
-            };
+            // Resolve the video (e.g. a trim video node's current clip) and timestamp as workflow runs do
+            const { nodes: currentNodes, edges: currentEdges } = useWorkflowStore.getState();
+            const node = currentNodes.find((n) => n.id === id);
+            if (!node) {
+                throw new Error('Extract frame node not found');
+            }
+            const execution = resolveNodeExecution(node, currentNodes, currentEdges, undefined, { force: true });
+            const payload = execution.kind === 'task' ? execution.payload : undefined;
 
+            // Record node run to history before execution
             if (runId) {
-                nodeRunId = await addNodeToRun(runId, id, displayLabel, 'extractFrame', inputData);
+                nodeRunId = await addNodeToRun(runId, id, displayLabel, 'extractFrame', payload ?? { videoUrl: inputVideoUrl });
+            }
+
+            if (execution.kind === 'invalid') {
+                throw new Error(execution.error);
             }
 
             // Trigger the Trigger.dev task (seconds; task may also accept timestampPercent for batch)
             const triggerResponse = await fetch('/api/trigger', {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({
-                    taskType: 'extract-frame',
-                    payload: {
-                        videoUrl: inputVideoUrl,
-                        timestamp: timestampSeconds,
-                        ...(data.timestampPercent != null && { timestampPercent: data.timestampPercent }),
-                    },
-                }),
+                body: JSON.stringify({ taskType: 'extract-frame', payload }),
             });
 
             const triggerResult: TriggerTaskResponse = await triggerResponse.json();
 
-            if (!triggerResult.success || !triggerResult.runId) {
+            if (!triggerResult.success || !triggerResult.runId || !triggerResult.publicAccessToken) {
                 throw new Error(safeErrorMessage(triggerResult.error, 'Failed to trigger extract frame task'));
             }
 
-            // Poll for completion
-            const pollResult = await pollTaskResult(triggerResult.runId);
+            // Wait for completion via Realtime
+            const runResult = await waitForRun(triggerResult.runId, triggerResult.publicAccessToken);
 
-            if (pollResult.isFailed) {
-                throw new Error(safeErrorMessage(pollResult.error, 'Extract frame task failed'));
+            if (runResult.isFailed) {
+                throw new Error(safeErrorMessage(runResult.error, 'Extract frame task failed'));
             }
 
-            const frameUrl = pollResult.output?.frameImageUrl;
+            const frameUrl = runResult.output?.frameImageUrl;
 
             if (frameUrl) {
                 updateNodeData<ExtractFrameFlowNode>(id, {
@@ -424,6 +401,7 @@ export function ExtractFrameNode({ id, data, selected }: NodeProps<ExtractFrameF
                                 setNewLabel(displayLabel);
                                 setRenameDialogOpen(true);
                             }}
+                            onOpenRunSettings={() => setRunSettingsOpen(true)}
                         />
                     </div>
                 }
@@ -596,6 +574,16 @@ export function ExtractFrameNode({ id, data, selected }: NodeProps<ExtractFrameF
                 onChange={setNewLabel}
                 onSubmit={handleRename}
             />
+
+            <RunSettingsDialog
+                open={runSettingsOpen}
+                onOpenChange={setRunSettingsOpen}
+                value={data.execution}
+                onSubmit={(execution) => {
+                    updateNodeData<ExtractFrameFlowNode>(id, { execution });
+                    setRunSettingsOpen(false);
+                }}
+            />
         </div>
     );
 }
@@ -0,0 +1,492 @@
+'use client';
+
+import * as React from 'react';
+import { Position, type NodeProps } from '@xyflow/react';
+import { cn } from '@/lib/utils';
+import { useWorkflowStore, type WorkflowState } from '@/stores/workflowStore';
+import { resolveNodeExecution } from '@/lib/nodeExecutor';
+import {
+  type GenerateImageFlowNode,
+  DEFAULT_IMAGE_PROVIDER,
+  GENERATE_IMAGE_HANDLES,
+  IMAGE_PROVIDERS,
+  MAX_GENERATED_IMAGES,
+} from '@/types/workflow.types';
+import { useNodeRunResult } from '@/hooks/useNodeRun';
+import type { generateImageTask } from '@/trigger/generateImageTask';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ChevronLeft, ChevronRight, ImagePlus, Loader2, Lock, Play, X } from 'lucide-react';
+
+import {
+  NodeShell,
+  HandleWithLabel,
+  RenameDialog,
+  RunSettingsDialog,
+  NodeDropdownMenu,
+  ModelSelect,
+} from '../primitives';
+
+// Types for Trigger.dev task API
+interface TriggerTaskResponse {
+  success: boolean;
+  runId: string;
+  publicAccessToken?: string;
+  error?: string;
+}
+
+const SIZES: { width: number; height: number; label: string }[] = [
+  { width: 1024, height: 1024, label: 'Square 1024×1024' },
+  { width: 1344, height: 768, label: 'Landscape 16:9' },
+  { width: 768, height: 1344, label: 'Portrait 9:16' },
+  { width: 1152, height: 896, label: 'Landscape 4:3' },
+  { width: 896, height: 1152, label: 'Portrait 3:4' },
+  { width: 512, height: 512, label: 'Small 512×512' },
+];
+
+const toSizeValue = (width: number, height: number) => `${width}x${height}`;
+
+/**
+ * GenerateImageNode Component
+ *
+ * A node for generating images via Trigger.dev, on a hosted model or the
+ * local stub provider.
+ * Features:
+ * - Model selector grouped by provider
+ * - Input handles for prompt, negative_prompt and a reference image (image-to-image)
+ * - Size, seed and image count settings
+ * - Output handle with every generated image, browsable in the node
+ * - Pulsating glow when processing
+ */
+export function GenerateImageNode({ id, data, selected }: NodeProps<GenerateImageFlowNode>) {
+  const updateNodeData = useWorkflowStore((s: WorkflowState) => s.updateNodeData);
+  const addTask = useWorkflowStore((s: WorkflowState) => s.addTask);
+  const updateTask = useWorkflowStore((s: WorkflowState) => s.updateTask);
+  const edges = useWorkflowStore((s: WorkflowState) => s.edges);
+  // Workflow history functions
+  const workflowId = useWorkflowStore((s: WorkflowState) => s.workflowId);
+  const startRun = useWorkflowStore((s: WorkflowState) => s.startRun);
+  const addNodeToRun = useWorkflowStore((s: WorkflowState) => s.addNodeToRun);
+  const completeNodeRun = useWorkflowStore((s: WorkflowState) => s.completeNodeRun);
+  const completeRun = useWorkflowStore((s: WorkflowState) => s.completeRun);
+  // Realtime subscription to this node's Trigger.dev run
+  const { waitForRun } = useNodeRunResult<typeof generateImageTask>();
+
+  const [renameDialogOpen, setRenameDialogOpen] = React.useState(false);
+  const [runSettingsOpen, setRunSettingsOpen] = React.useState(false);
+  const [newLabel, setNewLabel] = React.useState(data.label || 'Generate Image');
+
+  const displayLabel = data.label || 'Generate Image';
+  const isLocked = data.isLocked || false;
+  const isProcessing = data.isProcessing || false;
+  const imageUrls = data.outputImageUrls ?? [];
+  const currentIndex = Math.min(data.currentIndex ?? 0, Math.max(imageUrls.length - 1, 0));
+
+  const hasPromptConnection = React.useMemo(
+    () => edges.some((e) => e.target === id && e.targetHandle === GENERATE_IMAGE_HANDLES.PROMPT),
+    [edges, id]
+  );
+  const hasNegativePromptConnection = React.useMemo(
+    () => edges.some((e) => e.target === id && e.targetHandle === GENERATE_IMAGE_HANDLES.NEGATIVE_PROMPT),
+    [edges, id]
+  );
+
+  const handleRename = () => {
+    if (newLabel.trim()) {
+      updateNodeData<GenerateImageFlowNode>(id, { label: newLabel.trim() });
+    }
+    setRenameDialogOpen(false);
+  };
+
+  const toggleLock = () => {
+    updateNodeData<GenerateImageFlowNode>(id, { isLocked: !isLocked });
+  };
+
+  const handleSizeChange = (value: string) => {
+    const [width, height] = value.split('x').map(Number);
+    updateNodeData<GenerateImageFlowNode>(id, { width, height });
+  };
+
+  const handleGenerate = async () => {
+    updateNodeData<GenerateImageFlowNode>(id, { isProcessing: true, error: undefined });
+
+    const taskId = addTask(id, displayLabel);
+
+    // Start workflow history run for this individual node
+    let runId: string | null = null;
+    let nodeRunId: string | null = null;
+
+    if (workflowId) {
+      runId = await startRun(workflowId, 'single', [id]);
+    }
+
+    try {
+      // Resolve prompts and the reference image from connected nodes, as a workflow run would
+      const { nodes, edges: currentEdges } = useWorkflowStore.getState();
+      const node = nodes.find((n) => n.id === id);
+      if (!node) {
+        throw new Error('Generate image node not found');
+      }
+      const execution = resolveNodeExecution(node, nodes, currentEdges, undefined, { force: true });
+      const payload = execution.kind === 'task' ? execution.payload : undefined;
+
+      // Record node run to history BEFORE validation to capture errors
+      const inputData = {
+        provider: data.provider ?? DEFAULT_IMAGE_PROVIDER,
+        model: data.model,
+        prompt: payload?.prompt ?? '(not provided)',
+        negativePrompt: payload?.negativePrompt,
+        referenceImageUrl: payload?.referenceImageUrl,
+        width: data.width,
+        height: data.height,
+        seed: data.seed,
+        count: data.count,
+      };
+
+      if (runId) {
+        nodeRunId = await addNodeToRun(runId, id, displayLabel, 'generateImage', inputData);
+      }
+
+      if (execution.kind === 'invalid') {
+        throw new Error(execution.error);
+      }
+
+      // Trigger the Trigger.dev task
+      const triggerResponse = await fetch('/api/trigger', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ taskType: 'generate-image', payload }),
+      });
+
+      const triggerResult: TriggerTaskResponse = await triggerResponse.json();
+
+      if (!triggerResult.success || !triggerResult.runId || !triggerResult.publicAccessToken) {
+        throw new Error(triggerResult.error || 'Failed to trigger generate image task');
+      }
+
+      // Lets the task manager cancel this run
+      updateTask(taskId, { triggerRunId: triggerResult.runId });
+
+      // Wait for completion via Realtime
+      const runResult = await waitForRun(triggerResult.runId, triggerResult.publicAccessToken);
+
+      if (runResult.isCancelled) {
+        updateNodeData<GenerateImageFlowNode>(id, { isProcessing: false });
+        updateTask(taskId, { status: 'cancelled', completedAt: new Date() });
+        if (nodeRunId) {
+          await completeNodeRun(nodeRunId, 'cancelled');
+        }
+        if (runId) {
+          await completeRun(runId, 'cancelled');
+        }
+        return;
+      }
+
+      if (runResult.isFailed) {
+        throw new Error(runResult.error || 'Generate image task failed');
+      }
+
+      const outputImageUrls = runResult.output?.imageUrls ?? [];
+
+      updateNodeData<GenerateImageFlowNode>(id, {
+        outputImageUrls,
+        currentIndex: 0,
+        isProcessing: false,
+        error: undefined,
+      });
+
+      updateTask(taskId, { status: 'completed', completedAt: new Date() });
+
+      // Complete node run and workflow run in history
+      if (nodeRunId) {
+        await completeNodeRun(nodeRunId, 'completed', { imageUrls: outputImageUrls });
+      }
+      if (runId) {
+        await completeRun(runId, 'completed');
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const safeError = message && message !== '[object Object]' ? message : 'Task failed. See Trigger.dev dashboard for details.';
+
+      updateNodeData<GenerateImageFlowNode>(id, {
+        isProcessing: false,
+        error: safeError,
+      });
+
+      updateTask(taskId, {
+        status: 'failed',
+        completedAt: new Date(),
+        error: safeError,
+      });
+
+      // Record failure in history
+      if (nodeRunId) {
+        await completeNodeRun(nodeRunId, 'failed', undefined, safeError);
+      }
+      if (runId) {
+        await completeRun(runId, 'failed');
+      }
+    }
+  };
+
+  return (
+    <div className={cn("relative group/node", isProcessing && "node-processing-glow rounded-xl")}>
+      {/* Input Handles */}
+      <div className="absolute left-0 top-0 h-full flex flex-col justify-center gap-8" style={{ transform: 'translateX(-6px)' }}>
+        <HandleWithLabel
+          type="target"
+          position={Position.Left}
+          id={GENERATE_IMAGE_HANDLES.PROMPT}
+          nodeId={id}
+          label="prompt"
+          color="magenta"
+          style={{ position: 'relative', top: 0 }}
+        />
+        <HandleWithLabel
+          type="target"
+          position={Position.Left}
+          id={GENERATE_IMAGE_HANDLES.NEGATIVE_PROMPT}
+          nodeId={id}
+          label="negative_prompt"
+          color="magenta"
+          style={{ position: 'relative', top: 0 }}
+        />
+        <HandleWithLabel
+          type="target"
+          position={Position.Left}
+          id={GENERATE_IMAGE_HANDLES.REFERENCE_IMAGE}
+          nodeId={id}
+          label="reference_image"
+          color="cyan"
+          style={{ position: 'relative', top: 0 }}
+        />
+      </div>
+
+      {/* Output Handle */}
+      <div className="absolute right-0 top-1/2 -translate-y-1/2" style={{ transform: 'translate(6px, -50%)' }}>
+        <HandleWithLabel
+          type="source"
+          position={Position.Right}
+          id={GENERATE_IMAGE_HANDLES.OUTPUT}
+          nodeId={id}
+          label="File"
+          color="green"
+        />
+      </div>
+
+      <NodeShell
+        title={displayLabel}
+        icon={<ImagePlus className="h-4 w-4" />}
+        selected={selected}
+        className="w-90"
+        right={
+          <div className="flex items-center gap-1">
+            {isLocked && <Lock className="h-4 w-4 text-foreground/50" />}
+            <NodeDropdownMenu
+              nodeId={id}
+              label={displayLabel}
+              isLocked={isLocked}
+              onToggleLock={toggleLock}
+              onOpenRename={() => {
+                setNewLabel(displayLabel);
+                setRenameDialogOpen(true);
+              }}
+              onOpenRunSettings={() => setRunSettingsOpen(true)}
+            />
+          </div>
+        }
+      >
+        <div className="space-y-4">
+          {/* Model Selector */}
+          <div>
+            <label className="text-xs text-foreground/60 mb-1 block">Model</label>
+            <ModelSelect
+              providers={IMAGE_PROVIDERS}
+              provider={data.provider}
+              model={data.model}
+              onChange={(value) => updateNodeData<GenerateImageFlowNode>(id, value)}
+            />
+          </div>
+
+          {/* Prompt: manual entry, disabled when connected */}
+          <div>
+            <label className="text-xs text-foreground/60 mb-1 block">Prompt (required)</label>
+            <Textarea
+              value={hasPromptConnection ? '' : (data.prompt ?? '')}
+              onChange={(e) => updateNodeData<GenerateImageFlowNode>(id, { prompt: e.target.value })}
+              placeholder={hasPromptConnection ? 'From connection' : 'Describe the image...'}
+              className={cn(
+                'nodrag min-h-14 resize-y bg-muted/40 text-sm',
+                hasPromptConnection && 'cursor-not-allowed opacity-60'
+              )}
+              disabled={hasPromptConnection}
+            />
+          </div>
+
+          {/* Negative prompt: manual entry, disabled when connected */}
+          <div>
+            <label className="text-xs text-foreground/60 mb-1 block">Negative prompt (optional)</label>
+            <Textarea
+              value={hasNegativePromptConnection ? '' : (data.negativePrompt ?? '')}
+              onChange={(e) => updateNodeData<GenerateImageFlowNode>(id, { negativePrompt: e.target.value })}
+              placeholder={hasNegativePromptConnection ? 'From connection' : 'What to leave out...'}
+              className={cn(
+                'nodrag min-h-10 resize-y bg-muted/40 text-sm',
+                hasNegativePromptConnection && 'cursor-not-allowed opacity-60'
+              )}
+              disabled={hasNegativePromptConnection}
+            />
+          </div>
+
+          {/* Size, seed and count */}
+          <div className="grid grid-cols-4 gap-2">
+            <div className="col-span-2">
+              <label className="text-xs text-foreground/60 mb-1 block">Size</label>
+              <Select value={toSizeValue(data.width, data.height)} onValueChange={handleSizeChange}>
+                <SelectTrigger className="nodrag h-8 bg-muted/40 text-xs">
+                  <SelectValue placeholder={`${data.width}×${data.height}`} />
+                </SelectTrigger>
+                <SelectContent>
+                  {SIZES.map((size) => (
+                    <SelectItem key={size.label} value={toSizeValue(size.width, size.height)}>
+                      {size.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <label className="text-xs text-foreground/60 mb-1 block">Seed</label>
+              <Input
+                type="number"
+                min={0}
+                step={1}
+                value={data.seed ?? ''}
+                onChange={(e) => {
+                  const seed = parseInt(e.target.value, 10);
+                  updateNodeData<GenerateImageFlowNode>(id, { seed: seed >= 0 ? seed : undefined });
+                }}
+                placeholder="Random"
+                className="nodrag h-8 bg-muted/40 text-xs"
+              />
+            </div>
+            <div>
+              <label className="text-xs text-foreground/60 mb-1 block">Images</label>
+              <Input
+                type="number"
+                min={1}
+                max={MAX_GENERATED_IMAGES}
+                step={1}
+                value={data.count}
+                onChange={(e) => {
+                  const count = parseInt(e.target.value, 10);
+                  if (count >= 1 && count <= MAX_GENERATED_IMAGES) {
+                    updateNodeData<GenerateImageFlowNode>(id, { count });
+                  }
+                }}
+                className="nodrag h-8 bg-muted/40 text-xs"
+              />
+            </div>
+          </div>
+
+          {/* Error Display */}
+          {data.error && (
+            <div
+              className={cn(
+                'rounded-lg p-3 text-sm',
+                'bg-red-500/10 text-red-400 border border-red-500/30'
+              )}
+            >
+              <div className="flex items-start gap-2">
+                <X className="h-4 w-4 mt-0.5 shrink-0" />
+                <span>{typeof data.error === 'string' ? data.error : String(data.error)}</span>
+              </div>
+            </div>
+          )}
+
+          {/* Generate Button */}
+          <Button
+            onClick={handleGenerate}
+            disabled={isProcessing}
+            className="w-full bg-black hover:bg-black/90 text-white"
+          >
+            {isProcessing ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Generating...
+              </>
+            ) : (
+              <>
+                <Play className="mr-2 h-4 w-4" />
+                Generate
+              </>
+            )}
+          </Button>
+
+          {/* Output Preview */}
+          {imageUrls.length > 0 && (
+            <div>
+              <div className="mb-1 flex items-center justify-between">
+                <label className="text-xs text-foreground/60">Output Preview</label>
+                {imageUrls.length > 1 && (
+                  <div className="flex items-center gap-1 text-xs text-foreground/60">
+                    <button
+                      type="button"
+                      onClick={() => updateNodeData<GenerateImageFlowNode>(id, { currentIndex: currentIndex - 1 })}
+                      disabled={currentIndex === 0}
+                      className="nodrag disabled:opacity-30"
+                    >
+                      <ChevronLeft className="h-3.5 w-3.5" />
+                    </button>
+                    {currentIndex + 1} / {imageUrls.length}
+                    <button
+                      type="button"
+                      onClick={() => updateNodeData<GenerateImageFlowNode>(id, { currentIndex: currentIndex + 1 })}
+                      disabled={currentIndex === imageUrls.length - 1}
+                      className="nodrag disabled:opacity-30"
+                    >
+                      <ChevronRight className="h-3.5 w-3.5" />
+                    </button>
+                  </div>
+                )}
+              </div>
+              <div className="rounded-lg overflow-hidden bg-muted/40">
+                <img
+                  src={imageUrls[currentIndex]}
+                  alt={`Generated image ${currentIndex + 1}`}
+                  className="w-full max-h-60 object-contain"
+                />
+              </div>
+            </div>
+          )}
+        </div>
+      </NodeShell>
+
+      <RenameDialog
+        open={renameDialogOpen}
+        onOpenChange={setRenameDialogOpen}
+        value={newLabel}
+        onChange={setNewLabel}
+        onSubmit={handleRename}
+      />
+
+      <RunSettingsDialog
+        open={runSettingsOpen}
+        onOpenChange={setRunSettingsOpen}
+        value={data.execution}
+        onSubmit={(execution) => {
+          updateNodeData<GenerateImageFlowNode>(id, { execution });
+          setRunSettingsOpen(false);
+        }}
+      />
+    </div>
+  );
+}
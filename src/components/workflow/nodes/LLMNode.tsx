@@ -1,31 +1,33 @@
 'use client';
 
 import * as React from 'react';
-import { Position, type NodeProps } from '@xyflow/react';
+import { Position, useUpdateNodeInternals, type NodeProps } from '@xyflow/react';
 import { cn } from '@/lib/utils';
 import { useWorkflowStore, type WorkflowState } from '@/stores/workflowStore';
 import { urlToBase64 } from '@/lib/transloadit';
+import { buildJsonSchema, getFieldHandle, getStructuredOutputFields } from '@/lib/structuredOutput';
 import {
   type LLMFlowNode,
-  GEMINI_MODELS,
+  type LLMStructuredOutput,
   LLM_HANDLES,
+  getPartialOutputKey,
+  DEFAULT_LLM_PROVIDER,
 } from '@/types/workflow.types';
+import { useNodeRunResult } from '@/hooks/useNodeRun';
+import type { llmTask } from '@/trigger/llmTask';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
-import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from '@/components/ui/select';
 import { Loader2, Lock, Play, Sparkles, X } from 'lucide-react';
 
 import {
   NodeShell,
   HandleWithLabel,
   RenameDialog,
+  RunSettingsDialog,
   NodeDropdownMenu,
+  ModelSelect,
+  GenerationSettings,
+  StructuredOutputEditor,
 } from '../primitives';
 
 // Types for Trigger.dev task API
@@ -36,24 +38,17 @@ interface TriggerTaskResponse {
   error?: string;
 }
 
-interface TriggerPollResponse {
-  runId: string;
-  status: string;
-  output?: { output: string };
-  error?: string;
-  isCompleted: boolean;
-  isFailed: boolean;
-}
-
 /**
  * LLMNode Component
  * 
  * A node for running LLM inference via Trigger.dev.
  * Features:
  * - Model selector dropdown
+ * - Advanced sampling settings (temperature, top-p/k, max tokens, stop sequences, candidates, seed)
  * - Input handles for system_prompt, user_message, and images
- * - Output handle for LLM response
- * - Editable result text field
+ * - Output handle for LLM response, plus one per field of a JSON output
+ * - JSON output: schema from a field editor or hand-written, validated server-side
+ * - Editable result text field, with a picker when several candidates were generated
  * - Pulsating glow when running
  * - Run button with loading state
  * - Error display
@@ -65,19 +60,31 @@ export function LLMNode({ id, data, selected }: NodeProps<LLMFlowNode>) {
   const addTask = useWorkflowStore((s: WorkflowState) => s.addTask);
   const updateTask = useWorkflowStore((s: WorkflowState) => s.updateTask);
   const edges = useWorkflowStore((s: WorkflowState) => s.edges);
+  const onEdgesChange = useWorkflowStore((s: WorkflowState) => s.onEdgesChange);
+  const updateNodeInternals = useUpdateNodeInternals();
   // Workflow history functions
   const workflowId = useWorkflowStore((s: WorkflowState) => s.workflowId);
   const startRun = useWorkflowStore((s: WorkflowState) => s.startRun);
   const addNodeToRun = useWorkflowStore((s: WorkflowState) => s.addNodeToRun);
   const completeNodeRun = useWorkflowStore((s: WorkflowState) => s.completeNodeRun);
   const completeRun = useWorkflowStore((s: WorkflowState) => s.completeRun);
+  // Realtime subscription to this node's Trigger.dev run
+  const { run: liveRun, waitForRun } = useNodeRunResult<typeof llmTask>();
 
   const [renameDialogOpen, setRenameDialogOpen] = React.useState(false);
+  const [runSettingsOpen, setRunSettingsOpen] = React.useState(false);
   const [newLabel, setNewLabel] = React.useState(data.label || 'Run Any LLM');
 
   const displayLabel = data.label || 'Run Any LLM';
   const isLocked = data.isLocked || false;
   const isLoading = data.isLoading || false;
+  const outputFields = React.useMemo(() => getStructuredOutputFields(data.structuredOutput), [data.structuredOutput]);
+
+  // Field handles follow the output schema, so React Flow must re-measure them
+  const fieldKey = outputFields.map((field) => field.name).join('|');
+  React.useEffect(() => {
+    updateNodeInternals(id);
+  }, [fieldKey, id, updateNodeInternals]);
 
   // When an input handle has a connection, the corresponding manual field is disabled (value comes from connected node)
   const hasSystemPromptConnection = React.useMemo(
@@ -100,24 +107,25 @@ export function LLMNode({ id, data, selected }: NodeProps<LLMFlowNode>) {
     updateNodeData<LLMFlowNode>(id, { isLocked: !isLocked });
   };
 
-  // Poll for task completion
-  const pollTaskResult = async (runId: string): Promise<TriggerPollResponse> => {
-    const maxAttempts = 120; // 2 minutes max
-    const intervalMs = 1000;
-
-    for (let attempt = 0; attempt < maxAttempts; attempt++) {
-      const response = await fetch(`/api/trigger?runId=${runId}`);
-      const result: TriggerPollResponse = await response.json();
-
-      if (result.isCompleted || result.isFailed) {
-        return result;
-      }
+  const handleStructuredOutputChange = (structuredOutput: LLMStructuredOutput | undefined) => {
+    updateNodeData<LLMFlowNode>(id, { structuredOutput });
+    // Drop edges of removed fields; a hand-written schema keeps them while it is being edited
+    if (structuredOutput?.mode === 'schema') return;
+    const handles = new Set(getStructuredOutputFields(structuredOutput).map((field) => getFieldHandle(field.name)));
+    onEdgesChange(
+      edges
+        .filter((e) => e.source === id && e.sourceHandle !== LLM_HANDLES.OUTPUT && !handles.has(e.sourceHandle ?? ''))
+        .map((e) => ({ type: 'remove' as const, id: e.id }))
+    );
+  };
 
-      await new Promise(resolve => setTimeout(resolve, intervalMs));
+  // Stream partial output into the result field while the task runs
+  const partialOutput = liveRun?.metadata?.[getPartialOutputKey(id)];
+  React.useEffect(() => {
+    if (typeof partialOutput === 'string') {
+      updateNodeData<LLMFlowNode>(id, { output: partialOutput });
     }
-
-    throw new Error('Task timed out');
-  };
+  }, [id, partialOutput, updateNodeData]);
 
   const handleRun = async () => {
     updateNodeData<LLMFlowNode>(id, { isLoading: true, error: undefined });
@@ -154,10 +162,13 @@ export function LLMNode({ id, data, selected }: NodeProps<LLMFlowNode>) {
 
       // Record node run to history BEFORE validation to capture errors
       const inputData = {
+        provider: data.provider ?? DEFAULT_LLM_PROVIDER,
         model: data.model,
         systemPrompt,
         userMessage: userMessage || '(not provided)',
         imageCount: allImages.length,
+        generation: data.generation,
+        structuredOutput: data.structuredOutput,
       };
 
       if (runId) {
@@ -168,6 +179,7 @@ export function LLMNode({ id, data, selected }: NodeProps<LLMFlowNode>) {
       if (!userMessage.trim()) {
         throw new Error('User message is required. Connect a Text node to the user_message input.');
       }
+      const responseSchema = data.structuredOutput ? buildJsonSchema(data.structuredOutput) : undefined;
 
       // Trigger the Trigger.dev task
       const triggerResponse = await fetch('/api/trigger', {
@@ -176,41 +188,71 @@ export function LLMNode({ id, data, selected }: NodeProps<LLMFlowNode>) {
         body: JSON.stringify({
           taskType: 'llm',
           payload: {
+            provider: data.provider,
             model: data.model,
             systemPrompt,
             userMessage,
             images: allImages,
+            generation: data.generation,
+            ...(responseSchema && { responseSchema, maxRetries: data.structuredOutput?.maxRetries }),
+            nodeId: id,
           },
         }),
       });
 
       const triggerResult: TriggerTaskResponse = await triggerResponse.json();
 
-      if (!triggerResult.success || !triggerResult.runId) {
+      if (!triggerResult.success || !triggerResult.runId || !triggerResult.publicAccessToken) {
         throw new Error(triggerResult.error || 'Failed to trigger LLM task');
       }
 
-      // Poll for completion
-      const pollResult = await pollTaskResult(triggerResult.runId);
+      // Lets the task manager cancel this run
+      updateTask(taskId, { triggerRunId: triggerResult.runId });
+
+      // Wait for completion via Realtime
+      const runResult = await waitForRun(triggerResult.runId, triggerResult.publicAccessToken);
+
+      if (runResult.isCancelled) {
+        updateNodeData<LLMFlowNode>(id, { isLoading: false });
+        updateTask(taskId, { status: 'cancelled', completedAt: new Date() });
+        if (nodeRunId) {
+          await completeNodeRun(nodeRunId, 'cancelled');
+        }
+        if (runId) {
+          await completeRun(runId, 'cancelled');
+        }
+        return;
+      }
 
-      if (pollResult.isFailed) {
-        throw new Error(pollResult.error || 'LLM task failed');
+      if (runResult.isFailed) {
+        throw new Error(runResult.error || 'LLM task failed');
       }
 
-      const output = pollResult.output?.output || '';
+      const output = runResult.output?.output || '';
+      const candidates = runResult.output?.candidates;
+      const fieldValues = runResult.output?.fields;
 
       updateNodeData<LLMFlowNode>(id, {
         output,
+        candidates,
+        fieldValues,
         isLoading: false,
         error: undefined,
       });
 
       updateTask(taskId, { status: 'completed', completedAt: new Date() });
-      propagateOutput(id, output);
+      propagateOutput(id, output, LLM_HANDLES.OUTPUT);
+      for (const [name, value] of Object.entries(fieldValues ?? {})) {
+        propagateOutput(id, value, getFieldHandle(name));
+      }
 
       // Complete node run and workflow run in history
       if (nodeRunId) {
-        await completeNodeRun(nodeRunId, 'completed', { output });
+        await completeNodeRun(nodeRunId, 'completed', {
+          output,
+          ...(candidates && { candidates }),
+          ...(fieldValues && { fields: fieldValues }),
+        });
       }
       if (runId) {
         await completeRun(runId, 'completed');
@@ -251,7 +293,12 @@ export function LLMNode({ id, data, selected }: NodeProps<LLMFlowNode>) {
   const handleOutputChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     const newOutput = e.target.value;
     updateNodeData<LLMFlowNode>(id, { output: newOutput });
-    propagateOutput(id, newOutput);
+    propagateOutput(id, newOutput, LLM_HANDLES.OUTPUT);
+  };
+
+  const handlePickCandidate = (candidate: string) => {
+    updateNodeData<LLMFlowNode>(id, { output: candidate });
+    propagateOutput(id, candidate, LLM_HANDLES.OUTPUT);
   };
 
   return (
@@ -287,8 +334,8 @@ export function LLMNode({ id, data, selected }: NodeProps<LLMFlowNode>) {
         />
       </div>
 
-      {/* Output Handle */}
-      <div className="absolute right-0 top-1/2 -translate-y-1/2" style={{ transform: 'translate(6px, -50%)' }}>
+      {/* Output Handles */}
+      <div className="absolute right-0 top-0 h-full flex flex-col justify-center gap-8" style={{ transform: 'translateX(6px)' }}>
         <HandleWithLabel
           type="source"
           position={Position.Right}
@@ -296,7 +343,20 @@ export function LLMNode({ id, data, selected }: NodeProps<LLMFlowNode>) {
           nodeId={id}
           label="output"
           color="green"
+          style={{ position: 'relative', top: 0 }}
         />
+        {outputFields.map((field) => (
+          <HandleWithLabel
+            key={field.name}
+            type="source"
+            position={Position.Right}
+            id={getFieldHandle(field.name)}
+            nodeId={id}
+            label={`${field.name}: ${field.type}`}
+            color="green"
+            style={{ position: 'relative', top: 0 }}
+          />
+        ))}
       </div>
 
       <NodeShell
@@ -316,6 +376,7 @@ export function LLMNode({ id, data, selected }: NodeProps<LLMFlowNode>) {
                 setNewLabel(displayLabel);
                 setRenameDialogOpen(true);
               }}
+              onOpenRunSettings={() => setRunSettingsOpen(true)}
             />
           </div>
         }
@@ -324,25 +385,20 @@ export function LLMNode({ id, data, selected }: NodeProps<LLMFlowNode>) {
           {/* Model Selector */}
           <div>
             <label className="text-xs text-foreground/60 mb-1 block">Model</label>
-            <Select
-              value={data.model}
-              onValueChange={(value) =>
-                updateNodeData<LLMFlowNode>(id, { model: value as LLMFlowNode['data']['model'] })
-              }
-            >
-              <SelectTrigger className="nodrag w-full bg-muted/40">
-                <SelectValue placeholder="Select model" />
-              </SelectTrigger>
-              <SelectContent>
-                {GEMINI_MODELS.map((model) => (
-                  <SelectItem key={model.value} value={model.value}>
-                    {model.label}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
+            <ModelSelect
+              provider={data.provider}
+              model={data.model}
+              onChange={(value) => updateNodeData<LLMFlowNode>(id, value)}
+            />
           </div>
 
+          <StructuredOutputEditor value={data.structuredOutput} onChange={handleStructuredOutputChange} />
+
+          <GenerationSettings
+            value={data.generation}
+            onChange={(generation) => updateNodeData<LLMFlowNode>(id, { generation })}
+          />
+
           {/* System prompt: manual entry, disabled when connected */}
           <div>
             <label className="text-xs text-foreground/60 mb-1 block">System prompt (optional)</label>
@@ -418,6 +474,40 @@ export function LLMNode({ id, data, selected }: NodeProps<LLMFlowNode>) {
                 className="nodrag min-h-25 max-h-50 resize-y bg-muted/40 text-sm"
                 disabled={isLoading}
               />
+              {!isLoading && data.candidates && data.candidates.length > 1 && (
+                <div className="mt-2 flex flex-wrap items-center gap-1">
+                  <span className="text-xs text-foreground/60 mr-1">Candidates</span>
+                  {data.candidates.map((candidate, index) => (
+                    <Button
+                      key={index}
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handlePickCandidate(candidate)}
+                      className={cn(
+                        'nodrag h-6 w-6 p-0 text-xs',
+                        candidate === data.output && 'border-foreground/60'
+                      )}
+                      title={candidate.slice(0, 200)}
+                    >
+                      {index + 1}
+                    </Button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Structured output fields */}
+          {!isLoading && data.fieldValues && outputFields.length > 0 && (
+            <div className="space-y-2">
+              {outputFields.map((field) => (
+                <div key={field.name}>
+                  <label className="text-xs text-foreground/60 mb-1 block font-mono">{field.name}</label>
+                  <div className="max-h-24 overflow-y-auto rounded-md bg-muted/40 p-2 text-xs whitespace-pre-wrap break-all">
+                    {data.fieldValues?.[field.name] ?? '-'}
+                  </div>
+                </div>
+              ))}
             </div>
           )}
         </div>
@@ -430,6 +520,16 @@ export function LLMNode({ id, data, selected }: NodeProps<LLMFlowNode>) {
         onChange={setNewLabel}
         onSubmit={handleRename}
       />
+
+      <RunSettingsDialog
+        open={runSettingsOpen}
+        onOpenChange={setRunSettingsOpen}
+        value={data.execution}
+        onSubmit={(execution) => {
+          updateNodeData<LLMFlowNode>(id, { execution });
+          setRunSettingsOpen(false);
+        }}
+      />
     </div>
   );
 }
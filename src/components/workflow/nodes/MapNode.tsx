@@ -0,0 +1,194 @@
+'use client';
+
+import * as React from 'react';
+import { Position, type NodeProps } from '@xyflow/react';
+import { cn } from '@/lib/utils';
+import { useWorkflowStore, type WorkflowState } from '@/stores/workflowStore';
+import { type MapFlowNode, type MapSplitMode, MAP_HANDLES } from '@/types/workflow.types';
+import { splitListItems } from '@/lib/nodeExecutor';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Lock, Split } from 'lucide-react';
+
+import {
+  NodeShell,
+  HandleWithLabel,
+  RenameDialog,
+  NodeDropdownMenu,
+} from '../primitives';
+
+const SPLIT_MODES: { value: MapSplitMode; label: string }[] = [
+  { value: 'auto', label: 'Auto (JSON array or lines)' },
+  { value: 'lines', label: 'One item per line' },
+  { value: 'json', label: 'JSON array' },
+];
+
+/**
+ * MapNode Component
+ *
+ * Fans a list out over the nodes downstream of it: a workflow run executes
+ * them once per item, up to the Collect nodes that gather the results.
+ * Features:
+ * - Input handle for a list: every image of an Image node, or text split per line / JSON array
+ * - Output handle carrying the current item
+ * - Max items in flight at once
+ */
+export function MapNode({ id, data, selected }: NodeProps<MapFlowNode>) {
+  const updateNodeData = useWorkflowStore((s: WorkflowState) => s.updateNodeData);
+  const edges = useWorkflowStore((s: WorkflowState) => s.edges);
+
+  const [renameDialogOpen, setRenameDialogOpen] = React.useState(false);
+  const [newLabel, setNewLabel] = React.useState(data.label || 'Map');
+
+  const displayLabel = data.label || 'Map';
+  const isLocked = data.isLocked || false;
+
+  const hasInputConnection = edges.some(
+    (e) => e.target === id && e.targetHandle === MAP_HANDLES.LIST
+  );
+
+  // Preview manual input; a connected list is only known once a run splits it
+  const itemCount = React.useMemo(() => {
+    if (hasInputConnection) return data.items?.length;
+    try {
+      return splitListItems(data.inputText ?? '', data.splitMode).length;
+    } catch {
+      return undefined;
+    }
+  }, [hasInputConnection, data.items, data.inputText, data.splitMode]);
+
+  const handleRename = () => {
+    if (newLabel.trim()) {
+      updateNodeData<MapFlowNode>(id, { label: newLabel.trim() });
+    }
+    setRenameDialogOpen(false);
+  };
+
+  const toggleLock = () => {
+    updateNodeData<MapFlowNode>(id, { isLocked: !isLocked });
+  };
+
+  return (
+    <div className="relative group/node">
+      {/* Input Handle */}
+      <div className="absolute left-0 top-1/2 -translate-y-1/2" style={{ transform: 'translate(-6px, -50%)' }}>
+        <HandleWithLabel
+          type="target"
+          position={Position.Left}
+          id={MAP_HANDLES.LIST}
+          nodeId={id}
+          label="list"
+          color="magenta"
+        />
+      </div>
+
+      {/* Output Handle */}
+      <div className="absolute right-0 top-1/2 -translate-y-1/2" style={{ transform: 'translate(6px, -50%)' }}>
+        <HandleWithLabel
+          type="source"
+          position={Position.Right}
+          id={MAP_HANDLES.ITEM}
+          nodeId={id}
+          label="item"
+          color="green"
+        />
+      </div>
+
+      <NodeShell
+        title={displayLabel}
+        icon={<Split className="h-4 w-4" />}
+        selected={selected}
+        className="w-90"
+        right={
+          <div className="flex items-center gap-1">
+            {isLocked && <Lock className="h-4 w-4 text-foreground/50" />}
+            <NodeDropdownMenu
+              nodeId={id}
+              label={displayLabel}
+              isLocked={isLocked}
+              onToggleLock={toggleLock}
+              onOpenRename={() => {
+                setNewLabel(displayLabel);
+                setRenameDialogOpen(true);
+              }}
+            />
+          </div>
+        }
+      >
+        <div className="space-y-4">
+          {/* Split Mode */}
+          <div>
+            <label className="text-xs text-foreground/60 mb-1 block">Split text input</label>
+            <Select
+              value={data.splitMode}
+              onValueChange={(value) => updateNodeData<MapFlowNode>(id, { splitMode: value as MapSplitMode })}
+            >
+              <SelectTrigger className="nodrag w-full bg-muted/40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SPLIT_MODES.map((mode) => (
+                  <SelectItem key={mode.value} value={mode.value}>
+                    {mode.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Input: manual entry, disabled when connected */}
+          <div>
+            <label className="text-xs text-foreground/60 mb-1 block">Items</label>
+            <Textarea
+              value={hasInputConnection ? '' : (data.inputText ?? '')}
+              onChange={(e) => updateNodeData<MapFlowNode>(id, { inputText: e.target.value })}
+              placeholder={hasInputConnection ? 'From connection' : 'One item per line, or a JSON array...'}
+              className={cn(
+                'nodrag min-h-20 resize-y bg-muted/40 text-sm',
+                hasInputConnection && 'cursor-not-allowed opacity-60'
+              )}
+              disabled={hasInputConnection}
+            />
+          </div>
+
+          {/* Parallelism */}
+          <div className="flex items-center justify-between gap-3">
+            <label className="text-xs text-foreground/60">Items at once</label>
+            <Input
+              type="number"
+              min={1}
+              value={data.maxParallel ?? ''}
+              onChange={(e) => {
+                const value = parseInt(e.target.value, 10);
+                updateNodeData<MapFlowNode>(id, { maxParallel: value >= 1 ? value : undefined });
+              }}
+              placeholder="Workflow limit"
+              className="nodrag h-8 w-32 bg-muted/40 text-xs"
+            />
+          </div>
+
+          {itemCount != null && (
+            <div className="text-xs text-foreground/60">
+              {itemCount} {itemCount === 1 ? 'item' : 'items'}
+            </div>
+          )}
+        </div>
+      </NodeShell>
+
+      <RenameDialog
+        open={renameDialogOpen}
+        onOpenChange={setRenameDialogOpen}
+        value={newLabel}
+        onChange={setNewLabel}
+        onSubmit={handleRename}
+      />
+    </div>
+  );
+}
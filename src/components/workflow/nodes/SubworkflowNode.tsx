@@ -0,0 +1,245 @@
+'use client';
+
+import * as React from 'react';
+import { Position, useUpdateNodeInternals, type NodeProps } from '@xyflow/react';
+import { useQuery } from '@tanstack/react-query';
+import { cn } from '@/lib/utils';
+import { useWorkflowStore, type WorkflowState } from '@/stores/workflowStore';
+import type { SubworkflowFlowNode } from '@/types/workflow.types';
+import { listWorkflows, getWorkflowSignature } from '@/lib/actions';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Loader2, Lock, RefreshCw, Workflow } from 'lucide-react';
+
+import {
+  NodeShell,
+  HandleWithLabel,
+  RenameDialog,
+  RunSettingsDialog,
+  NodeDropdownMenu,
+} from '../primitives';
+import { VALUE_TYPE_COLORS } from '../data';
+
+/**
+ * SubworkflowNode Component
+ *
+ * Runs another saved workflow as a single step.
+ * Features:
+ * - Workflow picker (any of the user's other workflows)
+ * - One input handle per Workflow Input node of the referenced workflow,
+ *   one output handle per Workflow Output node
+ * - Refresh to pick up inputs / outputs changed in the referenced workflow
+ * - Values returned by the last run
+ */
+export function SubworkflowNode({ id, data, selected }: NodeProps<SubworkflowFlowNode>) {
+  const updateNodeData = useWorkflowStore((s: WorkflowState) => s.updateNodeData);
+  const workflowId = useWorkflowStore((s: WorkflowState) => s.workflowId);
+  const edges = useWorkflowStore((s: WorkflowState) => s.edges);
+  const onEdgesChange = useWorkflowStore((s: WorkflowState) => s.onEdgesChange);
+  const updateNodeInternals = useUpdateNodeInternals();
+
+  const [renameDialogOpen, setRenameDialogOpen] = React.useState(false);
+  const [runSettingsOpen, setRunSettingsOpen] = React.useState(false);
+  const [newLabel, setNewLabel] = React.useState(data.label || 'Sub-workflow');
+  const [isLoadingSignature, setIsLoadingSignature] = React.useState(false);
+  const [signatureError, setSignatureError] = React.useState<string | null>(null);
+
+  const displayLabel = data.label || 'Sub-workflow';
+  const isLocked = data.isLocked || false;
+  const isProcessing = data.isProcessing || false;
+  const inputs = data.inputs || [];
+  const outputs = data.outputs || [];
+
+  const workflowsQuery = useQuery({
+    queryKey: ['workflows', 'all'],
+    queryFn: () => listWorkflows(),
+  });
+  const workflows = (workflowsQuery.data?.workflows ?? []).filter((workflow) => workflow.id !== workflowId);
+
+  // Handles follow the referenced workflow's signature, so React Flow must re-measure them
+  const handleKey = [...inputs, ...outputs].map((port) => port.id).join('|');
+  React.useEffect(() => {
+    updateNodeInternals(id);
+  }, [handleKey, id, updateNodeInternals]);
+
+  const handleRename = () => {
+    if (newLabel.trim()) {
+      updateNodeData<SubworkflowFlowNode>(id, { label: newLabel.trim() });
+    }
+    setRenameDialogOpen(false);
+  };
+
+  const toggleLock = () => {
+    updateNodeData<SubworkflowFlowNode>(id, { isLocked: !isLocked });
+  };
+
+  const loadSignature = async (referencedId: string) => {
+    setIsLoadingSignature(true);
+    setSignatureError(null);
+    try {
+      const signature = await getWorkflowSignature({ id: referencedId });
+      updateNodeData<SubworkflowFlowNode>(id, {
+        workflowId: referencedId,
+        workflowName: signature.name,
+        inputs: signature.inputs,
+        outputs: signature.outputs,
+        outputValues: referencedId === data.workflowId ? data.outputValues : undefined,
+      });
+
+      // Drop edges on inputs / outputs the workflow no longer has
+      const handleIds = new Set([...signature.inputs, ...signature.outputs].map((port) => port.id));
+      onEdgesChange(
+        edges
+          .filter(
+            (e) =>
+              (e.target === id && !handleIds.has(e.targetHandle ?? '')) ||
+              (e.source === id && !handleIds.has(e.sourceHandle ?? ''))
+          )
+          .map((e) => ({ type: 'remove' as const, id: e.id }))
+      );
+    } catch (error) {
+      setSignatureError(error instanceof Error ? error.message : 'Failed to load workflow');
+    } finally {
+      setIsLoadingSignature(false);
+    }
+  };
+
+  return (
+    <div className={cn('relative group/node', isProcessing && 'node-processing-glow rounded-xl')}>
+      {/* Input Handles */}
+      <div className="absolute left-0 top-0 h-full flex flex-col justify-center gap-8" style={{ transform: 'translateX(-6px)' }}>
+        {inputs.map((input) => (
+          <HandleWithLabel
+            key={input.id}
+            type="target"
+            position={Position.Left}
+            id={input.id}
+            nodeId={id}
+            label={`${input.name || input.valueType}${input.required && !input.defaultValue ? ' *' : ''}`}
+            color={VALUE_TYPE_COLORS[input.valueType]}
+            style={{ position: 'relative', top: 0 }}
+          />
+        ))}
+      </div>
+
+      {/* Output Handles */}
+      <div className="absolute right-0 top-0 h-full flex flex-col justify-center gap-8" style={{ transform: 'translateX(6px)' }}>
+        {outputs.map((output) => (
+          <HandleWithLabel
+            key={output.id}
+            type="source"
+            position={Position.Right}
+            id={output.id}
+            nodeId={id}
+            label={output.name || output.valueType}
+            color={VALUE_TYPE_COLORS[output.valueType]}
+            style={{ position: 'relative', top: 0 }}
+          />
+        ))}
+      </div>
+
+      <NodeShell
+        title={displayLabel}
+        icon={<Workflow className="h-4 w-4" />}
+        selected={selected}
+        className="w-90"
+        right={
+          <div className="flex items-center gap-1">
+            {isLocked && <Lock className="h-4 w-4 text-foreground/50" />}
+            <NodeDropdownMenu
+              nodeId={id}
+              label={displayLabel}
+              isLocked={isLocked}
+              onToggleLock={toggleLock}
+              onOpenRename={() => {
+                setNewLabel(displayLabel);
+                setRenameDialogOpen(true);
+              }}
+              onOpenRunSettings={() => setRunSettingsOpen(true)}
+            />
+          </div>
+        }
+      >
+        <div className="space-y-4">
+          {/* Workflow Picker */}
+          <div>
+            <label className="text-xs text-foreground/60 mb-1 block">Workflow</label>
+            <div className="flex items-center gap-2">
+              <Select
+                value={data.workflowId ?? ''}
+                onValueChange={(value) => void loadSignature(value)}
+                disabled={isLoadingSignature}
+              >
+                <SelectTrigger className="nodrag w-full bg-muted/40">
+                  <SelectValue placeholder={data.workflowName ?? 'Choose a workflow'} />
+                </SelectTrigger>
+                <SelectContent>
+                  {workflows.map((workflow) => (
+                    <SelectItem key={workflow.id} value={workflow.id}>
+                      {workflow.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="nodrag h-9 w-9 shrink-0"
+                disabled={!data.workflowId || isLoadingSignature}
+                onClick={() => data.workflowId && void loadSignature(data.workflowId)}
+                title="Reload inputs and outputs"
+              >
+                {isLoadingSignature ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+              </Button>
+            </div>
+            {signatureError && <p className="mt-1 text-xs text-red-400">{signatureError}</p>}
+          </div>
+
+          {data.workflowId && inputs.length === 0 && outputs.length === 0 && (
+            <p className="text-xs text-foreground/50">
+              This workflow has no Workflow Input or Workflow Output nodes.
+            </p>
+          )}
+
+          {/* Last Output Values */}
+          {data.outputValues && outputs.length > 0 && (
+            <div className="space-y-2">
+              {outputs.map((output) => (
+                <div key={output.id}>
+                  <label className="text-xs text-foreground/60 mb-1 block">{output.name || output.valueType}</label>
+                  <div className="max-h-24 overflow-y-auto rounded-md bg-muted/40 p-2 text-xs whitespace-pre-wrap break-all">
+                    {data.outputValues?.[output.id] ?? '-'}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </NodeShell>
+
+      <RenameDialog
+        open={renameDialogOpen}
+        onOpenChange={setRenameDialogOpen}
+        value={newLabel}
+        onChange={setNewLabel}
+        onSubmit={handleRename}
+      />
+
+      <RunSettingsDialog
+        open={runSettingsOpen}
+        onOpenChange={setRunSettingsOpen}
+        value={data.execution}
+        onSubmit={(execution) => {
+          updateNodeData<SubworkflowFlowNode>(id, { execution });
+          setRunSettingsOpen(false);
+        }}
+      />
+    </div>
+  );
+}
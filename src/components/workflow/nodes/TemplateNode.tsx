@@ -0,0 +1,169 @@
+'use client';
+
+import * as React from 'react';
+import { Position, useUpdateNodeInternals, type NodeProps } from '@xyflow/react';
+import { useWorkflowStore, type WorkflowState } from '@/stores/workflowStore';
+import { type TemplateFlowNode, TEMPLATE_HANDLES } from '@/types/workflow.types';
+import { resolveNodeExecution } from '@/lib/nodeExecutor';
+import { getTemplateVariableHandle, getTemplateVariables } from '@/lib/templateRenderer';
+import { Textarea } from '@/components/ui/textarea';
+import { Braces, Lock } from 'lucide-react';
+
+import {
+  NodeShell,
+  HandleWithLabel,
+  RenameDialog,
+  NodeDropdownMenu,
+} from '../primitives';
+
+/**
+ * TemplateNode Component
+ *
+ * Fills a text template from its inputs, e.g. a prompt combining a product
+ * name, tone and audience without an extra LLM call.
+ * Features:
+ * - One text input handle per `{{name}}` placeholder
+ * - Defaults and filters: `{{ tone | default: "friendly" | upper }}`, also trim and json
+ * - `\{{` for a literal `{{`
+ * - Output handle with the rendered text, previewed from the connected nodes
+ */
+export function TemplateNode({ id, data, selected }: NodeProps<TemplateFlowNode>) {
+  const updateNodeData = useWorkflowStore((s: WorkflowState) => s.updateNodeData);
+  const nodes = useWorkflowStore((s: WorkflowState) => s.nodes);
+  const edges = useWorkflowStore((s: WorkflowState) => s.edges);
+  const onEdgesChange = useWorkflowStore((s: WorkflowState) => s.onEdgesChange);
+  const updateNodeInternals = useUpdateNodeInternals();
+
+  const [renameDialogOpen, setRenameDialogOpen] = React.useState(false);
+  const [newLabel, setNewLabel] = React.useState(data.label || 'Template');
+
+  const displayLabel = data.label || 'Template';
+  const isLocked = data.isLocked || false;
+  const variables = React.useMemo(() => getTemplateVariables(data.template), [data.template]);
+
+  // Input handles follow the placeholders, so React Flow must re-measure them
+  const variableKey = variables.join('|');
+  React.useEffect(() => {
+    updateNodeInternals(id);
+  }, [variableKey, id, updateNodeInternals]);
+
+  // Rendered from the values upstream nodes hold now; a run renders its own
+  const preview = React.useMemo(() => {
+    const node = nodes.find((n) => n.id === id);
+    return node ? resolveNodeExecution(node, nodes, edges) : undefined;
+  }, [nodes, edges, id]);
+
+  const handleRename = () => {
+    if (newLabel.trim()) {
+      updateNodeData<TemplateFlowNode>(id, { label: newLabel.trim() });
+    }
+    setRenameDialogOpen(false);
+  };
+
+  const toggleLock = () => {
+    updateNodeData<TemplateFlowNode>(id, { isLocked: !isLocked });
+  };
+
+  // Drop edges of removed placeholders once editing is done, not on every keystroke
+  const handleTemplateBlur = () => {
+    const handles = new Set(variables.map(getTemplateVariableHandle));
+    onEdgesChange(
+      edges
+        .filter((e) => e.target === id && !handles.has(e.targetHandle ?? ''))
+        .map((e) => ({ type: 'remove' as const, id: e.id }))
+    );
+  };
+
+  return (
+    <div className="relative group/node">
+      {/* Placeholder Input Handles */}
+      <div className="absolute left-0 top-0 h-full flex flex-col justify-center gap-8" style={{ transform: 'translateX(-6px)' }}>
+        {variables.map((name) => (
+          <HandleWithLabel
+            key={name}
+            type="target"
+            position={Position.Left}
+            id={getTemplateVariableHandle(name)}
+            nodeId={id}
+            label={name}
+            color="magenta"
+            style={{ position: 'relative', top: 0 }}
+          />
+        ))}
+      </div>
+
+      {/* Output Handle */}
+      <div className="absolute right-0 top-1/2 -translate-y-1/2" style={{ transform: 'translate(6px, -50%)' }}>
+        <HandleWithLabel
+          type="source"
+          position={Position.Right}
+          id={TEMPLATE_HANDLES.OUTPUT}
+          nodeId={id}
+          label="output"
+          color="green"
+        />
+      </div>
+
+      <NodeShell
+        title={displayLabel}
+        icon={<Braces className="h-4 w-4" />}
+        selected={selected}
+        className="w-90"
+        right={
+          <div className="flex items-center gap-1">
+            {isLocked && <Lock className="h-4 w-4 text-foreground/50" />}
+            <NodeDropdownMenu
+              nodeId={id}
+              label={displayLabel}
+              isLocked={isLocked}
+              onToggleLock={toggleLock}
+              onOpenRename={() => {
+                setNewLabel(displayLabel);
+                setRenameDialogOpen(true);
+              }}
+            />
+          </div>
+        }
+      >
+        <div className="space-y-4">
+          {/* Template */}
+          <div>
+            <label className="text-xs text-foreground/60 mb-1 block">Template</label>
+            <Textarea
+              value={data.template}
+              onChange={(e) => updateNodeData<TemplateFlowNode>(id, { template: e.target.value })}
+              onBlur={handleTemplateBlur}
+              placeholder="Write a {{ tone }} post about {{ product }}..."
+              className="nodrag min-h-20 resize-y bg-muted/40 font-mono text-sm"
+            />
+            <p className="mt-1 text-xs text-foreground/40">
+              Filters: default: &quot;…&quot;, trim, upper, json. Write \{'{{'} for a literal {'{{'}.
+            </p>
+          </div>
+
+          {/* Preview */}
+          {preview?.kind === 'invalid' ? (
+            <div className="rounded-lg p-3 text-sm bg-red-500/10 text-red-400 border border-red-500/30">
+              {preview.error}
+            </div>
+          ) : preview?.kind === 'source' ? (
+            <div>
+              <label className="text-xs text-foreground/60 mb-1 block">Preview</label>
+              <div className="max-h-40 overflow-y-auto rounded-md bg-muted/40 p-2 text-sm whitespace-pre-wrap break-words">
+                {(preview.output as { text: string }).text || '-'}
+              </div>
+            </div>
+          ) : null}
+        </div>
+      </NodeShell>
+
+      <RenameDialog
+        open={renameDialogOpen}
+        onOpenChange={setRenameDialogOpen}
+        value={newLabel}
+        onChange={setNewLabel}
+        onSubmit={handleRename}
+      />
+    </div>
+  );
+}
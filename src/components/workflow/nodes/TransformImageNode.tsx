@@ -0,0 +1,506 @@
+'use client';
+
+import * as React from 'react';
+import { Position, type NodeProps } from '@xyflow/react';
+import { cn } from '@/lib/utils';
+import { useWorkflowStore, type WorkflowState } from '@/stores/workflowStore';
+import { gatherNodeInputs, resolveNodeExecution } from '@/lib/nodeExecutor';
+import {
+  type ImageResizeMode,
+  type ImageOutputFormat,
+  type TransformImageFlowNode,
+  IMAGE_OUTPUT_FORMATS,
+  TRANSFORM_IMAGE_HANDLES,
+} from '@/types/workflow.types';
+import { useNodeRunResult } from '@/hooks/useNodeRun';
+import type { transformImageTask } from '@/trigger/transformImageTask';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Loader2, Lock, Play, SlidersHorizontal, X } from 'lucide-react';
+
+import {
+  NodeShell,
+  HandleWithLabel,
+  RenameDialog,
+  RunSettingsDialog,
+  NodeDropdownMenu,
+} from '../primitives';
+
+// Types for Trigger.dev task API
+interface TriggerTaskResponse {
+  success: boolean;
+  runId: string;
+  publicAccessToken?: string;
+  error?: string;
+}
+
+const RESIZE_MODES: { value: ImageResizeMode; label: string }[] = [
+  { value: 'none', label: 'Keep size' },
+  { value: 'fit', label: 'Fit inside' },
+  { value: 'fill', label: 'Fill and crop' },
+  { value: 'exact', label: 'Stretch to size' },
+];
+
+const ROTATIONS: TransformImageFlowNode['data']['rotate'][] = [0, 90, 180, 270];
+
+/** Parse a number input; empty or invalid input clears the setting */
+const toNumber = (value: string, min: number, max: number): number | undefined => {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? Math.min(Math.max(parsed, min), max) : undefined;
+};
+
+/**
+ * TransformImageNode Component
+ *
+ * A node for transforming images via Trigger.dev (FFmpeg).
+ * Features:
+ * - Input handle for image URL
+ * - Resize (fit / fill / exact), rotate and flip
+ * - Grayscale, blur and sharpen filters
+ * - Output format (PNG, JPEG, WebP, AVIF) with quality
+ * - Input and output image previews
+ * - Pulsating glow when processing
+ */
+export function TransformImageNode({ id, data, selected }: NodeProps<TransformImageFlowNode>) {
+  const updateNodeData = useWorkflowStore((s: WorkflowState) => s.updateNodeData);
+  const addTask = useWorkflowStore((s: WorkflowState) => s.addTask);
+  const updateTask = useWorkflowStore((s: WorkflowState) => s.updateTask);
+  const edges = useWorkflowStore((s: WorkflowState) => s.edges);
+  const nodes = useWorkflowStore((s: WorkflowState) => s.nodes);
+  // Workflow history functions
+  const workflowId = useWorkflowStore((s: WorkflowState) => s.workflowId);
+  const startRun = useWorkflowStore((s: WorkflowState) => s.startRun);
+  const addNodeToRun = useWorkflowStore((s: WorkflowState) => s.addNodeToRun);
+  const completeNodeRun = useWorkflowStore((s: WorkflowState) => s.completeNodeRun);
+  const completeRun = useWorkflowStore((s: WorkflowState) => s.completeRun);
+  // Realtime subscription to this node's Trigger.dev run
+  const { waitForRun } = useNodeRunResult<typeof transformImageTask>();
+
+  const [renameDialogOpen, setRenameDialogOpen] = React.useState(false);
+  const [runSettingsOpen, setRunSettingsOpen] = React.useState(false);
+  const [newLabel, setNewLabel] = React.useState(data.label || 'Transform Image');
+
+  const displayLabel = data.label || 'Transform Image';
+  const isLocked = data.isLocked || false;
+  const isProcessing = data.isProcessing || false;
+  const isLossy = IMAGE_OUTPUT_FORMATS.find((format) => format.value === data.format)?.lossy ?? false;
+
+  // Preview of the connected image
+  const inputImageUrl = React.useMemo(() => {
+    const inputs = gatherNodeInputs(id, nodes, edges);
+    const imageUrl = Object.entries(inputs).find(([key, value]) => key.endsWith('_imageUrl') && value)?.[1];
+    return typeof imageUrl === 'string' ? imageUrl : undefined;
+  }, [edges, nodes, id]);
+
+  const handleRename = () => {
+    if (newLabel.trim()) {
+      updateNodeData<TransformImageFlowNode>(id, { label: newLabel.trim() });
+    }
+    setRenameDialogOpen(false);
+  };
+
+  const toggleLock = () => {
+    updateNodeData<TransformImageFlowNode>(id, { isLocked: !isLocked });
+  };
+
+  const handleTransform = async () => {
+    updateNodeData<TransformImageFlowNode>(id, { isProcessing: true, error: undefined });
+
+    const taskId = addTask(id, displayLabel);
+
+    // Start workflow history run for this individual node
+    let runId: string | null = null;
+    let nodeRunId: string | null = null;
+
+    if (workflowId) {
+      runId = await startRun(workflowId, 'single', [id]);
+    }
+
+    try {
+      const { nodes: currentNodes, edges: currentEdges } = useWorkflowStore.getState();
+      const node = currentNodes.find((n) => n.id === id);
+      if (!node) {
+        throw new Error('Transform image node not found');
+      }
+      const execution = resolveNodeExecution(node, currentNodes, currentEdges, undefined, { force: true });
+      const payload = execution.kind === 'task' ? execution.payload : undefined;
+
+      // Record node run to history BEFORE validation to capture errors
+      if (runId) {
+        nodeRunId = await addNodeToRun(runId, id, displayLabel, 'transformImage', payload ?? {
+          imageUrl: inputImageUrl ?? '(not connected)',
+        });
+      }
+
+      if (execution.kind === 'invalid') {
+        throw new Error(execution.error);
+      }
+
+      // Trigger the Trigger.dev task
+      const triggerResponse = await fetch('/api/trigger', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ taskType: 'transform-image', payload }),
+      });
+
+      const triggerResult: TriggerTaskResponse = await triggerResponse.json();
+
+      if (!triggerResult.success || !triggerResult.runId || !triggerResult.publicAccessToken) {
+        throw new Error(triggerResult.error || 'Failed to trigger transform image task');
+      }
+
+      // Lets the task manager cancel this run
+      updateTask(taskId, { triggerRunId: triggerResult.runId });
+
+      // Wait for completion via Realtime
+      const runResult = await waitForRun(triggerResult.runId, triggerResult.publicAccessToken);
+
+      if (runResult.isCancelled) {
+        updateNodeData<TransformImageFlowNode>(id, { isProcessing: false });
+        updateTask(taskId, { status: 'cancelled', completedAt: new Date() });
+        if (nodeRunId) {
+          await completeNodeRun(nodeRunId, 'cancelled');
+        }
+        if (runId) {
+          await completeRun(runId, 'cancelled');
+        }
+        return;
+      }
+
+      if (runResult.isFailed) {
+        throw new Error(runResult.error || 'Transform image task failed');
+      }
+
+      const transformedImageUrl = runResult.output?.transformedImageUrl;
+
+      updateNodeData<TransformImageFlowNode>(id, {
+        outputImageUrl: transformedImageUrl,
+        isProcessing: false,
+        error: undefined,
+      });
+
+      updateTask(taskId, { status: 'completed', completedAt: new Date() });
+
+      // Complete node run and workflow run in history
+      if (nodeRunId) {
+        await completeNodeRun(nodeRunId, 'completed', { transformedImageUrl });
+      }
+      if (runId) {
+        await completeRun(runId, 'completed');
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const safeError = message && message !== '[object Object]' ? message : 'Task failed. See Trigger.dev dashboard for details.';
+
+      updateNodeData<TransformImageFlowNode>(id, {
+        isProcessing: false,
+        error: safeError,
+      });
+
+      updateTask(taskId, {
+        status: 'failed',
+        completedAt: new Date(),
+        error: safeError,
+      });
+
+      // Record failure in history
+      if (nodeRunId) {
+        await completeNodeRun(nodeRunId, 'failed', undefined, safeError);
+      }
+      if (runId) {
+        await completeRun(runId, 'failed');
+      }
+    }
+  };
+
+  return (
+    <div className={cn("relative group/node", isProcessing && "node-processing-glow rounded-xl")}>
+      {/* Input Handle */}
+      <div className="absolute left-0 top-1/2 -translate-y-1/2" style={{ transform: 'translate(-6px, -50%)' }}>
+        <HandleWithLabel
+          type="target"
+          position={Position.Left}
+          id={TRANSFORM_IMAGE_HANDLES.IMAGE_INPUT}
+          nodeId={id}
+          label="File*"
+          color="cyan"
+        />
+      </div>
+
+      {/* Output Handle */}
+      <div className="absolute right-0 top-1/2 -translate-y-1/2" style={{ transform: 'translate(6px, -50%)' }}>
+        <HandleWithLabel
+          type="source"
+          position={Position.Right}
+          id={TRANSFORM_IMAGE_HANDLES.OUTPUT}
+          nodeId={id}
+          label="File"
+          color="green"
+        />
+      </div>
+
+      <NodeShell
+        title={displayLabel}
+        icon={<SlidersHorizontal className="h-4 w-4" />}
+        selected={selected}
+        className="w-90"
+        right={
+          <div className="flex items-center gap-1">
+            {isLocked && <Lock className="h-4 w-4 text-foreground/50" />}
+            <NodeDropdownMenu
+              nodeId={id}
+              label={displayLabel}
+              isLocked={isLocked}
+              onToggleLock={toggleLock}
+              onOpenRename={() => {
+                setNewLabel(displayLabel);
+                setRenameDialogOpen(true);
+              }}
+              onOpenRunSettings={() => setRunSettingsOpen(true)}
+            />
+          </div>
+        }
+      >
+        <div className="space-y-4">
+          {/* Input Image Preview */}
+          <div>
+            <label className="text-xs text-foreground/60 mb-1 block">Input Preview</label>
+            {inputImageUrl ? (
+              <div className="rounded-lg overflow-hidden bg-muted/40">
+                <img src={inputImageUrl} alt="Input Preview" className="w-full max-h-37.5 object-contain" />
+              </div>
+            ) : (
+              <div className="rounded-lg bg-muted/20 p-4 text-center text-sm text-foreground/50">
+                Connect an image source
+              </div>
+            )}
+          </div>
+
+          {/* Resize */}
+          <div className="space-y-2">
+            <div className="flex items-center gap-3">
+              <label className="text-xs text-foreground/60 w-20">Resize</label>
+              <Select
+                value={data.resizeMode}
+                onValueChange={(value: ImageResizeMode) => updateNodeData<TransformImageFlowNode>(id, { resizeMode: value })}
+              >
+                <SelectTrigger className="nodrag flex-1 bg-muted/40 h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RESIZE_MODES.map((mode) => (
+                    <SelectItem key={mode.value} value={mode.value}>
+                      {mode.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {data.resizeMode !== 'none' && (
+              <div className="flex items-center gap-3">
+                <label className="text-xs text-foreground/60 w-20">Size (px)</label>
+                <div className="flex items-center gap-2 flex-1">
+                  <Input
+                    type="number"
+                    min={1}
+                    value={data.width ?? ''}
+                    onChange={(e) => updateNodeData<TransformImageFlowNode>(id, { width: toNumber(e.target.value, 1, 8192) })}
+                    placeholder="Auto"
+                    className="nodrag h-8 bg-muted/40 text-xs"
+                  />
+                  <span className="text-xs text-foreground/50">×</span>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={data.height ?? ''}
+                    onChange={(e) => updateNodeData<TransformImageFlowNode>(id, { height: toNumber(e.target.value, 1, 8192) })}
+                    placeholder="Auto"
+                    className="nodrag h-8 bg-muted/40 text-xs"
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* Rotate and flip */}
+          <div className="flex items-center gap-3">
+            <label className="text-xs text-foreground/60 w-20">Rotate</label>
+            <Select
+              value={String(data.rotate)}
+              onValueChange={(value) =>
+                updateNodeData<TransformImageFlowNode>(id, { rotate: Number(value) as TransformImageFlowNode['data']['rotate'] })
+              }
+            >
+              <SelectTrigger className="nodrag flex-1 bg-muted/40 h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ROTATIONS.map((rotation) => (
+                  <SelectItem key={rotation} value={String(rotation)}>
+                    {rotation === 0 ? 'None' : `${rotation}° clockwise`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            {([
+              ['flipHorizontal', 'Flip H'],
+              ['flipVertical', 'Flip V'],
+              ['grayscale', 'Grayscale'],
+            ] as const).map(([key, label]) => (
+              <label key={key} className="flex items-center gap-2 text-xs text-foreground/60">
+                <Switch
+                  checked={!!data[key]}
+                  onCheckedChange={(checked) => updateNodeData<TransformImageFlowNode>(id, { [key]: checked })}
+                  className="nodrag"
+                />
+                {label}
+              </label>
+            ))}
+          </div>
+
+          {/* Filters */}
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="text-xs text-foreground/60 mb-1 block">Blur (0-20)</label>
+              <Input
+                type="number"
+                min={0}
+                max={20}
+                step={0.5}
+                value={data.blur ?? ''}
+                onChange={(e) => updateNodeData<TransformImageFlowNode>(id, { blur: toNumber(e.target.value, 0, 20) })}
+                placeholder="Off"
+                className="nodrag h-8 bg-muted/40 text-xs"
+              />
+            </div>
+            <div>
+              <label className="text-xs text-foreground/60 mb-1 block">Sharpen (0-5)</label>
+              <Input
+                type="number"
+                min={0}
+                max={5}
+                step={0.1}
+                value={data.sharpen ?? ''}
+                onChange={(e) => updateNodeData<TransformImageFlowNode>(id, { sharpen: toNumber(e.target.value, 0, 5) })}
+                placeholder="Off"
+                className="nodrag h-8 bg-muted/40 text-xs"
+              />
+            </div>
+          </div>
+
+          {/* Output format and quality */}
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="text-xs text-foreground/60 mb-1 block">Format</label>
+              <Select
+                value={data.format}
+                onValueChange={(value: ImageOutputFormat) => updateNodeData<TransformImageFlowNode>(id, { format: value })}
+              >
+                <SelectTrigger className="nodrag h-8 bg-muted/40 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {IMAGE_OUTPUT_FORMATS.map((format) => (
+                    <SelectItem key={format.value} value={format.value}>
+                      {format.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <label className="text-xs text-foreground/60 mb-1 block">Quality (1-100)</label>
+              <Input
+                type="number"
+                min={1}
+                max={100}
+                value={isLossy ? data.quality : ''}
+                onChange={(e) => {
+                  const quality = toNumber(e.target.value, 1, 100);
+                  if (quality !== undefined) {
+                    updateNodeData<TransformImageFlowNode>(id, { quality: Math.round(quality) });
+                  }
+                }}
+                placeholder="Lossless"
+                disabled={!isLossy}
+                className={cn('nodrag h-8 bg-muted/40 text-xs', !isLossy && 'cursor-not-allowed opacity-60')}
+              />
+            </div>
+          </div>
+
+          {/* Error Display */}
+          {data.error && (
+            <div
+              className={cn(
+                'rounded-lg p-3 text-sm',
+                'bg-red-500/10 text-red-400 border border-red-500/30'
+              )}
+            >
+              <div className="flex items-start gap-2">
+                <X className="h-4 w-4 mt-0.5 shrink-0" />
+                <span>{typeof data.error === 'string' ? data.error : String(data.error)}</span>
+              </div>
+            </div>
+          )}
+
+          {/* Transform Button */}
+          <Button
+            onClick={handleTransform}
+            disabled={isProcessing || !inputImageUrl}
+            className="w-full bg-black hover:bg-black/90 text-white"
+          >
+            {isProcessing ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Processing...
+              </>
+            ) : (
+              <>
+                <Play className="mr-2 h-4 w-4" />
+                Apply Transform
+              </>
+            )}
+          </Button>
+
+          {/* Output Image Preview */}
+          {data.outputImageUrl && (
+            <div>
+              <label className="text-xs text-foreground/60 mb-1 block">Output Preview</label>
+              <div className="rounded-lg overflow-hidden bg-muted/40">
+                <img src={data.outputImageUrl} alt="Transformed Output" className="w-full max-h-37.5 object-contain" />
+              </div>
+            </div>
+          )}
+        </div>
+      </NodeShell>
+
+      <RenameDialog
+        open={renameDialogOpen}
+        onOpenChange={setRenameDialogOpen}
+        value={newLabel}
+        onChange={setNewLabel}
+        onSubmit={handleRename}
+      />
+
+      <RunSettingsDialog
+        open={runSettingsOpen}
+        onOpenChange={setRunSettingsOpen}
+        value={data.execution}
+        onSubmit={(execution) => {
+          updateNodeData<TransformImageFlowNode>(id, { execution });
+          setRunSettingsOpen(false);
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,503 @@
+'use client';
+
+import * as React from 'react';
+import { Position, type NodeProps } from '@xyflow/react';
+import { cn } from '@/lib/utils';
+import { useWorkflowStore, type WorkflowState } from '@/stores/workflowStore';
+import { gatherNodeInputs, resolveNodeExecution } from '@/lib/nodeExecutor';
+import {
+  type TrimVideoFlowNode,
+  type VideoCodec,
+  TRIM_VIDEO_HANDLES,
+  VIDEO_CODECS,
+} from '@/types/workflow.types';
+import { useNodeRunResult } from '@/hooks/useNodeRun';
+import type { trimVideoTask } from '@/trigger/trimVideoTask';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Loader2, Lock, Play, Scissors, X } from 'lucide-react';
+
+import {
+  NodeShell,
+  HandleWithLabel,
+  RenameDialog,
+  RunSettingsDialog,
+  NodeDropdownMenu,
+} from '../primitives';
+
+// Types for Trigger.dev task API
+interface TriggerTaskResponse {
+  success: boolean;
+  runId: string;
+  publicAccessToken?: string;
+  error?: string;
+}
+
+const DEFAULT_ENCODE = { codec: 'h264' as const, crf: 23 };
+
+/** Parse a number input; empty or invalid input clears the setting */
+const toNumber = (value: string, min: number, max: number): number | undefined => {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? Math.min(Math.max(parsed, min), max) : undefined;
+};
+
+/** Parse a range input: seconds (e.g. "30", "1.5") or percentage (e.g. "50%"); null if invalid */
+const parseRangeInput = (value: string): { seconds?: number; percent?: number } | null => {
+  const trimmed = value.trim();
+  if (!trimmed) return {};
+  if (trimmed.endsWith('%')) {
+    const percent = parseFloat(trimmed.slice(0, -1));
+    return !Number.isNaN(percent) && percent >= 0 && percent <= 100 ? { percent } : null;
+  }
+  const seconds = parseFloat(trimmed);
+  return !Number.isNaN(seconds) && seconds >= 0 ? { seconds } : null;
+};
+
+const formatRangeInput = (seconds: number | undefined, percent: number | undefined): string =>
+  percent != null ? `${percent}%` : seconds != null ? String(seconds) : '';
+
+/**
+ * TrimVideoNode Component
+ *
+ * A node for trimming videos via Trigger.dev (FFmpeg).
+ * Features:
+ * - Input handle for video URL
+ * - Start and end in seconds or as a percentage of duration
+ * - Optional re-encode (H.264 or VP9) with quality and height
+ * - Mute option
+ * - Input and output video previews
+ * - Output handle for the trimmed video URL
+ */
+export function TrimVideoNode({ id, data, selected }: NodeProps<TrimVideoFlowNode>) {
+  const updateNodeData = useWorkflowStore((s: WorkflowState) => s.updateNodeData);
+  const addTask = useWorkflowStore((s: WorkflowState) => s.addTask);
+  const updateTask = useWorkflowStore((s: WorkflowState) => s.updateTask);
+  const edges = useWorkflowStore((s: WorkflowState) => s.edges);
+  const nodes = useWorkflowStore((s: WorkflowState) => s.nodes);
+  // Workflow history functions
+  const workflowId = useWorkflowStore((s: WorkflowState) => s.workflowId);
+  const startRun = useWorkflowStore((s: WorkflowState) => s.startRun);
+  const addNodeToRun = useWorkflowStore((s: WorkflowState) => s.addNodeToRun);
+  const completeNodeRun = useWorkflowStore((s: WorkflowState) => s.completeNodeRun);
+  const completeRun = useWorkflowStore((s: WorkflowState) => s.completeRun);
+  // Realtime subscription to this node's Trigger.dev run
+  const { waitForRun } = useNodeRunResult<typeof trimVideoTask>();
+
+  const [renameDialogOpen, setRenameDialogOpen] = React.useState(false);
+  const [runSettingsOpen, setRunSettingsOpen] = React.useState(false);
+  const [newLabel, setNewLabel] = React.useState(data.label || 'Trim Video');
+  const [startInput, setStartInput] = React.useState(formatRangeInput(data.start ?? 0, data.startPercent));
+  const [endInput, setEndInput] = React.useState(formatRangeInput(data.end, data.endPercent));
+
+  const displayLabel = data.label || 'Trim Video';
+  const isLocked = data.isLocked || false;
+  const isProcessing = data.isProcessing || false;
+
+  // Preview of the connected video
+  const inputVideoUrl = React.useMemo(() => {
+    const inputs = gatherNodeInputs(id, nodes, edges);
+    const videoUrl = Object.entries(inputs).find(([key, value]) => key.endsWith('_videoUrl') && value)?.[1];
+    return typeof videoUrl === 'string' ? videoUrl : undefined;
+  }, [edges, nodes, id]);
+
+  const handleRename = () => {
+    if (newLabel.trim()) {
+      updateNodeData<TrimVideoFlowNode>(id, { label: newLabel.trim() });
+    }
+    setRenameDialogOpen(false);
+  };
+
+  const toggleLock = () => {
+    updateNodeData<TrimVideoFlowNode>(id, { isLocked: !isLocked });
+  };
+
+  /** Apply the start input; invalid input reverts to the current start */
+  const handleStartApply = () => {
+    const parsed = parseRangeInput(startInput);
+    if (parsed) {
+      updateNodeData<TrimVideoFlowNode>(id, { start: parsed.seconds ?? 0, startPercent: parsed.percent });
+      setStartInput(formatRangeInput(parsed.seconds ?? 0, parsed.percent));
+    } else {
+      setStartInput(formatRangeInput(data.start ?? 0, data.startPercent));
+    }
+  };
+
+  /** Apply the end input; empty input trims to the end of the video */
+  const handleEndApply = () => {
+    const parsed = parseRangeInput(endInput);
+    if (parsed) {
+      updateNodeData<TrimVideoFlowNode>(id, { end: parsed.seconds, endPercent: parsed.percent });
+      setEndInput(formatRangeInput(parsed.seconds, parsed.percent));
+    } else {
+      setEndInput(formatRangeInput(data.end, data.endPercent));
+    }
+  };
+
+  const handleTrim = async () => {
+    updateNodeData<TrimVideoFlowNode>(id, { isProcessing: true, error: undefined });
+
+    const taskId = addTask(id, displayLabel);
+
+    // Start workflow history run for this individual node
+    let runId: string | null = null;
+    let nodeRunId: string | null = null;
+
+    if (workflowId) {
+      runId = await startRun(workflowId, 'single', [id]);
+    }
+
+    try {
+      const { nodes: currentNodes, edges: currentEdges } = useWorkflowStore.getState();
+      const node = currentNodes.find((n) => n.id === id);
+      if (!node) {
+        throw new Error('Trim video node not found');
+      }
+      const execution = resolveNodeExecution(node, currentNodes, currentEdges, undefined, { force: true });
+      const payload = execution.kind === 'task' ? execution.payload : undefined;
+
+      // Record node run to history BEFORE validation to capture errors
+      if (runId) {
+        nodeRunId = await addNodeToRun(runId, id, displayLabel, 'trimVideo', payload ?? {
+          videoUrl: inputVideoUrl ?? '(not connected)',
+        });
+      }
+
+      if (execution.kind === 'invalid') {
+        throw new Error(execution.error);
+      }
+
+      // Trigger the Trigger.dev task
+      const triggerResponse = await fetch('/api/trigger', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ taskType: 'trim-video', payload }),
+      });
+
+      const triggerResult: TriggerTaskResponse = await triggerResponse.json();
+
+      if (!triggerResult.success || !triggerResult.runId || !triggerResult.publicAccessToken) {
+        throw new Error(triggerResult.error || 'Failed to trigger trim video task');
+      }
+
+      // Lets the task manager cancel this run
+      updateTask(taskId, { triggerRunId: triggerResult.runId });
+
+      // Wait for completion via Realtime
+      const runResult = await waitForRun(triggerResult.runId, triggerResult.publicAccessToken);
+
+      if (runResult.isCancelled) {
+        updateNodeData<TrimVideoFlowNode>(id, { isProcessing: false });
+        updateTask(taskId, { status: 'cancelled', completedAt: new Date() });
+        if (nodeRunId) {
+          await completeNodeRun(nodeRunId, 'cancelled');
+        }
+        if (runId) {
+          await completeRun(runId, 'cancelled');
+        }
+        return;
+      }
+
+      if (runResult.isFailed) {
+        throw new Error(runResult.error || 'Trim video task failed');
+      }
+
+      const trimmedVideoUrl = runResult.output?.trimmedVideoUrl;
+      const duration = runResult.output?.duration;
+
+      updateNodeData<TrimVideoFlowNode>(id, {
+        outputVideoUrl: trimmedVideoUrl,
+        outputDuration: duration,
+        isProcessing: false,
+        error: undefined,
+      });
+
+      updateTask(taskId, { status: 'completed', completedAt: new Date() });
+
+      // Complete node run and workflow run in history
+      if (nodeRunId) {
+        await completeNodeRun(nodeRunId, 'completed', { trimmedVideoUrl, duration });
+      }
+      if (runId) {
+        await completeRun(runId, 'completed');
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const safeError = message && message !== '[object Object]' ? message : 'Task failed. See Trigger.dev dashboard for details.';
+
+      updateNodeData<TrimVideoFlowNode>(id, {
+        isProcessing: false,
+        error: safeError,
+      });
+
+      updateTask(taskId, {
+        status: 'failed',
+        completedAt: new Date(),
+        error: safeError,
+      });
+
+      // Record failure in history
+      if (nodeRunId) {
+        await completeNodeRun(nodeRunId, 'failed', undefined, safeError);
+      }
+      if (runId) {
+        await completeRun(runId, 'failed');
+      }
+    }
+  };
+
+  return (
+    <div className={cn("relative group/node", isProcessing && "node-processing-glow rounded-xl")}>
+      {/* Input Handle */}
+      <div className="absolute left-0 top-1/2 -translate-y-1/2" style={{ transform: 'translate(-6px, -50%)' }}>
+        <HandleWithLabel
+          type="target"
+          position={Position.Left}
+          id={TRIM_VIDEO_HANDLES.VIDEO_INPUT}
+          nodeId={id}
+          label="Video*"
+          color="cyan"
+        />
+      </div>
+
+      {/* Output Handle */}
+      <div className="absolute right-0 top-1/2 -translate-y-1/2" style={{ transform: 'translate(6px, -50%)' }}>
+        <HandleWithLabel
+          type="source"
+          position={Position.Right}
+          id={TRIM_VIDEO_HANDLES.OUTPUT}
+          nodeId={id}
+          label="Video"
+          color="green"
+        />
+      </div>
+
+      <NodeShell
+        title={displayLabel}
+        icon={<Scissors className="h-4 w-4" />}
+        selected={selected}
+        className="w-90"
+        right={
+          <div className="flex items-center gap-1">
+            {isLocked && <Lock className="h-4 w-4 text-foreground/50" />}
+            <NodeDropdownMenu
+              nodeId={id}
+              label={displayLabel}
+              isLocked={isLocked}
+              onToggleLock={toggleLock}
+              onOpenRename={() => {
+                setNewLabel(displayLabel);
+                setRenameDialogOpen(true);
+              }}
+              onOpenRunSettings={() => setRunSettingsOpen(true)}
+            />
+          </div>
+        }
+      >
+        <div className="space-y-4">
+          {/* Input Video Preview */}
+          <div>
+            <label className="text-xs text-foreground/60 mb-1 block">Input Preview</label>
+            {inputVideoUrl ? (
+              <div className="rounded-lg overflow-hidden bg-black">
+                <video src={inputVideoUrl} className="nodrag w-full max-h-37.5 object-contain" controls muted />
+              </div>
+            ) : (
+              <div className="rounded-lg bg-muted/20 p-4 text-center text-sm text-foreground/50">
+                Connect a video source
+              </div>
+            )}
+          </div>
+
+          {/* Range: seconds or percentage (e.g. 50%) */}
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="text-xs text-foreground/60 mb-1 block">Start</label>
+              <Input
+                value={startInput}
+                onChange={(e) => setStartInput(e.target.value)}
+                onBlur={handleStartApply}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    handleStartApply();
+                  }
+                }}
+                placeholder="0 or 10%"
+                className="nodrag h-8 bg-muted/40 text-xs"
+              />
+            </div>
+            <div>
+              <label className="text-xs text-foreground/60 mb-1 block">End</label>
+              <Input
+                value={endInput}
+                onChange={(e) => setEndInput(e.target.value)}
+                onBlur={handleEndApply}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    handleEndApply();
+                  }
+                }}
+                placeholder="End of video"
+                className="nodrag h-8 bg-muted/40 text-xs"
+              />
+            </div>
+          </div>
+
+          {/* Audio and encoding */}
+          <div className="grid grid-cols-2 gap-2">
+            <label className="flex items-center gap-2 text-xs text-foreground/60">
+              <Switch
+                checked={!!data.mute}
+                onCheckedChange={(checked) => updateNodeData<TrimVideoFlowNode>(id, { mute: checked })}
+                className="nodrag"
+              />
+              Mute
+            </label>
+            <label className="flex items-center gap-2 text-xs text-foreground/60">
+              <Switch
+                checked={!!data.encode}
+                onCheckedChange={(checked) =>
+                  updateNodeData<TrimVideoFlowNode>(id, { encode: checked ? DEFAULT_ENCODE : undefined })
+                }
+                className="nodrag"
+              />
+              Re-encode
+            </label>
+          </div>
+          {data.encode ? (
+            <div className="grid grid-cols-3 gap-2">
+              <div>
+                <label className="text-xs text-foreground/60 mb-1 block">Codec</label>
+                <Select
+                  value={data.encode.codec}
+                  onValueChange={(value: VideoCodec) =>
+                    updateNodeData<TrimVideoFlowNode>(id, { encode: { ...DEFAULT_ENCODE, ...data.encode, codec: value } })
+                  }
+                >
+                  <SelectTrigger className="nodrag h-8 bg-muted/40 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {VIDEO_CODECS.map((codec) => (
+                      <SelectItem key={codec.value} value={codec.value}>
+                        {codec.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <label className="text-xs text-foreground/60 mb-1 block">CRF (0-51)</label>
+                <Input
+                  type="number"
+                  min={0}
+                  max={51}
+                  value={data.encode.crf}
+                  onChange={(e) => {
+                    const crf = toNumber(e.target.value, 0, 51);
+                    if (crf !== undefined) {
+                      updateNodeData<TrimVideoFlowNode>(id, { encode: { ...DEFAULT_ENCODE, ...data.encode, crf: Math.round(crf) } });
+                    }
+                  }}
+                  className="nodrag h-8 bg-muted/40 text-xs"
+                />
+              </div>
+              <div>
+                <label className="text-xs text-foreground/60 mb-1 block">Height (px)</label>
+                <Input
+                  type="number"
+                  min={2}
+                  value={data.encode.height ?? ''}
+                  onChange={(e) => {
+                    const height = toNumber(e.target.value, 2, 4320);
+                    updateNodeData<TrimVideoFlowNode>(id, {
+                      encode: { ...DEFAULT_ENCODE, ...data.encode, height: height && Math.round(height) },
+                    });
+                  }}
+                  placeholder="Keep"
+                  className="nodrag h-8 bg-muted/40 text-xs"
+                />
+              </div>
+            </div>
+          ) : (
+            <p className="text-xs text-foreground/50">
+              Streams are copied, so the clip starts at the keyframe before Start.
+            </p>
+          )}
+
+          {/* Error Display */}
+          {data.error && (
+            <div
+              className={cn(
+                'rounded-lg p-3 text-sm',
+                'bg-red-500/10 text-red-400 border border-red-500/30'
+              )}
+            >
+              <div className="flex items-start gap-2">
+                <X className="h-4 w-4 mt-0.5 shrink-0" />
+                <span>{typeof data.error === 'string' ? data.error : String(data.error)}</span>
+              </div>
+            </div>
+          )}
+
+          {/* Trim Button */}
+          <Button
+            onClick={handleTrim}
+            disabled={isProcessing || !inputVideoUrl}
+            className="w-full bg-black hover:bg-black/90 text-white"
+          >
+            {isProcessing ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Processing...
+              </>
+            ) : (
+              <>
+                <Play className="mr-2 h-4 w-4" />
+                Trim Video
+              </>
+            )}
+          </Button>
+
+          {/* Output Video Preview */}
+          {data.outputVideoUrl && (
+            <div>
+              <label className="text-xs text-foreground/60 mb-1 block">
+                Output Preview
+                {data.outputDuration != null && ` (${data.outputDuration.toFixed(2)}s)`}
+              </label>
+              <div className="rounded-lg overflow-hidden bg-black">
+                <video src={data.outputVideoUrl} className="nodrag w-full max-h-37.5 object-contain" controls />
+              </div>
+            </div>
+          )}
+        </div>
+      </NodeShell>
+
+      <RenameDialog
+        open={renameDialogOpen}
+        onOpenChange={setRenameDialogOpen}
+        value={newLabel}
+        onChange={setNewLabel}
+        onSubmit={handleRename}
+      />
+
+      <RunSettingsDialog
+        open={runSettingsOpen}
+        onOpenChange={setRunSettingsOpen}
+        value={data.execution}
+        onSubmit={(execution) => {
+          updateNodeData<TrimVideoFlowNode>(id, { execution });
+          setRunSettingsOpen(false);
+        }}
+      />
+    </div>
+  );
+}
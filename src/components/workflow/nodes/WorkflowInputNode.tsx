@@ -0,0 +1,170 @@
+'use client';
+
+import * as React from 'react';
+import { Position, type NodeProps } from '@xyflow/react';
+import { useWorkflowStore, type WorkflowState } from '@/stores/workflowStore';
+import {
+  type WorkflowInputFlowNode,
+  type WorkflowValueType,
+  WORKFLOW_INPUT_HANDLES,
+  WORKFLOW_VALUE_TYPES,
+} from '@/types/workflow.types';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { LogIn, Lock } from 'lucide-react';
+
+import {
+  NodeShell,
+  HandleWithLabel,
+  RenameDialog,
+  NodeDropdownMenu,
+} from '../primitives';
+import { VALUE_TYPE_COLORS } from '../data';
+
+/**
+ * WorkflowInputNode Component
+ *
+ * A parameter of the workflow, so it can be run with different values
+ * without editing the canvas.
+ * Features:
+ * - Name and type (text, image or video), asked for by the run dialog and
+ *   shown as an input handle on Sub-workflow nodes calling this workflow
+ * - Default value, and whether a value is required
+ */
+export function WorkflowInputNode({ id, data, selected }: NodeProps<WorkflowInputFlowNode>) {
+  const updateNodeData = useWorkflowStore((s: WorkflowState) => s.updateNodeData);
+
+  const [renameDialogOpen, setRenameDialogOpen] = React.useState(false);
+  const [newLabel, setNewLabel] = React.useState(data.label || 'Workflow Input');
+
+  const displayLabel = data.label || 'Workflow Input';
+  const isLocked = data.isLocked || false;
+
+  const handleRename = () => {
+    if (newLabel.trim()) {
+      updateNodeData<WorkflowInputFlowNode>(id, { label: newLabel.trim() });
+    }
+    setRenameDialogOpen(false);
+  };
+
+  const toggleLock = () => {
+    updateNodeData<WorkflowInputFlowNode>(id, { isLocked: !isLocked });
+  };
+
+  return (
+    <div className="relative group/node">
+      {/* Output Handle */}
+      <div className="absolute right-0 top-1/2 -translate-y-1/2" style={{ transform: 'translate(6px, -50%)' }}>
+        <HandleWithLabel
+          type="source"
+          position={Position.Right}
+          id={WORKFLOW_INPUT_HANDLES.OUTPUT}
+          nodeId={id}
+          label={data.name || 'input'}
+          color={VALUE_TYPE_COLORS[data.valueType]}
+        />
+      </div>
+
+      <NodeShell
+        title={displayLabel}
+        icon={<LogIn className="h-4 w-4" />}
+        selected={selected}
+        className="w-80"
+        right={
+          <div className="flex items-center gap-1">
+            {isLocked && <Lock className="h-4 w-4 text-foreground/50" />}
+            <NodeDropdownMenu
+              nodeId={id}
+              label={displayLabel}
+              isLocked={isLocked}
+              onToggleLock={toggleLock}
+              onOpenRename={() => {
+                setNewLabel(displayLabel);
+                setRenameDialogOpen(true);
+              }}
+            />
+          </div>
+        }
+      >
+        <div className="space-y-4">
+          {/* Name and Type */}
+          <div className="flex gap-2">
+            <div className="flex-1">
+              <label className="text-xs text-foreground/60 mb-1 block">Name</label>
+              <Input
+                value={data.name}
+                onChange={(e) => updateNodeData<WorkflowInputFlowNode>(id, { name: e.target.value })}
+                placeholder="e.g. product_image"
+                className="nodrag h-8 bg-muted/40 text-xs"
+              />
+            </div>
+            <div className="w-32">
+              <label className="text-xs text-foreground/60 mb-1 block">Type</label>
+              <Select
+                value={data.valueType}
+                onValueChange={(value) =>
+                  updateNodeData<WorkflowInputFlowNode>(id, { valueType: value as WorkflowValueType })
+                }
+              >
+                <SelectTrigger className="nodrag h-8 w-full bg-muted/40 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WORKFLOW_VALUE_TYPES.map((type) => (
+                    <SelectItem key={type.value} value={type.value}>
+                      {type.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {/* Default Value */}
+          <div>
+            <label className="text-xs text-foreground/60 mb-1 block">Default</label>
+            {data.valueType === 'text' ? (
+              <Textarea
+                value={data.defaultValue ?? ''}
+                onChange={(e) => updateNodeData<WorkflowInputFlowNode>(id, { defaultValue: e.target.value })}
+                placeholder="Used when the run supplies no value..."
+                className="nodrag min-h-20 resize-y bg-muted/40 text-sm"
+              />
+            ) : (
+              <Input
+                value={data.defaultValue ?? ''}
+                onChange={(e) => updateNodeData<WorkflowInputFlowNode>(id, { defaultValue: e.target.value })}
+                placeholder="https://..."
+                className="nodrag h-8 bg-muted/40 text-xs"
+              />
+            )}
+          </div>
+
+          <label className="nodrag flex items-center gap-2 text-xs text-foreground/60">
+            <input
+              type="checkbox"
+              checked={data.required ?? false}
+              onChange={(e) => updateNodeData<WorkflowInputFlowNode>(id, { required: e.target.checked })}
+            />
+            Required
+          </label>
+        </div>
+      </NodeShell>
+
+      <RenameDialog
+        open={renameDialogOpen}
+        onOpenChange={setRenameDialogOpen}
+        value={newLabel}
+        onChange={setNewLabel}
+        onSubmit={handleRename}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+'use client';
+
+import * as React from 'react';
+import { Position, type NodeProps } from '@xyflow/react';
+import { useWorkflowStore, type WorkflowState } from '@/stores/workflowStore';
+import {
+  type WorkflowOutputFlowNode,
+  type WorkflowValueType,
+  WORKFLOW_OUTPUT_HANDLES,
+  WORKFLOW_VALUE_TYPES,
+} from '@/types/workflow.types';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { LogOut, Lock } from 'lucide-react';
+
+import {
+  NodeShell,
+  HandleWithLabel,
+  RenameDialog,
+  NodeDropdownMenu,
+} from '../primitives';
+import { VALUE_TYPE_COLORS } from '../data';
+
+/**
+ * WorkflowOutputNode Component
+ *
+ * A value the workflow returns.
+ * Features:
+ * - Name and type (text, image or video), shown as an output handle on
+ *   Sub-workflow nodes calling this workflow
+ * - Value returned by the last run
+ */
+export function WorkflowOutputNode({ id, data, selected }: NodeProps<WorkflowOutputFlowNode>) {
+  const updateNodeData = useWorkflowStore((s: WorkflowState) => s.updateNodeData);
+
+  const [renameDialogOpen, setRenameDialogOpen] = React.useState(false);
+  const [newLabel, setNewLabel] = React.useState(data.label || 'Workflow Output');
+
+  const displayLabel = data.label || 'Workflow Output';
+  const isLocked = data.isLocked || false;
+
+  const handleRename = () => {
+    if (newLabel.trim()) {
+      updateNodeData<WorkflowOutputFlowNode>(id, { label: newLabel.trim() });
+    }
+    setRenameDialogOpen(false);
+  };
+
+  const toggleLock = () => {
+    updateNodeData<WorkflowOutputFlowNode>(id, { isLocked: !isLocked });
+  };
+
+  return (
+    <div className="relative group/node">
+      {/* Input Handle */}
+      <div className="absolute left-0 top-1/2 -translate-y-1/2" style={{ transform: 'translate(-6px, -50%)' }}>
+        <HandleWithLabel
+          type="target"
+          position={Position.Left}
+          id={WORKFLOW_OUTPUT_HANDLES.VALUE}
+          nodeId={id}
+          label={data.name || 'output'}
+          color={VALUE_TYPE_COLORS[data.valueType]}
+        />
+      </div>
+
+      <NodeShell
+        title={displayLabel}
+        icon={<LogOut className="h-4 w-4" />}
+        selected={selected}
+        className="w-80"
+        right={
+          <div className="flex items-center gap-1">
+            {isLocked && <Lock className="h-4 w-4 text-foreground/50" />}
+            <NodeDropdownMenu
+              nodeId={id}
+              label={displayLabel}
+              isLocked={isLocked}
+              onToggleLock={toggleLock}
+              onOpenRename={() => {
+                setNewLabel(displayLabel);
+                setRenameDialogOpen(true);
+              }}
+            />
+          </div>
+        }
+      >
+        <div className="space-y-4">
+          {/* Name and Type */}
+          <div className="flex gap-2">
+            <div className="flex-1">
+              <label className="text-xs text-foreground/60 mb-1 block">Name</label>
+              <Input
+                value={data.name}
+                onChange={(e) => updateNodeData<WorkflowOutputFlowNode>(id, { name: e.target.value })}
+                placeholder="e.g. description"
+                className="nodrag h-8 bg-muted/40 text-xs"
+              />
+            </div>
+            <div className="w-32">
+              <label className="text-xs text-foreground/60 mb-1 block">Type</label>
+              <Select
+                value={data.valueType}
+                onValueChange={(value) =>
+                  updateNodeData<WorkflowOutputFlowNode>(id, { valueType: value as WorkflowValueType })
+                }
+              >
+                <SelectTrigger className="nodrag h-8 w-full bg-muted/40 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WORKFLOW_VALUE_TYPES.map((type) => (
+                    <SelectItem key={type.value} value={type.value}>
+                      {type.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {/* Last Value */}
+          {data.value != null && (
+            <div>
+              <label className="text-xs text-foreground/60 mb-1 block">Last value</label>
+              <Textarea
+                value={data.value}
+                readOnly
+                className="nodrag min-h-16 resize-y bg-muted/40 text-sm"
+              />
+            </div>
+          )}
+        </div>
+      </NodeShell>
+
+      <RenameDialog
+        open={renameDialogOpen}
+        onOpenChange={setRenameDialogOpen}
+        value={newLabel}
+        onChange={setNewLabel}
+        onSubmit={handleRename}
+      />
+    </div>
+  );
+}
@@ -2,10 +2,41 @@ import { TextNode } from './TextNode';
 import { ImageNode } from './ImageNode';
 import { VideoNode } from './VideoNode';
 import { CropImageNode } from './CropImageNode';
+import { TransformImageNode } from './TransformImageNode';
+import { CompositeNode } from './CompositeNode';
+import { TrimVideoNode } from './TrimVideoNode';
 import { ExtractFrameNode } from './ExtractFrameNode';
 import { LLMNode } from './LLMNode';
+import { ChatNode } from './ChatNode';
+import { GenerateImageNode } from './GenerateImageNode';
+import { ConditionNode } from './ConditionNode';
+import { MapNode } from './MapNode';
+import { CollectNode } from './CollectNode';
+import { WorkflowInputNode } from './WorkflowInputNode';
+import { WorkflowOutputNode } from './WorkflowOutputNode';
+import { SubworkflowNode } from './SubworkflowNode';
+import { TemplateNode } from './TemplateNode';
 
-export { TextNode, ImageNode, VideoNode, CropImageNode, ExtractFrameNode, LLMNode };
+export {
+    TextNode,
+    ImageNode,
+    VideoNode,
+    CropImageNode,
+    TransformImageNode,
+    CompositeNode,
+    TrimVideoNode,
+    ExtractFrameNode,
+    LLMNode,
+    ChatNode,
+    GenerateImageNode,
+    ConditionNode,
+    MapNode,
+    CollectNode,
+    WorkflowInputNode,
+    WorkflowOutputNode,
+    SubworkflowNode,
+    TemplateNode,
+};
 
 /**
  * Node Types Export
@@ -18,6 +49,18 @@ export const workflowNodeTypes = {
     image: ImageNode,
     video: VideoNode,
     cropImage: CropImageNode,
+    transformImage: TransformImageNode,
+    composite: CompositeNode,
+    trimVideo: TrimVideoNode,
     extractFrame: ExtractFrameNode,
     llm: LLMNode,
+    chat: ChatNode,
+    generateImage: GenerateImageNode,
+    condition: ConditionNode,
+    map: MapNode,
+    collect: CollectNode,
+    workflowInput: WorkflowInputNode,
+    workflowOutput: WorkflowOutputNode,
+    subworkflow: SubworkflowNode,
+    template: TemplateNode,
 };
@@ -0,0 +1,487 @@
+'use client';
+
+import * as React from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { ArrowLeft, ChevronDown, ChevronRight, Download, FileUp, Square } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { cn } from '@/lib/utils';
+import { downloadFile, parseBatchFile, toCsv, type BatchDataset } from '@/lib/batchData';
+import { cancelBatchRun, getBatchRun, getRunDetails, listBatchRuns, startBatchRun } from '@/lib/actions';
+import {
+  MAX_BATCH_CONCURRENCY,
+  MAX_BATCH_ROWS,
+  type BatchRowResult,
+  type WorkflowInputPort,
+  type WorkflowPort,
+} from '@/types/workflow.types';
+import type { BatchRunDialogProps } from '../types';
+
+const UNMAPPED = '__none__';
+
+const ROW_STATUS_COLORS: Record<string, string> = {
+  queued: 'text-foreground/40',
+  running: 'text-yellow-400',
+  completed: 'text-green-400',
+  partial: 'text-orange-400',
+  failed: 'text-red-400',
+  cancelled: 'text-foreground/50',
+  skipped: 'text-foreground/40',
+};
+
+const toCellText = (value: unknown): string => {
+  if (value == null) return '';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+/**
+ * Match each input to the dataset column of the same name (case-insensitive)
+ */
+const autoMapColumns = (inputs: WorkflowInputPort[], columns: string[]): Record<string, string> =>
+  Object.fromEntries(
+    inputs.flatMap((input) => {
+      const column = columns.find((c) => c.trim().toLowerCase() === (input.name || input.id).trim().toLowerCase());
+      return column ? [[input.id, column]] : [];
+    })
+  );
+
+/**
+ * Node runs of one row's WorkflowRun, loaded when its row is expanded
+ */
+function BatchRowDetails({ runId }: { runId: string }) {
+  const detailsQuery = useQuery({
+    queryKey: ['runDetails', runId],
+    queryFn: () => getRunDetails({ runId }),
+  });
+  const nodeRuns = detailsQuery.data?.run?.nodeRuns ?? [];
+
+  if (detailsQuery.isLoading) {
+    return <p className="text-xs text-foreground/50">Loading node runs…</p>;
+  }
+  return (
+    <div className="space-y-1">
+      {nodeRuns.map((nodeRun) => (
+        <div key={nodeRun.id} className={cn('text-xs', nodeRun.parentNodeRunId && 'pl-4')}>
+          <div className="flex items-center gap-2">
+            <span className={ROW_STATUS_COLORS[nodeRun.status] ?? 'text-foreground/60'}>{nodeRun.status}</span>
+            <span className="text-foreground/80">{nodeRun.nodeName}</span>
+            {nodeRun.iteration != null && <span className="text-foreground/40">item {nodeRun.iteration + 1}</span>}
+            {nodeRun.duration != null && <span className="ml-auto text-foreground/40">{nodeRun.duration}ms</span>}
+          </div>
+          {nodeRun.error && <p className="text-red-400/80 break-words">{nodeRun.error}</p>}
+          {nodeRun.outputData != null && !nodeRun.error && (
+            <p className="truncate text-foreground/50" title={toCellText(nodeRun.outputData)}>
+              {toCellText(nodeRun.outputData)}
+            </p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Results table of a batch run: one line per row with its inputs, status and
+ * outputs. Expanding a row shows the node runs of its workflow run.
+ */
+function BatchResultsTable({
+  results,
+  inputs,
+  outputs,
+}: {
+  results: BatchRowResult[];
+  inputs: WorkflowInputPort[];
+  outputs: WorkflowPort[];
+}) {
+  const [expandedRow, setExpandedRow] = React.useState<number | null>(null);
+  const columnCount = 3 + inputs.length + outputs.length;
+
+  return (
+    <div className="max-h-[45vh] overflow-auto rounded-md border border-border/60">
+      <Table className="text-xs">
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-8" />
+            <TableHead className="w-10">#</TableHead>
+            {inputs.map((input) => (
+              <TableHead key={input.id}>{input.name || input.id}</TableHead>
+            ))}
+            <TableHead>Status</TableHead>
+            {outputs.map((output) => (
+              <TableHead key={output.id} className="text-foreground">
+                {output.name || output.id}
+              </TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {results.map((row) => (
+            <React.Fragment key={row.index}>
+              <TableRow>
+                <TableCell>
+                  {row.runId && (
+                    <button
+                      type="button"
+                      onClick={() => setExpandedRow(expandedRow === row.index ? null : row.index)}
+                      className="text-foreground/60 hover:text-foreground"
+                      title={expandedRow === row.index ? 'Hide node runs' : 'Show node runs'}
+                    >
+                      {expandedRow === row.index ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+                    </button>
+                  )}
+                </TableCell>
+                <TableCell className="text-foreground/50">{row.index + 1}</TableCell>
+                {inputs.map((input) => (
+                  <TableCell key={input.id} className="max-w-40 truncate" title={row.inputs[input.id]}>
+                    {row.inputs[input.id] ?? <span className="text-foreground/30">default</span>}
+                  </TableCell>
+                ))}
+                <TableCell className={ROW_STATUS_COLORS[row.status]} title={row.error}>
+                  {row.status}
+                </TableCell>
+                {outputs.map((output) => (
+                  <TableCell key={output.id} className="max-w-56 truncate" title={toCellText(row.outputs[output.name || output.id])}>
+                    {toCellText(row.outputs[output.name || output.id])}
+                  </TableCell>
+                ))}
+              </TableRow>
+              {expandedRow === row.index && row.runId && (
+                <TableRow>
+                  <TableCell colSpan={columnCount} className="bg-muted/20 whitespace-normal">
+                    {row.error && <p className="mb-1 text-xs text-red-400">{row.error}</p>}
+                    <BatchRowDetails runId={row.runId} />
+                  </TableCell>
+                </TableRow>
+              )}
+            </React.Fragment>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+/**
+ * BatchRunDialog Component
+ *
+ * Dialog for running the saved workflow once per row of an uploaded CSV or
+ * JSON dataset. Columns are mapped to the workflow's inputs (matched by name
+ * where possible) and rows run a few at a time. The results table fills in
+ * as rows finish and can be downloaded as CSV or JSON; earlier batches can be
+ * reopened.
+ *
+ * @example
+ * ```tsx
+ * <BatchRunDialog
+ *   open={batchOpen}
+ *   onOpenChange={setBatchOpen}
+ *   workflowId={workflowId}
+ *   inputs={workflowInputs}
+ * />
+ * ```
+ */
+export function BatchRunDialog({ open, onOpenChange, workflowId, inputs }: BatchRunDialogProps) {
+  const queryClient = useQueryClient();
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+
+  const [dataset, setDataset] = React.useState<(BatchDataset & { fileName: string }) | null>(null);
+  const [mapping, setMapping] = React.useState<Record<string, string>>({});
+  const [concurrency, setConcurrency] = React.useState(3);
+  const [batchRunId, setBatchRunId] = React.useState<string | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const batchRunsQuery = useQuery({
+    queryKey: ['batchRuns', workflowId],
+    queryFn: () => listBatchRuns({ workflowId }),
+    enabled: open && !batchRunId,
+  });
+  const batchQuery = useQuery({
+    queryKey: ['batchRun', batchRunId],
+    queryFn: () => getBatchRun({ id: batchRunId! }),
+    enabled: open && !!batchRunId,
+    refetchInterval: (query) => (query.state.data?.batchRun.status === 'running' ? 3000 : false),
+  });
+
+  const startMutation = useMutation({
+    mutationFn: () => {
+      const rows = dataset!.rows.map((row) =>
+        Object.fromEntries(
+          inputs.flatMap((input) => (mapping[input.id] ? [[input.id, row[mapping[input.id]] ?? '']] : []))
+        )
+      );
+      return startBatchRun({ workflowId, rows, concurrency });
+    },
+    onSuccess: (data) => {
+      setError(null);
+      setBatchRunId(data.batchRun.id);
+      queryClient.invalidateQueries({ queryKey: ['batchRuns', workflowId] });
+    },
+    onError: (err) => setError(err instanceof Error ? err.message : 'Failed to start batch run'),
+  });
+  const cancelMutation = useMutation({
+    mutationFn: () => cancelBatchRun({ id: batchRunId! }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['batchRun', batchRunId] }),
+  });
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (!file) return;
+    try {
+      const parsed = await parseBatchFile(file);
+      if (parsed.rows.length === 0) throw new Error('The file has no rows');
+      if (parsed.rows.length > MAX_BATCH_ROWS) throw new Error(`A batch can have at most ${MAX_BATCH_ROWS} rows`);
+      setDataset({ ...parsed, fileName: file.name });
+      setMapping(autoMapColumns(inputs, parsed.columns));
+      setError(null);
+    } catch (err) {
+      setDataset(null);
+      setError(err instanceof Error ? err.message : 'Could not read the file');
+    }
+  };
+
+  const handleDownload = (format: 'csv' | 'json') => {
+    const data = batchQuery.data;
+    if (!data) return;
+    const records = data.results.map((row) => ({
+      row: row.index + 1,
+      ...Object.fromEntries(data.inputs.map((input) => [input.name || input.id, row.inputs[input.id] ?? ''])),
+      status: row.status,
+      ...Object.fromEntries(data.outputs.map((output) => [output.name || output.id, row.outputs[output.name || output.id] ?? ''])),
+      error: row.error ?? '',
+      runId: row.runId ?? '',
+    }));
+    const fileName = `batch-${data.batchRun.id}.${format}`;
+    if (format === 'json') {
+      downloadFile(JSON.stringify(records, null, 2), fileName, 'application/json');
+    } else {
+      const columns = records.length > 0 ? Object.keys(records[0]) : [];
+      downloadFile(toCsv(columns, records), fileName, 'text/csv');
+    }
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      setDataset(null);
+      setMapping({});
+      setBatchRunId(null);
+      setError(null);
+    }
+    onOpenChange(next);
+  };
+
+  const missing = inputs.filter((input) => input.required && !input.defaultValue?.trim() && !mapping[input.id]);
+  const batch = batchQuery.data;
+  const finished = batch?.results.filter((row) => !['queued', 'running'].includes(row.status)).length ?? 0;
+  const failed = batch?.results.filter((row) => ['failed', 'partial'].includes(row.status)).length ?? 0;
+  const batchRuns = batchRunsQuery.data?.batchRuns ?? [];
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Batch Run</DialogTitle>
+          <DialogDescription>
+            Run the saved workflow once per row of a CSV or JSON file, with columns mapped to its inputs.
+            Image inputs take image URLs.
+          </DialogDescription>
+        </DialogHeader>
+
+        {batchRunId ? (
+          <div className="space-y-3 py-2">
+            <div className="flex items-center gap-3 text-sm">
+              <Button variant="ghost" size="sm" onClick={() => setBatchRunId(null)}>
+                <ArrowLeft className="h-3 w-3" />
+                New batch
+              </Button>
+              {batch && (
+                <span className="text-foreground/60">
+                  {finished} / {batch.batchRun.rowCount} rows done
+                  {failed > 0 && <span className="text-red-400"> · {failed} failed</span>}
+                  {' · '}
+                  {batch.batchRun.status}
+                </span>
+              )}
+              <div className="ml-auto flex gap-2">
+                {batch?.batchRun.status === 'running' && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-red-400 hover:text-red-400"
+                    disabled={cancelMutation.isPending}
+                    onClick={() => cancelMutation.mutate()}
+                  >
+                    <Square className="h-3 w-3" />
+                    Stop
+                  </Button>
+                )}
+                <Button variant="ghost" size="sm" disabled={!batch} onClick={() => handleDownload('csv')}>
+                  <Download className="h-3 w-3" />
+                  CSV
+                </Button>
+                <Button variant="ghost" size="sm" disabled={!batch} onClick={() => handleDownload('json')}>
+                  <Download className="h-3 w-3" />
+                  JSON
+                </Button>
+              </div>
+            </div>
+            {batch ? (
+              <BatchResultsTable results={batch.results} inputs={batch.inputs} outputs={batch.outputs} />
+            ) : (
+              <p className="text-sm text-foreground/50">Loading results…</p>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-4 py-2">
+            {/* Upload */}
+            <input
+              type="file"
+              ref={fileInputRef}
+              onChange={handleFileChange}
+              accept=".csv,.json,text/csv,application/json"
+              className="hidden"
+            />
+            <div className="flex items-center gap-3">
+              <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+                <FileUp className="h-4 w-4" />
+                {dataset ? 'Choose another file' : 'Upload CSV or JSON'}
+              </Button>
+              {dataset && (
+                <span className="text-sm text-foreground/60">
+                  {dataset.fileName}: {dataset.rows.length} row{dataset.rows.length === 1 ? '' : 's'}
+                </span>
+              )}
+            </div>
+
+            {/* Column mapping */}
+            {dataset && (
+              <div className="space-y-2">
+                {inputs.length === 0 && (
+                  <p className="text-sm text-foreground/50">
+                    This workflow has no Workflow Input nodes; every row runs it unchanged.
+                  </p>
+                )}
+                {inputs.map((input) => (
+                  <div key={input.id} className="flex items-center gap-3">
+                    <label className="w-40 truncate text-sm">
+                      {input.name || input.id}
+                      <span className="ml-1 text-xs text-foreground/40">({input.valueType})</span>
+                      {input.required && <span className="ml-1 text-red-400">*</span>}
+                    </label>
+                    <Select
+                      value={mapping[input.id] ?? UNMAPPED}
+                      onValueChange={(column) =>
+                        setMapping((prev) => {
+                          const next = { ...prev };
+                          if (column === UNMAPPED) delete next[input.id];
+                          else next[input.id] = column;
+                          return next;
+                        })
+                      }
+                    >
+                      <SelectTrigger className="flex-1">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={UNMAPPED}>
+                          {input.defaultValue ? `Use default (${input.defaultValue})` : 'Not mapped'}
+                        </SelectItem>
+                        {dataset.columns.map((column) => (
+                          <SelectItem key={column} value={column}>
+                            {column}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+
+                <div className="flex items-center gap-3">
+                  <label className="w-40 text-sm" title="Rows run at once; the rest wait queued">
+                    Rows at once
+                  </label>
+                  <Select value={String(concurrency)} onValueChange={(value) => setConcurrency(Number(value))}>
+                    <SelectTrigger className="w-20">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Array.from({ length: MAX_BATCH_CONCURRENCY }, (_, i) => i + 1).map((n) => (
+                        <SelectItem key={n} value={String(n)}>
+                          {n}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            )}
+
+            {error && <p className="text-xs text-red-400">{error}</p>}
+
+            <div className="flex items-center justify-end gap-3">
+              {missing.length > 0 && dataset && (
+                <span className="mr-auto text-xs text-foreground/50">
+                  Map a column to {missing.map((input) => input.name || input.id).join(', ')}
+                </span>
+              )}
+              <Button variant="ghost" onClick={() => handleOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={() => startMutation.mutate()}
+                disabled={!dataset || missing.length > 0 || startMutation.isPending}
+                className="bg-[#E8FF5A] text-black hover:bg-[#d4eb52]"
+              >
+                Run {dataset ? dataset.rows.length : ''} rows
+              </Button>
+            </div>
+
+            {/* Earlier batches */}
+            {batchRuns.length > 0 && (
+              <div className="border-t border-border/60 pt-3">
+                <p className="mb-2 text-xs text-foreground/60">Earlier batches</p>
+                <div className="max-h-32 overflow-y-auto space-y-1">
+                  {batchRuns.map((run) => (
+                    <button
+                      key={run.id}
+                      type="button"
+                      onClick={() => setBatchRunId(run.id)}
+                      className="flex w-full items-center gap-3 rounded px-2 py-1 text-left text-xs hover:bg-muted/50"
+                    >
+                      <span className="text-foreground/70">{new Date(run.startedAt).toLocaleString()}</span>
+                      <span className="text-foreground/50">{run.rowCount} rows</span>
+                      <span className={cn('ml-auto', run.status === 'failed' ? 'text-red-400' : 'text-foreground/50')}>
+                        {run.status}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
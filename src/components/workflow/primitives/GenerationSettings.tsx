@@ -0,0 +1,107 @@
+'use client';
+
+import * as React from 'react';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import type { LLMGenerationParams } from '@/types/workflow.types';
+import type { GenerationSettingsProps } from '../types';
+
+type NumericParam = Exclude<keyof LLMGenerationParams, 'stopSequences'>;
+
+const NUMERIC_FIELDS: {
+  key: NumericParam;
+  label: string;
+  min: number;
+  max?: number;
+  step: number;
+}[] = [
+  { key: 'temperature', label: 'Temperature', min: 0, max: 2, step: 0.1 },
+  { key: 'topP', label: 'Top P', min: 0, max: 1, step: 0.05 },
+  { key: 'topK', label: 'Top K', min: 1, step: 1 },
+  { key: 'maxOutputTokens', label: 'Max tokens', min: 1, step: 1 },
+  { key: 'candidateCount', label: 'Candidates', min: 1, max: 8, step: 1 },
+  { key: 'seed', label: 'Seed', min: 0, step: 1 },
+];
+
+/**
+ * GenerationSettings Component
+ *
+ * Collapsible "Advanced" section of the LLM node with its sampling settings.
+ * Empty fields are left to the provider's defaults.
+ *
+ * @example
+ * ```tsx
+ * <GenerationSettings
+ *   value={data.generation}
+ *   onChange={(generation) => updateNodeData(id, { generation })}
+ * />
+ * ```
+ */
+export function GenerationSettings({ value = {}, onChange }: GenerationSettingsProps) {
+  const [expanded, setExpanded] = React.useState(false);
+  // Kept as typed so a trailing newline isn't dropped mid-edit
+  const [stopText, setStopText] = React.useState((value.stopSequences ?? []).join('\n'));
+
+  const setCount = Object.values(value).filter((v) => (Array.isArray(v) ? v.length > 0 : v !== undefined)).length;
+
+  const handleNumberChange = (field: (typeof NUMERIC_FIELDS)[number], raw: string) => {
+    const parsed = field.step < 1 ? parseFloat(raw) : parseInt(raw, 10);
+    const inRange = parsed >= field.min && (field.max === undefined || parsed <= field.max);
+    onChange({ ...value, [field.key]: Number.isFinite(parsed) && inRange ? parsed : undefined });
+  };
+
+  const handleStopChange = (text: string) => {
+    setStopText(text);
+    const stopSequences = text.split('\n').filter((line) => line !== '');
+    onChange({ ...value, stopSequences: stopSequences.length > 0 ? stopSequences : undefined });
+  };
+
+  return (
+    <div>
+      <button
+        type="button"
+        onClick={() => setExpanded((v) => !v)}
+        className="nodrag flex items-center gap-1 text-xs text-foreground/60 hover:text-foreground"
+      >
+        {expanded ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+        Advanced
+        {setCount > 0 && <span className="text-foreground/40">({setCount} set)</span>}
+      </button>
+
+      {expanded && (
+        <div className="mt-2 space-y-3">
+          <div className="grid grid-cols-3 gap-2">
+            {NUMERIC_FIELDS.map((field) => (
+              <div key={field.key}>
+                <label className="text-xs text-foreground/60 mb-1 block">{field.label}</label>
+                <Input
+                  type="number"
+                  min={field.min}
+                  max={field.max}
+                  step={field.step}
+                  value={value[field.key] ?? ''}
+                  onChange={(e) => handleNumberChange(field, e.target.value)}
+                  placeholder="Default"
+                  className="nodrag h-8 bg-muted/40 text-xs"
+                />
+              </div>
+            ))}
+          </div>
+          <div>
+            <label className="text-xs text-foreground/60 mb-1 block">Stop sequences (one per line)</label>
+            <Textarea
+              value={stopText}
+              onChange={(e) => handleStopChange(e.target.value)}
+              placeholder="None"
+              className="nodrag min-h-10 resize-y bg-muted/40 text-xs"
+            />
+          </div>
+          <p className="text-xs text-foreground/40">
+            Unsupported settings are ignored: Anthropic has no seed, OpenAI no top K.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
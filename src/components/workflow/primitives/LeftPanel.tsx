@@ -3,21 +3,33 @@
 import * as React from 'react';
 import Link from 'next/link';
 import {
+  Braces,
   ChevronDown,
   ChevronsLeft,
   ChevronsRight,
   Crop,
   Film,
+  GitBranch,
   HelpCircle,
+  Layers,
+  ImagePlus,
   Images,
+  Scissors,
   Search,
   ImageIcon,
+  LogIn,
+  LogOut,
   Bot,
   Megaphone,
+  Merge,
+  MessagesSquare,
   ShoppingBag,
+  SlidersHorizontal,
   Sparkles,
+  Split,
   Type,
   Video,
+  Workflow,
   X,
 } from 'lucide-react';
 import { BsDiscord } from 'react-icons/bs';
@@ -25,6 +37,7 @@ import { Panel } from '@xyflow/react';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
 import { QuickAccessNodeButton } from './QuickAccessNodeButton';
+import type { NodeType } from '../types';
 
 interface LeftPanelProps {
   isOpen: boolean;
@@ -37,7 +50,7 @@ interface LeftPanelProps {
   onNameKeyDown: (e: React.KeyboardEvent) => void;
   onStartEditing: () => void;
   nameInputRef: React.RefObject<HTMLInputElement | null>;
-  onAddNode: (type: 'text' | 'image' | 'video' | 'cropImage' | 'extractFrame' | 'llm') => void;
+  onAddNode: (type: NodeType) => void;
   onLoadSample: (sample: 'simple' | 'product' | 'marketing') => void;
 }
 
@@ -69,8 +82,20 @@ export function LeftPanel({
     { title: 'Upload Image', nodeType: 'image' as const, icon: <ImageIcon className="h-6 w-6" /> },
     { title: 'Upload Video', nodeType: 'video' as const, icon: <Video className="h-6 w-6" /> },
     { title: 'Crop Image', nodeType: 'cropImage' as const, icon: <Crop className="h-6 w-6" /> },
+    { title: 'Transform Image', nodeType: 'transformImage' as const, icon: <SlidersHorizontal className="h-6 w-6" /> },
+    { title: 'Composite', nodeType: 'composite' as const, icon: <Layers className="h-6 w-6" /> },
+    { title: 'Trim Video', nodeType: 'trimVideo' as const, icon: <Scissors className="h-6 w-6" /> },
     { title: 'Extract Frame', nodeType: 'extractFrame' as const, icon: <Film className="h-6 w-6" /> },
     { title: 'Run Any LLM', nodeType: 'llm' as const, icon: <Sparkles className="h-6 w-6" /> },
+    { title: 'Chat', nodeType: 'chat' as const, icon: <MessagesSquare className="h-6 w-6" /> },
+    { title: 'Generate Image', nodeType: 'generateImage' as const, icon: <ImagePlus className="h-6 w-6" /> },
+    { title: 'Template', nodeType: 'template' as const, icon: <Braces className="h-6 w-6" /> },
+    { title: 'Condition', nodeType: 'condition' as const, icon: <GitBranch className="h-6 w-6" /> },
+    { title: 'Map', nodeType: 'map' as const, icon: <Split className="h-6 w-6" /> },
+    { title: 'Collect', nodeType: 'collect' as const, icon: <Merge className="h-6 w-6" /> },
+    { title: 'Workflow Input', nodeType: 'workflowInput' as const, icon: <LogIn className="h-6 w-6" /> },
+    { title: 'Workflow Output', nodeType: 'workflowOutput' as const, icon: <LogOut className="h-6 w-6" /> },
+    { title: 'Sub-workflow', nodeType: 'subworkflow' as const, icon: <Workflow className="h-6 w-6" /> },
   ];
 
   const filteredNodeTypes = nodeTypes.filter((node) =>
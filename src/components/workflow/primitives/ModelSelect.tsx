@@ -0,0 +1,97 @@
+'use client';
+
+import * as React from 'react';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { LLM_PROVIDERS, type LLMProviderId } from '@/types/workflow.types';
+import type { ModelSelectProps } from '../types';
+
+const CUSTOM_MODEL = '__custom__';
+
+const toOptionValue = (provider: string, model: string) => `${provider}/${model}`;
+
+/**
+ * ModelSelect Component
+ *
+ * Model picker for LLM, chat and condition nodes, or the image models of
+ * generate-image nodes, with the suggested models grouped by provider. Each
+ * provider also takes a custom model name, e.g. a model pulled into a local
+ * Ollama server.
+ *
+ * @example
+ * ```tsx
+ * <ModelSelect
+ *   provider={data.provider}
+ *   model={data.model}
+ *   onChange={(value) => updateNodeData(id, value)}
+ * />
+ * ```
+ */
+export function ModelSelect<P extends string = LLMProviderId>({
+  provider,
+  model,
+  onChange,
+  providers = LLM_PROVIDERS as unknown as NonNullable<ModelSelectProps<P>['providers']>,
+}: ModelSelectProps<P>) {
+  const info = providers.find((p) => p.id === provider) ?? providers[0];
+  const isSuggested = info.models.some((m) => m.value === model);
+  // Provider whose "Custom model" entry was picked, even while its name is still a suggested one
+  const [customProvider, setCustomProvider] = React.useState<P | null>(null);
+  const isCustom = customProvider === info.id || !isSuggested;
+
+  const value = toOptionValue(info.id, isCustom ? CUSTOM_MODEL : model);
+
+  const handleValueChange = (next: string) => {
+    const separator = next.indexOf('/');
+    const nextProvider = next.slice(0, separator) as P;
+    const nextModel = next.slice(separator + 1);
+    if (nextModel === CUSTOM_MODEL) {
+      setCustomProvider(nextProvider);
+      onChange({ provider: nextProvider, model: nextProvider === info.id ? model : '' });
+    } else {
+      setCustomProvider(null);
+      onChange({ provider: nextProvider, model: nextModel });
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Select value={value} onValueChange={handleValueChange}>
+        <SelectTrigger className="nodrag w-full bg-muted/40">
+          <SelectValue placeholder="Select model" />
+        </SelectTrigger>
+        <SelectContent>
+          {providers.map((p) => (
+            <SelectGroup key={p.id}>
+              <SelectLabel>{p.label}</SelectLabel>
+              {p.models.map((m) => (
+                <SelectItem key={m.value} value={toOptionValue(p.id, m.value)}>
+                  {m.label}
+                </SelectItem>
+              ))}
+              <SelectItem value={toOptionValue(p.id, CUSTOM_MODEL)}>
+                {isCustom && p.id === info.id && model ? `${model} (custom)` : 'Custom model…'}
+              </SelectItem>
+            </SelectGroup>
+          ))}
+        </SelectContent>
+      </Select>
+      {isCustom && (
+        <Input
+          value={model}
+          onChange={(e) => onChange({ provider: info.id, model: e.target.value })}
+          placeholder={`${info.label} model name`}
+          className="nodrag h-8 bg-muted/40 text-sm"
+        />
+      )}
+    </div>
+  );
+}
@@ -2,12 +2,15 @@
 
 import * as React from 'react';
 import {
+  ArrowDownToLine,
+  ArrowUpFromLine,
   Copy,
   Ellipsis,
   Lock,
   LockOpen,
   Pencil,
   RotateCcw,
+  Settings2,
   Trash2,
 } from 'lucide-react';
 import {
@@ -17,6 +20,7 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
+import { toast } from 'sonner';
 import { useWorkflowStore, type WorkflowState } from '@/stores/workflowStore';
 import type { NodeDropdownMenuProps } from '../types';
 
@@ -24,9 +28,11 @@ import type { NodeDropdownMenuProps } from '../types';
  * NodeDropdownMenu Component
  * 
  * Reusable dropdown menu for workflow nodes with common actions:
+ * - Run up to here / Run from here
  * - Duplicate
  * - Rename
  * - Lock/Unlock
+ * - Run settings (optional)
  * - Reset (optional)
  * - Delete
  * 
@@ -48,12 +54,22 @@ export function NodeDropdownMenu({
   isLocked,
   onToggleLock,
   onOpenRename,
+  onOpenRunSettings,
   onReset,
   additionalItems,
 }: NodeDropdownMenuProps) {
   const deleteNode = useWorkflowStore((s: WorkflowState) => s.deleteNode);
   const duplicateNode = useWorkflowStore((s: WorkflowState) => s.duplicateNode);
   const resetNode = useWorkflowStore((s: WorkflowState) => s.resetNode);
+  const executeFromNode = useWorkflowStore((s: WorkflowState) => s.executeFromNode);
+  const isRunning = useWorkflowStore((s: WorkflowState) => !!s.activeRun);
+
+  const handleRunScope = async (scope: 'up-to-here' | 'from-here') => {
+    const started = await executeFromNode(nodeId, scope);
+    if (!started) {
+      toast.error('Failed to start run');
+    }
+  };
 
   const handleReset = () => {
     if (onReset) {
@@ -75,6 +91,15 @@ export function NodeDropdownMenu({
         </button>
       </DropdownMenuTrigger>
       <DropdownMenuContent align="end" className="w-56">
+        <DropdownMenuItem disabled={isRunning} onClick={() => handleRunScope('up-to-here')}>
+          <ArrowDownToLine className="mr-2 h-4 w-4" />
+          Run up to here
+        </DropdownMenuItem>
+        <DropdownMenuItem disabled={isRunning} onClick={() => handleRunScope('from-here')}>
+          <ArrowUpFromLine className="mr-2 h-4 w-4" />
+          Run from here
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
         <DropdownMenuItem onClick={() => duplicateNode(nodeId)}>
           <Copy className="mr-2 h-4 w-4" />
           Duplicate
@@ -97,6 +122,12 @@ export function NodeDropdownMenu({
             </>
           )}
         </DropdownMenuItem>
+        {onOpenRunSettings && (
+          <DropdownMenuItem onClick={onOpenRunSettings}>
+            <Settings2 className="mr-2 h-4 w-4" />
+            Run settings
+          </DropdownMenuItem>
+        )}
         <DropdownMenuItem onClick={handleReset}>
           <RotateCcw className="mr-2 h-4 w-4" />
           Reset
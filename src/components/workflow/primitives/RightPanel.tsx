@@ -4,28 +4,44 @@ import * as React from 'react';
 import { Panel } from '@xyflow/react';
 import { PiShareLight } from 'react-icons/pi';
 import { TbAsterisk } from 'react-icons/tb';
-import { Check, Clock, Download, Loader2, Play, Save, Upload } from 'lucide-react';
+import { CalendarClock, Check, Clock, Download, Loader2, Play, RotateCcw, Save, Square, TableProperties, Upload, Webhook } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
 import { useWorkflowStore } from '@/stores/workflowStore';
+import { getWorkflowSignature } from '@/lib/workflowReferences';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import {
   Tooltip,
   TooltipContent,
   TooltipProvider,
   TooltipTrigger,
 } from '@/components/ui/tooltip';
+import { BatchRunDialog } from './BatchRunDialog';
+import { RunInputsDialog } from './RunInputsDialog';
+import { ScheduleDialog } from './ScheduleDialog';
+import { WebhooksDialog } from './WebhooksDialog';
 
 interface RightPanelProps {
   isSaving: boolean;
   isDirty: boolean;
   onSave: () => void;
-  onRunAll?: () => void;
+  onRunAll?: (force?: boolean, inputs?: Record<string, string>) => void;
   onRunSelected?: () => void;
   hasSelectedNodes?: boolean;
+  isRunning?: boolean;
+  onStop?: () => void;
   isHistoryOpen: boolean;
   onToggleHistory: () => void;
 }
 
+const CONCURRENCY_OPTIONS = [1, 2, 3, 4, 6, 8, 10];
+
 /**
  * RightPanel Component
  * 
@@ -33,8 +49,10 @@ interface RightPanelProps {
  * - Credits display
  * - Share button
  * - Save status indicator
- * - Import/Export buttons
- * - Run All / Run Selected buttons
+ * - Import/Export buttons, and the workflow's batch runs, schedule and webhooks
+ * - Parallel node limit for workflow runs
+ * - Run All / Force re-run / Run Selected buttons (Stop while a workflow run is in progress)
+ * - Run dialog asking for the workflow's input values, when it has Workflow Input nodes
  * - History toggle
  * 
  * When history panel is open, this panel shifts to the left.
@@ -46,6 +64,8 @@ export function RightPanel({
   onRunAll,
   onRunSelected,
   hasSelectedNodes = false,
+  isRunning = false,
+  onStop,
   isHistoryOpen,
   onToggleHistory,
 }: RightPanelProps) {
@@ -53,8 +73,26 @@ export function RightPanel({
 
   const exportWorkflow = useWorkflowStore((s) => s.exportWorkflow);
   const importWorkflow = useWorkflowStore((s) => s.importWorkflow);
+  const maxConcurrency = useWorkflowStore((s) => s.maxConcurrency);
+  const setMaxConcurrency = useWorkflowStore((s) => s.setMaxConcurrency);
   const nodes = useWorkflowStore((s) => s.nodes);
+  const workflowId = useWorkflowStore((s) => s.workflowId);
   const hasNodes = nodes.length > 0;
+  const [webhooksOpen, setWebhooksOpen] = React.useState(false);
+  const [scheduleOpen, setScheduleOpen] = React.useState(false);
+  const [batchOpen, setBatchOpen] = React.useState(false);
+
+  const workflowInputs = React.useMemo(() => getWorkflowSignature(nodes).inputs, [nodes]);
+  // Run waiting on the input values (force: ignore cached node outputs)
+  const [pendingRun, setPendingRun] = React.useState<{ force: boolean } | null>(null);
+
+  const handleRunAll = (force: boolean) => {
+    if (workflowInputs.length > 0) {
+      setPendingRun({ force });
+    } else {
+      onRunAll?.(force);
+    }
+  };
 
   const handleImportClick = () => {
     fileInputRef.current?.click();
@@ -170,6 +208,61 @@ export function RightPanel({
               <Download className="h-3 w-3" />
               <span>Export</span>
             </button>
+            {workflowId && (
+              <button
+                type="button"
+                onClick={() => setBatchOpen(true)}
+                className="grid h-[26px] w-8 shrink-0 place-items-center rounded-md bg-muted/50 text-foreground/70 hover:bg-muted hover:text-foreground transition-colors"
+                title="Batch run"
+              >
+                <TableProperties className="h-3 w-3" />
+              </button>
+            )}
+            {workflowId && (
+              <button
+                type="button"
+                onClick={() => setScheduleOpen(true)}
+                className="grid h-[26px] w-8 shrink-0 place-items-center rounded-md bg-muted/50 text-foreground/70 hover:bg-muted hover:text-foreground transition-colors"
+                title="Schedule"
+              >
+                <CalendarClock className="h-3 w-3" />
+              </button>
+            )}
+            {workflowId && (
+              <button
+                type="button"
+                onClick={() => setWebhooksOpen(true)}
+                className="grid h-[26px] w-8 shrink-0 place-items-center rounded-md bg-muted/50 text-foreground/70 hover:bg-muted hover:text-foreground transition-colors"
+                title="Webhooks"
+              >
+                <Webhook className="h-3 w-3" />
+              </button>
+            )}
+          </div>
+
+          {/* Parallel node limit */}
+          <div className="mt-2 flex items-center justify-between">
+            <span className="text-xs text-foreground/60" title="Node tasks a workflow run executes at once; the rest wait queued">
+              Parallel nodes
+            </span>
+            <Select
+              value={String(maxConcurrency)}
+              onValueChange={(value) => setMaxConcurrency(Number(value))}
+            >
+              <SelectTrigger size="sm" className="h-7 w-16 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CONCURRENCY_OPTIONS.includes(maxConcurrency) ? null : (
+                  <SelectItem value={String(maxConcurrency)}>{maxConcurrency}</SelectItem>
+                )}
+                {CONCURRENCY_OPTIONS.map((option) => (
+                  <SelectItem key={option} value={String(option)}>
+                    {option}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </div>
 
           {/* Divider */}
@@ -177,15 +270,35 @@ export function RightPanel({
 
           {/* Run Controls + History */}
           <div className="flex items-center gap-2">
+            {/* Stop */}
+            {isRunning && onStop && (
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <button
+                    type="button"
+                    aria-label="Stop"
+                    onClick={onStop}
+                    className="flex-1 flex h-9 items-center justify-center gap-1.5 rounded-md bg-red-600 hover:bg-red-600/90 text-white transition-colors"
+                  >
+                    <Square className="h-3.5 w-3.5 fill-current" />
+                    <span className="text-xs font-medium">Stop</span>
+                  </button>
+                </TooltipTrigger>
+                <TooltipContent side="bottom">
+                  <p>Cancel the running workflow</p>
+                </TooltipContent>
+              </Tooltip>
+            )}
+
             {/* Run All */}
-            {onRunAll && (
+            {onRunAll && !isRunning && (
               <Tooltip>
                 <TooltipTrigger asChild>
                   <button
                     type="button"
                     aria-label="Run All"
                     disabled={!hasNodes}
-                    onClick={onRunAll}
+                    onClick={() => handleRunAll(false)}
                     className={cn(
                       'flex-1 flex h-9 items-center justify-center gap-1.5 rounded-md transition-colors',
                       hasNodes
@@ -203,8 +316,33 @@ export function RightPanel({
               </Tooltip>
             )}
 
+            {/* Force re-run */}
+            {onRunAll && !isRunning && (
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <button
+                    type="button"
+                    aria-label="Force re-run"
+                    disabled={!hasNodes}
+                    onClick={() => handleRunAll(true)}
+                    className={cn(
+                      'grid h-9 w-9 shrink-0 place-items-center rounded-md transition-colors',
+                      hasNodes
+                        ? 'bg-black hover:bg-black/90 text-white'
+                        : 'bg-black/30 text-white/50 cursor-not-allowed'
+                    )}
+                  >
+                    <RotateCcw className="h-4 w-4" />
+                  </button>
+                </TooltipTrigger>
+                <TooltipContent side="bottom">
+                  <p>Re-run entire workflow, ignoring cached results</p>
+                </TooltipContent>
+              </Tooltip>
+            )}
+
             {/* Run Selected */}
-            {onRunSelected && hasSelectedNodes && (
+            {onRunSelected && hasSelectedNodes && !isRunning && (
               <Tooltip>
                 <TooltipTrigger asChild>
                   <button
@@ -248,6 +386,42 @@ export function RightPanel({
           </div>
         </div>
       </Panel>
+
+      <RunInputsDialog
+        open={pendingRun !== null}
+        onOpenChange={(open) => !open && setPendingRun(null)}
+        inputs={workflowInputs}
+        onSubmit={(values) => {
+          onRunAll?.(pendingRun?.force, values);
+          setPendingRun(null);
+        }}
+      />
+
+      {workflowId && (
+        <BatchRunDialog
+          open={batchOpen}
+          onOpenChange={setBatchOpen}
+          workflowId={workflowId}
+          inputs={workflowInputs}
+        />
+      )}
+
+      {workflowId && (
+        <ScheduleDialog
+          open={scheduleOpen}
+          onOpenChange={setScheduleOpen}
+          workflowId={workflowId}
+          inputs={workflowInputs}
+        />
+      )}
+
+      {workflowId && (
+        <WebhooksDialog
+          open={webhooksOpen}
+          onOpenChange={setWebhooksOpen}
+          workflowId={workflowId}
+        />
+      )}
     </TooltipProvider>
   );
 }
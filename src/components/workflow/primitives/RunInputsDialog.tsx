@@ -0,0 +1,98 @@
+'use client';
+
+import * as React from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import type { RunInputsDialogProps } from '../types';
+
+/**
+ * RunInputsDialog Component
+ *
+ * Asks for the values of a workflow's Workflow Input nodes before a run,
+ * prefilled with their defaults. Required inputs must be filled in.
+ *
+ * @example
+ * ```tsx
+ * <RunInputsDialog
+ *   open={inputsDialogOpen}
+ *   onOpenChange={setInputsDialogOpen}
+ *   inputs={signature.inputs}
+ *   onSubmit={(values) => onRunAll(false, values)}
+ * />
+ * ```
+ */
+export function RunInputsDialog({
+  open,
+  onOpenChange,
+  inputs,
+  onSubmit,
+}: RunInputsDialogProps) {
+  const [values, setValues] = React.useState<Record<string, string>>({});
+
+  // Start from the defaults each time the dialog opens
+  React.useEffect(() => {
+    if (!open) return;
+    setValues(Object.fromEntries(inputs.map((input) => [input.id, input.defaultValue ?? ''])));
+  }, [open, inputs]);
+
+  const missing = inputs.filter((input) => input.required && !values[input.id]?.trim());
+
+  const handleSubmit = () => {
+    if (missing.length > 0) return;
+    onSubmit(values);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Run Workflow</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          {inputs.map((input) => (
+            <div key={input.id}>
+              <label className="text-xs text-foreground/60 mb-1 block">
+                {input.name || input.id}
+                <span className="ml-1 text-foreground/40">({input.valueType})</span>
+                {input.required && <span className="ml-1 text-red-400">*</span>}
+              </label>
+              {input.valueType === 'text' ? (
+                <Textarea
+                  value={values[input.id] ?? ''}
+                  onChange={(e) => setValues((prev) => ({ ...prev, [input.id]: e.target.value }))}
+                  className="min-h-16 resize-y text-sm"
+                />
+              ) : (
+                <Input
+                  value={values[input.id] ?? ''}
+                  onChange={(e) => setValues((prev) => ({ ...prev, [input.id]: e.target.value }))}
+                  placeholder="https://..."
+                />
+              )}
+            </div>
+          ))}
+
+          <div className="flex justify-end gap-3">
+            <Button variant="ghost" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSubmit}
+              disabled={missing.length > 0}
+              className="bg-[#E8FF5A] text-black hover:bg-[#d4eb52]"
+            >
+              Run
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,173 @@
+'use client';
+
+import * as React from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { NodeFailurePolicy } from '@/types/workflow.types';
+import type { RunSettingsDialogProps } from '../types';
+
+const FAILURE_POLICIES: { value: NodeFailurePolicy; label: string }[] = [
+  { value: 'skip-dependents', label: 'Skip dependents' },
+  { value: 'stop', label: 'Stop workflow' },
+  { value: 'fallback', label: 'Continue with fallback value' },
+];
+
+/**
+ * Parse an optional non-negative number field; blank means "use the default"
+ */
+const parseOptionalNumber = (value: string): number | undefined => {
+  if (value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+};
+
+/**
+ * RunSettingsDialog Component
+ *
+ * Dialog for a node's retry, timeout and on-failure settings, used when the
+ * node runs as part of a workflow. Blank fields keep the task's defaults.
+ *
+ * @example
+ * ```tsx
+ * <RunSettingsDialog
+ *   open={runSettingsOpen}
+ *   onOpenChange={setRunSettingsOpen}
+ *   value={data.execution}
+ *   onSubmit={(execution) => updateNodeData(id, { execution })}
+ * />
+ * ```
+ */
+export function RunSettingsDialog({
+  open,
+  onOpenChange,
+  value,
+  onSubmit,
+}: RunSettingsDialogProps) {
+  const [retries, setRetries] = React.useState('');
+  const [backoffSeconds, setBackoffSeconds] = React.useState('');
+  const [timeoutSeconds, setTimeoutSeconds] = React.useState('');
+  const [onFailure, setOnFailure] = React.useState<NodeFailurePolicy>('skip-dependents');
+  const [fallbackValue, setFallbackValue] = React.useState('');
+
+  // Start from the node's saved settings each time the dialog opens
+  React.useEffect(() => {
+    if (!open) return;
+    setRetries(value?.retries?.toString() ?? '');
+    setBackoffSeconds(value?.backoffSeconds?.toString() ?? '');
+    setTimeoutSeconds(value?.timeoutSeconds?.toString() ?? '');
+    setOnFailure(value?.onFailure ?? 'skip-dependents');
+    setFallbackValue(value?.fallbackValue ?? '');
+  }, [open, value]);
+
+  const handleSubmit = () => {
+    const timeout = parseOptionalNumber(timeoutSeconds);
+    onSubmit({
+      retries: parseOptionalNumber(retries),
+      backoffSeconds: parseOptionalNumber(backoffSeconds),
+      // Trigger.dev rejects a maxDuration under 5 seconds
+      timeoutSeconds: timeout != null ? Math.max(5, timeout) : undefined,
+      onFailure,
+      fallbackValue: onFailure === 'fallback' ? fallbackValue : undefined,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Run Settings</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <label className="text-xs text-foreground/60 mb-1 block">Retries</label>
+              <Input
+                type="number"
+                min={0}
+                value={retries}
+                onChange={(e) => setRetries(e.target.value)}
+                placeholder="Default"
+                className="nodrag"
+              />
+            </div>
+            <div>
+              <label className="text-xs text-foreground/60 mb-1 block">Backoff (s)</label>
+              <Input
+                type="number"
+                min={0}
+                value={backoffSeconds}
+                onChange={(e) => setBackoffSeconds(e.target.value)}
+                placeholder="1"
+                className="nodrag"
+              />
+            </div>
+            <div>
+              <label className="text-xs text-foreground/60 mb-1 block">Timeout (s)</label>
+              <Input
+                type="number"
+                min={5}
+                value={timeoutSeconds}
+                onChange={(e) => setTimeoutSeconds(e.target.value)}
+                placeholder="Default"
+                className="nodrag"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="text-xs text-foreground/60 mb-1 block">On failure</label>
+            <Select value={onFailure} onValueChange={(v) => setOnFailure(v as NodeFailurePolicy)}>
+              <SelectTrigger className="nodrag w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FAILURE_POLICIES.map((policy) => (
+                  <SelectItem key={policy.value} value={policy.value}>
+                    {policy.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {onFailure === 'fallback' && (
+            <div>
+              <label className="text-xs text-foreground/60 mb-1 block">Fallback value</label>
+              <Input
+                value={fallbackValue}
+                onChange={(e) => setFallbackValue(e.target.value)}
+                placeholder="Passed downstream if the node fails"
+                className="nodrag"
+              />
+            </div>
+          )}
+
+          <div className="flex justify-end gap-3">
+            <Button variant="ghost" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSubmit}
+              className="bg-[#E8FF5A] text-black hover:bg-[#d4eb52]"
+            >
+              Save
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
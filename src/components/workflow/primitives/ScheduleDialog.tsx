@@ -0,0 +1,233 @@
+'use client';
+
+import * as React from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { getWorkflowSchedule, saveWorkflowSchedule, deleteWorkflowSchedule } from '@/lib/actions';
+import { SCHEDULE_PRESETS } from '@/types/workflow.types';
+import type { ScheduleDialogProps } from '../types';
+
+/**
+ * Timezones offered by the picker, with the browser's own first
+ */
+const getTimezones = (): string[] => {
+  const local = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const all = typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [];
+  return [...new Set(['UTC', local, ...all])];
+};
+
+/**
+ * ScheduleDialog Component
+ *
+ * Dialog for running the saved workflow on a cron schedule: expression (or a
+ * preset), timezone, enabled switch and fixed values for the workflow's
+ * inputs. Shows how the last scheduled run went.
+ *
+ * @example
+ * ```tsx
+ * <ScheduleDialog
+ *   open={scheduleOpen}
+ *   onOpenChange={setScheduleOpen}
+ *   workflowId={workflowId}
+ *   inputs={workflowInputs}
+ * />
+ * ```
+ */
+export function ScheduleDialog({ open, onOpenChange, workflowId, inputs }: ScheduleDialogProps) {
+  const queryClient = useQueryClient();
+  const timezones = React.useMemo(() => getTimezones(), []);
+
+  const [cron, setCron] = React.useState(SCHEDULE_PRESETS[0].cron);
+  const [timezone, setTimezone] = React.useState(timezones[1] ?? 'UTC');
+  const [enabled, setEnabled] = React.useState(true);
+  const [values, setValues] = React.useState<Record<string, string>>({});
+  const [error, setError] = React.useState<string | null>(null);
+  const [nextRun, setNextRun] = React.useState<Date | null>(null);
+
+  const scheduleQuery = useQuery({
+    queryKey: ['schedule', workflowId],
+    queryFn: () => getWorkflowSchedule({ workflowId }),
+    enabled: open,
+  });
+  const schedule = scheduleQuery.data?.schedule ?? null;
+
+  // Start from the saved schedule (or the input defaults) each time the dialog opens
+  const initializedRef = React.useRef(false);
+  React.useEffect(() => {
+    if (!open) {
+      initializedRef.current = false;
+      return;
+    }
+    if (initializedRef.current || scheduleQuery.isLoading) return;
+    initializedRef.current = true;
+    const saved = (schedule?.inputs ?? {}) as Record<string, string>;
+    setCron(schedule?.cron ?? SCHEDULE_PRESETS[0].cron);
+    setTimezone(schedule?.timezone ?? timezones[1] ?? 'UTC');
+    setEnabled(schedule?.enabled ?? true);
+    setValues(Object.fromEntries(inputs.map((input) => [input.id, saved[input.id] ?? input.defaultValue ?? ''])));
+    setError(null);
+    setNextRun(null);
+  }, [open, schedule, scheduleQuery.isLoading, inputs, timezones]);
+
+  const saveMutation = useMutation({
+    mutationFn: () => saveWorkflowSchedule({ workflowId, cron, timezone, enabled, inputs: values }),
+    onSuccess: (data) => {
+      setError(null);
+      setNextRun(data.nextRun ? new Date(data.nextRun) : null);
+      queryClient.invalidateQueries({ queryKey: ['schedule', workflowId] });
+      queryClient.invalidateQueries({ queryKey: ['workflows'] });
+    },
+    onError: (err) => setError(err instanceof Error ? err.message : 'Failed to save schedule'),
+  });
+  const deleteMutation = useMutation({
+    mutationFn: () => deleteWorkflowSchedule({ workflowId }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['schedule', workflowId] });
+      queryClient.invalidateQueries({ queryKey: ['workflows'] });
+      onOpenChange(false);
+    },
+  });
+
+  const missing = inputs.filter((input) => input.required && !values[input.id]?.trim());
+  const preset = SCHEDULE_PRESETS.find((p) => p.cron === cron.trim());
+  const lastRunFailed = schedule?.lastRunStatus === 'failed' || schedule?.lastRunStatus === 'partial';
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Schedule</DialogTitle>
+          <DialogDescription>
+            Run the saved workflow on a schedule. Save your edits before they&apos;re picked up.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          {/* Cron */}
+          <div>
+            <label className="text-xs text-foreground/60 mb-1 block">Repeat</label>
+            <Select value={preset?.cron ?? 'custom'} onValueChange={(value) => value !== 'custom' && setCron(value)}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SCHEDULE_PRESETS.map((p) => (
+                  <SelectItem key={p.cron} value={p.cron}>
+                    {p.label}
+                  </SelectItem>
+                ))}
+                <SelectItem value="custom">Custom cron expression</SelectItem>
+              </SelectContent>
+            </Select>
+            <Input
+              value={cron}
+              onChange={(e) => setCron(e.target.value)}
+              placeholder="minute hour day month weekday, e.g. 0 9 * * *"
+              className="mt-2 font-mono text-xs"
+            />
+          </div>
+
+          {/* Timezone */}
+          <div>
+            <label className="text-xs text-foreground/60 mb-1 block">Timezone</label>
+            <Select value={timezone} onValueChange={setTimezone}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="max-h-64">
+                {timezones.map((tz) => (
+                  <SelectItem key={tz} value={tz}>
+                    {tz}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Input values */}
+          {inputs.map((input) => (
+            <div key={input.id}>
+              <label className="text-xs text-foreground/60 mb-1 block">
+                {input.name || input.id}
+                <span className="ml-1 text-foreground/40">({input.valueType})</span>
+                {input.required && <span className="ml-1 text-red-400">*</span>}
+              </label>
+              {input.valueType === 'text' ? (
+                <Textarea
+                  value={values[input.id] ?? ''}
+                  onChange={(e) => setValues((prev) => ({ ...prev, [input.id]: e.target.value }))}
+                  className="min-h-16 resize-y text-sm"
+                />
+              ) : (
+                <Input
+                  value={values[input.id] ?? ''}
+                  onChange={(e) => setValues((prev) => ({ ...prev, [input.id]: e.target.value }))}
+                  placeholder="https://..."
+                />
+              )}
+            </div>
+          ))}
+
+          <label className="flex items-center justify-between text-sm">
+            <span>Enabled</span>
+            <Switch checked={enabled} onCheckedChange={setEnabled} />
+          </label>
+
+          {/* Last scheduled run */}
+          {schedule?.lastRunAt && (
+            <p className={lastRunFailed ? 'text-xs text-red-400' : 'text-xs text-foreground/50'}>
+              Last run {new Date(schedule.lastRunAt).toLocaleString()}: {schedule.lastRunStatus}
+              {schedule.lastError && ` (${schedule.lastError})`}
+            </p>
+          )}
+          {nextRun && (
+            <p className="text-xs text-foreground/50">Saved. Next run {nextRun.toLocaleString()}.</p>
+          )}
+          {error && <p className="text-xs text-red-400">{error}</p>}
+
+          <div className="flex items-center gap-3">
+            {schedule && (
+              <Button
+                variant="ghost"
+                className="text-red-400 hover:text-red-400"
+                disabled={deleteMutation.isPending}
+                onClick={() => deleteMutation.mutate()}
+              >
+                Remove schedule
+              </Button>
+            )}
+            <div className="ml-auto flex gap-3">
+              <Button variant="ghost" onClick={() => onOpenChange(false)}>
+                Close
+              </Button>
+              <Button
+                onClick={() => saveMutation.mutate()}
+                disabled={!cron.trim() || missing.length > 0 || saveMutation.isPending}
+                className="bg-[#E8FF5A] text-black hover:bg-[#d4eb52]"
+              >
+                Save
+              </Button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
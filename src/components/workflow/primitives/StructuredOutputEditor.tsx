@@ -0,0 +1,203 @@
+'use client';
+
+import * as React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { buildJsonSchema } from '@/lib/structuredOutput';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  DEFAULT_STRUCTURED_OUTPUT_RETRIES,
+  type LLMOutputField,
+  type LLMOutputFieldType,
+  type LLMStructuredOutput,
+} from '@/types/workflow.types';
+import type { StructuredOutputEditorProps } from '../types';
+
+const FIELD_TYPES: { value: LLMOutputFieldType; label: string }[] = [
+  { value: 'string', label: 'Text' },
+  { value: 'number', label: 'Number' },
+  { value: 'integer', label: 'Integer' },
+  { value: 'boolean', label: 'Boolean' },
+  { value: 'array', label: 'List' },
+];
+
+const DEFAULT_STRUCTURED_OUTPUT: LLMStructuredOutput = {
+  mode: 'fields',
+  fields: [{ name: 'result', type: 'string', required: true }],
+};
+
+/**
+ * StructuredOutputEditor Component
+ *
+ * JSON output settings of the LLM node: a small editor for top-level fields,
+ * or a JSON Schema written by hand. Each top-level field becomes an output
+ * handle of the node.
+ *
+ * @example
+ * ```tsx
+ * <StructuredOutputEditor
+ *   value={data.structuredOutput}
+ *   onChange={(structuredOutput) => updateNodeData(id, { structuredOutput })}
+ * />
+ * ```
+ */
+export function StructuredOutputEditor({ value, onChange }: StructuredOutputEditorProps) {
+  const schemaError = React.useMemo(() => {
+    if (!value) return null;
+    try {
+      buildJsonSchema(value);
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+  }, [value]);
+
+  const updateField = (index: number, updates: Partial<LLMOutputField>) => {
+    if (!value) return;
+    onChange({
+      ...value,
+      fields: value.fields.map((field, i) => (i === index ? { ...field, ...updates } : field)),
+    });
+  };
+
+  const addField = () => {
+    if (!value) return;
+    onChange({ ...value, fields: [...value.fields, { name: '', type: 'string', required: true }] });
+  };
+
+  const removeField = (index: number) => {
+    if (!value) return;
+    onChange({ ...value, fields: value.fields.filter((_, i) => i !== index) });
+  };
+
+  const setMode = (mode: LLMStructuredOutput['mode']) => {
+    if (!value || value.mode === mode) return;
+    // Start a hand-written schema from the fields built so far
+    let schema = value.schema;
+    if (mode === 'schema' && !schema?.trim()) {
+      try {
+        schema = JSON.stringify(buildJsonSchema(value), null, 2);
+      } catch {
+        schema = undefined;
+      }
+    }
+    onChange({ ...value, mode, schema });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <label className="text-xs text-foreground/60">JSON output</label>
+        <Switch
+          checked={!!value}
+          onCheckedChange={(checked) => onChange(checked ? DEFAULT_STRUCTURED_OUTPUT : undefined)}
+          className="nodrag"
+        />
+      </div>
+
+      {value && (
+        <div className="space-y-2 rounded-lg bg-muted/20 p-2">
+          <div className="flex gap-1">
+            {(['fields', 'schema'] as const).map((mode) => (
+              <Button
+                key={mode}
+                variant="ghost"
+                size="sm"
+                onClick={() => setMode(mode)}
+                className={cn('nodrag h-7 flex-1 text-xs', value.mode === mode && 'bg-muted')}
+              >
+                {mode === 'fields' ? 'Fields' : 'JSON Schema'}
+              </Button>
+            ))}
+          </div>
+
+          {value.mode === 'fields' ? (
+            <div className="space-y-2">
+              {value.fields.map((field, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Input
+                    value={field.name}
+                    onChange={(e) => updateField(index, { name: e.target.value })}
+                    placeholder="Field name"
+                    className="nodrag h-8 flex-1 bg-muted/40 font-mono text-xs"
+                  />
+                  <Select
+                    value={field.type}
+                    onValueChange={(type) => updateField(index, { type: type as LLMOutputFieldType })}
+                  >
+                    <SelectTrigger className="nodrag h-8 w-24 bg-muted/40 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {FIELD_TYPES.map((type) => (
+                        <SelectItem key={type.value} value={type.value}>
+                          {type.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <label className="nodrag flex items-center gap-1 text-xs text-foreground/60" title="Required">
+                    <input
+                      type="checkbox"
+                      checked={field.required ?? false}
+                      onChange={(e) => updateField(index, { required: e.target.checked })}
+                    />
+                    Req.
+                  </label>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => removeField(index)}
+                    className="nodrag h-8 w-8 shrink-0"
+                    title="Remove field"
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              ))}
+              <Button variant="ghost" size="sm" onClick={addField} className="nodrag w-full text-xs">
+                <Plus className="mr-1 h-3.5 w-3.5" />
+                Add field
+              </Button>
+            </div>
+          ) : (
+            <Textarea
+              value={value.schema ?? ''}
+              onChange={(e) => onChange({ ...value, schema: e.target.value })}
+              placeholder={'{\n  "type": "object",\n  "properties": { ... }\n}'}
+              className="nodrag min-h-32 resize-y bg-muted/40 font-mono text-xs"
+            />
+          )}
+
+          {schemaError && <p className="text-xs text-red-400">{schemaError}</p>}
+
+          <div className="flex items-center justify-between gap-3">
+            <label className="text-xs text-foreground/60">Re-asks when invalid</label>
+            <Input
+              type="number"
+              min={0}
+              max={5}
+              value={value.maxRetries ?? ''}
+              onChange={(e) => {
+                const retries = parseInt(e.target.value, 10);
+                onChange({ ...value, maxRetries: retries >= 0 && retries <= 5 ? retries : undefined });
+              }}
+              placeholder={String(DEFAULT_STRUCTURED_OUTPUT_RETRIES)}
+              className="nodrag h-8 w-20 bg-muted/40 text-xs"
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
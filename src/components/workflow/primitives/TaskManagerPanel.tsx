@@ -1,7 +1,7 @@
 'use client';
 
 import * as React from 'react';
-import { Check, Loader2, X } from 'lucide-react';
+import { Ban, Check, Hourglass, Loader2, SkipForward, Square, X, Zap } from 'lucide-react';
 import { useWorkflowStore } from '@/stores/workflowStore';
 import type { TaskManagerPanelProps } from '../types';
 
@@ -13,6 +13,7 @@ import type { TaskManagerPanelProps } from '../types';
 export function TaskManagerPanel({ onClose }: TaskManagerPanelProps) {
   const runTasks = useWorkflowStore((s) => s.runTasks);
   const clearAllTasks = useWorkflowStore((s) => s.clearAllTasks);
+  const cancelTask = useWorkflowStore((s) => s.cancelTask);
 
   const formatTime = (date: Date) => {
     return new Date(date).toLocaleString('en-US', {
@@ -24,10 +25,11 @@ export function TaskManagerPanel({ onClose }: TaskManagerPanelProps) {
     });
   };
 
-  // Sort tasks: running first, then by start time (newest first)
+  // Sort tasks: running first, then queued, then by start time (newest first)
+  const statusRank = (status: string) => (status === 'running' ? 0 : status === 'queued' ? 1 : 2);
   const sortedTasks = [...runTasks].sort((a, b) => {
-    if (a.status === 'running' && b.status !== 'running') return -1;
-    if (a.status !== 'running' && b.status === 'running') return 1;
+    const rankDiff = statusRank(a.status) - statusRank(b.status);
+    if (rankDiff !== 0) return rankDiff;
     return new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime();
   });
 
@@ -74,10 +76,18 @@ export function TaskManagerPanel({ onClose }: TaskManagerPanelProps) {
               <div className="shrink-0">
                 {task.status === 'running' ? (
                   <Loader2 className="h-5 w-5 text-purple-400 animate-spin" />
+                ) : task.status === 'queued' ? (
+                  <Hourglass className="h-5 w-5 text-foreground/50" />
                 ) : task.status === 'completed' ? (
                   <div className="h-5 w-5 rounded-full border-2 border-foreground/60 flex items-center justify-center">
                     <Check className="h-3 w-3 text-foreground/60" />
                   </div>
+                ) : task.status === 'cached' ? (
+                  <Zap className="h-5 w-5 text-foreground/60" />
+                ) : task.status === 'skipped' ? (
+                  <SkipForward className="h-5 w-5 text-foreground/40" />
+                ) : task.status === 'cancelled' ? (
+                  <Ban className="h-5 w-5 text-foreground/40" />
                 ) : (
                   <div className="h-5 w-5 rounded-full border-2 border-red-400 flex items-center justify-center">
                     <X className="h-3 w-3 text-red-400" />
@@ -94,6 +104,9 @@ export function TaskManagerPanel({ onClose }: TaskManagerPanelProps) {
                   <span className="text-sm text-foreground/60">
                     {task.progress}
                   </span>
+                  {task.status === 'queued' && (
+                    <span className="text-xs text-foreground/50">Queued</span>
+                  )}
                 </div>
                 {task.error && (
                   <div className="text-xs text-red-400 truncate mt-0.5">
@@ -101,6 +114,19 @@ export function TaskManagerPanel({ onClose }: TaskManagerPanelProps) {
                   </div>
                 )}
               </div>
+
+              {/* Cancel */}
+              {task.status === 'running' && (
+                <button
+                  type="button"
+                  onClick={() => cancelTask(task.id)}
+                  aria-label="Cancel task"
+                  title="Cancel"
+                  className="grid h-7 w-7 shrink-0 place-items-center rounded-md text-foreground/60 hover:bg-muted/30 hover:text-red-400"
+                >
+                  <Square className="h-3 w-3 fill-current" />
+                </button>
+              )}
             </div>
           ))}
         </div>
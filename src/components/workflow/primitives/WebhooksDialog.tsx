@@ -0,0 +1,253 @@
+'use client';
+
+import * as React from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Check, ChevronDown, ChevronRight, Copy, Trash2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+  listWebhooks,
+  createWebhook,
+  updateWebhook,
+  deleteWebhook,
+  listWebhookDeliveries,
+} from '@/lib/actions';
+import { WEBHOOK_EVENTS, type Webhook, type WebhookEvent } from '@/types/workflow.types';
+import type { WebhooksDialogProps } from '../types';
+
+const DELIVERY_STATUS_COLORS: Record<string, string> = {
+  pending: 'text-yellow-400',
+  delivered: 'text-green-400',
+  failed: 'text-red-400',
+};
+
+/**
+ * Event checkboxes shared by the add form and each webhook row
+ */
+function EventCheckboxes({
+  value,
+  onChange,
+}: {
+  value: WebhookEvent[];
+  onChange: (events: WebhookEvent[]) => void;
+}) {
+  return (
+    <div className="flex flex-wrap gap-x-4 gap-y-1">
+      {WEBHOOK_EVENTS.map((event) => (
+        <label key={event.value} className="flex items-center gap-2 text-xs text-foreground/60">
+          <input
+            type="checkbox"
+            checked={value.includes(event.value)}
+            onChange={(e) =>
+              onChange(
+                e.target.checked
+                  ? [...value, event.value]
+                  : value.filter((v) => v !== event.value)
+              )
+            }
+          />
+          {event.label}
+        </label>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * One subscribed webhook: events, enabled switch, signing secret and the
+ * delivery log (loaded when expanded)
+ */
+function WebhookRow({ webhook, workflowId }: { webhook: Webhook; workflowId: string }) {
+  const queryClient = useQueryClient();
+  const [expanded, setExpanded] = React.useState(false);
+  const [copied, setCopied] = React.useState(false);
+
+  const deliveriesQuery = useQuery({
+    queryKey: ['webhookDeliveries', webhook.id],
+    queryFn: () => listWebhookDeliveries({ webhookId: webhook.id }),
+    enabled: expanded,
+    refetchInterval: expanded ? 5000 : false,
+  });
+  const updateMutation = useMutation({
+    mutationFn: (input: { enabled?: boolean; events?: WebhookEvent[] }) => updateWebhook({ id: webhook.id, ...input }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['webhooks', workflowId] }),
+  });
+  const deleteMutation = useMutation({
+    mutationFn: () => deleteWebhook({ id: webhook.id }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['webhooks', workflowId] }),
+  });
+
+  const deliveries = deliveriesQuery.data?.deliveries ?? [];
+
+  const handleCopySecret = async () => {
+    await navigator.clipboard.writeText(webhook.secret);
+    setCopied(true);
+  };
+
+  return (
+    <div className="rounded-md border border-border/60 p-3 space-y-2">
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          onClick={() => setExpanded((v) => !v)}
+          className="text-foreground/60 hover:text-foreground"
+          title={expanded ? 'Hide deliveries' : 'Show deliveries'}
+        >
+          {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+        </button>
+        <span className={cn('flex-1 truncate text-sm', !webhook.enabled && 'text-foreground/40')}>{webhook.url}</span>
+        <Switch
+          checked={webhook.enabled}
+          onCheckedChange={(enabled) => updateMutation.mutate({ enabled })}
+          title={webhook.enabled ? 'Disable' : 'Enable'}
+        />
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7 text-foreground/60 hover:text-red-400"
+          disabled={deleteMutation.isPending}
+          onClick={() => deleteMutation.mutate()}
+          title="Delete webhook"
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <EventCheckboxes
+        value={webhook.events}
+        onChange={(events) => events.length > 0 && updateMutation.mutate({ events })}
+      />
+
+      <div className="flex items-center gap-2 text-xs text-foreground/50">
+        <span>Secret</span>
+        <code className="flex-1 truncate rounded bg-muted/40 px-2 py-0.5">{webhook.secret.slice(0, 12)}…</code>
+        <Button variant="ghost" size="icon" className="h-6 w-6" onClick={handleCopySecret} title="Copy signing secret">
+          {copied ? <Check className="h-3 w-3" /> : <Copy className="h-3 w-3" />}
+        </Button>
+      </div>
+
+      {/* Delivery log */}
+      {expanded && (
+        <div className="max-h-48 overflow-y-auto space-y-1 border-t border-border/60 pt-2">
+          {deliveries.length === 0 && !deliveriesQuery.isLoading && (
+            <p className="text-xs text-foreground/50">No deliveries yet.</p>
+          )}
+          {deliveries.map((delivery) => (
+            <div key={delivery.id} className="text-xs">
+              <div className="flex items-center gap-2">
+                <span className={DELIVERY_STATUS_COLORS[delivery.status]}>{delivery.status}</span>
+                <span className="text-foreground/70">{delivery.event}</span>
+                <span className="ml-auto text-foreground/40">
+                  {delivery.attempts} attempt{delivery.attempts === 1 ? '' : 's'}
+                  {delivery.responseStatus != null && ` · HTTP ${delivery.responseStatus}`}
+                  {' · '}
+                  {new Date(delivery.createdAt).toLocaleString()}
+                </span>
+              </div>
+              {delivery.error && <p className="truncate text-red-400/80" title={delivery.error}>{delivery.error}</p>}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * WebhooksDialog Component
+ *
+ * Dialog for the workflow's outgoing webhooks: URLs notified when a run
+ * completes or fails, or a node fails. Requests are signed with each
+ * webhook's secret; recent deliveries and their attempts are listed per
+ * webhook.
+ *
+ * @example
+ * ```tsx
+ * <WebhooksDialog
+ *   open={webhooksOpen}
+ *   onOpenChange={setWebhooksOpen}
+ *   workflowId={workflowId}
+ * />
+ * ```
+ */
+export function WebhooksDialog({ open, onOpenChange, workflowId }: WebhooksDialogProps) {
+  const queryClient = useQueryClient();
+  const [url, setUrl] = React.useState('');
+  const [events, setEvents] = React.useState<WebhookEvent[]>(['run.completed', 'run.failed']);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const webhooksQuery = useQuery({
+    queryKey: ['webhooks', workflowId],
+    queryFn: () => listWebhooks({ workflowId }),
+    enabled: open,
+  });
+  const createMutation = useMutation({
+    mutationFn: () => createWebhook({ workflowId, url, events }),
+    onSuccess: () => {
+      setUrl('');
+      setError(null);
+      queryClient.invalidateQueries({ queryKey: ['webhooks', workflowId] });
+    },
+    onError: (err) => setError(err instanceof Error ? err.message : 'Failed to add webhook'),
+  });
+
+  const webhooks = (webhooksQuery.data?.webhooks ?? []) as Webhook[];
+  const canAdd = url.trim() !== '' && events.length > 0 && !createMutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Webhooks</DialogTitle>
+          <DialogDescription>
+            POST a signed JSON event to your URL when a run of this workflow finishes or a node fails.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          {/* Add webhook */}
+          <div className="space-y-2">
+            <div className="flex gap-2">
+              <Input
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+                placeholder="https://example.com/hooks/workflow"
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && canAdd) createMutation.mutate();
+                }}
+              />
+              <Button
+                onClick={() => createMutation.mutate()}
+                disabled={!canAdd}
+                className="bg-[#E8FF5A] text-black hover:bg-[#d4eb52]"
+              >
+                Add
+              </Button>
+            </div>
+            <EventCheckboxes value={events} onChange={setEvents} />
+            {error && <p className="text-xs text-red-400">{error}</p>}
+          </div>
+
+          {/* Subscribed webhooks */}
+          <div className="max-h-[50vh] overflow-y-auto space-y-2">
+            {webhooks.length === 0 && !webhooksQuery.isLoading && (
+              <p className="text-sm text-foreground/50">No webhooks yet.</p>
+            )}
+            {webhooks.map((webhook) => (
+              <WebhookRow key={webhook.id} webhook={webhook} workflowId={workflowId} />
+            ))}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -11,6 +11,9 @@ import {
     Trash2,
     X,
     AlertCircle,
+    Ban,
+    SkipForward,
+    Zap,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useWorkflowStore } from '@/stores/workflowStore';
@@ -28,6 +31,8 @@ interface WorkflowHistoryPanelProps {
  * Right sidebar showing list of all workflow runs with:
  * - Timestamp, status badge, duration, scope
  * - Expandable node-level execution details
+ * - Values the run was given for the workflow's inputs
+ * - Sub-workflow node runs nested under their sub-workflow node
  * - Color-coded status indicators
  */
 export function WorkflowHistoryPanel({ isOpen, onClose }: WorkflowHistoryPanelProps) {
@@ -84,6 +89,14 @@ export function WorkflowHistoryPanel({ isOpen, onClose }: WorkflowHistoryPanelPr
                 return 'Selected Nodes';
             case 'single':
                 return 'Single Node';
+            case 'up-to-here':
+                return 'Up To Node';
+            case 'from-here':
+                return 'From Node';
+            case 'scheduled':
+                return 'Scheduled';
+            case 'batch':
+                return 'Batch Row';
         }
     };
 
@@ -117,6 +130,13 @@ export function WorkflowHistoryPanel({ isOpen, onClose }: WorkflowHistoryPanelPr
                         Running
                     </span>
                 );
+            case 'cancelled':
+                return (
+                    <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs bg-muted text-foreground/60">
+                        <Ban className="h-3 w-3" />
+                        Cancelled
+                    </span>
+                );
         }
     };
 
@@ -128,6 +148,12 @@ export function WorkflowHistoryPanel({ isOpen, onClose }: WorkflowHistoryPanelPr
                 return <X className="h-4 w-4 text-red-400" />;
             case 'running':
                 return <Loader2 className="h-4 w-4 text-purple-400 animate-spin" />;
+            case 'cached':
+                return <Zap className="h-4 w-4 text-blue-400" />;
+            case 'skipped':
+                return <SkipForward className="h-4 w-4 text-foreground/40" />;
+            case 'cancelled':
+                return <Ban className="h-4 w-4 text-foreground/40" />;
             default:
                 return <Clock className="h-4 w-4 text-foreground/40" />;
         }
@@ -227,6 +253,25 @@ function RunEntry({
     getStatusBadge,
     getNodeStatusIcon,
 }: RunEntryProps) {
+    const nodes = useWorkflowStore((s) => s.nodes);
+    const inputEntries = Object.entries(run.inputs ?? {});
+
+    // Name inputs after their Workflow Input node (by id, for nodes since deleted)
+    const getInputName = (nodeId: string) => {
+        const node = nodes.find((n) => n.id === nodeId);
+        return node?.type === 'workflowInput' && node.data.name ? node.data.name : nodeId;
+    };
+
+    // Node runs of sub-workflows, by the sub-workflow node run they ran inside of
+    const nestedRuns = React.useMemo(() => {
+        const byParent = new Map<string, NodeRun[]>();
+        for (const nodeRun of run.nodeRuns) {
+            if (!nodeRun.parentNodeRunId) continue;
+            byParent.set(nodeRun.parentNodeRunId, [...(byParent.get(nodeRun.parentNodeRunId) ?? []), nodeRun]);
+        }
+        return byParent;
+    }, [run.nodeRuns]);
+
     return (
         <div className="bg-background/30">
             {/* Run Header */}
@@ -265,13 +310,27 @@ function RunEntry({
                 </div>
             </button>
 
+            {/* Run Inputs */}
+            {isExpanded && inputEntries.length > 0 && (
+                <div className="pl-8 pr-3 pb-2">
+                    <div className="rounded-md bg-cyan-500/10 p-2 text-xs text-foreground/60 space-y-0.5">
+                        {inputEntries.map(([nodeId, value]) => (
+                            <div key={nodeId} className="truncate">
+                                <span className="text-foreground/80">{getInputName(nodeId)}:</span> {value}
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
             {/* Node Details */}
             {isExpanded && run.nodeRuns.length > 0 && (
                 <div className="pl-8 pr-3 pb-3 space-y-1">
-                    {run.nodeRuns.map((nodeRun) => (
+                    {run.nodeRuns.filter((nodeRun) => !nodeRun.parentNodeRunId).map((nodeRun) => (
                         <NodeRunEntry
                             key={nodeRun.id}
                             nodeRun={nodeRun}
+                            nestedRuns={nestedRuns}
                             formatDuration={formatDuration}
                             getNodeStatusIcon={getNodeStatusIcon}
                         />
@@ -284,30 +343,45 @@ function RunEntry({
 
 interface NodeRunEntryProps {
     nodeRun: NodeRun;
+    nestedRuns: Map<string, NodeRun[]>;
     formatDuration: (ms?: number) => string;
     getNodeStatusIcon: (status: string) => React.ReactNode;
 }
 
-function NodeRunEntry({ nodeRun, formatDuration, getNodeStatusIcon }: NodeRunEntryProps) {
+function NodeRunEntry({ nodeRun, nestedRuns, formatDuration, getNodeStatusIcon }: NodeRunEntryProps) {
     const [showInput, setShowInput] = React.useState(false);
     const [showOutput, setShowOutput] = React.useState(false);
 
+    const childRuns = nestedRuns.get(nodeRun.id) ?? [];
+
     return (
         <div className="rounded-md bg-muted/30 p-2">
             <div className="flex items-center gap-2">
                 {getNodeStatusIcon(nodeRun.status)}
                 <span className="text-sm text-foreground truncate flex-1">
                     {nodeRun.nodeName}
+                    {nodeRun.iteration != null && (
+                        <span className="ml-1 text-xs text-foreground/40">item {nodeRun.iteration + 1}</span>
+                    )}
                 </span>
+                {nodeRun.status === 'cached' && (
+                    <span className="text-xs text-blue-400">cached</span>
+                )}
                 <span className="text-xs text-foreground/40">
                     {formatDuration(nodeRun.duration)}
                 </span>
             </div>
 
             {nodeRun.error && (
-                <div className="mt-1 text-xs text-red-400 pl-6">
-                    Error: {nodeRun.error}
-                </div>
+                nodeRun.status === 'skipped' ? (
+                    <div className="mt-1 text-xs text-foreground/50 pl-6">
+                        {nodeRun.error}
+                    </div>
+                ) : (
+                    <div className="mt-1 text-xs text-red-400 pl-6">
+                        Error: {nodeRun.error}
+                    </div>
+                )
             )}
 
             {/* Input Data */}
@@ -347,6 +421,21 @@ function NodeRunEntry({ nodeRun, formatDuration, getNodeStatusIcon }: NodeRunEnt
                     )}
                 </div>
             )}
+
+            {/* Sub-workflow Node Runs */}
+            {childRuns.length > 0 && (
+                <div className="mt-2 ml-3 pl-3 border-l border-border space-y-1">
+                    {childRuns.map((childRun) => (
+                        <NodeRunEntry
+                            key={childRun.id}
+                            nodeRun={childRun}
+                            nestedRuns={nestedRuns}
+                            formatDuration={formatDuration}
+                            getNodeStatusIcon={getNodeStatusIcon}
+                        />
+                    ))}
+                </div>
+            )}
         </div>
     );
 }
@@ -1,9 +1,17 @@
 export { NodeShell } from './NodeShell';
 export { HandleLabel, HandleWithLabel } from './HandleLabel';
 export { RenameDialog } from './RenameDialog';
+export { RunSettingsDialog } from './RunSettingsDialog';
+export { RunInputsDialog } from './RunInputsDialog';
+export { ScheduleDialog } from './ScheduleDialog';
+export { BatchRunDialog } from './BatchRunDialog';
 export { NodeDropdownMenu } from './NodeDropdownMenu';
+export { ModelSelect } from './ModelSelect';
+export { GenerationSettings } from './GenerationSettings';
+export { StructuredOutputEditor } from './StructuredOutputEditor';
 export { QuickAccessNodeButton } from './QuickAccessNodeButton';
 export { TaskManagerPanel } from './TaskManagerPanel';
 export { BottomToolbar } from './BottomToolbar';
 export { LeftPanel } from './LeftPanel';
 export { RightPanel } from './RightPanel';
+export { WebhooksDialog } from './WebhooksDialog';
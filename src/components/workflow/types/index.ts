@@ -5,7 +5,11 @@ export type {
     HandleColor,
     HandleWithLabelProps,
     RenameDialogProps,
+    RunSettingsDialogProps,
     NodeDropdownMenuProps,
+    ModelSelectProps,
+    GenerationSettingsProps,
+    StructuredOutputEditorProps,
 } from './node.types';
 
 // Toolbar component types
@@ -13,6 +17,11 @@ export type {
     BottomToolbarProps,
     QuickAccessNodeButtonProps,
     TaskManagerPanelProps,
+    RunInputsDialogProps,
+    WebhooksDialogProps,
+    ScheduleDialogProps,
+    BatchRunDialogProps,
     ToolbarSection,
     ToolbarItem,
+    NodeType,
 } from './toolbar.types';
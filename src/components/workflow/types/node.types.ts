@@ -1,5 +1,12 @@
 import type { Position } from '@xyflow/react';
 import type React from 'react';
+import type {
+    LLMGenerationParams,
+    LLMModelOption,
+    LLMProviderId,
+    LLMStructuredOutput,
+    NodeExecutionSettings,
+} from '@/types/workflow.types';
 
 /**
  * Props for the NodeShell wrapper component
@@ -74,6 +81,20 @@ export interface RenameDialogProps {
     onSubmit: () => void;
 }
 
+/**
+ * Props for the RunSettingsDialog component
+ */
+export interface RunSettingsDialogProps {
+    /** Whether dialog is open */
+    open: boolean;
+    /** Callback when open state changes */
+    onOpenChange: (open: boolean) => void;
+    /** Node's current execution settings */
+    value?: NodeExecutionSettings;
+    /** Callback when settings are saved */
+    onSubmit: (settings: NodeExecutionSettings) => void;
+}
+
 /**
  * Props for node dropdown menu
  */
@@ -88,8 +109,44 @@ export interface NodeDropdownMenuProps {
     onToggleLock: () => void;
     /** Callback to open rename dialog */
     onOpenRename: () => void;
+    /** Callback to open run settings dialog (executable nodes only) */
+    onOpenRunSettings?: () => void;
     /** Callback to reset node to default state */
     onReset?: () => void;
     /** Optional additional menu items */
     additionalItems?: React.ReactNode;
 }
+
+/**
+ * Props for the model picker of nodes that call a model
+ */
+export interface ModelSelectProps<P extends string = LLMProviderId> {
+    /** Current provider; unset means the first of `providers` */
+    provider?: P;
+    /** Current model name */
+    model: string;
+    /** Callback with the picked provider and model */
+    onChange: (value: { provider: P; model: string }) => void;
+    /** Providers and their suggested models; defaults to the LLM providers */
+    providers?: { id: P; label: string; models: LLMModelOption[] }[];
+}
+
+/**
+ * Props for the collapsible sampling settings of an LLM node
+ */
+export interface GenerationSettingsProps {
+    /** Current settings; unset fields use the provider's defaults */
+    value?: LLMGenerationParams;
+    /** Callback with the updated settings */
+    onChange: (value: LLMGenerationParams) => void;
+}
+
+/**
+ * Props for the JSON output settings of an LLM node
+ */
+export interface StructuredOutputEditorProps {
+    /** Current settings; unset means plain text output */
+    value?: LLMStructuredOutput;
+    /** Callback with the updated settings, or undefined when JSON output is turned off */
+    onChange: (value: LLMStructuredOutput | undefined) => void;
+}
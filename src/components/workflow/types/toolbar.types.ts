@@ -1,9 +1,28 @@
 import type React from 'react';
+import type { WorkflowInputPort } from '@/types/workflow.types';
 
 /**
  * All available node types
  */
-export type NodeType = 'text' | 'image' | 'video' | 'cropImage' | 'extractFrame' | 'llm';
+export type NodeType =
+    | 'text'
+    | 'image'
+    | 'video'
+    | 'cropImage'
+    | 'transformImage'
+    | 'composite'
+    | 'trimVideo'
+    | 'extractFrame'
+    | 'llm'
+    | 'chat'
+    | 'generateImage'
+    | 'condition'
+    | 'map'
+    | 'collect'
+    | 'workflowInput'
+    | 'workflowOutput'
+    | 'subworkflow'
+    | 'template';
 
 /**
  * Props for the BottomToolbar component
@@ -37,6 +56,60 @@ export interface TaskManagerPanelProps {
     onClose: () => void;
 }
 
+/**
+ * Props for RunInputsDialog
+ */
+export interface RunInputsDialogProps {
+    /** Whether dialog is open */
+    open: boolean;
+    /** Callback when open state changes */
+    onOpenChange: (open: boolean) => void;
+    /** Inputs of the workflow being run */
+    inputs: WorkflowInputPort[];
+    /** Callback with the values entered, keyed by input node id */
+    onSubmit: (values: Record<string, string>) => void;
+}
+
+/**
+ * Props for WebhooksDialog
+ */
+export interface WebhooksDialogProps {
+    /** Whether dialog is open */
+    open: boolean;
+    /** Callback when open state changes */
+    onOpenChange: (open: boolean) => void;
+    /** Workflow whose webhooks are managed */
+    workflowId: string;
+}
+
+/**
+ * Props for ScheduleDialog
+ */
+export interface ScheduleDialogProps {
+    /** Whether dialog is open */
+    open: boolean;
+    /** Callback when open state changes */
+    onOpenChange: (open: boolean) => void;
+    /** Workflow being scheduled */
+    workflowId: string;
+    /** Inputs of the workflow, given fixed values for every scheduled run */
+    inputs: WorkflowInputPort[];
+}
+
+/**
+ * Props for BatchRunDialog
+ */
+export interface BatchRunDialogProps {
+    /** Whether dialog is open */
+    open: boolean;
+    /** Callback when open state changes */
+    onOpenChange: (open: boolean) => void;
+    /** Workflow run once per row */
+    workflowId: string;
+    /** Inputs of the workflow, each mapped to a column of the dataset */
+    inputs: WorkflowInputPort[];
+}
+
 /**
  * Toolbar section configuration
  */
@@ -17,17 +17,18 @@ import { useWorkflowStore } from '@/stores/workflowStore';
 import {  simpleTestWorkflow, marketingKitWorkflow } from '@/components/workflow/data/sampleWorkflows';
 // import { simpleTestWorkflow, productListingWorkflow} from '@/components/workflow/data/sampleWorkflows';
 
-import type { WorkflowNode, WorkflowEdge } from '@/types/workflow.types';
+import type { WorkflowNode, WorkflowEdge, RunScope, RunStatus } from '@/types/workflow.types';
 import { isValidConnection as checkIsValidConnection } from '@/lib/connectionValidation';
 
 import { workflowNodeTypes } from './nodes';
 import { customEdgeTypes } from './custom-edges';
 import { CustomConnectionLine, connectionLineStyles } from './custom-connection-line';
 import { BottomToolbar, LeftPanel, RightPanel } from './primitives';
+import type { NodeType } from './types';
 import { WorkflowHistoryPanel } from './primitives/WorkflowHistoryPanel';
 import { Spinner } from '@/components/ui/spinner';
 import { createExecutionPlan, getConnectedNodes } from '@/lib/dagExecution';
-import { executeNode, gatherNodeInputs } from '@/lib/nodeExecutor';
+import { useWorkflowRun } from '@/hooks/useWorkflowRun';
 import { toast } from 'sonner';
 
 // ============================================================================
@@ -60,13 +61,10 @@ function BuilderInner() {
   const selectedNodes = nodes.filter((n) => n.selected);
   const hasSelectedNodes = selectedNodes.length > 0;
 
-  // History functions
+  // Run functions
   const workflowId = useWorkflowStore((s) => s.workflowId);
-  const startRun = useWorkflowStore((s) => s.startRun);
-  const completeRun = useWorkflowStore((s) => s.completeRun);
-  const addNodeToRun = useWorkflowStore((s) => s.addNodeToRun);
-  const completeNodeRun = useWorkflowStore((s) => s.completeNodeRun);
-  const updateNodeData = useWorkflowStore((s) => s.updateNodeData);
+  const executeWorkflow = useWorkflowStore((s) => s.executeWorkflow);
+  const cancelWorkflow = useWorkflowStore((s) => s.cancelWorkflow);
 
   // Editable workflow name state
   const [isEditingName, setIsEditingName] = React.useState(false);
@@ -106,7 +104,7 @@ function BuilderInner() {
 
   // Add node at center of viewport
   const handleAddNode = React.useCallback(
-    (type: 'text' | 'image' | 'video' | 'cropImage' | 'extractFrame' | 'llm') => {
+    (type: NodeType) => {
       const viewport = rf.getViewport();
       const centerX = (-viewport.x + 400) / viewport.zoom;
       const centerY = (-viewport.y + 300) / viewport.zoom;
@@ -120,13 +118,7 @@ function BuilderInner() {
     (event: React.DragEvent) => {
       event.preventDefault();
 
-      const type = event.dataTransfer.getData('application/reactflow') as
-        | 'text'
-        | 'image'
-        | 'video'
-        | 'cropImage'
-        | 'extractFrame'
-        | 'llm';
+      const type = event.dataTransfer.getData('application/reactflow') as NodeType;
       if (!type) return;
 
       const position = rf.screenToFlowPosition({
@@ -215,8 +207,29 @@ function BuilderInner() {
     return () => document.removeEventListener('keydown', handleKeyDown);
   }, [deleteSelectedNodes]);
 
-  // Run all nodes in the workflow
-  const handleRunAll = React.useCallback(async () => {
+  // Follow server-side runs via Realtime and report when they finish
+  const { activeRun } = useWorkflowRun(
+    React.useCallback((status: RunStatus | null, scope: RunScope) => {
+      if (!status) {
+        toast.error('Workflow run failed');
+        return;
+      }
+      const subject =
+        scope === 'full' ? 'Workflow'
+          : scope === 'single' ? 'Node'
+            : scope === 'selected' ? 'Selected nodes'
+              : 'Partial workflow';
+      if (status === 'cancelled') {
+        toast(`${subject} run cancelled`);
+        return;
+      }
+      toast.success(`${subject} run ${status}`);
+    }, [])
+  );
+
+  // Run all nodes in the workflow (force: ignore cached node outputs),
+  // with the values supplied for its workflow inputs
+  const handleRunAll = React.useCallback(async (force = false, inputs?: Record<string, string>) => {
     if (!workflowId || nodes.length === 0) return;
 
     // Filter to only connected nodes
@@ -227,7 +240,7 @@ function BuilderInner() {
       return;
     }
 
-    // Create execution plan with DAG validation
+    // Validate the DAG up front; the run itself executes server-side
     const plan = createExecutionPlan(connectedNodes, edges);
 
     if (!plan.isValidDAG) {
@@ -235,71 +248,12 @@ function BuilderInner() {
       return;
     }
 
-    const nodeIds = connectedNodes.map((n) => n.id);
-    const runId = await startRun(workflowId, 'full', nodeIds);
-
-    if (!runId) return;
-
-    const completedNodes = new Set<string>();
-    let hasFailures = false;
-
-    // Execute batches in parallel
-    for (const batch of plan.batches) {
-      const batchPromises = batch.nodeIds.map(async (nodeId) => {
-        const node = connectedNodes.find(n => n.id === nodeId);
-        if (!node) return;
-
-        // Gather inputs for history
-        const inputData = gatherNodeInputs(nodeId, connectedNodes, edges);
-
-        const nodeRunId = await addNodeToRun(
-          runId,
-          nodeId,
-          node.data.label || node.type || 'Node',
-          node.type || 'unknown',
-          inputData
-        );
-
-        if (nodeRunId) {
-          try {
-            // Set visual running state BEFORE execution
-            updateNodeData(nodeId, { isProcessing: true, isLoading: true });
-
-            // Execute the actual node via Trigger.dev
-            const result = await executeNode(node, connectedNodes, edges, updateNodeData);
-
-            // Clear running state
-            updateNodeData(nodeId, { isProcessing: false, isLoading: false });
-
-            if (result.success) {
-              await completeNodeRun(nodeRunId, 'completed', result.output);
-              completedNodes.add(nodeId);
-            } else {
-              await completeNodeRun(nodeRunId, 'failed', undefined, result.error);
-              hasFailures = true;
-            }
-          } catch (error) {
-            // Clear running state on error
-            updateNodeData(nodeId, { isProcessing: false, isLoading: false });
-            const errorMsg = error instanceof Error ? error.message : 'Unknown error';
-            await completeNodeRun(nodeRunId, 'failed', undefined, errorMsg);
-            hasFailures = true;
-          }
-        }
-      });
+    const started = await executeWorkflow('full', undefined, { force, inputs });
 
-      // Wait for all nodes in this batch to complete before moving to next
-      await Promise.all(batchPromises);
+    if (!started) {
+      toast.error('Failed to start workflow run');
     }
-
-    // Complete the run
-    const finalStatus = hasFailures
-      ? (completedNodes.size === 0 ? 'failed' : 'partial')
-      : 'completed';
-    await completeRun(runId, finalStatus);
-
-    toast.success(`Workflow run ${finalStatus}`);
-  }, [workflowId, nodes, edges, startRun, addNodeToRun, completeNodeRun, completeRun, updateNodeData]);
+  }, [workflowId, nodes, edges, executeWorkflow]);
 
   // Run selected nodes
   const handleRunSelected = React.useCallback(async () => {
@@ -315,68 +269,21 @@ function BuilderInner() {
     }
 
     const scope = selectedNodes.length === 1 ? 'single' : 'selected';
-    const runId = await startRun(workflowId, scope, selectedNodeIds);
-
-    if (!runId) return;
-
-    const completedNodes = new Set<string>();
-    let hasFailures = false;
-
-    // Execute batches in parallel
-    for (const batch of plan.batches) {
-      const batchPromises = batch.nodeIds.map(async (nodeId) => {
-        const node = nodes.find(n => n.id === nodeId);
-        if (!node) return;
-
-        // Gather inputs for history
-        const inputData = gatherNodeInputs(nodeId, nodes, edges);
-
-        const nodeRunId = await addNodeToRun(
-          runId,
-          nodeId,
-          node.data.label || node.type || 'Node',
-          node.type || 'unknown',
-          inputData
-        );
-
-        if (nodeRunId) {
-          try {
-            // Set visual running state BEFORE execution
-            updateNodeData(nodeId, { isProcessing: true, isLoading: true });
-
-            // Execute the actual node via Trigger.dev
-            const result = await executeNode(node, nodes, edges, updateNodeData);
-
-            // Clear running state
-            updateNodeData(nodeId, { isProcessing: false, isLoading: false });
-
-            if (result.success) {
-              await completeNodeRun(nodeRunId, 'completed', result.output);
-              completedNodes.add(nodeId);
-            } else {
-              await completeNodeRun(nodeRunId, 'failed', undefined, result.error);
-              hasFailures = true;
-            }
-          } catch (error) {
-            // Clear running state on error
-            updateNodeData(nodeId, { isProcessing: false, isLoading: false });
-            const errorMsg = error instanceof Error ? error.message : 'Unknown error';
-            await completeNodeRun(nodeRunId, 'failed', undefined, errorMsg);
-            hasFailures = true;
-          }
-        }
-      });
+    const started = await executeWorkflow(scope, selectedNodeIds);
 
-      await Promise.all(batchPromises);
+    if (!started) {
+      toast.error('Failed to start run');
     }
+  }, [workflowId, nodes, edges, selectedNodes, executeWorkflow]);
 
-    const finalStatus = hasFailures
-      ? (completedNodes.size === 0 ? 'failed' : 'partial')
-      : 'completed';
-    await completeRun(runId, finalStatus);
+  // Stop the active workflow run
+  const handleStop = React.useCallback(async () => {
+    const cancelled = await cancelWorkflow();
 
-    toast.success(`${scope === 'single' ? 'Node' : 'Selected nodes'} run ${finalStatus}`);
-  }, [workflowId, nodes, edges, selectedNodes, startRun, addNodeToRun, completeNodeRun, completeRun, updateNodeData]);
+    if (!cancelled) {
+      toast.error('Failed to stop run');
+    }
+  }, [cancelWorkflow]);
 
 
 
@@ -425,6 +332,8 @@ function BuilderInner() {
             onRunAll={handleRunAll}
             onRunSelected={handleRunSelected}
             hasSelectedNodes={hasSelectedNodes}
+            isRunning={!!activeRun}
+            onStop={handleStop}
             isHistoryOpen={historyPanelOpen}
             onToggleHistory={() => setHistoryPanelOpen((v) => !v)}
           />
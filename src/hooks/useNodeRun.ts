@@ -0,0 +1,115 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useRealtimeRun } from '@trigger.dev/react-hooks';
+import type { AnyTask, RealtimeRun, TaskOutput } from '@trigger.dev/sdk/v3';
+
+/**
+ * Final state of a Trigger.dev run, as reported by Realtime
+ */
+export interface NodeRunResult<TTask extends AnyTask = AnyTask> {
+    runId: string;
+    status: string;
+    output?: TaskOutput<TTask>;
+    error?: string;
+    isCompleted: boolean;
+    isFailed: boolean;
+    isCancelled: boolean;
+}
+
+/**
+ * Normalize a run error (string or serialized error object) to a string
+ */
+function toRunErrorMessage(error: unknown): string | undefined {
+    if (error == null) return undefined;
+    if (typeof error === 'string') return error;
+    const message = (error as { message?: unknown }).message;
+    return typeof message === 'string' ? message : JSON.stringify(error);
+}
+
+function toNodeRunResult<TTask extends AnyTask>(run: RealtimeRun<TTask>, err?: Error): NodeRunResult<TTask> {
+    const isCompleted = !err && run.isSuccess;
+    return {
+        runId: run.id,
+        status: run.status,
+        output: run.output as TaskOutput<TTask> | undefined,
+        error: isCompleted ? undefined : (err?.message ?? toRunErrorMessage(run.error) ?? `Run ${run.status.toLowerCase()}`),
+        isCompleted,
+        isFailed: !isCompleted,
+        isCancelled: !err && run.isCancelled,
+    };
+}
+
+/**
+ * Subscribe to a Trigger.dev run through Realtime using the run's
+ * publicAccessToken (returned when the task is triggered).
+ *
+ * @param runId - Run to subscribe to; nothing happens while undefined
+ * @param accessToken - Public access token scoped to the run
+ * @param options.onComplete - Called once when the run finishes (or the subscription fails)
+ *
+ * @example
+ * ```tsx
+ * const { run, isRunning } = useNodeRun<typeof llmTask>(runId, accessToken, {
+ *     onComplete: (result) => console.log(result.output),
+ * });
+ * ```
+ */
+export function useNodeRun<TTask extends AnyTask = AnyTask>(
+    runId: string | undefined,
+    accessToken: string | undefined,
+    options: { onComplete?: (result: NodeRunResult<TTask>) => void } = {}
+) {
+    const onCompleteRef = useRef(options.onComplete);
+
+    useEffect(() => {
+        onCompleteRef.current = options.onComplete;
+    }, [options.onComplete]);
+
+    const { run, error } = useRealtimeRun<TTask>(runId, {
+        accessToken,
+        enabled: !!runId && !!accessToken,
+        onComplete: (completedRun, err) => {
+            onCompleteRef.current?.(toNodeRunResult(completedRun, err));
+        },
+    });
+
+    return {
+        run,
+        status: run?.status,
+        metadata: run?.metadata,
+        error: error?.message ?? toRunErrorMessage(run?.error),
+        isRunning: !!run && !run.isCompleted,
+    };
+}
+
+/**
+ * Trigger-then-await helper built on useNodeRun, for node Run buttons:
+ * `waitForRun` resolves once Realtime reports the run as finished, while
+ * `run` exposes live status and metadata (e.g. streamed LLM output).
+ */
+export function useNodeRunResult<TTask extends AnyTask = AnyTask>() {
+    const [activeRun, setActiveRun] = useState<{ runId: string; accessToken: string } | null>(null);
+    const resolveRef = useRef<((result: NodeRunResult<TTask>) => void) | null>(null);
+
+    const handleComplete = useCallback((result: NodeRunResult<TTask>) => {
+        resolveRef.current?.(result);
+        resolveRef.current = null;
+        setActiveRun(null);
+    }, []);
+
+    const nodeRun = useNodeRun<TTask>(activeRun?.runId, activeRun?.accessToken, {
+        onComplete: handleComplete,
+    });
+
+    const waitForRun = useCallback(
+        (runId: string, accessToken: string) =>
+            new Promise<NodeRunResult<TTask>>((resolve) => {
+                resolveRef.current = resolve;
+                setActiveRun({ runId, accessToken });
+            }),
+        []
+    );
+
+    return { ...nodeRun, run: activeRun ? nodeRun.run : undefined, waitForRun };
+}
@@ -0,0 +1,47 @@
+'use client';
+
+import { useCallback, useEffect } from 'react';
+import { useWorkflowStore } from '@/stores/workflowStore';
+import type { RunScope, RunStatus } from '@/types/workflow.types';
+import type { runWorkflowTask } from '@/trigger/runWorkflowTask';
+import { useNodeRun, type NodeRunResult } from './useNodeRun';
+
+/**
+ * Follow the store's active server-side workflow run via Realtime and
+ * apply its progress to the canvas. Mount once, in the builder.
+ *
+ * @param onFinished - Called with the final run status (null if the run crashed)
+ */
+export function useWorkflowRun(onFinished?: (status: RunStatus | null, scope: RunScope) => void) {
+    const activeRun = useWorkflowStore((s) => s.activeRun);
+    const applyRunMetadata = useWorkflowStore((s) => s.applyRunMetadata);
+    const finishExecution = useWorkflowStore((s) => s.finishExecution);
+
+    const handleComplete = useCallback(
+        async (result: NodeRunResult<typeof runWorkflowTask>) => {
+            const scope = useWorkflowStore.getState().activeRun?.scope ?? 'full';
+            const status: RunStatus | null = result.isCompleted
+                ? result.output?.status ?? 'completed'
+                : result.isCancelled
+                    ? 'cancelled'
+                    : null;
+            await finishExecution(status);
+            onFinished?.(status, scope);
+        },
+        [finishExecution, onFinished]
+    );
+
+    const { metadata } = useNodeRun<typeof runWorkflowTask>(
+        activeRun?.triggerRunId,
+        activeRun?.publicAccessToken,
+        { onComplete: handleComplete }
+    );
+
+    useEffect(() => {
+        if (activeRun && metadata) {
+            applyRunMetadata(metadata);
+        }
+    }, [activeRun, metadata, applyRunMetadata]);
+
+    return { activeRun };
+}
@@ -0,0 +1,54 @@
+'use server';
+
+import prisma from '@/lib/db';
+import { getAuthUser } from '@/lib/auth-server';
+import { generateApiKey } from '@/lib/apiKeys';
+
+export async function listApiKeys() {
+    const user = await getAuthUser();
+    const apiKeys = await prisma.apiKey.findMany({
+        where: { userId: user.id },
+        orderBy: { createdAt: 'desc' },
+        select: {
+            id: true,
+            name: true,
+            prefix: true,
+            lastUsedAt: true,
+            createdAt: true,
+        },
+    });
+    return { apiKeys };
+}
+
+/**
+ * Create a personal API key for the REST API. The returned `key` can't be
+ * read again later, so it must be shown to the user now.
+ */
+export async function createApiKey(input: { name: string }) {
+    const user = await getAuthUser();
+    const name = input.name.trim();
+    if (!name) throw new Error('Name is required');
+
+    const { key, keyHash, prefix } = generateApiKey();
+    const apiKey = await prisma.apiKey.create({
+        data: { name, keyHash, prefix, userId: user.id },
+        select: {
+            id: true,
+            name: true,
+            prefix: true,
+            lastUsedAt: true,
+            createdAt: true,
+        },
+    });
+    return { apiKey, key };
+}
+
+export async function deleteApiKey(input: { id: string }) {
+    const user = await getAuthUser();
+    const existing = await prisma.apiKey.findFirst({
+        where: { id: input.id, userId: user.id },
+    });
+    if (!existing) throw new Error('API key not found');
+    await prisma.apiKey.delete({ where: { id: input.id } });
+    return { message: 'API key deleted successfully' };
+}
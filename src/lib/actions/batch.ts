@@ -0,0 +1,201 @@
+'use server';
+
+import { tasks, runs } from '@trigger.dev/sdk/v3';
+import prisma from '@/lib/db';
+import { getAuthUser } from '@/lib/auth-server';
+import { getRunOutputValues, getWorkflowSignature } from '@/lib/workflowReferences';
+import {
+    MAX_BATCH_CONCURRENCY,
+    MAX_BATCH_ROWS,
+    type BatchRowResult,
+    type RunStatus,
+    type WorkflowNode,
+} from '@/types/workflow.types';
+import type { batchRunWorkflowTask } from '@/trigger/batchRunWorkflowTask';
+
+const batchRunSelect = {
+    id: true,
+    status: true,
+    rowCount: true,
+    concurrency: true,
+    startedAt: true,
+    completedAt: true,
+} as const;
+
+/**
+ * Run the saved workflow once per row. Each row holds values for the
+ * workflow input nodes, keyed by node id; inputs left empty use their defaults.
+ */
+export async function startBatchRun(input: {
+    workflowId: string;
+    rows: Record<string, string>[];
+    concurrency: number;
+}) {
+    const user = await getAuthUser();
+    const workflow = await prisma.workflow.findFirst({
+        where: { id: input.workflowId, userId: user.id },
+        select: { id: true, nodes: true },
+    });
+    if (!workflow) throw new Error('Workflow not found');
+
+    if (input.rows.length === 0) throw new Error('The dataset has no rows');
+    if (input.rows.length > MAX_BATCH_ROWS) throw new Error(`A batch can have at most ${MAX_BATCH_ROWS} rows`);
+
+    const ports = getWorkflowSignature((workflow.nodes as unknown as WorkflowNode[]) || []).inputs;
+    const portIds = new Set(ports.map((port) => port.id));
+    const rows = input.rows.map((row) =>
+        Object.fromEntries(Object.entries(row).filter(([id, value]) => portIds.has(id) && value.trim() !== ''))
+    );
+    const missing = ports.filter((port) => port.required && !port.defaultValue?.trim() && rows.some((row) => !row[port.id]));
+    if (missing.length > 0) {
+        throw new Error(`Some rows have no value for required inputs: ${missing.map((port) => port.name || port.id).join(', ')}`);
+    }
+
+    const concurrency = Math.min(MAX_BATCH_CONCURRENCY, Math.max(1, Math.round(input.concurrency) || 1));
+    const batchRun = await prisma.batchRun.create({
+        data: {
+            workflowId: input.workflowId,
+            status: 'running',
+            rows,
+            rowCount: rows.length,
+            concurrency,
+        },
+        select: batchRunSelect,
+    });
+
+    const handle = await tasks.trigger<typeof batchRunWorkflowTask>('batch-run-workflow', {
+        batchRunId: batchRun.id,
+        userId: user.id,
+    });
+    await prisma.batchRun.update({
+        where: { id: batchRun.id },
+        data: { triggerRunId: handle.id },
+    });
+    return { batchRun };
+}
+
+export async function listBatchRuns(input: { workflowId: string; limit?: number }) {
+    const user = await getAuthUser();
+    const batchRuns = await prisma.batchRun.findMany({
+        where: { workflowId: input.workflowId, workflow: { userId: user.id } },
+        orderBy: { startedAt: 'desc' },
+        take: input.limit ?? 20,
+        select: batchRunSelect,
+    });
+    return { batchRuns };
+}
+
+/**
+ * A batch run with its results table: each row's inputs, status, the values
+ * of the workflow output nodes (by name) and the WorkflowRun behind it
+ */
+export async function getBatchRun(input: { id: string }) {
+    const user = await getAuthUser();
+    const batchRun = await prisma.batchRun.findFirst({
+        where: { id: input.id, workflow: { userId: user.id } },
+        include: {
+            workflow: { select: { nodes: true } },
+            runs: {
+                include: {
+                    nodeRuns: {
+                        select: { nodeId: true, nodeType: true, status: true, outputData: true, error: true, parentNodeRunId: true },
+                        orderBy: { startedAt: 'asc' },
+                    },
+                },
+            },
+        },
+    });
+    if (!batchRun) throw new Error('Batch run not found');
+
+    const nodes = (batchRun.workflow.nodes as unknown as WorkflowNode[]) || [];
+    const { inputs: inputPorts, outputs: outputPorts } = getWorkflowSignature(nodes);
+    const rows = batchRun.rows as unknown as Record<string, string>[];
+    const rowErrors = (batchRun.rowErrors ?? {}) as Record<string, string>;
+    const runsByIndex = new Map(batchRun.runs.map((run) => [run.batchIndex, run]));
+
+    const results: BatchRowResult[] = rows.map((inputs, index) => {
+        const run = runsByIndex.get(index);
+        if (!run) {
+            const error = rowErrors[index];
+            return {
+                index,
+                inputs,
+                status: error ? 'failed' : batchRun.status === 'running' ? 'queued' : 'skipped',
+                outputs: {},
+                error,
+            };
+        }
+        const failedNode = run.nodeRuns.find((nodeRun) => nodeRun.status === 'failed' && !nodeRun.parentNodeRunId);
+        return {
+            index,
+            inputs,
+            status: run.status as RunStatus,
+            runId: run.id,
+            outputs: getRunOutputValues(nodes, run.nodeRuns),
+            error: failedNode?.error ?? rowErrors[index] ?? undefined,
+        };
+    });
+
+    return {
+        batchRun: {
+            id: batchRun.id,
+            status: batchRun.status,
+            rowCount: batchRun.rowCount,
+            concurrency: batchRun.concurrency,
+            startedAt: batchRun.startedAt,
+            completedAt: batchRun.completedAt,
+        },
+        inputs: inputPorts,
+        outputs: outputPorts,
+        results,
+    };
+}
+
+/**
+ * Stop a batch run: rows not started yet are skipped, and the rows in
+ * progress are cancelled along with the batch task waiting on them.
+ */
+export async function cancelBatchRun(input: { id: string }) {
+    const user = await getAuthUser();
+    const batchRun = await prisma.batchRun.findFirst({
+        where: { id: input.id, workflow: { userId: user.id } },
+    });
+    if (!batchRun) throw new Error('Batch run not found');
+    if (batchRun.status !== 'running') return { success: true };
+
+    const completedAt = new Date();
+    await prisma.batchRun.update({
+        where: { id: batchRun.id },
+        data: { status: 'cancelled', completedAt },
+    });
+    if (batchRun.triggerRunId) {
+        await runs.cancel(batchRun.triggerRunId).catch((error) => {
+            console.error('Failed to cancel batch run task:', error);
+        });
+    }
+
+    // Record the cancellation of the rows in progress; their orchestrators can no longer do it
+    const running = await prisma.workflowRun.findMany({
+        where: { batchRunId: batchRun.id, status: 'running' },
+    });
+    for (const workflowRun of running) {
+        if (workflowRun.triggerRunId) {
+            await runs.cancel(workflowRun.triggerRunId).catch(() => undefined);
+        }
+        await prisma.$transaction([
+            prisma.workflowRun.update({
+                where: { id: workflowRun.id },
+                data: {
+                    status: 'cancelled',
+                    completedAt,
+                    duration: completedAt.getTime() - workflowRun.startedAt.getTime(),
+                },
+            }),
+            prisma.nodeRun.updateMany({
+                where: { workflowRunId: workflowRun.id, status: 'running' },
+                data: { status: 'cancelled', completedAt },
+            }),
+        ]);
+    }
+    return { success: true };
+}
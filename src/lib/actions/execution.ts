@@ -0,0 +1,75 @@
+'use server';
+
+import { tasks, runs } from '@trigger.dev/sdk/v3';
+import prisma from '@/lib/db';
+import { getAuthUser } from '@/lib/auth-server';
+import type { RunScope } from '@/types/workflow.types';
+import type { runWorkflowTask } from '@/trigger/runWorkflowTask';
+
+/**
+ * Start a server-side workflow run (run-workflow orchestrator task).
+ * The workflow is read from the database, so save pending edits first.
+ * Pass `force` to re-run nodes whose cached output is still valid, and
+ * `inputs` (keyed by node id) to supply values for the workflow input nodes.
+ */
+export async function startWorkflowRun(input: {
+    workflowId: string;
+    runScope: RunScope;
+    nodeIds?: string[];
+    force?: boolean;
+    inputs?: Record<string, string>;
+}) {
+    const user = await getAuthUser();
+    const workflow = await prisma.workflow.findFirst({
+        where: { id: input.workflowId, userId: user.id },
+        select: { id: true },
+    });
+    if (!workflow) throw new Error('Workflow not found');
+
+    const handle = await tasks.trigger<typeof runWorkflowTask>('run-workflow', {
+        workflowId: input.workflowId,
+        userId: user.id,
+        runScope: input.runScope,
+        nodeIds: input.nodeIds,
+        force: input.force,
+        inputs: input.inputs,
+    }, {
+        concurrencyKey: user.id, // per-user copy of workflowRunQueue
+    });
+    return { triggerRunId: handle.id, publicAccessToken: handle.publicAccessToken };
+}
+
+/**
+ * Stop a server-side workflow run. Cancelling the orchestrator also cancels its
+ * in-flight node runs, so the remaining batches never start.
+ */
+export async function cancelWorkflowRun(input: { triggerRunId: string }) {
+    const user = await getAuthUser();
+    const run = await runs.retrieve<typeof runWorkflowTask>(input.triggerRunId);
+    if (run.payload?.userId !== user.id) throw new Error('Run not found');
+
+    await runs.cancel(input.triggerRunId);
+
+    // Record the cancellation; the orchestrator can no longer do it
+    const workflowRun = await prisma.workflowRun.findFirst({
+        where: { triggerRunId: input.triggerRunId },
+    });
+    if (workflowRun && workflowRun.status === 'running') {
+        const completedAt = new Date();
+        await prisma.$transaction([
+            prisma.workflowRun.update({
+                where: { id: workflowRun.id },
+                data: {
+                    status: 'cancelled',
+                    completedAt,
+                    duration: completedAt.getTime() - workflowRun.startedAt.getTime(),
+                },
+            }),
+            prisma.nodeRun.updateMany({
+                where: { workflowRunId: workflowRun.id, status: 'running' },
+                data: { status: 'cancelled', completedAt },
+            }),
+        ]);
+    }
+    return { success: true };
+}
@@ -2,10 +2,31 @@
 
 import prisma from '@/lib/db';
 import { getAuthUser } from '@/lib/auth-server';
+import { dispatchNodeFailedWebhooks, dispatchRunWebhooks } from '@/lib/webhooks';
+import type { RunScope, RunTaskStatus } from '@/types/workflow.types';
+
+// Updating a run sends its owner's webhooks, so only the owner may update it
+const findOwnRun = async (userId: string, id: string) => {
+    const run = await prisma.workflowRun.findFirst({
+        where: { id, workflow: { userId } },
+        select: { id: true },
+    });
+    if (!run) throw new Error('Run not found');
+    return run;
+};
+
+const findOwnNodeRun = async (userId: string, id: string) => {
+    const nodeRun = await prisma.nodeRun.findFirst({
+        where: { id, workflowRun: { workflow: { userId } } },
+        select: { id: true },
+    });
+    if (!nodeRun) throw new Error('Node run not found');
+    return nodeRun;
+};
 
 export async function createRun(input: {
     workflowId: string;
-    runScope: 'full' | 'selected' | 'single';
+    runScope: RunScope;
     nodeCount: number;
 }) {
     await getAuthUser();
@@ -22,11 +43,12 @@ export async function createRun(input: {
 
 export async function updateRun(input: {
     runId: string;
-    status: 'running' | 'completed' | 'failed' | 'partial';
+    status: 'running' | 'completed' | 'failed' | 'partial' | 'cancelled';
     completedAt?: Date;
     duration?: number;
 }) {
-    await getAuthUser();
+    const user = await getAuthUser();
+    await findOwnRun(user.id, input.runId);
     const run = await prisma.workflowRun.update({
         where: { id: input.runId },
         data: {
@@ -35,6 +57,9 @@ export async function updateRun(input: {
             duration: input.duration,
         },
     });
+    if (input.status !== 'running') {
+        await dispatchRunWebhooks(run.id);
+    }
     return { run };
 }
 
@@ -61,13 +86,14 @@ export async function addNodeRun(input: {
 
 export async function updateNodeRun(input: {
     nodeRunId: string;
-    status: 'running' | 'completed' | 'failed';
+    status: RunTaskStatus;
     completedAt?: Date;
     duration?: number;
     outputData?: Record<string, unknown>;
     error?: string;
 }) {
-    await getAuthUser();
+    const user = await getAuthUser();
+    await findOwnNodeRun(user.id, input.nodeRunId);
     const nodeRun = await prisma.nodeRun.update({
         where: { id: input.nodeRunId },
         data: {
@@ -78,6 +104,9 @@ export async function updateNodeRun(input: {
             error: input.error,
         },
     });
+    if (input.status === 'failed') {
+        await dispatchNodeFailedWebhooks(nodeRun.id);
+    }
     return { nodeRun };
 }
 
@@ -6,4 +6,10 @@
 export * from './workflow';
 export * from './folder';
 export * from './history';
+export * from './execution';
 export * from './llm';
+export * from './apiKey';
+export * from './webhook';
+export * from './schedule';
+export * from './batch';
+export * from './provider';
@@ -0,0 +1,96 @@
+'use server';
+
+import prisma from '@/lib/db';
+import { getAuthUser } from '@/lib/auth-server';
+import { encryptApiKey, getServerCredentials, isServerEndpoint } from '@/lib/llm';
+import { LLM_PROVIDERS, getLLMProviderInfo, type LLMProviderId, type ProviderCredentialSummary } from '@/types/workflow.types';
+
+const validateProvider = (provider: LLMProviderId) => {
+    if (!LLM_PROVIDERS.some((p) => p.id === provider)) throw new Error('Unknown provider');
+};
+
+/**
+ * The workspace's model provider settings, one entry per provider. Saved
+ * keys are only hinted at, never returned.
+ */
+export async function listProviderCredentials() {
+    const user = await getAuthUser();
+    const saved = await prisma.providerCredential.findMany({
+        where: { userId: user.id },
+    });
+
+    const providers: ProviderCredentialSummary[] = LLM_PROVIDERS.map(({ id }) => {
+        const credential = saved.find((c) => c.provider === id);
+        return {
+            provider: id,
+            apiKeyHint: credential?.apiKeyHint ?? undefined,
+            baseUrl: credential?.baseUrl ?? undefined,
+            hasServerKey: !!getServerCredentials(id).apiKey,
+        };
+    });
+    return { providers };
+}
+
+/**
+ * Save the workspace's API key and/or base URL for a provider.
+ * Fields left undefined are kept; empty strings clear them. Keys are stored
+ * encrypted, and a base URL other than the server's needs a key of the
+ * workspace's own.
+ */
+export async function saveProviderCredential(input: {
+    provider: LLMProviderId;
+    apiKey?: string;
+    baseUrl?: string;
+}) {
+    const user = await getAuthUser();
+    validateProvider(input.provider);
+
+    const baseUrl = input.baseUrl?.trim();
+    if (baseUrl) {
+        let url: URL;
+        try {
+            url = new URL(baseUrl);
+        } catch {
+            throw new Error('Invalid base URL');
+        }
+        if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+            throw new Error('Base URL must use http or https');
+        }
+    }
+
+    const existing = await prisma.providerCredential.findUnique({
+        where: { userId_provider: { userId: user.id, provider: input.provider } },
+    });
+    const apiKey = input.apiKey?.trim();
+    const hasKey = input.apiKey !== undefined ? !!apiKey : !!existing?.encryptedApiKey;
+    const savedBaseUrl = input.baseUrl !== undefined ? baseUrl : existing?.baseUrl ?? undefined;
+    if (
+        getLLMProviderInfo(input.provider).apiKeyRequired &&
+        !hasKey &&
+        !isServerEndpoint(input.provider, savedBaseUrl)
+    ) {
+        throw new Error('A custom base URL needs your own API key');
+    }
+
+    const data = {
+        ...(input.apiKey !== undefined && {
+            encryptedApiKey: apiKey ? encryptApiKey(apiKey) : null,
+            apiKeyHint: apiKey ? `…${apiKey.slice(-4)}` : null,
+        }),
+        ...(input.baseUrl !== undefined && { baseUrl: baseUrl || null }),
+    };
+    await prisma.providerCredential.upsert({
+        where: { userId_provider: { userId: user.id, provider: input.provider } },
+        create: { userId: user.id, provider: input.provider, ...data },
+        update: data,
+    });
+    return { message: 'Provider settings saved successfully' };
+}
+
+export async function deleteProviderCredential(input: { provider: LLMProviderId }) {
+    const user = await getAuthUser();
+    await prisma.providerCredential.deleteMany({
+        where: { userId: user.id, provider: input.provider },
+    });
+    return { message: 'Provider settings deleted successfully' };
+}
@@ -0,0 +1,103 @@
+'use server';
+
+import { schedules } from '@trigger.dev/sdk/v3';
+import prisma from '@/lib/db';
+import { getAuthUser } from '@/lib/auth-server';
+import type { scheduledWorkflowTask } from '@/trigger/scheduledWorkflowTask';
+
+const SCHEDULED_TASK_ID: (typeof scheduledWorkflowTask)['id'] = 'scheduled-workflow-run';
+
+const scheduleSelect = {
+    id: true,
+    cron: true,
+    timezone: true,
+    enabled: true,
+    inputs: true,
+    lastRunAt: true,
+    lastRunStatus: true,
+    lastError: true,
+} as const;
+
+const findOwnWorkflow = async (userId: string, workflowId: string) => {
+    const workflow = await prisma.workflow.findFirst({
+        where: { id: workflowId, userId },
+        select: { id: true },
+    });
+    if (!workflow) throw new Error('Workflow not found');
+    return workflow;
+};
+
+export async function getWorkflowSchedule(input: { workflowId: string }) {
+    const user = await getAuthUser();
+    await findOwnWorkflow(user.id, input.workflowId);
+    const schedule = await prisma.workflowSchedule.findUnique({
+        where: { workflowId: input.workflowId },
+        select: scheduleSelect,
+    });
+    return { schedule };
+}
+
+/**
+ * Create or update the workflow's schedule, and the Trigger.dev schedule
+ * behind it (one per workflow, keyed by the workflow id).
+ * Scheduled runs use the saved workflow, so save pending edits first.
+ */
+export async function saveWorkflowSchedule(input: {
+    workflowId: string;
+    cron: string;
+    timezone: string;
+    enabled: boolean;
+    inputs?: Record<string, string>;
+}) {
+    const user = await getAuthUser();
+    await findOwnWorkflow(user.id, input.workflowId);
+    const cron = input.cron.trim().replace(/\s+/g, ' ');
+    if (!cron) throw new Error('Cron expression is required');
+
+    // Trigger.dev validates the cron expression and timezone
+    const triggerSchedule = await schedules.create({
+        task: SCHEDULED_TASK_ID,
+        cron,
+        timezone: input.timezone,
+        externalId: input.workflowId,
+        deduplicationKey: `workflow-${input.workflowId}`,
+    });
+    if (input.enabled && !triggerSchedule.active) {
+        await schedules.activate(triggerSchedule.id);
+    } else if (!input.enabled && triggerSchedule.active) {
+        await schedules.deactivate(triggerSchedule.id);
+    }
+
+    const data = {
+        cron,
+        timezone: input.timezone,
+        enabled: input.enabled,
+        inputs: input.inputs ?? {},
+        triggerScheduleId: triggerSchedule.id,
+    };
+    const schedule = await prisma.workflowSchedule.upsert({
+        where: { workflowId: input.workflowId },
+        create: { workflowId: input.workflowId, ...data },
+        update: data,
+        select: scheduleSelect,
+    });
+    return { schedule, nextRun: triggerSchedule.nextRun ?? null };
+}
+
+export async function deleteWorkflowSchedule(input: { workflowId: string }) {
+    const user = await getAuthUser();
+    await findOwnWorkflow(user.id, input.workflowId);
+    const schedule = await prisma.workflowSchedule.findUnique({
+        where: { workflowId: input.workflowId },
+    });
+    if (!schedule) return { message: 'Schedule deleted successfully' };
+
+    // A leftover Trigger.dev schedule only finds no schedule to run and skips
+    if (schedule.triggerScheduleId) {
+        await schedules.del(schedule.triggerScheduleId).catch((error) => {
+            console.error('Failed to delete Trigger.dev schedule:', error);
+        });
+    }
+    await prisma.workflowSchedule.delete({ where: { id: schedule.id } });
+    return { message: 'Schedule deleted successfully' };
+}
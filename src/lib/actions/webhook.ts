@@ -0,0 +1,126 @@
+'use server';
+
+import prisma from '@/lib/db';
+import { getAuthUser } from '@/lib/auth-server';
+import { assertWebhookUrlAllowed, generateWebhookSecret } from '@/lib/webhooks';
+import { WEBHOOK_EVENTS, type WebhookEvent } from '@/types/workflow.types';
+
+const webhookSelect = {
+    id: true,
+    url: true,
+    secret: true,
+    events: true,
+    enabled: true,
+    createdAt: true,
+} as const;
+
+const validateWebhook = async (input: { url?: string; events?: WebhookEvent[] }) => {
+    if (input.url !== undefined) {
+        await assertWebhookUrlAllowed(input.url.trim());
+    }
+    if (input.events !== undefined) {
+        const known = WEBHOOK_EVENTS.map((e) => e.value);
+        if (input.events.length === 0) throw new Error('Choose at least one event');
+        if (input.events.some((event) => !known.includes(event))) throw new Error('Unknown webhook event');
+    }
+};
+
+/**
+ * Find a webhook of one of the current user's workflows
+ */
+const findOwnWebhook = async (userId: string, id: string) => {
+    const webhook = await prisma.webhook.findFirst({
+        where: { id, workflow: { userId } },
+        select: { id: true },
+    });
+    if (!webhook) throw new Error('Webhook not found');
+    return webhook;
+};
+
+export async function listWebhooks(input: { workflowId: string }) {
+    const user = await getAuthUser();
+    const webhooks = await prisma.webhook.findMany({
+        where: { workflowId: input.workflowId, workflow: { userId: user.id } },
+        orderBy: { createdAt: 'asc' },
+        select: webhookSelect,
+    });
+    return { webhooks };
+}
+
+export async function createWebhook(input: {
+    workflowId: string;
+    url: string;
+    events: WebhookEvent[];
+}) {
+    const user = await getAuthUser();
+    await validateWebhook(input);
+    const workflow = await prisma.workflow.findFirst({
+        where: { id: input.workflowId, userId: user.id },
+        select: { id: true },
+    });
+    if (!workflow) throw new Error('Workflow not found');
+
+    const webhook = await prisma.webhook.create({
+        data: {
+            workflowId: input.workflowId,
+            url: input.url.trim(),
+            events: input.events,
+            secret: generateWebhookSecret(),
+        },
+        select: webhookSelect,
+    });
+    return { webhook };
+}
+
+export async function updateWebhook(input: {
+    id: string;
+    url?: string;
+    events?: WebhookEvent[];
+    enabled?: boolean;
+}) {
+    const user = await getAuthUser();
+    await validateWebhook(input);
+    await findOwnWebhook(user.id, input.id);
+
+    const webhook = await prisma.webhook.update({
+        where: { id: input.id },
+        data: {
+            ...(input.url !== undefined && { url: input.url.trim() }),
+            ...(input.events !== undefined && { events: input.events }),
+            ...(input.enabled !== undefined && { enabled: input.enabled }),
+        },
+        select: webhookSelect,
+    });
+    return { webhook };
+}
+
+export async function deleteWebhook(input: { id: string }) {
+    const user = await getAuthUser();
+    await findOwnWebhook(user.id, input.id);
+    await prisma.webhook.delete({ where: { id: input.id } });
+    return { message: 'Webhook deleted successfully' };
+}
+
+/**
+ * Recent deliveries of a webhook, newest first
+ */
+export async function listWebhookDeliveries(input: { webhookId: string; limit?: number }) {
+    const user = await getAuthUser();
+    await findOwnWebhook(user.id, input.webhookId);
+    const deliveries = await prisma.webhookDelivery.findMany({
+        where: { webhookId: input.webhookId },
+        orderBy: { createdAt: 'desc' },
+        take: input.limit ?? 20,
+        select: {
+            id: true,
+            event: true,
+            status: true,
+            attempts: true,
+            responseStatus: true,
+            error: true,
+            createdAt: true,
+            deliveredAt: true,
+        },
+    });
+    return { deliveries };
+}
@@ -1,7 +1,10 @@
 'use server';
 
+import { schedules } from '@trigger.dev/sdk/v3';
 import prisma from '@/lib/db';
 import { getAuthUser } from '@/lib/auth-server';
+import { findWorkflowReferenceCycle, getWorkflowSignature as readSignature } from '@/lib/workflowReferences';
+import type { WorkflowNode } from '@/types/workflow.types';
 
 export async function listWorkflows(input?: { folderId?: string | null }) {
     const user = await getAuthUser();
@@ -18,6 +21,9 @@ export async function listWorkflows(input?: { folderId?: string | null }) {
             folderId: true,
             createdAt: true,
             updatedAt: true,
+            schedule: {
+                select: { enabled: true, cron: true, lastRunAt: true, lastRunStatus: true, lastError: true },
+            },
         },
     });
     return { workflows };
@@ -32,6 +38,20 @@ export async function getWorkflowById(input: { id: string }) {
     return { workflow };
 }
 
+/**
+ * Name, inputs and outputs of a workflow, for the sub-workflow nodes that run it
+ */
+export async function getWorkflowSignature(input: { id: string }) {
+    const user = await getAuthUser();
+    const workflow = await prisma.workflow.findFirst({
+        where: { id: input.id, userId: user.id },
+        select: { name: true, nodes: true },
+    });
+    if (!workflow) throw new Error('Workflow not found');
+    const nodes = (workflow.nodes as unknown as WorkflowNode[]) || [];
+    return { name: workflow.name, ...readSignature(nodes) };
+}
+
 export async function createWorkflow(input: {
     name?: string;
     folderId?: string | null;
@@ -59,6 +79,7 @@ export async function updateWorkflow(input: {
     nodes?: unknown[];
     edges?: unknown[];
     thumbnail?: string;
+    maxConcurrency?: number;
 }) {
     const user = await getAuthUser();
     const existing = await prisma.workflow.findFirst({
@@ -66,6 +87,24 @@ export async function updateWorkflow(input: {
     });
     if (!existing) throw new Error('Workflow not found');
 
+    if (input.nodes !== undefined) {
+        const cycle = await findWorkflowReferenceCycle(input.id, input.nodes as WorkflowNode[], async (workflowId) => {
+            const workflow = await prisma.workflow.findFirst({
+                where: { id: workflowId, userId: user.id },
+                select: { nodes: true },
+            });
+            return workflow ? (workflow.nodes as unknown as WorkflowNode[]) || [] : undefined;
+        });
+        if (cycle) {
+            const named = await prisma.workflow.findMany({
+                where: { id: { in: cycle } },
+                select: { id: true, name: true },
+            });
+            const names = cycle.map(workflowId => named.find(w => w.id === workflowId)?.name ?? workflowId);
+            throw new Error(`Sub-workflows can't call themselves: ${names.join(' → ')}`);
+        }
+    }
+
     const { id, ...rest } = input;
     const data: Parameters<typeof prisma.workflow.update>[0]['data'] = {};
     if (rest.name !== undefined) data.name = rest.name;
@@ -73,6 +112,7 @@ export async function updateWorkflow(input: {
     if (rest.nodes !== undefined) data.nodes = rest.nodes as object[];
     if (rest.edges !== undefined) data.edges = rest.edges as object[];
     if (rest.thumbnail !== undefined) data.thumbnail = rest.thumbnail;
+    if (rest.maxConcurrency !== undefined) data.maxConcurrency = Math.max(1, Math.round(rest.maxConcurrency));
     const workflow = await prisma.workflow.update({
         where: { id },
         data,
@@ -84,8 +124,14 @@ export async function deleteWorkflow(input: { id: string }) {
     const user = await getAuthUser();
     const existing = await prisma.workflow.findFirst({
         where: { id: input.id, userId: user.id },
+        include: { schedule: { select: { triggerScheduleId: true } } },
     });
     if (!existing) throw new Error('Workflow not found');
+    if (existing.schedule?.triggerScheduleId) {
+        await schedules.del(existing.schedule.triggerScheduleId).catch((error) => {
+            console.error('Failed to delete Trigger.dev schedule:', error);
+        });
+    }
     await prisma.workflow.delete({ where: { id: input.id } });
     return { message: 'Workflow deleted successfully' };
 }
@@ -0,0 +1,63 @@
+/**
+ * Personal API Keys
+ *
+ * Authenticates requests to the public REST API (/api/v1), which run outside
+ * of a Clerk session. Only a hash of each key is stored; the key itself is
+ * shown to its owner once, when it is created.
+ * Server-side only; do not import from client.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import prisma from '@/lib/db';
+
+// ============================================================================
+// Keys
+// ============================================================================
+
+const KEY_PREFIX = 'wk_';
+
+/**
+ * Characters of a key kept in plain text, so users can tell their keys apart
+ */
+const VISIBLE_PREFIX_LENGTH = KEY_PREFIX.length + 6;
+
+/**
+ * Hash of a key, as stored in ApiKey.keyHash
+ */
+export function hashApiKey(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Create a new random key, with the hash and prefix to store for it
+ */
+export function generateApiKey(): { key: string; keyHash: string; prefix: string } {
+    const key = KEY_PREFIX + randomBytes(32).toString('base64url');
+    return { key, keyHash: hashApiKey(key), prefix: key.slice(0, VISIBLE_PREFIX_LENGTH) };
+}
+
+// ============================================================================
+// Authentication
+// ============================================================================
+
+/**
+ * Owner of the API key sent as `Authorization: Bearer <key>`, or null if the
+ * header is missing or the key is unknown
+ */
+export async function authenticateApiKey(request: Request): Promise<{ id: string } | null> {
+    const header = request.headers.get('authorization') ?? '';
+    const match = /^Bearer\s+(\S+)$/i.exec(header);
+    if (!match || !match[1].startsWith(KEY_PREFIX)) return null;
+
+    const apiKey = await prisma.apiKey.findUnique({
+        where: { keyHash: hashApiKey(match[1]) },
+        select: { id: true, userId: true },
+    });
+    if (!apiKey) return null;
+
+    await prisma.apiKey.update({
+        where: { id: apiKey.id },
+        data: { lastUsedAt: new Date() },
+    });
+    return { id: apiKey.userId };
+}
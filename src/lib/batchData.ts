@@ -0,0 +1,148 @@
+/**
+ * Batch Data
+ *
+ * Datasets for batch runs: parses an uploaded CSV or JSON file into rows of
+ * column values, and writes the results table back out as CSV or JSON.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface BatchDataset {
+    /** Column names, in file order */
+    columns: string[];
+    rows: Record<string, string>[];
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Split CSV text into records of fields (RFC 4180: quoted fields may contain
+ * commas, newlines and doubled quotes)
+ */
+function parseCsvRecords(text: string): string[][] {
+    const records: string[][] = [];
+    let record: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"' && field === '') {
+            quoted = true;
+        } else if (char === ',') {
+            record.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            record.push(field);
+            records.push(record);
+            record = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field !== '' || record.length > 0) {
+        record.push(field);
+        records.push(record);
+    }
+
+    // Blank lines
+    return records.filter(r => r.some(value => value.trim() !== ''));
+}
+
+/**
+ * Rows of a CSV file with a header line
+ */
+export function parseCsv(text: string): BatchDataset {
+    const [header, ...records] = parseCsvRecords(text.replace(/^\uFEFF/, ''));
+    if (!header) throw new Error('The CSV file is empty');
+
+    const columns = header.map((name, i) => name.trim() || `column${i + 1}`);
+    const rows = records.map(record =>
+        Object.fromEntries(columns.map((column, i) => [column, record[i] ?? '']))
+    );
+    return { columns, rows };
+}
+
+const toCellText = (value: unknown): string => {
+    if (value == null) return '';
+    return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+/**
+ * Rows of a JSON array of objects (or of an object's `rows` array).
+ * Non-string values are serialized.
+ */
+export function parseJson(text: string): BatchDataset {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error('The file is not valid JSON');
+    }
+    const items = Array.isArray(data) ? data : (data as { rows?: unknown })?.rows;
+    if (!Array.isArray(items) || !items.every(item => item && typeof item === 'object' && !Array.isArray(item))) {
+        throw new Error('Expected a JSON array of objects');
+    }
+
+    const columns = [...new Set(items.flatMap(item => Object.keys(item)))];
+    const rows = items.map(item =>
+        Object.fromEntries(columns.map(column => [column, toCellText((item as Record<string, unknown>)[column])]))
+    );
+    return { columns, rows };
+}
+
+/**
+ * Parse an uploaded dataset, by file extension (falling back to sniffing
+ * the content)
+ */
+export async function parseBatchFile(file: File): Promise<BatchDataset> {
+    const text = await file.text();
+    const name = file.name.toLowerCase();
+    if (name.endsWith('.json') || (!name.endsWith('.csv') && /^\s*[[{]/.test(text))) {
+        return parseJson(text);
+    }
+    return parseCsv(text);
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+const escapeCsvField = (value: string): string =>
+    /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export function toCsv(columns: string[], rows: Record<string, unknown>[]): string {
+    const lines = [columns, ...rows.map(row => columns.map(column => toCellText(row[column])))];
+    return lines.map(line => line.map(escapeCsvField).join(',')).join('\r\n');
+}
+
+/**
+ * Save text as a file through the browser
+ */
+export function downloadFile(content: string, fileName: string, type: string): void {
+    const blob = new Blob([content], { type });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+}
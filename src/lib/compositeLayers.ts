@@ -0,0 +1,49 @@
+/**
+ * Composite Layers
+ *
+ * Layer input handles of composite nodes, shared by the canvas, connection
+ * validation and workflow runs. A layer's handle carries its type, so a
+ * connection can be checked without looking up the layer:
+ * - `text:<layer id>` takes text for a text layer
+ * - `overlay:<layer id>` takes an image for an image layer
+ */
+
+import type { CompositeLayer, CompositeLayerType } from '@/types/workflow.types';
+
+const LAYER_HANDLE_PREFIXES: Record<CompositeLayerType, string> = {
+    text: 'text:',
+    image: 'overlay:',
+};
+
+/**
+ * Default layer: text is a white headline near the top, an image a logo in
+ * the bottom-right corner
+ */
+export function createCompositeLayer(type: CompositeLayerType, id: string): CompositeLayer {
+    return type === 'text'
+        ? { id, type, text: '', alignX: 'center', alignY: 'top', offsetX: 0, offsetY: 5, scale: 8, opacity: 100, font: 'sans', bold: true, color: '#ffffff' }
+        : { id, type, alignX: 'right', alignY: 'bottom', offsetX: 3, offsetY: 3, scale: 20, opacity: 100 };
+}
+
+// ============================================================================
+// Handles
+// ============================================================================
+
+export function getCompositeLayerHandle(layer: Pick<CompositeLayer, 'id' | 'type'>): string {
+    return `${LAYER_HANDLE_PREFIXES[layer.type]}${layer.id}`;
+}
+
+/**
+ * Layer type and id of a composite node input handle, or undefined for the
+ * base image handle
+ */
+export function parseCompositeLayerHandle(
+    handle: string | null | undefined
+): { type: CompositeLayerType; layerId: string } | undefined {
+    for (const [type, prefix] of Object.entries(LAYER_HANDLE_PREFIXES) as [CompositeLayerType, string][]) {
+        if (handle?.startsWith(prefix)) {
+            return { type, layerId: handle.slice(prefix.length) };
+        }
+    }
+    return undefined;
+}
@@ -0,0 +1,162 @@
+/**
+ * Condition Evaluator
+ *
+ * Rule matching and branch selection for condition nodes. Shared by the
+ * condition Trigger.dev task and the canvas (branch handles). LLM rules are
+ * answered by the task; everything else is evaluated here.
+ */
+
+import type { ConditionNodeData, ConditionRule } from '@/types/workflow.types';
+import { CONDITION_HANDLES } from '@/types/workflow.types';
+
+// ============================================================================
+// Branches
+// ============================================================================
+
+export interface ConditionBranch {
+    handle: string;
+    label: string;
+}
+
+/**
+ * Output handles of a condition node, in display order
+ */
+export function getConditionBranches(data: Pick<ConditionNodeData, 'mode' | 'rules'>): ConditionBranch[] {
+    if (data.mode === 'if') {
+        return [
+            { handle: CONDITION_HANDLES.TRUE, label: 'true' },
+            { handle: CONDITION_HANDLES.FALSE, label: 'false' },
+        ];
+    }
+    return [
+        ...data.rules.map(rule => ({ handle: rule.id, label: rule.label || rule.id })),
+        { handle: CONDITION_HANDLES.DEFAULT, label: 'default' },
+    ];
+}
+
+/**
+ * Rules a node actually evaluates: only the first one in if mode
+ */
+export function getActiveRules(data: Pick<ConditionNodeData, 'mode' | 'rules'>): ConditionRule[] {
+    return data.mode === 'if' ? data.rules.slice(0, 1) : data.rules;
+}
+
+/**
+ * Branch taken given the index of the first matching active rule (-1 for none)
+ */
+export function getMatchedBranch(data: Pick<ConditionNodeData, 'mode' | 'rules'>, matchIndex: number): string {
+    if (data.mode === 'if') {
+        return matchIndex === 0 ? CONDITION_HANDLES.TRUE : CONDITION_HANDLES.FALSE;
+    }
+    return matchIndex >= 0 ? data.rules[matchIndex].id : CONDITION_HANDLES.DEFAULT;
+}
+
+// ============================================================================
+// JSON Path
+// ============================================================================
+
+/**
+ * Read a value by a simple JSON path: `$.a.b[0].c`, `a.b.0.c` or `$["a b"]`.
+ * Returns undefined when any segment is missing.
+ */
+export function getJsonPathValue(value: unknown, path: string): unknown {
+    const segments: string[] = [];
+    const pattern = /\[\s*(?:"([^"]*)"|'([^']*)'|(\d+))\s*\]|([^.[\]]+)/g;
+    const trimmed = path.trim().replace(/^\$\.?/, '');
+
+    for (const match of trimmed.matchAll(pattern)) {
+        segments.push(match[1] ?? match[2] ?? match[3] ?? match[4]);
+    }
+
+    let current = value;
+    for (const segment of segments) {
+        if (current == null || typeof current !== 'object') return undefined;
+        current = (current as Record<string, unknown>)[segment];
+    }
+    return current;
+}
+
+const toComparableText = (value: unknown): string =>
+    typeof value === 'string' ? value : JSON.stringify(value) ?? '';
+
+// ============================================================================
+// Rule Evaluation
+// ============================================================================
+
+/** Longest regex pattern a rule may use */
+export const MAX_REGEX_PATTERN_LENGTH = 200;
+/** Longest input a regex rule is tested against */
+export const MAX_REGEX_INPUT_LENGTH = 50_000;
+
+/**
+ * Test a non-LLM rule against the input text.
+ * Throws on an invalid or oversized regex or unparseable JSON, so the node
+ * fails visibly instead of silently taking the other branch. `testRegex` runs
+ * regex rules; the condition task passes one with a time limit.
+ */
+export function evaluateConditionRule(
+    rule: ConditionRule,
+    text: string,
+    testRegex: (regex: RegExp, text: string) => boolean = (regex, input) => regex.test(input)
+): boolean {
+    const normalize = (value: string) => (rule.caseSensitive ? value : value.toLowerCase());
+
+    switch (rule.operator) {
+        case 'contains':
+            return normalize(text).includes(normalize(rule.value));
+        case 'equals':
+            return normalize(text.trim()) === normalize(rule.value.trim());
+        case 'regex': {
+            if (rule.value.length > MAX_REGEX_PATTERN_LENGTH) {
+                throw new Error(`Regular expression in rule "${rule.label}" is over ${MAX_REGEX_PATTERN_LENGTH} characters`);
+            }
+            if (text.length > MAX_REGEX_INPUT_LENGTH) {
+                throw new Error(`Input is over ${MAX_REGEX_INPUT_LENGTH} characters, too long for the regular expression in rule "${rule.label}"`);
+            }
+            let regex: RegExp;
+            try {
+                regex = new RegExp(rule.value, rule.caseSensitive ? '' : 'i');
+            } catch {
+                throw new Error(`Invalid regular expression in rule "${rule.label}": ${rule.value}`);
+            }
+            return testRegex(regex, text);
+        }
+        case 'json-path': {
+            let parsed: unknown;
+            try {
+                parsed = JSON.parse(text);
+            } catch {
+                throw new Error(`Rule "${rule.label}" needs JSON input`);
+            }
+            const found = getJsonPathValue(parsed, rule.path || '$');
+            const comparison = rule.comparison ?? 'equals';
+
+            if (comparison === 'exists') return found !== undefined;
+            if (found === undefined) return false;
+
+            const actual = toComparableText(found);
+            switch (comparison) {
+                case 'equals':
+                    return normalize(actual) === normalize(rule.value);
+                case 'not-equals':
+                    return normalize(actual) !== normalize(rule.value);
+                case 'contains':
+                    return normalize(actual).includes(normalize(rule.value));
+                case 'greater-than':
+                    return Number(found) > Number(rule.value);
+                case 'less-than':
+                    return Number(found) < Number(rule.value);
+            }
+            return false;
+        }
+        case 'llm':
+            throw new Error('LLM rules are evaluated by the condition task');
+    }
+}
+
+/**
+ * Interpret a model's answer to a yes/no question
+ */
+export function isAffirmativeAnswer(answer: string): boolean {
+    return /^\W*(yes|true)\b/i.test(answer.trim());
+}
@@ -1,5 +1,8 @@
 import type { Connection } from '@xyflow/react';
 import type { WorkflowNode, WorkflowEdge } from '@/types/workflow.types';
+import { parseCompositeLayerHandle } from './compositeLayers';
+import { getFieldName } from './structuredOutput';
+import { getTemplateVariableName } from './templateRenderer';
 
 // ============================================================================
 // Data Types for Handles
@@ -29,18 +32,52 @@ export function getSourceDataType(
             // Video node output is always video
             if (handleId === 'output') return 'video';
             break;
+        case 'generateImage':
+            // GenerateImage node outputs the generated images
+            if (handleId === 'output') return 'image';
+            break;
         case 'cropImage':
             // CropImage node output is image
             if (handleId === 'output') return 'image';
             break;
+        case 'transformImage':
+            // TransformImage node output is image
+            if (handleId === 'output') return 'image';
+            break;
+        case 'composite':
+            // Composite node output is image
+            if (handleId === 'output') return 'image';
+            break;
+        case 'trimVideo':
+            // TrimVideo node output is video
+            if (handleId === 'output') return 'video';
+            break;
         case 'extractFrame':
             // ExtractFrame node output is image
             if (handleId === 'output') return 'image';
             break;
         case 'llm':
-            // LLM node output is text
+            // LLM node output is text, as is each field of a structured output
+            if (handleId === 'output' || getFieldName(handleId) !== undefined) return 'text';
+            break;
+        case 'chat':
+            // Chat node outputs its latest reply and the whole transcript as text
+            if (handleId === 'reply' || handleId === 'transcript') return 'text';
+            break;
+        case 'condition':
+            // Every condition branch passes the input text on
+            if (handleId) return 'text';
+            break;
+        case 'template':
+            // Template node outputs the rendered text
             if (handleId === 'output') return 'text';
             break;
+        case 'collect':
+            // Collect node outputs the list as text, or its image URLs
+            if (handleId === 'text') return 'text';
+            if (handleId === 'images') return 'image';
+            break;
+        // Map node items are text or images depending on its input list
     }
     return null;
 }
@@ -65,20 +102,74 @@ export function getTargetExpectedType(
             if (handleId === 'user_message') return 'text';
             if (handleId === 'images') return 'image';
             break;
+        case 'chat':
+            // Chat node takes its system prompt and next message as text
+            if (handleId === 'system_prompt') return 'text';
+            if (handleId === 'message') return 'text';
+            break;
         case 'image':
             // Image node has no inputs
             break;
         case 'video':
             // Video node has no inputs
             break;
+        case 'generateImage':
+            // GenerateImage node takes prompts as text and a reference image
+            if (handleId === 'prompt') return 'text';
+            if (handleId === 'negative_prompt') return 'text';
+            if (handleId === 'reference_image') return 'image';
+            break;
         case 'cropImage':
             // CropImage node expects image input
             if (handleId === 'image_input') return 'image';
             break;
+        case 'transformImage':
+            // TransformImage node expects image input
+            if (handleId === 'image_input') return 'image';
+            break;
+        case 'composite':
+            // Composite node takes a base image, and text or an image per layer
+            if (handleId === 'base_image') return 'image';
+            return parseCompositeLayerHandle(handleId)?.type ?? null;
+        case 'trimVideo':
+            // TrimVideo node expects video input
+            if (handleId === 'video_input') return 'video';
+            break;
         case 'extractFrame':
             // ExtractFrame node expects video input
             if (handleId === 'video_input') return 'video';
             break;
+        case 'condition':
+            // Condition node tests text input
+            if (handleId === 'input') return 'text';
+            break;
+        case 'template':
+            // Each template placeholder takes text
+            if (getTemplateVariableName(handleId) !== undefined) return 'text';
+            break;
+        // Map and collect nodes take text or images
+    }
+    return null;
+}
+
+/**
+ * Data type of a handle typed by node data rather than node type: workflow
+ * input / output nodes and the inputs / outputs of sub-workflow nodes
+ */
+function getPortDataType(
+    node: WorkflowNode | undefined,
+    handleId: string | null | undefined,
+    side: 'source' | 'target'
+): HandleDataType | null {
+    switch (node?.type) {
+        case 'workflowInput':
+            return side === 'source' ? node.data.valueType : null;
+        case 'workflowOutput':
+            return side === 'target' ? node.data.valueType : null;
+        case 'subworkflow': {
+            const ports = side === 'source' ? node.data.outputs : node.data.inputs;
+            return ports.find((port) => port.id === handleId)?.valueType ?? null;
+        }
     }
     return null;
 }
@@ -100,8 +191,12 @@ export function isConnectionTypeValid(
 
     if (!sourceNode || !targetNode) return false;
 
-    const sourceType = getSourceDataType(sourceNode.type, connection.sourceHandle);
-    const targetExpected = getTargetExpectedType(targetNode.type, connection.targetHandle);
+    const sourceType =
+        getPortDataType(sourceNode, connection.sourceHandle, 'source') ??
+        getSourceDataType(sourceNode.type, connection.sourceHandle);
+    const targetExpected =
+        getPortDataType(targetNode, connection.targetHandle, 'target') ??
+        getTargetExpectedType(targetNode.type, connection.targetHandle);
 
     // If we can't determine types, allow the connection (fail-open for unknown types)
     if (sourceType === null || targetExpected === null) return true;
@@ -234,8 +329,12 @@ export function validateConnection(
     if (!isConnectionTypeValid(connection, nodes)) {
         const sourceNode = nodes.find((n) => n.id === connection.source);
         const targetNode = nodes.find((n) => n.id === connection.target);
-        const sourceType = getSourceDataType(sourceNode?.type, connection.sourceHandle);
-        const targetExpected = getTargetExpectedType(targetNode?.type, connection.targetHandle);
+        const sourceType =
+            getPortDataType(sourceNode, connection.sourceHandle, 'source') ??
+            getSourceDataType(sourceNode?.type, connection.sourceHandle);
+        const targetExpected =
+            getPortDataType(targetNode, connection.targetHandle, 'target') ??
+            getTargetExpectedType(targetNode?.type, connection.targetHandle);
 
         return {
             valid: false,
@@ -5,6 +5,9 @@
  * - Building dependency graphs from workflow edges
  * - Detecting cycles (DAG validation)
  * - Computing execution order with parallel batches
+ * - Selecting a node's ancestors or descendants (run up to / from here)
+ * - Finding the nodes cut off by condition branches that were not taken
+ * - Finding the nodes a map node runs once per item
  */
 
 import type { WorkflowNode, WorkflowEdge } from '@/types/workflow.types';
@@ -27,6 +30,16 @@ export interface ExecutionBatch {
     batchIndex: number;
 }
 
+/**
+ * The nodes a map node runs once per item: its descendants up to (not
+ * including) the collect nodes that gather their outputs
+ */
+export interface MapScope {
+    mapNodeId: string;
+    bodyNodeIds: string[];
+    collectNodeIds: string[];
+}
+
 export interface ExecutionPlan {
     /** Whether the graph is a valid DAG (no cycles) */
     isValidDAG: boolean;
@@ -239,6 +252,143 @@ export function getReadyNodes(
     return ready;
 }
 
+// ============================================================================
+// Ancestors / Descendants
+// ============================================================================
+
+/**
+ * Collect a node and everything reachable from it through one side of the graph
+ */
+function collectReachable(start: string, neighbours: Map<string, Set<string>>): string[] {
+    const reached = new Set<string>([start]);
+    const stack = [start];
+
+    while (stack.length > 0) {
+        const nodeId = stack.pop()!;
+        for (const next of neighbours.get(nodeId) || []) {
+            if (!reached.has(next)) {
+                reached.add(next);
+                stack.push(next);
+            }
+        }
+    }
+
+    return [...reached];
+}
+
+/**
+ * Get a node and all of its ancestors ("run up to here")
+ */
+export function getUpstreamNodeIds(
+    nodes: WorkflowNode[],
+    edges: WorkflowEdge[],
+    nodeId: string
+): string[] {
+    return collectReachable(nodeId, buildDependencyGraph(nodes, edges).dependencies);
+}
+
+/**
+ * Get a node and all of its descendants ("run from here")
+ */
+export function getDownstreamNodeIds(
+    nodes: WorkflowNode[],
+    edges: WorkflowEdge[],
+    nodeId: string
+): string[] {
+    return collectReachable(nodeId, buildDependencyGraph(nodes, edges).dependents);
+}
+
+// ============================================================================
+// Inactive Branches
+// ============================================================================
+
+/**
+ * Get the nodes cut off by inactive edges (e.g. out of a condition branch that
+ * was not taken): nodes whose every incoming edge is inactive or comes from
+ * another cut-off node. A node still fed by an active edge, such as one
+ * merging two branches, stays active.
+ */
+export function getInactiveNodeIds(
+    nodes: WorkflowNode[],
+    edges: WorkflowEdge[],
+    inactiveEdgeIds: Set<string>
+): Set<string> {
+    const inactive = new Set<string>();
+    let changed = true;
+
+    while (changed) {
+        changed = false;
+        for (const node of nodes) {
+            if (inactive.has(node.id)) continue;
+            const incoming = edges.filter(e => e.target === node.id);
+            if (incoming.length > 0 && incoming.every(e => inactiveEdgeIds.has(e.id) || inactive.has(e.source))) {
+                inactive.add(node.id);
+                changed = true;
+            }
+        }
+    }
+
+    return inactive;
+}
+
+// ============================================================================
+// Map Scopes
+// ============================================================================
+
+/**
+ * Get the scope of every map node. Nested map nodes, and nodes fed both from
+ * inside a scope and from its collect node, are reported as an error.
+ */
+export function getMapScopes(
+    nodes: WorkflowNode[],
+    edges: WorkflowEdge[]
+): { scopes: MapScope[]; error?: string } {
+    const graph = buildDependencyGraph(nodes, edges);
+    const typeOf = new Map(nodes.map(n => [n.id, n.type]));
+    const scopes: MapScope[] = [];
+    const owner = new Map<string, string>();
+
+    for (const node of nodes) {
+        if (node.type !== 'map') continue;
+
+        const body = new Set<string>();
+        const collects = new Set<string>();
+        const stack = [node.id];
+
+        while (stack.length > 0) {
+            const current = stack.pop()!;
+            for (const next of graph.dependents.get(current) || []) {
+                if (typeOf.get(next) === 'collect') {
+                    collects.add(next);
+                } else if (typeOf.get(next) === 'map') {
+                    return { scopes: [], error: 'Map nodes cannot be nested; add a collect node between them' };
+                } else if (!body.has(next)) {
+                    body.add(next);
+                    stack.push(next);
+                }
+            }
+        }
+
+        for (const nodeId of body) {
+            if (owner.has(nodeId)) {
+                return { scopes: [], error: 'A node cannot run inside two map nodes at once' };
+            }
+            owner.set(nodeId, node.id);
+        }
+
+        for (const collectId of collects) {
+            const afterCollect = collectReachable(collectId, graph.dependents);
+            if (afterCollect.some(id => body.has(id))) {
+                return { scopes: [], error: 'Nodes after a collect node cannot also run once per map item' };
+            }
+        }
+
+        scopes.push({ mapNodeId: node.id, bodyNodeIds: [...body], collectNodeIds: [...collects] });
+    }
+
+    return { scopes };
+}
+
 // ============================================================================
 // Connected Nodes Filtering
 // ============================================================================
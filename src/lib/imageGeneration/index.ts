@@ -0,0 +1,35 @@
+/**
+ * Image Generation Providers
+ *
+ * One interface over the backends generate-image nodes can run on: hosted
+ * models on Replicate, and a deterministic local stub. Providers return
+ * image bytes; the generate-image task stores them.
+ */
+
+import { DEFAULT_IMAGE_PROVIDER, type ImageProviderId } from '@/types/workflow.types';
+import { localImageProvider } from './local';
+import { replicateImageProvider } from './replicate';
+import type { GeneratedImage, ImageGenerationProvider, ImageGenerationRequest } from './types';
+
+export type { GeneratedImage, ImageGenerationProvider, ImageGenerationRequest } from './types';
+
+const PROVIDERS: Record<ImageProviderId, ImageGenerationProvider> = {
+    replicate: replicateImageProvider,
+    local: localImageProvider,
+};
+
+export function getImageProvider(id: ImageProviderId | undefined): ImageGenerationProvider {
+    const provider = PROVIDERS[id ?? DEFAULT_IMAGE_PROVIDER];
+    if (!provider) throw new Error(`Unknown image provider: ${id}`);
+    return provider;
+}
+
+/**
+ * Generate images with a provider
+ */
+export async function generateImages(
+    request: ImageGenerationRequest & { provider?: ImageProviderId }
+): Promise<GeneratedImage[]> {
+    const { provider, ...rest } = request;
+    return getImageProvider(provider).generate(rest);
+}
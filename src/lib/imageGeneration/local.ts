@@ -0,0 +1,112 @@
+/**
+ * Local stub provider: draws a gradient with diagonal stripes whose colors
+ * and angle are derived from a hash of the request, so the same request
+ * always gives byte-identical PNGs and different prompts or seeds differ.
+ * Needs no network or API key.
+ */
+
+import { createHash } from 'crypto';
+import { deflateSync } from 'zlib';
+import type { GeneratedImage, ImageGenerationProvider, ImageGenerationRequest } from './types';
+
+// ============================================================================
+// PNG Encoding
+// ============================================================================
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    return c >>> 0;
+});
+
+const crc32 = (bytes: Buffer): number => {
+    let crc = 0xffffffff;
+    for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+const pngChunk = (type: string, data: Buffer): Buffer => {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length);
+    const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+    const crc = Buffer.alloc(4);
+    crc.writeUInt32BE(crc32(body));
+    return Buffer.concat([length, body, crc]);
+};
+
+/**
+ * Encode 8-bit RGB rows as a PNG
+ */
+const encodePng = (width: number, height: number, rgb: Buffer): Buffer => {
+    const header = Buffer.alloc(13);
+    header.writeUInt32BE(width, 0);
+    header.writeUInt32BE(height, 4);
+    header[8] = 8; // bit depth
+    header[9] = 2; // truecolor
+
+    // Each row starts with filter type 0 (none)
+    const stride = width * 3;
+    const raw = Buffer.alloc((stride + 1) * height);
+    for (let y = 0; y < height; y++) {
+        rgb.copy(raw, y * (stride + 1) + 1, y * stride, (y + 1) * stride);
+    }
+
+    return Buffer.concat([
+        Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+        pngChunk('IHDR', header),
+        pngChunk('IDAT', deflateSync(raw)),
+        pngChunk('IEND', Buffer.alloc(0)),
+    ]);
+};
+
+// ============================================================================
+// Drawing
+// ============================================================================
+
+const drawPattern = (request: ImageGenerationRequest, index: number): Buffer => {
+    const { width, height } = request;
+    const digest = createHash('sha256')
+        .update(JSON.stringify([
+            request.model,
+            request.prompt,
+            request.negativePrompt ?? '',
+            request.referenceImageUrl ?? '',
+            request.seed ?? 0,
+            index,
+        ]))
+        .digest();
+
+    const from = [digest[0], digest[1], digest[2]];
+    const to = [digest[3], digest[4], digest[5]];
+    const angle = (digest[6] / 256) * Math.PI;
+    const stripeWidth = 8 + (digest[7] % 32);
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+
+    const rgb = Buffer.alloc(width * height * 3);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const t = (x / width + y / height) / 2;
+            const stripe = Math.floor((x * cos + y * sin) / stripeWidth) % 2 === 0 ? 1 : 0.85;
+            const offset = (y * width + x) * 3;
+            for (let c = 0; c < 3; c++) {
+                rgb[offset + c] = Math.round((from[c] + (to[c] - from[c]) * t) * stripe);
+            }
+        }
+    }
+    return rgb;
+};
+
+// ============================================================================
+// Provider
+// ============================================================================
+
+export const localImageProvider: ImageGenerationProvider = {
+    id: 'local',
+    async generate(request: ImageGenerationRequest): Promise<GeneratedImage[]> {
+        return Array.from({ length: request.count }, (_, index) => ({
+            data: encodePng(request.width, request.height, drawPattern(request, index)),
+            mimeType: 'image/png',
+        }));
+    },
+};
@@ -0,0 +1,162 @@
+/**
+ * Replicate provider: runs hosted image models (Flux, Minimax, Ideogram)
+ * through Replicate's predictions API with the server's REPLICATE_API_TOKEN.
+ * Models name their inputs differently, so each known model maps the
+ * request onto its own input fields.
+ */
+
+import type { GeneratedImage, ImageGenerationProvider, ImageGenerationRequest } from './types';
+
+const REPLICATE_API_URL = 'https://api.replicate.com/v1';
+const POLL_INTERVAL_MS = 1000;
+const MAX_POLLS = 240;
+
+/**
+ * Input field names of a model; a model without a count field is run once
+ * per image
+ */
+interface ModelInputs {
+    count?: string;
+    reference?: string;
+    negativePrompt?: boolean;
+}
+
+const MODEL_INPUTS: Record<string, ModelInputs> = {
+    'black-forest-labs/flux-schnell': { count: 'num_outputs' },
+    'black-forest-labs/flux-dev': { count: 'num_outputs', reference: 'image' },
+    'black-forest-labs/flux-kontext-pro': { reference: 'input_image' },
+    'minimax/image-01': { count: 'number_of_images', reference: 'subject_reference' },
+    'ideogram-ai/ideogram-v3-turbo': {},
+};
+
+// Guess for models entered by name: the inputs most Replicate image models take
+const DEFAULT_MODEL_INPUTS: ModelInputs = { count: 'num_outputs', reference: 'image', negativePrompt: true };
+
+const ASPECT_RATIOS = ['1:1', '16:9', '9:16', '4:3', '3:4', '3:2', '2:3'];
+
+interface Prediction {
+    status: 'starting' | 'processing' | 'succeeded' | 'failed' | 'canceled';
+    output?: string | string[] | null;
+    error?: string | null;
+    urls?: { get?: string };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * The supported aspect ratio closest to the requested size
+ */
+const toAspectRatio = (width: number, height: number): string => {
+    const target = Math.log(width / height);
+    return ASPECT_RATIOS.reduce((best, ratio) => {
+        const [w, h] = ratio.split(':').map(Number);
+        const [bw, bh] = best.split(':').map(Number);
+        return Math.abs(Math.log(w / h) - target) < Math.abs(Math.log(bw / bh) - target) ? ratio : best;
+    });
+};
+
+const toInput = (request: ImageGenerationRequest, inputs: ModelInputs, count: number, seed?: number) => {
+    // Models without a negative prompt are told what to avoid in the prompt itself
+    const prompt = request.negativePrompt && !inputs.negativePrompt
+        ? `${request.prompt}\n\nAvoid: ${request.negativePrompt}`
+        : request.prompt;
+    return {
+        prompt,
+        aspect_ratio: toAspectRatio(request.width, request.height),
+        ...(seed !== undefined && { seed }),
+        ...(inputs.count && { [inputs.count]: count }),
+        ...(inputs.negativePrompt && request.negativePrompt && { negative_prompt: request.negativePrompt }),
+        ...(inputs.reference && request.referenceImageUrl && { [inputs.reference]: request.referenceImageUrl }),
+    };
+};
+
+const replicateFetch = async (url: string, token: string, init?: RequestInit): Promise<Prediction> => {
+    const response = await fetch(url, {
+        ...init,
+        headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json', ...init?.headers },
+    });
+    const body = await response.json().catch(() => ({})) as Prediction & { detail?: string };
+    if (response.status === 401 || response.status === 403) {
+        throw new Error(`Invalid Replicate API token. (API: ${body.detail ?? response.statusText})`);
+    }
+    if (!response.ok) {
+        throw new Error(`Replicate request failed with HTTP ${response.status}: ${body.detail ?? response.statusText}`);
+    }
+    return body;
+};
+
+/**
+ * Run one prediction to completion and return its output image URLs
+ */
+const runPrediction = async (model: string, input: Record<string, unknown>, token: string): Promise<string[]> => {
+    // Replicate holds the response until the prediction is done, up to a minute
+    let prediction = await replicateFetch(`${REPLICATE_API_URL}/models/${model}/predictions`, token, {
+        method: 'POST',
+        headers: { Prefer: 'wait' },
+        body: JSON.stringify({ input }),
+    });
+
+    for (let poll = 0; prediction.status === 'starting' || prediction.status === 'processing'; poll++) {
+        if (poll >= MAX_POLLS || !prediction.urls?.get) {
+            throw new Error('Replicate prediction timed out');
+        }
+        await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+        prediction = await replicateFetch(prediction.urls.get, token);
+    }
+
+    if (prediction.status !== 'succeeded') {
+        throw new Error(`Image generation ${prediction.status}: ${prediction.error ?? 'no details'}`);
+    }
+    const output = prediction.output;
+    return (Array.isArray(output) ? output : [output]).filter((url): url is string => !!url);
+};
+
+const download = async (url: string): Promise<GeneratedImage> => {
+    const response = await fetch(url);
+    if (!response.ok) {
+        throw new Error(`Failed to fetch generated image: ${response.status} ${response.statusText}`);
+    }
+    return {
+        data: new Uint8Array(await response.arrayBuffer()),
+        mimeType: response.headers.get('content-type') ?? 'image/png',
+    };
+};
+
+// ============================================================================
+// Provider
+// ============================================================================
+
+export const replicateImageProvider: ImageGenerationProvider = {
+    id: 'replicate',
+    async generate(request: ImageGenerationRequest): Promise<GeneratedImage[]> {
+        const token = process.env.REPLICATE_API_TOKEN;
+        if (!token) {
+            throw new Error('REPLICATE_API_TOKEN is not configured. Set it to generate images with Replicate.');
+        }
+
+        const inputs = MODEL_INPUTS[request.model] ?? DEFAULT_MODEL_INPUTS;
+        if (request.referenceImageUrl && !inputs.reference) {
+            throw new Error(`${request.model} does not take a reference image`);
+        }
+
+        // One prediction for every image, or one per image with consecutive seeds
+        const urls = inputs.count
+            ? await runPrediction(request.model, toInput(request, inputs, request.count, request.seed), token)
+            : (await Promise.all(
+                Array.from({ length: request.count }, (_, index) =>
+                    runPrediction(
+                        request.model,
+                        toInput(request, inputs, 1, request.seed !== undefined ? request.seed + index : undefined),
+                        token
+                    )
+                )
+            )).flat();
+
+        if (urls.length === 0) {
+            throw new Error('Image generation returned no images');
+        }
+        return Promise.all(urls.map(download));
+    },
+};
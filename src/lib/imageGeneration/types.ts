@@ -0,0 +1,36 @@
+import type { ImageProviderId } from '@/types/workflow.types';
+
+// ============================================================================
+// Requests
+// ============================================================================
+
+export interface ImageGenerationRequest {
+    model: string;
+    prompt: string;
+    negativePrompt?: string;
+    /** Image to start from (image-to-image), as a URL */
+    referenceImageUrl?: string;
+    width: number;
+    height: number;
+    seed?: number;
+    count: number;
+}
+
+export interface GeneratedImage {
+    data: Uint8Array;
+    mimeType: string;
+}
+
+// ============================================================================
+// Provider
+// ============================================================================
+
+/**
+ * A backend generate-image nodes can run on. Providers return the bytes of
+ * each image, `count` of them; storing them is up to the caller. Errors
+ * carry a message fit to show on the node.
+ */
+export interface ImageGenerationProvider {
+    id: ImageProviderId;
+    generate(request: ImageGenerationRequest): Promise<GeneratedImage[]>;
+}
@@ -0,0 +1,93 @@
+/**
+ * Anthropic provider (Messages API)
+ */
+
+import { postForStream, readEventData } from './http';
+import type { LLMCredentials, LLMGenerateRequest, LLMProvider } from './types';
+
+const API_URL = 'https://api.anthropic.com/v1/messages';
+const API_VERSION = '2023-06-01';
+
+/** The Messages API requires an output limit; used when the node sets none */
+const MAX_TOKENS = 4096;
+
+interface MessageStreamEvent {
+    type: string;
+    delta?: { type?: string; text?: string };
+    error?: { message?: string };
+}
+
+/**
+ * Stream one message and return its text
+ */
+const streamMessage = async (
+    request: LLMGenerateRequest,
+    apiKey: string,
+    onText?: (text: string) => void
+): Promise<string> => {
+    const { generation, responseSchema } = request;
+    // The Messages API has no JSON mode
+    const system = [
+        request.systemPrompt,
+        responseSchema && `Respond only with JSON matching this JSON Schema:\n${JSON.stringify(responseSchema)}`,
+    ].filter(Boolean).join('\n\n');
+    const content = [
+        ...(request.images ?? []).map(image => ({
+            type: 'image',
+            source: { type: 'base64', media_type: image.mimeType, data: image.data },
+        })),
+        { type: 'text', text: request.userMessage },
+    ];
+    const response = await postForStream(
+        API_URL,
+        { 'x-api-key': apiKey, 'anthropic-version': API_VERSION },
+        {
+            model: request.model,
+            max_tokens: generation?.maxOutputTokens ?? MAX_TOKENS,
+            system: system || undefined,
+            messages: [
+                ...(request.history ?? []).map(turn => ({
+                    role: turn.role === 'model' ? 'assistant' : 'user',
+                    content: turn.text,
+                })),
+                { role: 'user', content },
+            ],
+            temperature: generation?.temperature,
+            top_p: generation?.topP,
+            top_k: generation?.topK,
+            stop_sequences: generation?.stopSequences?.length ? generation.stopSequences : undefined,
+            stream: true,
+        },
+        'Anthropic'
+    );
+
+    let text = '';
+    for await (const data of readEventData(response)) {
+        const event = JSON.parse(data) as MessageStreamEvent;
+        if (event.type === 'error') {
+            throw new Error(`Anthropic stream error: ${event.error?.message ?? 'unknown error'}`);
+        }
+        if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta' && event.delta.text) {
+            text += event.delta.text;
+            onText?.(text);
+        }
+    }
+    return text;
+};
+
+export const anthropicProvider: LLMProvider = {
+    id: 'anthropic',
+    async generate(request: LLMGenerateRequest, { apiKey }: LLMCredentials) {
+        if (!apiKey) {
+            throw new Error('No Anthropic API key. Add one in the workspace model provider settings or set ANTHROPIC_API_KEY.');
+        }
+
+        // The Messages API returns one response per call, so candidates are separate calls
+        const count = Math.max(1, request.generation?.candidateCount ?? 1);
+        return Promise.all(
+            Array.from({ length: count }, (_, index) =>
+                streamMessage(request, apiKey, index === 0 ? request.onText : undefined)
+            )
+        );
+    },
+};
@@ -0,0 +1,113 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import prisma from '@/lib/db';
+import { getLLMProviderInfo, type LLMProviderId } from '@/types/workflow.types';
+import type { LLMCredentials } from './types';
+
+/**
+ * Server-wide credentials of each provider, from the environment
+ */
+export function getServerCredentials(provider: LLMProviderId): LLMCredentials {
+    switch (provider) {
+        case 'gemini':
+            return {
+                apiKey: process.env.GOOGLE_GEMINI_API_KEY,
+                fallbackApiKey: process.env.GOOGLE_GEMINI_API_KEY_BACKUP,
+            };
+        case 'openai':
+            return {
+                apiKey: process.env.OPENAI_API_KEY,
+                baseUrl: process.env.OPENAI_BASE_URL,
+            };
+        case 'anthropic':
+            return { apiKey: process.env.ANTHROPIC_API_KEY };
+        case 'local':
+            return { baseUrl: process.env.LOCAL_LLM_BASE_URL };
+    }
+}
+
+// ============================================================================
+// Saved Keys
+// ============================================================================
+
+const ENCRYPTION_VERSION = 'v1';
+
+/**
+ * AES-256 key saved provider keys are encrypted with, derived from
+ * PROVIDER_CREDENTIALS_SECRET
+ */
+function getEncryptionKey(): Buffer {
+    const secret = process.env.PROVIDER_CREDENTIALS_SECRET;
+    if (!secret) {
+        throw new Error('PROVIDER_CREDENTIALS_SECRET is not configured');
+    }
+    return createHash('sha256').update(secret).digest();
+}
+
+/**
+ * Encrypt an API key for ProviderCredential.encryptedApiKey
+ */
+export function encryptApiKey(apiKey: string): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', getEncryptionKey(), iv);
+    const encrypted = Buffer.concat([cipher.update(apiKey, 'utf8'), cipher.final()]);
+    return [ENCRYPTION_VERSION, iv, cipher.getAuthTag(), encrypted]
+        .map(part => (typeof part === 'string' ? part : part.toString('base64url')))
+        .join(':');
+}
+
+export function decryptApiKey(encryptedApiKey: string): string {
+    const [version, iv, authTag, encrypted] = encryptedApiKey.split(':');
+    if (version !== ENCRYPTION_VERSION || !iv || !authTag || !encrypted) {
+        throw new Error('Saved API key is not in a known format; save it again');
+    }
+    try {
+        const decipher = createDecipheriv('aes-256-gcm', getEncryptionKey(), Buffer.from(iv, 'base64url'));
+        decipher.setAuthTag(Buffer.from(authTag, 'base64url'));
+        return Buffer.concat([decipher.update(Buffer.from(encrypted, 'base64url')), decipher.final()]).toString('utf8');
+    } catch {
+        throw new Error('Saved API key could not be decrypted (was PROVIDER_CREDENTIALS_SECRET changed?); save it again');
+    }
+}
+
+// ============================================================================
+// Resolution
+// ============================================================================
+
+const normalizeBaseUrl = (url: string | undefined) => url?.trim().replace(/\/+$/, '') || undefined;
+
+/**
+ * Whether a base URL is the endpoint the server's key belongs to: the
+ * server's configured one, or the provider's default. The server's key is
+ * never sent anywhere else.
+ */
+export function isServerEndpoint(provider: LLMProviderId, baseUrl: string | undefined): boolean {
+    const url = normalizeBaseUrl(baseUrl);
+    return !url
+        || url === normalizeBaseUrl(getServerCredentials(provider).baseUrl)
+        || url === normalizeBaseUrl(getLLMProviderInfo(provider).defaultBaseUrl);
+}
+
+/**
+ * Credentials a user's calls to a provider are made with: their saved key
+ * over the server's, and their saved base URL. A base URL of their own only
+ * ever gets their own key.
+ */
+export async function resolveCredentials(provider: LLMProviderId, userId?: string): Promise<LLMCredentials> {
+    const server = getServerCredentials(provider);
+    const saved = userId
+        ? await prisma.providerCredential.findUnique({
+            where: { userId_provider: { userId, provider } },
+        })
+        : null;
+    const apiKey = saved?.encryptedApiKey ? decryptApiKey(saved.encryptedApiKey) : undefined;
+
+    if (saved?.baseUrl && !isServerEndpoint(provider, saved.baseUrl)) {
+        return { apiKey, baseUrl: saved.baseUrl };
+    }
+    return {
+        // The server's backup key only backs up the server's key
+        apiKey: apiKey || server.apiKey,
+        fallbackApiKey: apiKey ? undefined : server.fallbackApiKey,
+        baseUrl: saved?.baseUrl || server.baseUrl || getLLMProviderInfo(provider).defaultBaseUrl,
+    };
+}
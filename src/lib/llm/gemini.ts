@@ -0,0 +1,131 @@
+/**
+ * Gemini provider (@google/generative-ai)
+ *
+ * Safety settings, streaming and error messages; falls back to the second
+ * API key once when the first hits its quota. Calls go through a chat
+ * session, which carries any earlier turns of a conversation.
+ */
+
+import {
+    GoogleGenerativeAI,
+    HarmCategory,
+    HarmBlockThreshold,
+    type Content,
+    type GenerationConfig,
+    type ResponseSchema,
+} from '@google/generative-ai';
+import { toGeminiSchema } from '@/lib/structuredOutput';
+import type { LLMCredentials, LLMGenerateRequest, LLMProvider } from './types';
+
+/**
+ * Default safety settings for Gemini
+ */
+const SAFETY_SETTINGS = [
+    { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
+    { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
+    { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
+    { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
+];
+
+type GeminiPart = { text: string } | { inlineData: { mimeType: string; data: string } };
+
+const toParts = ({ systemPrompt, userMessage, images }: LLMGenerateRequest): GeminiPart[] => {
+    const parts: GeminiPart[] = [];
+    if (systemPrompt) {
+        parts.push({ text: `System Instructions: ${systemPrompt}\n\n` });
+    }
+    parts.push({ text: userMessage });
+    for (const image of images ?? []) {
+        parts.push({ inlineData: image });
+    }
+    return parts;
+};
+
+const toHistory = ({ history }: LLMGenerateRequest): Content[] =>
+    (history ?? []).map(turn => ({ role: turn.role, parts: [{ text: turn.text }] }));
+
+/**
+ * The API takes a seed, but the SDK's config type predates it
+ */
+const toGenerationConfig = ({ generation, responseSchema }: LLMGenerateRequest): GenerationConfig & { seed?: number } => ({
+    ...(responseSchema && {
+        responseMimeType: 'application/json',
+        responseSchema: toGeminiSchema(responseSchema) as unknown as ResponseSchema,
+    }),
+    temperature: generation?.temperature,
+    topP: generation?.topP,
+    topK: generation?.topK,
+    maxOutputTokens: generation?.maxOutputTokens,
+    stopSequences: generation?.stopSequences?.length ? generation.stopSequences : undefined,
+    candidateCount: generation?.candidateCount,
+    seed: generation?.seed,
+});
+
+const callGemini = async (key: string, request: LLMGenerateRequest): Promise<string[]> => {
+    const genAI = new GoogleGenerativeAI(key);
+    const generativeModel = genAI.getGenerativeModel({
+        model: request.model,
+        safetySettings: SAFETY_SETTINGS,
+        generationConfig: toGenerationConfig(request),
+    });
+    const chat = generativeModel.startChat({ history: toHistory(request) });
+
+    // Stream chunks are read through the first candidate only, so fetch several in one response
+    if ((request.generation?.candidateCount ?? 1) > 1) {
+        const { response } = await chat.sendMessage(toParts(request));
+        const candidates = (response.candidates ?? []).map(candidate =>
+            (candidate.content?.parts ?? []).map(part => part.text ?? '').join('')
+        );
+        if (candidates.length === 0) {
+            // Surfaces the block reason when the prompt was rejected
+            return [response.text()];
+        }
+        request.onText?.(candidates[0]);
+        return candidates;
+    }
+
+    const result = await chat.sendMessageStream(toParts(request));
+
+    let text = '';
+    for await (const chunk of result.stream) {
+        text += chunk.text();
+        request.onText?.(text);
+    }
+    return [text];
+};
+
+export const geminiProvider: LLMProvider = {
+    id: 'gemini',
+    async generate(request: LLMGenerateRequest, { apiKey, fallbackApiKey }: LLMCredentials) {
+        if (!apiKey) {
+            throw new Error('No Gemini API key. Add one in the workspace model provider settings or set GOOGLE_GEMINI_API_KEY.');
+        }
+
+        try {
+            return await callGemini(apiKey, request);
+        } catch (error) {
+            const err = error instanceof Error ? error : new Error(String(error));
+            const msg = err.message.toLowerCase();
+            const isQuotaOrRate = msg.includes('quota') || msg.includes('rate') || msg.includes('429') || msg.includes('resource_exhausted');
+
+            if (isQuotaOrRate) {
+                if (fallbackApiKey && fallbackApiKey !== apiKey) {
+                    try {
+                        return await callGemini(fallbackApiKey, request);
+                    } catch (fallbackError) {
+                        console.error('Gemini fallback key also failed:', fallbackError);
+                    }
+                }
+                throw new Error(
+                    `API quota exceeded. Please try again later or check your API key limits. (API: ${err.message})`
+                );
+            }
+
+            if (msg.includes('api key') || msg.includes('authentication')) {
+                throw new Error(`Invalid Gemini API key. (API: ${err.message})`);
+            }
+
+            throw error;
+        }
+    },
+};
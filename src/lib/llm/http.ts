@@ -0,0 +1,65 @@
+/**
+ * Helpers for providers called over plain HTTP with server-sent events
+ */
+
+/**
+ * POST a JSON body and return the streaming response, or throw with the
+ * API's own error message
+ */
+export async function postForStream(
+    url: string,
+    headers: Record<string, string>,
+    body: unknown,
+    providerLabel: string
+): Promise<Response> {
+    let response: Response;
+    try {
+        response = await fetch(url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...headers },
+            body: JSON.stringify(body),
+        });
+    } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        throw new Error(`Could not reach ${providerLabel} at ${url} (${reason})`);
+    }
+
+    if (!response.ok || !response.body) {
+        const text = await response.text().catch(() => '');
+        let message = text.slice(0, 500) || response.statusText;
+        try {
+            const parsed = JSON.parse(text) as { error?: { message?: string } | string };
+            const apiMessage = typeof parsed.error === 'string' ? parsed.error : parsed.error?.message;
+            if (apiMessage) message = apiMessage;
+        } catch {
+            // Not JSON; keep the raw text
+        }
+        if (response.status === 401 || response.status === 403) {
+            throw new Error(`Invalid ${providerLabel} API key. (API: ${message})`);
+        }
+        if (response.status === 429) {
+            throw new Error(`API quota exceeded. Please try again later or check your API key limits. (API: ${message})`);
+        }
+        throw new Error(`${providerLabel} request failed with HTTP ${response.status}: ${message}`);
+    }
+    return response;
+}
+
+/**
+ * The `data:` payloads of a server-sent event stream, in order
+ */
+export async function* readEventData(response: Response): AsyncGenerator<string> {
+    const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += value;
+        const lines = buffer.split(/\r?\n/);
+        buffer = lines.pop() ?? '';
+        for (const line of lines) {
+            if (line.startsWith('data:')) yield line.slice(5).trim();
+        }
+    }
+    if (buffer.startsWith('data:')) yield buffer.slice(5).trim();
+}
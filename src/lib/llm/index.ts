@@ -0,0 +1,67 @@
+/**
+ * LLM Providers
+ *
+ * One interface over the model APIs LLM and condition nodes can run on:
+ * Gemini, Anthropic, and OpenAI-compatible chat completions (OpenAI itself,
+ * or a local Ollama / llama.cpp server). Calls use the workspace's saved API
+ * key for the provider, falling back to the server's.
+ */
+
+import { DEFAULT_LLM_PROVIDER, type LLMProviderId } from '@/types/workflow.types';
+import { anthropicProvider } from './anthropic';
+import { resolveCredentials } from './credentials';
+import { geminiProvider } from './gemini';
+import { createOpenAICompatibleProvider } from './openaiCompatible';
+import type { LLMGenerateRequest, LLMProvider } from './types';
+
+export type { LLMChatTurn, LLMCredentials, LLMGenerateRequest, LLMImage, LLMProvider } from './types';
+export { encryptApiKey, getServerCredentials, isServerEndpoint, resolveCredentials } from './credentials';
+
+const PROVIDERS: Record<LLMProviderId, LLMProvider> = {
+    gemini: geminiProvider,
+    openai: createOpenAICompatibleProvider({ id: 'openai', label: 'OpenAI', apiKeyRequired: true }),
+    anthropic: anthropicProvider,
+    local: createOpenAICompatibleProvider({
+        id: 'local',
+        label: 'the local model server',
+        apiKeyRequired: false,
+        supportsTopK: true,
+    }),
+};
+
+export function getLLMProvider(id: LLMProviderId | undefined): LLMProvider {
+    const provider = PROVIDERS[id ?? DEFAULT_LLM_PROVIDER];
+    if (!provider) throw new Error(`Unknown LLM provider: ${id}`);
+    return provider;
+}
+
+type ProviderRequest = LLMGenerateRequest & { provider?: LLMProviderId; userId?: string };
+
+/**
+ * Generate with a provider and return every candidate response
+ */
+export async function generateCandidates(request: ProviderRequest): Promise<string[]> {
+    const { provider: providerId, userId, ...rest } = request;
+    const provider = getLLMProvider(providerId);
+    const credentials = await resolveCredentials(provider.id, userId);
+    return provider.generate(rest, credentials);
+}
+
+/**
+ * Generate text with a provider and return the full response
+ */
+export async function generateText(request: ProviderRequest): Promise<string> {
+    const [text] = await generateCandidates(request);
+    return text ?? '';
+}
+
+/**
+ * Detect MIME type from base64 image data
+ */
+export function detectImageMimeType(imageBase64: string): string {
+    if (imageBase64.startsWith('/9j/')) return 'image/jpeg';
+    if (imageBase64.startsWith('iVBORw')) return 'image/png';
+    if (imageBase64.startsWith('R0lGOD')) return 'image/gif';
+    if (imageBase64.startsWith('UklGR')) return 'image/webp';
+    return 'image/jpeg';
+}
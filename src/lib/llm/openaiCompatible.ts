@@ -0,0 +1,108 @@
+/**
+ * OpenAI-compatible provider (chat completions API)
+ *
+ * Serves both OpenAI itself and local servers that speak the same API, such
+ * as Ollama (`http://localhost:11434/v1`) or llama.cpp's server. Images are
+ * sent as data URLs, which vision models on either accept.
+ */
+
+import type { LLMProviderId } from '@/types/workflow.types';
+import { postForStream, readEventData } from './http';
+import type { LLMCredentials, LLMGenerateRequest, LLMProvider } from './types';
+
+type ContentPart =
+    | { type: 'text'; text: string }
+    | { type: 'image_url'; image_url: { url: string } };
+
+interface ChatCompletionChunk {
+    choices?: { index?: number; delta?: { content?: string | null } }[];
+}
+
+const toMessages = ({ systemPrompt, history, userMessage, images }: LLMGenerateRequest) => {
+    const messages: { role: 'system' | 'user' | 'assistant'; content: string | ContentPart[] }[] = [];
+    if (systemPrompt) {
+        messages.push({ role: 'system', content: systemPrompt });
+    }
+    for (const turn of history ?? []) {
+        messages.push({ role: turn.role === 'model' ? 'assistant' : 'user', content: turn.text });
+    }
+    messages.push({
+        role: 'user',
+        content: images?.length
+            ? [
+                { type: 'text', text: userMessage },
+                ...images.map((image): ContentPart => ({
+                    type: 'image_url',
+                    image_url: { url: `data:${image.mimeType};base64,${image.data}` },
+                })),
+            ]
+            : userMessage,
+    });
+    return messages;
+};
+
+/**
+ * Sampling fields of the request body. OpenAI rejects unknown fields, so
+ * top_k is only sent to servers that take it (llama.cpp, vLLM).
+ */
+const toSamplingParams = ({ generation }: LLMGenerateRequest, supportsTopK: boolean) => ({
+    temperature: generation?.temperature,
+    top_p: generation?.topP,
+    top_k: supportsTopK ? generation?.topK : undefined,
+    max_tokens: generation?.maxOutputTokens,
+    stop: generation?.stopSequences?.length ? generation.stopSequences : undefined,
+    n: generation?.candidateCount,
+    seed: generation?.seed,
+});
+
+export function createOpenAICompatibleProvider(options: {
+    id: LLMProviderId;
+    label: string;
+    apiKeyRequired: boolean;
+    supportsTopK?: boolean;
+}): LLMProvider {
+    return {
+        id: options.id,
+        async generate(request: LLMGenerateRequest, { apiKey, baseUrl }: LLMCredentials) {
+            if (!baseUrl) {
+                throw new Error(`No base URL configured for ${options.label}.`);
+            }
+            if (options.apiKeyRequired && !apiKey) {
+                throw new Error(`No ${options.label} API key. Add one in the workspace model provider settings.`);
+            }
+
+            const response = await postForStream(
+                `${baseUrl.replace(/\/+$/, '')}/chat/completions`,
+                apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+                {
+                    model: request.model,
+                    messages: toMessages(request),
+                    ...toSamplingParams(request, options.supportsTopK ?? false),
+                    ...(request.responseSchema && {
+                        response_format: {
+                            type: 'json_schema',
+                            json_schema: { name: 'output', schema: request.responseSchema },
+                        },
+                    }),
+                    stream: true,
+                },
+                options.label
+            );
+
+            // Deltas of all choices are interleaved in one stream
+            const texts: string[] = [''];
+            for await (const data of readEventData(response)) {
+                if (data === '[DONE]') break;
+                const chunk = JSON.parse(data) as ChatCompletionChunk;
+                for (const choice of chunk.choices ?? []) {
+                    const delta = choice.delta?.content;
+                    if (!delta) continue;
+                    const index = choice.index ?? 0;
+                    texts[index] = (texts[index] ?? '') + delta;
+                    if (index === 0) request.onText?.(texts[0]);
+                }
+            }
+            return Array.from(texts, text => text ?? '');
+        },
+    };
+}
@@ -0,0 +1,60 @@
+import type { LLMGenerationParams, LLMProviderId } from '@/types/workflow.types';
+
+// ============================================================================
+// Requests
+// ============================================================================
+
+export interface LLMImage {
+    mimeType: string;
+    data: string; // base64, without a data URI prefix
+}
+
+/**
+ * An earlier turn of a conversation
+ */
+export interface LLMChatTurn {
+    role: 'user' | 'model';
+    text: string;
+}
+
+export interface LLMGenerateRequest {
+    model: string;
+    systemPrompt?: string;
+    /** Earlier turns, oldest first; `userMessage` is the next user turn */
+    history?: LLMChatTurn[];
+    userMessage: string;
+    images?: LLMImage[];
+    generation?: LLMGenerationParams;
+    /**
+     * JSON Schema the response must follow. Providers with a native JSON
+     * mode get it there; the rest are given it in the system prompt.
+     */
+    responseSchema?: Record<string, unknown>;
+    /** Called with the accumulated text of the first response as each chunk streams in */
+    onText?: (text: string) => void;
+}
+
+/**
+ * API key and base URL a call is made with: the workspace's own, or the
+ * server's from the environment
+ */
+export interface LLMCredentials {
+    apiKey?: string;
+    /** Tried once when `apiKey` hits its quota (Gemini only) */
+    fallbackApiKey?: string;
+    baseUrl?: string;
+}
+
+// ============================================================================
+// Provider
+// ============================================================================
+
+/**
+ * A backend LLM nodes can run on. Providers stream the response and return
+ * the full text of each candidate (one unless `generation.candidateCount`
+ * asks for more); errors carry a message fit to show on the node.
+ */
+export interface LLMProvider {
+    id: LLMProviderId;
+    generate(request: LLMGenerateRequest, credentials: LLMCredentials): Promise<string[]>;
+}
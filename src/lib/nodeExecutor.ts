@@ -1,54 +1,342 @@
 /**
  * Node Executor
- * 
- * Handles execution of workflow nodes by:
+ *
+ * Shared by the browser and the run-workflow Trigger.dev task. Handles:
  * 1. Gathering inputs from connected source nodes
- * 2. Calling the appropriate Trigger.dev task
- * 3. Returning the output data
+ * 2. Resolving which Trigger.dev task a node needs, and its payload
+ * 3. Skipping nodes whose input hash matches their cached output
+ * 4. Resolving per-node retry / timeout / failure settings
+ * 5. Mapping task output (or a fallback value) back onto node data
+ * 6. Splitting map node input into items, and joining collected items
+ * 7. Passing values into and out of sub-workflows
  */
 
-import type { WorkflowNode, WorkflowEdge } from '@/types/workflow.types';
+import type {
+    WorkflowNode,
+    WorkflowEdge,
+    NodeOutputCache,
+    NodeExecutionSettings,
+    CollectFlowNode,
+    MapSplitMode,
+    WorkflowValueType,
+    LLMProviderId,
+    LLMGenerationParams,
+    LLMStructuredOutput,
+} from '@/types/workflow.types';
+import {
+    CHAT_HANDLES,
+    COLLECT_HANDLES,
+    COMPOSITE_HANDLES,
+    CONDITION_HANDLES,
+    CROP_IMAGE_HANDLES,
+    DEFAULT_IMAGE_PROVIDER,
+    DEFAULT_LLM_PROVIDER,
+    EXTRACT_FRAME_HANDLES,
+    GENERATE_IMAGE_HANDLES,
+    LLM_HANDLES,
+    MAP_HANDLES,
+    WORKFLOW_INPUT_HANDLES,
+    WORKFLOW_OUTPUT_HANDLES,
+    TEMPLATE_HANDLES,
+    TRANSFORM_IMAGE_HANDLES,
+    TRIM_VIDEO_HANDLES,
+    formatChatTranscript,
+} from '@/types/workflow.types';
+import { getActiveRules } from './conditionEvaluator';
+import { parseCompositeLayerHandle } from './compositeLayers';
+import { buildJsonSchema, getFieldHandle, getFieldName, getStructuredOutputFields } from './structuredOutput';
+import { getTemplateVariableHandle, getTemplateVariables, renderTemplate } from './templateRenderer';
 
-interface TriggerTaskResponse {
-    success: boolean;
-    runId: string;
-    error?: string;
+// ============================================================================
+// Types
+// ============================================================================
+
+export type NodeTaskType = 'llm' | 'chat' | 'generate-image' | 'crop-image' | 'transform-image' | 'composite-image' | 'trim-video' | 'extract-frame' | 'condition' | 'subworkflow';
+
+/**
+ * How a node is executed:
+ * - source: no task needed, the node's own data is its output
+ * - task: trigger `taskType` with `payload`
+ * - cached: inputs are unchanged since the node's last run, reuse its output
+ * - invalid: the node cannot run (e.g. a required input is missing)
+ */
+export type NodeExecution =
+    | { kind: 'source'; output: Record<string, unknown> }
+    | { kind: 'task'; taskType: NodeTaskType; payload: Record<string, unknown>; inputHash: string }
+    | { kind: 'cached'; taskType: NodeTaskType; output: Record<string, unknown>; inputHash: string }
+    | { kind: 'invalid'; error: string };
+
+/**
+ * Node execution settings with every default filled in
+ */
+export type ResolvedExecutionSettings = Required<Omit<NodeExecutionSettings, 'timeoutSeconds'>> &
+    Pick<NodeExecutionSettings, 'timeoutSeconds'>;
+
+/**
+ * Retries when a node doesn't set its own (matches its task's former built-in retry)
+ */
+const DEFAULT_RETRIES: Partial<Record<string, number>> = {
+    llm: 1,
+    chat: 1,
+    generateImage: 1,
+    cropImage: 2,
+    transformImage: 2,
+    composite: 2,
+    trimVideo: 2,
+    extractFrame: 2,
+    condition: 1, // only LLM rules can fail transiently
+};
+
+export interface ResolveExecutionOptions {
+    /** Run the task even if the node has a cached output for the same inputs */
+    force?: boolean;
 }
 
-interface TriggerPollResponse {
-    runId: string;
-    status: string;
-    output?: Record<string, unknown>;
-    error?: string;
-    isCompleted: boolean;
-    isFailed: boolean;
+/**
+ * Outputs produced during the current run, keyed by node id, then source handle.
+ * Resolved before node data so downstream nodes never read a stale output
+ * left over from a previous run. A node with an entry but no value on a
+ * handle (e.g. a condition branch not taken) provides nothing there.
+ */
+export type NodeOutputMap = Map<string, Record<string, unknown>>;
+
+// ============================================================================
+// Output Resolution
+// ============================================================================
+
+/**
+ * Read the value an edge carries from its source node:
+ * the output recorded in this run if any, otherwise the node's stored data.
+ */
+function resolveSourceValue<T>(
+    edge: WorkflowEdge,
+    stored: T | undefined,
+    outputs?: NodeOutputMap
+): T | undefined {
+    const fresh = outputs?.get(edge.source);
+    return fresh ? (fresh[edge.sourceHandle || 'output'] as T | undefined) : stored;
 }
 
 /**
- * Poll for Trigger.dev task completion
+ * Read the value an edge carries from a workflow input or sub-workflow node,
+ * if it is of the given type
  */
-async function pollTaskResult(runId: string, maxAttempts = 180): Promise<TriggerPollResponse> {
-    for (let attempt = 0; attempt < maxAttempts; attempt++) {
-        const response = await fetch(`/api/trigger?runId=${runId}`);
-        const result: TriggerPollResponse = await response.json();
+function resolvePortSource(
+    edge: WorkflowEdge,
+    sourceNode: WorkflowNode,
+    valueType: WorkflowValueType,
+    outputs?: NodeOutputMap
+): string | undefined {
+    if (sourceNode.type === 'workflowInput') {
+        return sourceNode.data.valueType === valueType
+            ? resolveSourceValue(edge, sourceNode.data.defaultValue, outputs)
+            : undefined;
+    }
+    if (sourceNode.type === 'subworkflow') {
+        const port = sourceNode.data.outputs.find(output => output.id === edge.sourceHandle);
+        return port?.valueType === valueType
+            ? resolveSourceValue(edge, sourceNode.data.outputValues?.[port.id], outputs)
+            : undefined;
+    }
+    return undefined;
+}
 
-        if (result.isCompleted || result.isFailed) {
-            return result;
+/**
+ * Read the text an edge carries from a text, LLM, chat, condition, template, map or collect node
+ */
+function resolveTextSource(
+    edge: WorkflowEdge,
+    sourceNode: WorkflowNode,
+    outputs?: NodeOutputMap
+): string | undefined {
+    switch (sourceNode.type) {
+        case 'text':
+            return resolveSourceValue(edge, sourceNode.data.text, outputs);
+        case 'llm': {
+            const fieldName = getFieldName(edge.sourceHandle);
+            return resolveSourceValue(
+                edge,
+                fieldName ? sourceNode.data.fieldValues?.[fieldName] : sourceNode.data.output,
+                outputs
+            );
+        }
+        case 'chat':
+            return resolveSourceValue(
+                edge,
+                edge.sourceHandle === CHAT_HANDLES.TRANSCRIPT ? sourceNode.data.transcript : sourceNode.data.output,
+                outputs
+            );
+        case 'condition': {
+            // The stored output only flows out of the branch it was routed to
+            const { matchedBranch, output } = sourceNode.data;
+            return resolveSourceValue(edge, edge.sourceHandle === matchedBranch ? output : undefined, outputs);
         }
+        case 'template':
+            return resolveSourceValue(edge, sourceNode.data.output, outputs);
+        case 'map':
+            return resolveSourceValue(edge, sourceNode.data.items?.[0], outputs);
+        case 'collect':
+            return edge.sourceHandle === COLLECT_HANDLES.TEXT
+                ? resolveSourceValue(edge, sourceNode.data.output, outputs)
+                : undefined;
+        case 'workflowInput':
+        case 'subworkflow':
+            return resolvePortSource(edge, sourceNode, 'text', outputs);
+        default:
+            return undefined;
+    }
+}
 
-        await new Promise(resolve => setTimeout(resolve, 1000));
+/**
+ * Read the image URLs an edge carries from an image, generate, crop, frame, map or collect node
+ */
+function resolveImageSource(
+    edge: WorkflowEdge,
+    sourceNode: WorkflowNode,
+    outputs?: NodeOutputMap
+): string[] {
+    let value: unknown;
+    switch (sourceNode.type) {
+        case 'image':
+            value = (sourceNode.data.images || []).map(img => img.imageUrl);
+            break;
+        case 'generateImage':
+            value = resolveSourceValue(edge, sourceNode.data.outputImageUrls, outputs);
+            break;
+        case 'cropImage':
+        case 'transformImage':
+        case 'composite':
+            value = resolveSourceValue(edge, sourceNode.data.outputImageUrl, outputs);
+            break;
+        case 'extractFrame':
+            value = resolveSourceValue(edge, sourceNode.data.outputFrameUrl, outputs);
+            break;
+        case 'map':
+            value = resolveSourceValue(edge, sourceNode.data.items?.[0], outputs);
+            break;
+        case 'collect':
+            if (edge.sourceHandle === COLLECT_HANDLES.IMAGES) {
+                value = resolveSourceValue(edge, sourceNode.data.items, outputs);
+            }
+            break;
+        case 'workflowInput':
+        case 'subworkflow':
+            value = resolvePortSource(edge, sourceNode, 'image', outputs);
+            break;
+    }
+    const urls = Array.isArray(value) ? value : [value];
+    return urls.filter((url): url is string => typeof url === 'string' && !!url);
+}
+
+/**
+ * Read the video URL an edge carries from a video, trim video, workflow input
+ * or sub-workflow node
+ */
+function resolveVideoSource(
+    edge: WorkflowEdge,
+    sourceNode: WorkflowNode,
+    outputs?: NodeOutputMap
+): string | undefined {
+    if (sourceNode.type === 'video') {
+        return sourceNode.data.videoUrl;
+    }
+    if (sourceNode.type === 'trimVideo') {
+        return resolveSourceValue(edge, sourceNode.data.outputVideoUrl, outputs);
+    }
+    return resolvePortSource(edge, sourceNode, 'video', outputs);
+}
+
+/**
+ * Read the value of the given type an edge carries, e.g. into a sub-workflow
+ * input or a workflow output
+ */
+function resolveTypedSource(
+    edge: WorkflowEdge,
+    sourceNode: WorkflowNode,
+    valueType: WorkflowValueType,
+    outputs?: NodeOutputMap
+): string | undefined {
+    switch (valueType) {
+        case 'text':
+            return resolveTextSource(edge, sourceNode, outputs);
+        case 'image':
+            return resolveImageSource(edge, sourceNode, outputs)[0];
+        case 'video':
+            return resolveVideoSource(edge, sourceNode, outputs);
+    }
+}
+
+// ============================================================================
+// Input Hashing
+// ============================================================================
+
+/**
+ * JSON with sorted object keys, so equal payloads always serialize the same
+ */
+function stableStringify(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(stableStringify).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+        const record = value as Record<string, unknown>;
+        const entries = Object.keys(record)
+            .filter(key => record[key] !== undefined)
+            .sort()
+            .map(key => `${JSON.stringify(key)}:${stableStringify(record[key])}`);
+        return `{${entries.join(',')}}`;
+    }
+    return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Hash a node's task type and resolved payload (prompt text, model, crop rect,
+ * timestamp, input URLs...). 53-bit cyrb53, hex encoded - sync and isomorphic.
+ */
+export function getNodeInputHash(taskType: NodeTaskType, payload: Record<string, unknown>): string {
+    const str = stableStringify({ taskType, payload });
+    let h1 = 0xdeadbeef;
+    let h2 = 0x41c6ce57;
+    for (let i = 0; i < str.length; i++) {
+        const ch = str.charCodeAt(i);
+        h1 = Math.imul(h1 ^ ch, 2654435761);
+        h2 = Math.imul(h2 ^ ch, 1597334677);
     }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16);
+}
 
-    throw new Error('Task timed out');
+/**
+ * Build a task execution, or a cached one when the node's last output was
+ * produced from the same inputs
+ */
+function toTaskExecution(
+    node: WorkflowNode,
+    taskType: NodeTaskType,
+    payload: Record<string, unknown>,
+    options: ResolveExecutionOptions
+): NodeExecution {
+    const inputHash = getNodeInputHash(taskType, payload);
+    const cache = (node.data as { cache?: NodeOutputCache }).cache;
+
+    if (!options.force && cache?.inputHash === inputHash) {
+        return { kind: 'cached', taskType, output: cache.output, inputHash };
+    }
+    return { kind: 'task', taskType, payload, inputHash };
 }
 
+// ============================================================================
+// Input Gathering
+// ============================================================================
+
 /**
  * Gather input data for a node from its connected sources
  */
 export function gatherNodeInputs(
     nodeId: string,
     nodes: WorkflowNode[],
-    edges: WorkflowEdge[]
+    edges: WorkflowEdge[],
+    outputs?: NodeOutputMap
 ): Record<string, unknown> {
     const inputs: Record<string, unknown> = {};
     const node = nodes.find(n => n.id === nodeId);
@@ -68,24 +356,71 @@ export function gatherNodeInputs(
         } else if (sourceNode.type === 'video') {
             const videoData = sourceNode.data as { videoUrl?: string };
             inputs[`source_${sourceNode.id}_videoUrl`] = videoData.videoUrl;
-        } else if (sourceNode.type === 'text') {
-            const textData = sourceNode.data as { text?: string };
-            inputs[`source_${sourceNode.id}_text`] = textData.text;
+        } else if (sourceNode.type === 'trimVideo') {
+            inputs[`source_${sourceNode.id}_videoUrl`] = resolveVideoSource(edge, sourceNode, outputs);
+        } else if (
+            sourceNode.type === 'text' ||
+            sourceNode.type === 'llm' ||
+            sourceNode.type === 'chat' ||
+            sourceNode.type === 'condition' ||
+            sourceNode.type === 'template'
+        ) {
+            inputs[`source_${sourceNode.id}_text`] = resolveTextSource(edge, sourceNode, outputs);
+        } else if (
+            sourceNode.type === 'generateImage' ||
+            sourceNode.type === 'transformImage' ||
+            sourceNode.type === 'composite'
+        ) {
+            inputs[`source_${sourceNode.id}_imageUrl`] = resolveImageSource(edge, sourceNode, outputs)[0];
         } else if (sourceNode.type === 'cropImage') {
             const cropData = sourceNode.data as { outputImageUrl?: string };
-            inputs[`source_${sourceNode.id}_imageUrl`] = cropData.outputImageUrl;
+            inputs[`source_${sourceNode.id}_imageUrl`] = resolveSourceValue(edge, cropData.outputImageUrl, outputs);
         } else if (sourceNode.type === 'extractFrame') {
             const frameData = sourceNode.data as { outputFrameUrl?: string };
-            inputs[`source_${sourceNode.id}_imageUrl`] = frameData.outputFrameUrl;
-        } else if (sourceNode.type === 'llm') {
-            const llmData = sourceNode.data as { output?: string };
-            inputs[`source_${sourceNode.id}_text`] = llmData.output;
+            inputs[`source_${sourceNode.id}_imageUrl`] = resolveSourceValue(edge, frameData.outputFrameUrl, outputs);
+        } else if (sourceNode.type === 'map') {
+            inputs[`source_${sourceNode.id}_item`] = resolveTextSource(edge, sourceNode, outputs);
+        } else if (sourceNode.type === 'collect') {
+            const collectData = sourceNode.data;
+            inputs[`source_${sourceNode.id}_items`] = resolveSourceValue<unknown>(
+                edge,
+                edge.sourceHandle === COLLECT_HANDLES.IMAGES ? collectData.items : collectData.output,
+                outputs
+            );
+        } else if (sourceNode.type === 'workflowInput') {
+            inputs[`source_${sourceNode.id}_value`] = resolveSourceValue(edge, sourceNode.data.defaultValue, outputs);
+        } else if (sourceNode.type === 'subworkflow') {
+            inputs[`source_${sourceNode.id}_${edge.sourceHandle}`] = resolveSourceValue(
+                edge,
+                sourceNode.data.outputValues?.[edge.sourceHandle ?? ''],
+                outputs
+            );
         }
     }
 
     return inputs;
 }
 
+/**
+ * Settings of a node that shape its output beyond its inputs, recorded with
+ * its node runs so a result can be reproduced
+ */
+export function getNodeRunParameters(node: WorkflowNode): Record<string, unknown> {
+    if (node.type === 'llm') {
+        const { provider, model, generation, structuredOutput } = node.data;
+        return { provider: provider ?? DEFAULT_LLM_PROVIDER, model, generation, structuredOutput };
+    }
+    if (node.type === 'chat') {
+        const { provider, model } = node.data;
+        return { provider: provider ?? DEFAULT_LLM_PROVIDER, model, historyLength: node.data.messages.length };
+    }
+    if (node.type === 'generateImage') {
+        const { provider, model, width, height, seed, count } = node.data;
+        return { provider: provider ?? DEFAULT_IMAGE_PROVIDER, model, width, height, seed, count };
+    }
+    return {};
+}
+
 /**
  * Gather LLM-specific inputs by handle type
  * This properly distinguishes between system_prompt, user_message, and images handles
@@ -93,7 +428,8 @@ export function gatherNodeInputs(
 export function gatherLLMInputs(
     nodeId: string,
     nodes: WorkflowNode[],
-    edges: WorkflowEdge[]
+    edges: WorkflowEdge[],
+    outputs?: NodeOutputMap
 ): { systemPrompt?: string; userMessage?: string; imageUrls: string[] } {
     const result: { systemPrompt?: string; userMessage?: string; imageUrls: string[] } = { imageUrls: [] };
 
@@ -107,41 +443,13 @@ export function gatherLLMInputs(
         // Check which handle this edge connects to
         switch (edge.targetHandle) {
             case 'system_prompt':
-                if (sourceNode.type === 'text') {
-                    const textData = sourceNode.data as { text?: string };
-                    result.systemPrompt = textData.text;
-                } else if (sourceNode.type === 'llm') {
-                    const llmData = sourceNode.data as { output?: string };
-                    result.systemPrompt = llmData.output;
-                }
+                result.systemPrompt = resolveTextSource(edge, sourceNode, outputs) ?? result.systemPrompt;
                 break;
             case 'user_message':
-                if (sourceNode.type === 'text') {
-                    const textData = sourceNode.data as { text?: string };
-                    result.userMessage = textData.text;
-                } else if (sourceNode.type === 'llm') {
-                    const llmData = sourceNode.data as { output?: string };
-                    result.userMessage = llmData.output;
-                }
+                result.userMessage = resolveTextSource(edge, sourceNode, outputs) ?? result.userMessage;
                 break;
             case 'images':
-                if (sourceNode.type === 'image') {
-                    const imageData = sourceNode.data as { images?: { imageUrl: string }[] };
-                    const urls = (imageData.images || [])
-                        .map(img => img.imageUrl)
-                        .filter((url): url is string => !!url);
-                    result.imageUrls.push(...urls);
-                } else if (sourceNode.type === 'cropImage') {
-                    const cropData = sourceNode.data as { outputImageUrl?: string };
-                    if (cropData.outputImageUrl) {
-                        result.imageUrls.push(cropData.outputImageUrl);
-                    }
-                } else if (sourceNode.type === 'extractFrame') {
-                    const frameData = sourceNode.data as { outputFrameUrl?: string };
-                    if (frameData.outputFrameUrl) {
-                        result.imageUrls.push(frameData.outputFrameUrl);
-                    }
-                }
+                result.imageUrls.push(...resolveImageSource(edge, sourceNode, outputs));
                 break;
         }
     }
@@ -149,24 +457,29 @@ export function gatherLLMInputs(
     return result;
 }
 
+// ============================================================================
+// Execution Resolution
+// ============================================================================
+
 /**
- * Execute a single node via Trigger.dev
+ * Resolve how a node should be executed: its Trigger.dev task and payload,
+ * its cached output if its inputs are unchanged, or its output directly for
+ * source nodes.
  */
-export async function executeNode(
+export function resolveNodeExecution(
     node: WorkflowNode,
     nodes: WorkflowNode[],
     edges: WorkflowEdge[],
-    updateNodeData: <T extends WorkflowNode>(id: string, data: Partial<T['data']>) => void
-): Promise<{ success: boolean; output?: Record<string, unknown>; error?: string }> {
-    const inputs = gatherNodeInputs(node.id, nodes, edges);
-
+    outputs?: NodeOutputMap,
+    options: ResolveExecutionOptions = {}
+): NodeExecution {
     // Source nodes don't need execution - they just provide data
     // Return meaningful output for history display
     if (node.type === 'image') {
         const imageData = node.data as { images?: { imageUrl: string }[] };
         const imageUrl = imageData.images?.[0]?.imageUrl;
         return {
-            success: true,
+            kind: 'source',
             output: {
                 type: 'image',
                 imageUrl: imageUrl || 'No image uploaded'
@@ -177,7 +490,7 @@ export async function executeNode(
     if (node.type === 'video') {
         const videoData = node.data as { videoUrl?: string };
         return {
-            success: true,
+            kind: 'source',
             output: {
                 type: 'video',
                 videoUrl: videoData.videoUrl || 'No video uploaded'
@@ -188,7 +501,7 @@ export async function executeNode(
     if (node.type === 'text') {
         const textData = node.data as { text?: string };
         return {
-            success: true,
+            kind: 'source',
             output: {
                 type: 'text',
                 text: textData.text || ''
@@ -196,144 +509,632 @@ export async function executeNode(
         };
     }
 
-    try {
-        let taskType: string;
-        let payload: Record<string, unknown>;
+    if (node.type === 'cropImage') {
+        const data = node.data as {
+            inputImageUrl?: string;
+            cropX: number;
+            cropY: number;
+            cropWidth: number;
+            cropHeight: number;
+        };
 
-        if (node.type === 'cropImage') {
-            const data = node.data as {
-                inputImageUrl?: string;
-                cropX: number;
-                cropY: number;
-                cropWidth: number;
-                cropHeight: number;
-            };
+        // The connected image as of this run; the URL the canvas stored only without a connection
+        const edge = edges.find(e => e.target === node.id && e.targetHandle === CROP_IMAGE_HANDLES.IMAGE_INPUT);
+        const sourceNode = edge && nodes.find(n => n.id === edge.source);
+        const imageUrl = edge && sourceNode ? resolveImageSource(edge, sourceNode, outputs)[0] : data.inputImageUrl;
 
-            // Get connected image URL
-            const imageUrl = data.inputImageUrl || Object.values(inputs).find(v =>
-                typeof v === 'string' && (v.startsWith('http') || v.startsWith('data:'))
-            );
+        if (!imageUrl) {
+            return { kind: 'invalid', error: 'No input image connected' };
+        }
+
+        return toTaskExecution(node, 'crop-image', {
+            imageUrl,
+            cropX: data.cropX,
+            cropY: data.cropY,
+            cropWidth: data.cropWidth,
+            cropHeight: data.cropHeight,
+        }, options);
+    }
+
+    if (node.type === 'transformImage') {
+        const data = node.data;
+        const edge = edges.find(e => e.target === node.id && e.targetHandle === TRANSFORM_IMAGE_HANDLES.IMAGE_INPUT);
+        const sourceNode = edge && nodes.find(n => n.id === edge.source);
+        const imageUrl = edge && sourceNode ? resolveImageSource(edge, sourceNode, outputs)[0] : undefined;
 
-            if (!imageUrl) {
-                return { success: false, error: 'No input image connected' };
+        if (!imageUrl) {
+            return { kind: 'invalid', error: 'No input image connected' };
+        }
+        if (data.resizeMode !== 'none' && !data.width && !data.height) {
+            return { kind: 'invalid', error: 'Set a width or height to resize to' };
+        }
+
+        return toTaskExecution(node, 'transform-image', {
+            imageUrl,
+            resizeMode: data.resizeMode,
+            width: data.width,
+            height: data.height,
+            rotate: data.rotate,
+            flipHorizontal: data.flipHorizontal,
+            flipVertical: data.flipVertical,
+            grayscale: data.grayscale,
+            blur: data.blur,
+            sharpen: data.sharpen,
+            format: data.format,
+            quality: data.quality,
+        }, options);
+    }
+
+    if (node.type === 'composite') {
+        // Connected values replace the layers' own text or image URL
+        let baseImageUrl: string | undefined;
+        const connected = new Map<string, string | undefined>();
+        for (const edge of edges.filter(e => e.target === node.id)) {
+            const sourceNode = nodes.find(n => n.id === edge.source);
+            if (!sourceNode) continue;
+            if (edge.targetHandle === COMPOSITE_HANDLES.BASE_IMAGE) {
+                baseImageUrl = resolveImageSource(edge, sourceNode, outputs)[0];
+                continue;
+            }
+            const layerHandle = parseCompositeLayerHandle(edge.targetHandle);
+            if (layerHandle) {
+                connected.set(
+                    layerHandle.layerId,
+                    layerHandle.type === 'text'
+                        ? resolveTextSource(edge, sourceNode, outputs)
+                        : resolveImageSource(edge, sourceNode, outputs)[0]
+                );
             }
+        }
 
-            taskType = 'crop-image';
-            payload = {
-                imageUrl,
-                cropX: data.cropX,
-                cropY: data.cropY,
-                cropWidth: data.cropWidth,
-                cropHeight: data.cropHeight,
-            };
-        } else if (node.type === 'extractFrame') {
-            const data = node.data as {
-                inputVideoUrl?: string;
-                timestamp: number;
-                timestampPercent?: number;
-                videoDuration?: number;
+        if (!baseImageUrl) {
+            return { kind: 'invalid', error: 'No base image connected' };
+        }
+        if (node.data.layers.length === 0) {
+            return { kind: 'invalid', error: 'Add a text or image layer' };
+        }
+
+        const layers = node.data.layers.map(layer =>
+            connected.has(layer.id)
+                ? { ...layer, [layer.type === 'text' ? 'text' : 'imageUrl']: connected.get(layer.id) }
+                : layer
+        );
+        const emptyIndex = layers.findIndex(layer => (layer.type === 'text' ? !layer.text?.trim() : !layer.imageUrl));
+        if (emptyIndex >= 0) {
+            return {
+                kind: 'invalid',
+                error: layers[emptyIndex].type === 'text'
+                    ? `Layer ${emptyIndex + 1} has no text. Type some, or connect a Text node.`
+                    : `Layer ${emptyIndex + 1} has no image. Paste its URL, or connect an image.`,
             };
+        }
 
-            // Get connected video URL
-            const videoUrl = data.inputVideoUrl || Object.values(inputs).find(v =>
-                typeof v === 'string' && (v.startsWith('http') || v.startsWith('blob:'))
-            );
+        return toTaskExecution(node, 'composite-image', { baseImageUrl, layers }, options);
+    }
+
+    if (node.type === 'trimVideo') {
+        const data = node.data;
+        const edge = edges.find(e => e.target === node.id && e.targetHandle === TRIM_VIDEO_HANDLES.VIDEO_INPUT);
+        const sourceNode = edge && nodes.find(n => n.id === edge.source);
+        const videoUrl = edge && sourceNode ? resolveVideoSource(edge, sourceNode, outputs) : undefined;
+
+        if (!videoUrl) {
+            return { kind: 'invalid', error: 'No input video connected' };
+        }
+        // Ranges mixing seconds and percentages are checked against the duration by the task
+        const startsAfterEnd = data.startPercent != null && data.endPercent != null
+            ? data.startPercent >= data.endPercent
+            : data.startPercent == null && data.endPercent == null && data.end != null && (data.start ?? 0) >= data.end;
+        if (startsAfterEnd) {
+            return { kind: 'invalid', error: 'Start must be before end' };
+        }
+
+        return toTaskExecution(node, 'trim-video', {
+            videoUrl,
+            start: data.start ?? 0,
+            ...(data.startPercent != null && { startPercent: data.startPercent }),
+            ...(data.end != null && { end: data.end }),
+            ...(data.endPercent != null && { endPercent: data.endPercent }),
+            ...(data.encode && { encode: data.encode }),
+            mute: !!data.mute,
+        }, options);
+    }
+
+    if (node.type === 'extractFrame') {
+        const data = node.data as {
+            inputVideoUrl?: string;
+            timestamp: number;
+            timestampPercent?: number;
+            videoDuration?: number;
+        };
+
+        // The connected video as of this run; the URL the canvas stored only without a connection
+        const edge = edges.find(e => e.target === node.id && e.targetHandle === EXTRACT_FRAME_HANDLES.VIDEO_INPUT);
+        const sourceNode = edge && nodes.find(n => n.id === edge.source);
+        const videoUrl = edge && sourceNode ? resolveVideoSource(edge, sourceNode, outputs) : data.inputVideoUrl;
+
+        if (!videoUrl) {
+            return { kind: 'invalid', error: 'No input video connected' };
+        }
+
+        // Resolve timestamp: use seconds; if percentage and we have duration, compute seconds
+        const durationSec = data.videoDuration;
+        const timestampSeconds =
+            data.timestampPercent != null && durationSec != null && durationSec > 0
+                ? (durationSec * data.timestampPercent) / 100
+                : data.timestamp ?? 0;
 
-            if (!videoUrl) {
-                return { success: false, error: 'No input video connected' };
+        return toTaskExecution(node, 'extract-frame', {
+            videoUrl,
+            timestamp: timestampSeconds,
+            ...(data.timestampPercent != null && { timestampPercent: data.timestampPercent }),
+        }, options);
+    }
+
+    if (node.type === 'llm') {
+        const data = node.data as {
+            provider?: LLMProviderId;
+            model: string;
+            systemPrompt?: string;
+            userMessage?: string;
+            images?: string[];
+            generation?: LLMGenerationParams;
+            structuredOutput?: LLMStructuredOutput;
+        };
+
+        // Use handle-based input gathering for proper validation
+        const llmInputs = gatherLLMInputs(node.id, nodes, edges, outputs);
+
+        // Get user message - must be connected via user_message handle
+        const userMessage = llmInputs.userMessage || data.userMessage || '';
+
+        if (!userMessage.trim()) {
+            return { kind: 'invalid', error: 'User message is required. Connect a Text node to the user_message input.' };
+        }
+        if (!data.model?.trim()) {
+            return { kind: 'invalid', error: 'Pick a model, or enter a custom model name' };
+        }
+
+        // Get system prompt from handle or node data
+        const systemPrompt = llmInputs.systemPrompt || data.systemPrompt;
+
+        // Get images from handle or node data
+        const images = llmInputs.imageUrls.length > 0 ? llmInputs.imageUrls : data.images;
+
+        let responseSchema: Record<string, unknown> | undefined;
+        if (data.structuredOutput) {
+            try {
+                responseSchema = buildJsonSchema(data.structuredOutput);
+            } catch (error) {
+                return { kind: 'invalid', error: error instanceof Error ? error.message : String(error) };
             }
+        }
 
-            // Resolve timestamp: use seconds; if percentage and we have duration, compute seconds
-            const durationSec = data.videoDuration;
-            const timestampSeconds =
-                data.timestampPercent != null && durationSec != null && durationSec > 0
-                    ? (durationSec * data.timestampPercent) / 100
-                    : data.timestamp ?? 0;
-
-            taskType = 'extract-frame';
-            payload = {
-                videoUrl,
-                timestamp: timestampSeconds,
-                ...(data.timestampPercent != null && { timestampPercent: data.timestampPercent }),
-            };
-        } else if (node.type === 'llm') {
-            const data = node.data as {
-                model: string;
-                systemPrompt?: string;
-                userMessage?: string;
-                images?: string[];
-            };
+        return toTaskExecution(node, 'llm', {
+            provider: data.provider,
+            model: data.model,
+            systemPrompt,
+            userMessage,
+            images,
+            generation: data.generation,
+            ...(responseSchema && { responseSchema, maxRetries: data.structuredOutput?.maxRetries }),
+            nodeId: node.id,
+        }, options);
+    }
 
-            // Use handle-based input gathering for proper validation
-            const llmInputs = gatherLLMInputs(node.id, nodes, edges);
+    if (node.type === 'chat') {
+        const data = node.data;
+        let message = data.draft ?? '';
+        let systemPrompt = data.systemPrompt;
+        for (const edge of edges.filter(e => e.target === node.id)) {
+            const sourceNode = nodes.find(n => n.id === edge.source);
+            if (!sourceNode) continue;
+            if (edge.targetHandle === CHAT_HANDLES.MESSAGE) {
+                message = resolveTextSource(edge, sourceNode, outputs) ?? '';
+            } else if (edge.targetHandle === CHAT_HANDLES.SYSTEM_PROMPT) {
+                systemPrompt = resolveTextSource(edge, sourceNode, outputs) || systemPrompt;
+            }
+        }
 
-            // Get user message - must be connected via user_message handle
-            const userMessage = llmInputs.userMessage || data.userMessage || '';
+        if (!message.trim()) {
+            return { kind: 'invalid', error: 'Message is required. Type one, or connect a Text node to the message input.' };
+        }
+        if (!data.model?.trim()) {
+            return { kind: 'invalid', error: 'Pick a model, or enter a custom model name' };
+        }
+
+        // The history is part of the payload, so a cached reply is only reused for the same conversation
+        return toTaskExecution(node, 'chat', {
+            provider: data.provider,
+            model: data.model,
+            systemPrompt,
+            history: data.messages,
+            message,
+            nodeId: node.id,
+        }, options);
+    }
 
-            if (!userMessage.trim()) {
-                return { success: false, error: 'User message is required. Connect a Text node to the user_message input.' };
+    if (node.type === 'generateImage') {
+        const data = node.data;
+        let prompt = data.prompt ?? '';
+        let negativePrompt = data.negativePrompt;
+        let referenceImageUrl: string | undefined;
+        for (const edge of edges.filter(e => e.target === node.id)) {
+            const sourceNode = nodes.find(n => n.id === edge.source);
+            if (!sourceNode) continue;
+            if (edge.targetHandle === GENERATE_IMAGE_HANDLES.PROMPT) {
+                prompt = resolveTextSource(edge, sourceNode, outputs) ?? '';
+            } else if (edge.targetHandle === GENERATE_IMAGE_HANDLES.NEGATIVE_PROMPT) {
+                negativePrompt = resolveTextSource(edge, sourceNode, outputs) || negativePrompt;
+            } else if (edge.targetHandle === GENERATE_IMAGE_HANDLES.REFERENCE_IMAGE) {
+                referenceImageUrl = resolveImageSource(edge, sourceNode, outputs)[0];
             }
+        }
+
+        if (!prompt.trim()) {
+            return { kind: 'invalid', error: 'Prompt is required. Type one, or connect a Text node to the prompt input.' };
+        }
+        if (!data.model?.trim()) {
+            return { kind: 'invalid', error: 'Pick a model, or enter a custom model name' };
+        }
 
-            // Get system prompt from handle or node data
-            const systemPrompt = llmInputs.systemPrompt || data.systemPrompt;
+        return toTaskExecution(node, 'generate-image', {
+            provider: data.provider,
+            model: data.model,
+            prompt,
+            negativePrompt: negativePrompt || undefined,
+            referenceImageUrl,
+            width: data.width,
+            height: data.height,
+            seed: data.seed,
+            count: data.count,
+        }, options);
+    }
 
-            // Get images from handle or node data
-            const images = llmInputs.imageUrls.length > 0 ? llmInputs.imageUrls : data.images;
+    if (node.type === 'condition') {
+        const data = node.data;
+        const inputEdge = edges.find(e => e.target === node.id && e.targetHandle === CONDITION_HANDLES.INPUT);
+        const inputNode = inputEdge && nodes.find(n => n.id === inputEdge.source);
+        const text = inputEdge
+            ? inputNode && resolveTextSource(inputEdge, inputNode, outputs)
+            : data.inputText ?? '';
 
-            taskType = 'llm';
-            payload = {
-                model: data.model,
-                systemPrompt,
-                userMessage,
-                images,
-            };
-        } else {
-            // Exhaustive check - TypeScript knows this is unreachable if all node types are handled
-            const exhaustiveCheck: never = node;
-            return { success: false, error: `Unknown node type: ${String((exhaustiveCheck as WorkflowNode).type)}` };
+        if (text == null) {
+            return { kind: 'invalid', error: 'The connected input has no text' };
         }
+        if (data.mode === 'if' && data.rules.length === 0) {
+            return { kind: 'invalid', error: 'Add a rule to test the input against' };
+        }
+
+        return toTaskExecution(node, 'condition', {
+            mode: data.mode,
+            rules: getActiveRules(data),
+            provider: data.provider,
+            model: data.model,
+            text,
+        }, options);
+    }
+
+    if (node.type === 'map') {
+        const data = node.data;
+        const inputEdge = edges.find(e => e.target === node.id && e.targetHandle === MAP_HANDLES.LIST);
+        const inputNode = inputEdge && nodes.find(n => n.id === inputEdge.source);
+
+        if (inputEdge && !inputNode) {
+            return { kind: 'invalid', error: 'No input list connected' };
+        }
+
+        // Splitting throws on input that doesn't fit the split mode (e.g. JSON)
+        let items: string[];
+        try {
+            if (!inputEdge || !inputNode) {
+                items = splitListItems(data.inputText ?? '', data.splitMode);
+            } else {
+                // Image sources become one item per image; anything else is split as text
+                const imageUrls = resolveImageSource(inputEdge, inputNode, outputs);
+                const text = resolveTextSource(inputEdge, inputNode, outputs);
+                items = text != null ? splitListItems(text, data.splitMode) : imageUrls;
+            }
+        } catch (error) {
+            return { kind: 'invalid', error: error instanceof Error ? error.message : String(error) };
+        }
+
+        return { kind: 'source', output: { type: 'list', items } };
+    }
+
+    if (node.type === 'collect') {
+        // Collect nodes are filled in by the run from their map node's items;
+        // when the map node is left out of a run, the last collected list is reused
+        return {
+            kind: 'source',
+            output: { type: 'list', items: node.data.items ?? [], text: node.data.output ?? '' },
+        };
+    }
 
-        // Trigger the task
-        const triggerResponse = await fetch('/api/trigger', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ taskType, payload }),
-        });
+    if (node.type === 'workflowInput') {
+        // Values supplied for the run are seeded into `outputs`
+        const supplied = outputs?.get(node.id)?.[WORKFLOW_INPUT_HANDLES.OUTPUT] as string | undefined;
+        const value = supplied || node.data.defaultValue || '';
+        if (node.data.required && !value) {
+            return { kind: 'invalid', error: `Input "${node.data.name}" is required` };
+        }
+        return { kind: 'source', output: { type: node.data.valueType, value } };
+    }
 
-        const triggerResult: TriggerTaskResponse = await triggerResponse.json();
+    if (node.type === 'template') {
+        // Unconnected placeholders render their default, if they have one
+        const values: Record<string, string | undefined> = {};
+        for (const name of getTemplateVariables(node.data.template)) {
+            const inputEdge = edges.find(e => e.target === node.id && e.targetHandle === getTemplateVariableHandle(name));
+            const inputNode = inputEdge && nodes.find(n => n.id === inputEdge.source);
+            values[name] = inputEdge && inputNode ? resolveTextSource(inputEdge, inputNode, outputs) : undefined;
+        }
+        try {
+            return { kind: 'source', output: { type: 'text', text: renderTemplate(node.data.template, values) } };
+        } catch (error) {
+            return { kind: 'invalid', error: error instanceof Error ? error.message : String(error) };
+        }
+    }
 
-        if (!triggerResult.success || !triggerResult.runId) {
-            return { success: false, error: triggerResult.error || 'Failed to trigger task' };
+    if (node.type === 'workflowOutput') {
+        const inputEdge = edges.find(e => e.target === node.id && e.targetHandle === WORKFLOW_OUTPUT_HANDLES.VALUE);
+        const inputNode = inputEdge && nodes.find(n => n.id === inputEdge.source);
+        if (!inputEdge || !inputNode) {
+            return { kind: 'invalid', error: 'Connect the value this workflow returns' };
         }
 
-        // Poll for completion
-        const pollResult = await pollTaskResult(triggerResult.runId);
+        const value = resolveTypedSource(inputEdge, inputNode, node.data.valueType, outputs);
+        if (value == null) {
+            return { kind: 'invalid', error: `The connected node has no ${node.data.valueType} output` };
+        }
+        return { kind: 'source', output: { type: node.data.valueType, value } };
+    }
 
-        if (pollResult.isFailed) {
-            return { success: false, error: pollResult.error || 'Task failed' };
+    if (node.type === 'subworkflow') {
+        const data = node.data;
+        if (!data.workflowId) {
+            return { kind: 'invalid', error: 'Choose a workflow to run' };
         }
 
-        // Update node data with output
-        if (node.type === 'cropImage' && pollResult.output) {
-            updateNodeData(node.id, {
-                outputImageUrl: (pollResult.output as { croppedImageUrl?: string }).croppedImageUrl,
-                isProcessing: false,
-            });
-        } else if (node.type === 'extractFrame' && pollResult.output) {
-            updateNodeData(node.id, {
-                outputFrameUrl: (pollResult.output as { frameImageUrl?: string }).frameImageUrl,
-                isProcessing: false,
-            });
-        } else if (node.type === 'llm' && pollResult.output) {
-            updateNodeData(node.id, {
-                output: (pollResult.output as { output?: string }).output,
-                isLoading: false,
-            });
+        // Unconnected inputs keep the value set inside the sub-workflow
+        const values: Record<string, string> = {};
+        for (const input of data.inputs) {
+            const inputEdge = edges.find(e => e.target === node.id && e.targetHandle === input.id);
+            const inputNode = inputEdge && nodes.find(n => n.id === inputEdge.source);
+            const value = inputNode && resolveTypedSource(inputEdge, inputNode, input.valueType, outputs);
+            if (value != null) values[input.id] = value;
         }
 
-        return { success: true, output: pollResult.output };
-    } catch (error) {
-        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
-        return { success: false, error: errorMsg };
+        // Never served from cache: the referenced workflow may have changed since
+        const payload = { workflowId: data.workflowId, inputs: values };
+        return { kind: 'task', taskType: 'subworkflow', payload, inputHash: getNodeInputHash('subworkflow', payload) };
     }
+
+    // Exhaustive check - TypeScript knows this is unreachable if all node types are handled
+    const exhaustiveCheck: never = node;
+    return { kind: 'invalid', error: `Unknown node type: ${String((exhaustiveCheck as WorkflowNode).type)}` };
+}
+
+// ============================================================================
+// Execution Settings
+// ============================================================================
+
+/**
+ * Resolve a node's retry / timeout / failure settings.
+ * timeoutSeconds stays undefined unless set, so the task's maxDuration applies.
+ */
+export function getNodeExecutionSettings(node: WorkflowNode): ResolvedExecutionSettings {
+    const settings = (node.data as { execution?: NodeExecutionSettings }).execution ?? {};
+    return {
+        retries: settings.retries ?? DEFAULT_RETRIES[node.type ?? ''] ?? 0,
+        backoffSeconds: settings.backoffSeconds ?? 1,
+        timeoutSeconds: settings.timeoutSeconds,
+        onFailure: settings.onFailure ?? 'skip-dependents',
+        fallbackValue: settings.fallbackValue ?? '',
+    };
+}
+
+/**
+ * Build task-shaped output from a fallback value, for nodes that failed
+ * with the 'fallback' policy
+ */
+export function getFallbackOutput(node: WorkflowNode, value: string): Record<string, unknown> {
+    switch (node.type) {
+        case 'generateImage':
+            return { imageUrls: [value] };
+        case 'cropImage':
+            return { croppedImageUrl: value };
+        case 'transformImage':
+            return { transformedImageUrl: value };
+        case 'composite':
+            return { compositeImageUrl: value };
+        case 'trimVideo':
+            return { trimmedVideoUrl: value };
+        case 'extractFrame':
+            return { frameImageUrl: value };
+        case 'llm':
+            // Every field of a structured output carries the fallback value too
+            return {
+                output: value,
+                ...(node.data.structuredOutput && {
+                    fields: Object.fromEntries(
+                        getStructuredOutputFields(node.data.structuredOutput).map(field => [field.name, value])
+                    ),
+                }),
+            };
+        case 'chat':
+            // The conversation itself is left as it was
+            return { reply: value, transcript: formatChatTranscript(node.data.messages) };
+        case 'condition':
+            // Route the fallback value down the branch taken when no rule matches
+            return {
+                branch: node.data.mode === 'switch' ? CONDITION_HANDLES.DEFAULT : CONDITION_HANDLES.FALSE,
+                text: value,
+            };
+        case 'subworkflow':
+            return { outputs: Object.fromEntries(node.data.outputs.map(output => [output.id, value])) };
+        default:
+            return {};
+    }
+}
+
+// ============================================================================
+// Output Mapping
+// ============================================================================
+
+/**
+ * Map a task's output onto the node's output handles (for NodeOutputMap)
+ */
+export function getNodeHandleOutputs(
+    node: WorkflowNode,
+    output: Record<string, unknown>
+): Record<string, unknown> {
+    switch (node.type) {
+        case 'generateImage':
+            return { [GENERATE_IMAGE_HANDLES.OUTPUT]: (output as { imageUrls?: string[] }).imageUrls };
+        case 'cropImage':
+            return { [CROP_IMAGE_HANDLES.OUTPUT]: (output as { croppedImageUrl?: string }).croppedImageUrl };
+        case 'transformImage':
+            return { [TRANSFORM_IMAGE_HANDLES.OUTPUT]: (output as { transformedImageUrl?: string }).transformedImageUrl };
+        case 'composite':
+            return { [COMPOSITE_HANDLES.OUTPUT]: (output as { compositeImageUrl?: string }).compositeImageUrl };
+        case 'trimVideo':
+            return { [TRIM_VIDEO_HANDLES.OUTPUT]: (output as { trimmedVideoUrl?: string }).trimmedVideoUrl };
+        case 'extractFrame':
+            return { [EXTRACT_FRAME_HANDLES.OUTPUT]: (output as { frameImageUrl?: string }).frameImageUrl };
+        case 'llm': {
+            const { output: text, fields } = output as { output?: string; fields?: Record<string, string> };
+            return {
+                [LLM_HANDLES.OUTPUT]: text,
+                ...Object.fromEntries(Object.entries(fields ?? {}).map(([name, value]) => [getFieldHandle(name), value])),
+            };
+        }
+        case 'chat': {
+            const { reply, transcript } = output as { reply?: string; transcript?: string };
+            return { [CHAT_HANDLES.REPLY]: reply, [CHAT_HANDLES.TRANSCRIPT]: transcript };
+        }
+        case 'condition': {
+            // Only the branch taken carries the input text on
+            const { branch, text } = output as { branch?: string; text?: string };
+            return branch ? { [branch]: text } : {};
+        }
+        case 'workflowInput':
+            return { [WORKFLOW_INPUT_HANDLES.OUTPUT]: (output as { value?: string }).value };
+        case 'template':
+            return { [TEMPLATE_HANDLES.OUTPUT]: (output as { text?: string }).text };
+        case 'collect': {
+            const { items, text } = output as { items?: unknown[]; text?: string };
+            return {
+                [COLLECT_HANDLES.TEXT]: text,
+                [COLLECT_HANDLES.IMAGES]: (items || []).filter(item => typeof item === 'string'),
+            };
+        }
+        case 'subworkflow':
+            // Output handles are the ids of the sub-workflow's output nodes
+            return { ...(output as { outputs?: Record<string, string> }).outputs };
+        default:
+            return {};
+    }
+}
+
+/**
+ * Map a task's output onto the node data fields the canvas displays
+ */
+export function getNodeOutputData(
+    node: WorkflowNode,
+    output: Record<string, unknown>
+): Record<string, unknown> {
+    switch (node.type) {
+        case 'generateImage':
+            return { outputImageUrls: (output as { imageUrls?: string[] }).imageUrls, currentIndex: 0 };
+        case 'cropImage':
+            return { outputImageUrl: (output as { croppedImageUrl?: string }).croppedImageUrl };
+        case 'transformImage':
+            return { outputImageUrl: (output as { transformedImageUrl?: string }).transformedImageUrl };
+        case 'composite':
+            return { outputImageUrl: (output as { compositeImageUrl?: string }).compositeImageUrl };
+        case 'trimVideo': {
+            const { trimmedVideoUrl, duration } = output as { trimmedVideoUrl?: string; duration?: number };
+            return { outputVideoUrl: trimmedVideoUrl, outputDuration: duration };
+        }
+        case 'extractFrame':
+            return { outputFrameUrl: (output as { frameImageUrl?: string }).frameImageUrl };
+        case 'llm': {
+            const { output: text, candidates, fields } = output as {
+                output?: string;
+                candidates?: string[];
+                fields?: Record<string, string>;
+            };
+            return { output: text, candidates, fieldValues: fields };
+        }
+        case 'chat': {
+            // The sent draft is now part of the conversation
+            const { reply, transcript, messages } = output as {
+                reply?: string;
+                transcript?: string;
+                messages?: unknown[];
+            };
+            return { output: reply, transcript, ...(messages && { messages, draft: undefined }) };
+        }
+        case 'condition': {
+            const { branch, text } = output as { branch?: string; text?: string };
+            return { matchedBranch: branch, output: text };
+        }
+        case 'map':
+            return { items: (output as { items?: string[] }).items };
+        case 'collect': {
+            const { items, text } = output as { items?: unknown[]; text?: string };
+            return { items, output: text };
+        }
+        case 'workflowOutput':
+            return { value: (output as { value?: string }).value };
+        case 'template':
+            return { output: (output as { text?: string }).text };
+        case 'subworkflow':
+            return { outputValues: (output as { outputs?: Record<string, string> }).outputs };
+        default:
+            return {};
+    }
+}
+
+// ============================================================================
+// Map / Collect
+// ============================================================================
+
+/**
+ * Split a map node's text input into items (see MapSplitMode).
+ * Throws when 'json' mode gets anything but a JSON array.
+ */
+export function splitListItems(text: string, mode: MapSplitMode): string[] {
+    const trimmed = text.trim();
+
+    if (mode === 'json' || (mode === 'auto' && trimmed.startsWith('['))) {
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(trimmed);
+        } catch {
+            parsed = undefined;
+        }
+        if (Array.isArray(parsed)) {
+            return parsed.map(item => (typeof item === 'string' ? item : JSON.stringify(item)));
+        }
+        if (mode === 'json') {
+            throw new Error('Map input is not a JSON array');
+        }
+    }
+
+    return trimmed
+        .split(/\r?\n/)
+        .map(line => line.trim())
+        .filter(Boolean);
+}
+
+/**
+ * Build a collect node's output from the items gathered across map iterations
+ */
+export function getCollectOutput(node: CollectFlowNode, items: unknown[]): Record<string, unknown> {
+    const text = node.data.format === 'json'
+        ? JSON.stringify(items)
+        : items.map(item => (typeof item === 'string' ? item : JSON.stringify(item))).join('\n');
+    return { type: 'list', items, text };
 }
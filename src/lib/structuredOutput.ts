@@ -0,0 +1,174 @@
+/**
+ * Structured Output
+ *
+ * JSON output of LLM nodes: building the JSON Schema a node asks for, the
+ * output handles of its top-level fields, and validating responses against
+ * the schema with zod. Shared by the LLM Trigger.dev task and the canvas.
+ */
+
+import { z } from 'zod';
+import type { LLMOutputField, LLMStructuredOutput } from '@/types/workflow.types';
+
+export type JsonSchema = Record<string, unknown>;
+
+export interface StructuredOutputField {
+    name: string;
+    type: string;
+}
+
+const FIELD_HANDLE_PREFIX = 'field:';
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// ============================================================================
+// Schema
+// ============================================================================
+
+const fieldToSchema = (field: LLMOutputField): JsonSchema => ({
+    type: field.type,
+    ...(field.type === 'array' && { items: { type: 'string' } }),
+    ...(field.description && { description: field.description }),
+});
+
+/**
+ * JSON Schema of a node's structured output. Throws with a message fit to
+ * show on the node when the schema is unusable.
+ */
+export function buildJsonSchema(config: LLMStructuredOutput): JsonSchema {
+    if (config.mode === 'fields') {
+        const fields = config.fields.filter(field => field.name.trim());
+        if (fields.length === 0) {
+            throw new Error('Add at least one output field');
+        }
+        const names = fields.map(field => field.name.trim());
+        const duplicate = names.find((name, index) => names.indexOf(name) !== index);
+        if (duplicate) {
+            throw new Error(`Output field "${duplicate}" is defined twice`);
+        }
+        return {
+            type: 'object',
+            properties: Object.fromEntries(fields.map(field => [field.name.trim(), fieldToSchema(field)])),
+            required: fields.filter(field => field.required).map(field => field.name.trim()),
+        };
+    }
+
+    let schema: unknown;
+    try {
+        schema = JSON.parse(config.schema || '');
+    } catch {
+        throw new Error('Output schema is not valid JSON');
+    }
+    if (!isPlainObject(schema) || schema.type !== 'object' || !isPlainObject(schema.properties)) {
+        throw new Error('Output schema must be an object schema with "properties"');
+    }
+    try {
+        z.fromJSONSchema(schema);
+    } catch (error) {
+        throw new Error(`Output schema is not supported: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return schema;
+}
+
+/**
+ * Top-level fields of a node's structured output, for its output handles.
+ * Empty while the schema is incomplete.
+ */
+export function getStructuredOutputFields(config: LLMStructuredOutput | undefined): StructuredOutputField[] {
+    if (!config) return [];
+    let schema: JsonSchema;
+    try {
+        schema = buildJsonSchema(config);
+    } catch {
+        return [];
+    }
+    return Object.entries(schema.properties as Record<string, unknown>).map(([name, property]) => {
+        const type = isPlainObject(property) ? property.type : undefined;
+        return { name, type: Array.isArray(type) ? type.join(' | ') : typeof type === 'string' ? type : 'any' };
+    });
+}
+
+/**
+ * Reduce a JSON Schema to the OpenAPI subset Gemini's `responseSchema`
+ * accepts: no `$schema`, `additionalProperties` or union types
+ */
+export function toGeminiSchema(schema: unknown): JsonSchema {
+    if (!isPlainObject(schema)) return {};
+
+    const result: JsonSchema = {};
+    if (Array.isArray(schema.type)) {
+        const types = schema.type.filter(type => type !== 'null');
+        result.type = types[0];
+        if (types.length < schema.type.length) result.nullable = true;
+    } else if (schema.type !== undefined) {
+        result.type = schema.type;
+    }
+    for (const key of ['format', 'description', 'nullable', 'enum', 'required', 'minItems', 'maxItems']) {
+        if (schema[key] !== undefined) result[key] = schema[key];
+    }
+    if (isPlainObject(schema.properties)) {
+        result.properties = Object.fromEntries(
+            Object.entries(schema.properties).map(([name, property]) => [name, toGeminiSchema(property)])
+        );
+    }
+    if (schema.items !== undefined) {
+        result.items = toGeminiSchema(schema.items);
+    }
+    return result;
+}
+
+// ============================================================================
+// Field Handles
+// ============================================================================
+
+export function getFieldHandle(name: string): string {
+    return `${FIELD_HANDLE_PREFIX}${name}`;
+}
+
+/**
+ * Field name of an LLM node output handle, or undefined for its text output
+ */
+export function getFieldName(handle: string | null | undefined): string | undefined {
+    return handle?.startsWith(FIELD_HANDLE_PREFIX) ? handle.slice(FIELD_HANDLE_PREFIX.length) : undefined;
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+export type StructuredOutputResult =
+    | { ok: true; value: Record<string, unknown> }
+    | { ok: false; error: string };
+
+/**
+ * Parse a response as JSON and validate it against the schema. Tolerates a
+ * markdown code fence around the JSON.
+ */
+export function parseStructuredOutput(text: string, schema: JsonSchema): StructuredOutputResult {
+    const fenced = text.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
+    let value: unknown;
+    try {
+        value = JSON.parse(fenced ? fenced[1] : text);
+    } catch (error) {
+        return { ok: false, error: `Not valid JSON (${error instanceof Error ? error.message : String(error)})` };
+    }
+
+    const result = z.fromJSONSchema(schema).safeParse(value);
+    if (!result.success) {
+        return { ok: false, error: z.prettifyError(result.error) };
+    }
+    if (!isPlainObject(result.data)) {
+        return { ok: false, error: 'Expected a JSON object' };
+    }
+    return { ok: true, value: result.data };
+}
+
+/**
+ * Top-level values of a structured output as text: strings as they are,
+ * anything else as JSON
+ */
+export function getFieldValues(value: Record<string, unknown>): Record<string, string> {
+    return Object.fromEntries(
+        Object.entries(value).map(([name, field]) => [name, typeof field === 'string' ? field : JSON.stringify(field)])
+    );
+}
@@ -0,0 +1,150 @@
+/**
+ * Template Renderer
+ *
+ * Placeholder syntax of template nodes, shared by the canvas (one input
+ * handle per placeholder) and workflow runs (rendering):
+ * - `{{ name }}` is replaced by the text connected to the `name` handle
+ * - `{{ name | default: "friend" }}` falls back when the input is missing or empty
+ * - `{{ name | trim | upper }}` applies filters left to right: trim, upper,
+ *   json (as a JSON string literal) and default
+ * - `\{{` writes a literal `{{`
+ */
+
+export interface TemplateFilter {
+    name: string;
+    arg?: string;
+}
+
+export type TemplateSegment =
+    | { type: 'text'; value: string }
+    | { type: 'variable'; name: string; filters: TemplateFilter[] };
+
+const VARIABLE_HANDLE_PREFIX = 'var:';
+
+const NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const FILTER_PATTERN = /^([a-z]+)(?:\s*:\s*"((?:[^"\\]|\\.)*)")?$/;
+
+const FILTERS: Record<string, (value: string, arg?: string) => string> = {
+    upper: value => value.toUpperCase(),
+    trim: value => value.trim(),
+    json: value => JSON.stringify(value),
+    default: (value, arg) => value || (arg ?? ''),
+};
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Split `a | b: "x|y" | c` on the pipes outside quoted arguments
+ */
+const splitPipes = (expression: string): string[] => {
+    const parts: string[] = [];
+    let current = '';
+    let inString = false;
+    for (let i = 0; i < expression.length; i++) {
+        const char = expression[i];
+        if (inString && char === '\\') {
+            current += char + (expression[++i] ?? '');
+            continue;
+        }
+        if (char === '"') inString = !inString;
+        if (char === '|' && !inString) {
+            parts.push(current.trim());
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+    parts.push(current.trim());
+    return parts;
+};
+
+const parseExpression = (expression: string): TemplateSegment => {
+    const [name, ...filterSources] = splitPipes(expression);
+    if (!NAME_PATTERN.test(name)) {
+        throw new Error(`Invalid placeholder name "${name}" in {{${expression}}}`);
+    }
+    const filters = filterSources.map(source => {
+        const match = source.match(FILTER_PATTERN);
+        if (!match || !FILTERS[match[1]]) {
+            throw new Error(`Unknown filter "${source}" in {{${expression}}}`);
+        }
+        return { name: match[1], arg: match[2] !== undefined ? JSON.parse(`"${match[2]}"`) as string : undefined };
+    });
+    return { type: 'variable', name, filters };
+};
+
+/**
+ * Parse a template into text and placeholders. Throws with a message fit to
+ * show on the node when the syntax is broken.
+ */
+export function parseTemplate(template: string): TemplateSegment[] {
+    const segments: TemplateSegment[] = [];
+    let text = '';
+    let i = 0;
+    while (i < template.length) {
+        if (template.startsWith('\\{{', i)) {
+            text += '{{';
+            i += 3;
+        } else if (template.startsWith('{{', i)) {
+            const end = template.indexOf('}}', i + 2);
+            if (end === -1) {
+                throw new Error('Unclosed {{ in template');
+            }
+            if (text) segments.push({ type: 'text', value: text });
+            text = '';
+            segments.push(parseExpression(template.slice(i + 2, end).trim()));
+            i = end + 2;
+        } else {
+            text += template[i++];
+        }
+    }
+    if (text) segments.push({ type: 'text', value: text });
+    return segments;
+}
+
+/**
+ * Placeholder names of a template in order of first use. Lenient, so
+ * handles stay in place while a placeholder is half typed.
+ */
+export function getTemplateVariables(template: string): string[] {
+    const names = [...template.matchAll(/(?<!\\)\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*(?=\||\}\})/g)].map(match => match[1]);
+    return [...new Set(names)];
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+/**
+ * Render a template. Values missing from `values` render as empty text
+ * unless a default filter fills them; a placeholder with neither is an error.
+ */
+export function renderTemplate(template: string, values: Record<string, string | undefined>): string {
+    return parseTemplate(template)
+        .map(segment => {
+            if (segment.type === 'text') return segment.value;
+            const value = values[segment.name];
+            if (value === undefined && !segment.filters.some(filter => filter.name === 'default')) {
+                throw new Error(`Connect a value to "${segment.name}", or give it a default`);
+            }
+            return segment.filters.reduce((result, filter) => FILTERS[filter.name](result, filter.arg), value ?? '');
+        })
+        .join('');
+}
+
+// ============================================================================
+// Handles
+// ============================================================================
+
+export function getTemplateVariableHandle(name: string): string {
+    return `${VARIABLE_HANDLE_PREFIX}${name}`;
+}
+
+/**
+ * Placeholder name of a template node input handle
+ */
+export function getTemplateVariableName(handle: string | null | undefined): string | undefined {
+    return handle?.startsWith(VARIABLE_HANDLE_PREFIX) ? handle.slice(VARIABLE_HANDLE_PREFIX.length) : undefined;
+}
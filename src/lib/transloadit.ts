@@ -5,8 +5,9 @@
  * Uses client-side assemblies with signature authentication.
  */
 
-// Transloadit configuration
-const TRANSLOADIT_AUTH_KEY = process.env.NEXT_PUBLIC_TRANSLOADIT_AUTH_KEY || '';
+// Transloadit configuration (Trigger.dev tasks are configured with NEXT_PUBLIC_TRANSLOADIT_KEY)
+const TRANSLOADIT_AUTH_KEY =
+    process.env.NEXT_PUBLIC_TRANSLOADIT_AUTH_KEY || process.env.NEXT_PUBLIC_TRANSLOADIT_KEY || '';
 
 export interface TransloaditResult {
     url: string;
@@ -57,18 +58,59 @@ export async function uploadVideoToTransloadit(
 }
 
 /**
- * Generic upload function
+ * Upload image data from the server (e.g. a Trigger.dev task), through the
+ * same assembly as uploadImageToTransloadit. Throws when the upload fails.
  */
-async function uploadToTransloadit(
-    file: File,
-    type: 'image' | 'video',
-    onProgress?: (progress: UploadProgress) => void
-): Promise<TransloaditResult | null> {
+export async function uploadImageDataToTransloadit(data: Blob, fileName: string): Promise<TransloaditResult> {
+    return uploadDataToTransloadit(data, fileName, 'image');
+}
+
+/**
+ * Upload video data from the server, stored as-is: the task producing it has
+ * already encoded it. Throws when the upload fails.
+ */
+export async function uploadVideoDataToTransloadit(data: Blob, fileName: string): Promise<TransloaditResult> {
+    return uploadDataToTransloadit(data, fileName, 'original');
+}
+
+/**
+ * What an upload assembly does with the file: images are optimized, videos
+ * encoded to webm, originals stored unchanged
+ */
+type UploadType = 'image' | 'video' | 'original';
+
+async function uploadDataToTransloadit(data: Blob, fileName: string, type: UploadType): Promise<TransloaditResult> {
     const formData = new FormData();
-    formData.append('file', file);
+    formData.append('file', data, fileName);
+    formData.append('params', JSON.stringify({ auth: { key: TRANSLOADIT_AUTH_KEY }, steps: getUploadSteps(type) }));
 
-    // Create assembly params based on type
-    const steps = type === 'image'
+    const response = await fetch('https://api2.transloadit.com/assemblies', { method: 'POST', body: formData });
+    if (!response.ok) {
+        throw new Error(`Upload failed: ${response.status}`);
+    }
+    const { assembly_ssl_url } = await response.json() as { assembly_ssl_url: string };
+
+    const result = await pollAssemblyStatus(assembly_ssl_url);
+    const file = result?.ok === 'ASSEMBLY_COMPLETED' ? getUploadedFile(result, type) : undefined;
+    if (!file) {
+        throw new Error('Assembly failed');
+    }
+    return file;
+}
+
+/**
+ * Assembly steps of an upload
+ */
+function getUploadSteps(type: UploadType) {
+    if (type === 'original') {
+        return {
+            ':original': {
+                robot: '/upload/handle',
+                result: true,
+            },
+        };
+    }
+    return type === 'image'
         ? {
             ':original': {
                 robot: '/upload/handle',
@@ -90,6 +132,30 @@ async function uploadToTransloadit(
                 result: true,
             },
         };
+}
+
+/**
+ * The stored file of a completed upload assembly
+ */
+function getUploadedFile(result: TransloaditAssemblyResult, type: UploadType): TransloaditResult | undefined {
+    const resultKey = type === 'image' ? 'optimized' : type === 'video' ? 'encoded' : ':original';
+    const files = result.results[resultKey] || result.results[':original'];
+    return files?.[0];
+}
+
+/**
+ * Generic upload function
+ */
+async function uploadToTransloadit(
+    file: File,
+    type: 'image' | 'video',
+    onProgress?: (progress: UploadProgress) => void
+): Promise<TransloaditResult | null> {
+    const formData = new FormData();
+    formData.append('file', file);
+
+    // Create assembly params based on type
+    const steps = getUploadSteps(type);
 
     const params = {
         auth: {
@@ -122,9 +188,7 @@ async function uploadToTransloadit(
                     // Poll for assembly completion
                     const result = await pollAssemblyStatus(response.assembly_ssl_url);
                     if (result && result.ok === 'ASSEMBLY_COMPLETED') {
-                        const resultKey = type === 'image' ? 'optimized' : 'encoded';
-                        const files = result.results[resultKey] || result.results[':original'];
-                        resolve(files?.[0] || null);
+                        resolve(getUploadedFile(result, type) || null);
                     } else {
                         reject(new Error('Assembly failed'));
                     }
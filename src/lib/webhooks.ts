@@ -0,0 +1,204 @@
+/**
+ * Outgoing Webhooks
+ *
+ * Workflows can subscribe URLs to run events (run.completed / run.failed /
+ * node.failed). When a run or node reaches that state, one WebhookDelivery
+ * is recorded per subscribed webhook and handed to the deliver-webhook task,
+ * which POSTs it with retries and keeps the delivery log up to date.
+ *
+ * Each request is signed so receivers can check it came from us:
+ *   X-Webhook-Timestamp: unix seconds
+ *   X-Webhook-Signature: sha256=<hex HMAC-SHA256 of `${timestamp}.${body}`, keyed with the webhook secret>
+ *
+ * URLs must be public: https (http only in development), never resolving to
+ * loopback, private or link-local addresses. They are checked when a webhook
+ * is saved and again before each delivery, as DNS can change in between.
+ *
+ * Server-side only; do not import from client.
+ */
+
+import { createHmac, randomBytes } from 'crypto';
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+import { tasks } from '@trigger.dev/sdk/v3';
+import prisma from '@/lib/db';
+import type { RunStatus, WebhookEvent } from '@/types/workflow.types';
+import type { deliverWebhookTask } from '@/trigger/deliverWebhookTask';
+
+// ============================================================================
+// Signing
+// ============================================================================
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Webhook-Signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-Webhook-Timestamp';
+export const WEBHOOK_EVENT_HEADER = 'X-Webhook-Event';
+export const WEBHOOK_DELIVERY_HEADER = 'X-Webhook-Delivery';
+
+export function generateWebhookSecret(): string {
+    return 'whsec_' + randomBytes(24).toString('base64url');
+}
+
+/**
+ * Value of the signature header for a request body sent at `timestamp`
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+    return 'sha256=' + createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+// ============================================================================
+// Destinations
+// ============================================================================
+
+/**
+ * Addresses webhooks may not be sent to: this host, private networks, link-local
+ * (cloud metadata endpoints) and other non-public ranges. IPv4-mapped IPv6
+ * addresses are checked against the IPv4 ranges.
+ */
+const BLOCKED_ADDRESSES = (() => {
+    const list = new BlockList();
+    for (const [network, prefix] of [
+        ['0.0.0.0', 8],
+        ['10.0.0.0', 8],
+        ['100.64.0.0', 10],
+        ['127.0.0.0', 8],
+        ['169.254.0.0', 16],
+        ['172.16.0.0', 12],
+        ['192.0.0.0', 24],
+        ['192.168.0.0', 16],
+        ['198.18.0.0', 15],
+        ['224.0.0.0', 4],
+        ['240.0.0.0', 4],
+    ] as const) {
+        list.addSubnet(network, prefix, 'ipv4');
+    }
+    for (const [network, prefix] of [
+        ['::', 128],
+        ['::1', 128],
+        ['fc00::', 7],
+        ['fe80::', 10],
+        ['ff00::', 8],
+    ] as const) {
+        list.addSubnet(network, prefix, 'ipv6');
+    }
+    return list;
+})();
+
+/**
+ * Check a webhook URL may be delivered to, resolving its host. Throws with
+ * the reason when it may not.
+ */
+export async function assertWebhookUrlAllowed(rawUrl: string): Promise<void> {
+    let url: URL;
+    try {
+        url = new URL(rawUrl);
+    } catch {
+        throw new Error('Invalid webhook URL');
+    }
+    const allowHttp = process.env.NODE_ENV === 'development';
+    if (url.protocol !== 'https:' && !(allowHttp && url.protocol === 'http:')) {
+        throw new Error(allowHttp ? 'Webhook URL must use http or https' : 'Webhook URL must use https');
+    }
+
+    const host = url.hostname.replace(/^\[(.*)\]$/, '$1');
+    let addresses: { address: string; family: number }[];
+    if (isIP(host)) {
+        addresses = [{ address: host, family: isIP(host) }];
+    } else {
+        try {
+            addresses = await lookup(host, { all: true });
+        } catch {
+            throw new Error(`Webhook host ${host} could not be resolved`);
+        }
+    }
+    if (addresses.some(({ address, family }) => BLOCKED_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4'))) {
+        throw new Error('Webhook URL must not point at a private or local address');
+    }
+}
+
+// ============================================================================
+// Dispatch
+// ============================================================================
+
+/**
+ * Event sent when a run finishes with this status, if any.
+ * Partial runs count as failed; cancelled runs send nothing.
+ */
+export function getRunWebhookEvent(status: RunStatus): WebhookEvent | null {
+    if (status === 'completed') return 'run.completed';
+    if (status === 'failed' || status === 'partial') return 'run.failed';
+    return null;
+}
+
+/**
+ * Queue an event for every enabled webhook of the workflow subscribed to it
+ */
+async function dispatchWebhookEvent(workflowId: string, event: WebhookEvent, data: Record<string, unknown>) {
+    const webhooks = await prisma.webhook.findMany({
+        where: { workflowId, enabled: true, events: { has: event } },
+        select: { id: true },
+    });
+
+    const payload = JSON.parse(JSON.stringify({ event, createdAt: new Date().toISOString(), data }));
+    for (const webhook of webhooks) {
+        const delivery = await prisma.webhookDelivery.create({
+            data: { webhookId: webhook.id, event, payload, status: 'pending' },
+        });
+        await tasks.trigger<typeof deliverWebhookTask>('deliver-webhook', { deliveryId: delivery.id });
+    }
+}
+
+/**
+ * Send run.completed / run.failed for a WorkflowRun that just finished.
+ * Never throws: a webhook problem must not fail the run that raised it.
+ */
+export async function dispatchRunWebhooks(workflowRunId: string) {
+    try {
+        const run = await prisma.workflowRun.findUnique({
+            where: { id: workflowRunId },
+            include: { workflow: { select: { name: true } } },
+        });
+        const event = run && getRunWebhookEvent(run.status as RunStatus);
+        if (!run || !event) return;
+
+        await dispatchWebhookEvent(run.workflowId, event, {
+            workflowId: run.workflowId,
+            workflowName: run.workflow.name,
+            workflowRunId: run.id,
+            runId: run.triggerRunId,
+            runScope: run.runScope,
+            status: run.status,
+            startedAt: run.startedAt,
+            completedAt: run.completedAt,
+            duration: run.duration,
+        });
+    } catch (error) {
+        console.error('Failed to dispatch run webhooks:', error);
+    }
+}
+
+/**
+ * Send node.failed for a NodeRun that just failed. Never throws.
+ */
+export async function dispatchNodeFailedWebhooks(nodeRunId: string) {
+    try {
+        const nodeRun = await prisma.nodeRun.findUnique({
+            where: { id: nodeRunId },
+            include: { workflowRun: { select: { workflowId: true, triggerRunId: true } } },
+        });
+        if (!nodeRun || nodeRun.status !== 'failed') return;
+
+        await dispatchWebhookEvent(nodeRun.workflowRun.workflowId, 'node.failed', {
+            workflowId: nodeRun.workflowRun.workflowId,
+            workflowRunId: nodeRun.workflowRunId,
+            runId: nodeRun.workflowRun.triggerRunId,
+            nodeRunId: nodeRun.id,
+            nodeId: nodeRun.nodeId,
+            nodeName: nodeRun.nodeName,
+            nodeType: nodeRun.nodeType,
+            iteration: nodeRun.iteration,
+            error: nodeRun.error,
+        });
+    } catch (error) {
+        console.error('Failed to dispatch node.failed webhooks:', error);
+    }
+}
@@ -0,0 +1,120 @@
+/**
+ * Workflow References
+ *
+ * A workflow's input and output nodes make it callable like a function:
+ * from the run dialog, or by the sub-workflow nodes of other workflows. This
+ * module reads that signature (and the values a run returned through it) and
+ * finds sub-workflow reference cycles, so workflow A can never end up calling
+ * itself through B.
+ */
+
+import type { WorkflowInputPort, WorkflowNode, WorkflowPort, WorkflowSignature } from '@/types/workflow.types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Loads the saved nodes of a workflow, or undefined if it doesn't exist
+ */
+export type WorkflowNodesLoader = (workflowId: string) => Promise<WorkflowNode[] | undefined>;
+
+// ============================================================================
+// Signature
+// ============================================================================
+
+/**
+ * Inputs and outputs a workflow exposes to its callers, in canvas order
+ * (top to bottom)
+ */
+export function getWorkflowSignature(nodes: WorkflowNode[]): WorkflowSignature {
+    const byPosition = [...nodes].sort((a, b) => a.position.y - b.position.y);
+    const inputs: WorkflowInputPort[] = [];
+    const outputs: WorkflowPort[] = [];
+
+    for (const node of byPosition) {
+        if (node.type === 'workflowInput') {
+            inputs.push({
+                id: node.id,
+                name: node.data.name,
+                valueType: node.data.valueType,
+                defaultValue: node.data.defaultValue,
+                required: node.data.required,
+            });
+        } else if (node.type === 'workflowOutput') {
+            outputs.push({ id: node.id, name: node.data.name, valueType: node.data.valueType });
+        }
+    }
+
+    return { inputs, outputs };
+}
+
+/**
+ * Values a finished run returned, keyed by the name of the Workflow Output
+ * node each came from. Output nodes of sub-workflows run inside it are left out.
+ */
+export function getRunOutputValues(
+    nodes: WorkflowNode[],
+    nodeRuns: { nodeId: string; nodeType: string; status: string; outputData: unknown; parentNodeRunId: string | null }[]
+): Record<string, unknown> {
+    const outputNames = new Map(
+        nodes.flatMap(node => (node.type === 'workflowOutput' ? [[node.id, node.data.name || node.id]] : []))
+    );
+    const outputs: Record<string, unknown> = {};
+    for (const nodeRun of nodeRuns) {
+        if (nodeRun.nodeType !== 'workflowOutput' || nodeRun.parentNodeRunId || nodeRun.status !== 'completed') {
+            continue;
+        }
+        const outputData = nodeRun.outputData as { value?: unknown } | null;
+        outputs[outputNames.get(nodeRun.nodeId) ?? nodeRun.nodeId] = outputData?.value;
+    }
+    return outputs;
+}
+
+// ============================================================================
+// Cycle Detection
+// ============================================================================
+
+/**
+ * Ids of the workflows a workflow's sub-workflow nodes reference
+ */
+export function getReferencedWorkflowIds(nodes: WorkflowNode[]): string[] {
+    const ids = nodes.flatMap(node =>
+        node.type === 'subworkflow' && node.data.workflowId ? [node.data.workflowId] : []
+    );
+    return [...new Set(ids)];
+}
+
+/**
+ * Find a chain of references leading from `workflowId` (with the given,
+ * possibly unsaved, nodes) back to itself.
+ * Returns the workflow ids along the cycle, starting and ending with
+ * `workflowId`, or null if there is none.
+ */
+export async function findWorkflowReferenceCycle(
+    workflowId: string,
+    nodes: WorkflowNode[],
+    loadNodes: WorkflowNodesLoader
+): Promise<string[] | null> {
+    // Workflows already explored without finding a way back
+    const cleared = new Set<string>();
+
+    const visit = async (id: string, path: string[]): Promise<string[] | null> => {
+        if (id === workflowId) return [...path, id];
+        if (cleared.has(id) || path.includes(id)) return null;
+
+        const referenced = getReferencedWorkflowIds((await loadNodes(id)) ?? []);
+        for (const next of referenced) {
+            const cycle = await visit(next, [...path, id]);
+            if (cycle) return cycle;
+        }
+        cleared.add(id);
+        return null;
+    };
+
+    for (const id of getReferencedWorkflowIds(nodes)) {
+        const cycle = await visit(id, [workflowId]);
+        if (cycle) return cycle;
+    }
+    return null;
+}
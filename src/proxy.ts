@@ -2,7 +2,8 @@
  * Clerk Middleware
  * 
  * Protects routes using Clerk authentication.
- * Public routes: /, /signin, /api/webhooks/clerk
+ * Public routes: /, /signin, /api/webhooks/clerk, and the REST API
+ * (/api/v1), which authenticates with personal API keys instead
  */
 
 import { clerkMiddleware, createRouteMatcher } from '@clerk/nextjs/server';
@@ -16,6 +17,7 @@ const isPublicRoute = createRouteMatcher([
     '/signin(.*)',
     '/sso-callback(.*)',
     '/api/webhooks/clerk(.*)',
+    '/api/v1(.*)',
 ]);
 
 export default clerkMiddleware(async (auth, req) => {
@@ -0,0 +1,216 @@
+/**
+ * Execution Slice
+ *
+ * Starts server-side workflow runs (run-workflow Trigger.dev task) and
+ * mirrors their Realtime progress onto the canvas:
+ * - Node processing / loading flags, outputs (and their input-hash cache)
+ *   and streamed LLM output
+ * - Task manager entries
+ * - Run history refresh
+ *
+ * The Realtime subscription itself lives in the useWorkflowRun hook.
+ */
+
+import type {
+    ActiveWorkflowRun,
+    RunScope,
+    RunStatus,
+    RunTaskStatus,
+    WorkflowRunProgress,
+} from '@/types/workflow.types';
+import { getPartialOutputKey } from '@/types/workflow.types';
+import type { StateCreator } from './types';
+import type { NodeSlice } from './nodeSlice';
+import type { TaskSlice } from './taskSlice';
+import type { PersistenceSlice } from './persistenceSlice';
+import type { RunHistorySlice } from './runHistorySlice';
+import { getNodeOutputData } from '@/lib/nodeExecutor';
+import { createExecutionPlan, getDownstreamNodeIds, getUpstreamNodeIds } from '@/lib/dagExecution';
+import { startWorkflowRun, cancelWorkflowRun } from '@/lib/actions';
+
+// ============================================================================
+// Execution Slice
+// ============================================================================
+
+export interface ExecutionSlice {
+    // State
+    activeRun: ActiveWorkflowRun | null;
+
+    // Actions
+    executeWorkflow: (
+        scope: RunScope,
+        nodeIds?: string[],
+        options?: { force?: boolean; inputs?: Record<string, string> }
+    ) => Promise<boolean>;
+    executeFromNode: (nodeId: string, scope: 'up-to-here' | 'from-here') => Promise<boolean>;
+    cancelWorkflow: () => Promise<boolean>;
+    applyRunMetadata: (metadata: Record<string, unknown>) => void;
+    finishExecution: (status: RunStatus | null) => Promise<void>;
+}
+
+export const createExecutionSlice: StateCreator<ExecutionSlice> = (set, get) => {
+    // Per-run bookkeeping: node status (and map item count) last applied to
+    // the canvas, and its task manager entry
+    const appliedStatus = new Map<string, RunTaskStatus>();
+    const appliedProgress = new Map<string, string>();
+    const taskIds = new Map<string, string>();
+    let historyLoaded = false;
+
+    const getState = () =>
+        get() as ReturnType<typeof get> & NodeSlice & TaskSlice & PersistenceSlice & RunHistorySlice;
+
+    return {
+        activeRun: null,
+
+        executeWorkflow: async (scope, nodeIds, options) => {
+            const state = getState();
+            const { workflowId } = state;
+
+            if (!workflowId || state.activeRun) return false;
+
+            appliedStatus.clear();
+            appliedProgress.clear();
+            taskIds.clear();
+            historyLoaded = false;
+
+            try {
+                // The orchestrator reads the saved workflow, so flush pending edits first
+                await state.saveWorkflow();
+
+                const { triggerRunId, publicAccessToken } = await startWorkflowRun({
+                    workflowId,
+                    runScope: scope,
+                    nodeIds,
+                    force: options?.force,
+                    inputs: options?.inputs,
+                });
+                set({ activeRun: { triggerRunId, publicAccessToken, scope } });
+                return true;
+            } catch (error) {
+                console.error('Failed to start workflow run:', error);
+                return false;
+            }
+        },
+
+        executeFromNode: async (nodeId, scope) => {
+            const { nodes, edges } = getState();
+            const nodeIds =
+                scope === 'up-to-here'
+                    ? getUpstreamNodeIds(nodes, edges, nodeId)
+                    : getDownstreamNodeIds(nodes, edges, nodeId);
+
+            if (!createExecutionPlan(nodes, edges, nodeIds).isValidDAG) return false;
+
+            return get().executeWorkflow(scope, nodeIds);
+        },
+
+        cancelWorkflow: async () => {
+            const { activeRun } = get();
+            if (!activeRun) return false;
+
+            try {
+                await cancelWorkflowRun({ triggerRunId: activeRun.triggerRunId });
+                return true;
+            } catch (error) {
+                console.error('Failed to cancel workflow run:', error);
+                return false;
+            }
+        },
+
+        applyRunMetadata: (metadata) => {
+            const state = getState();
+            const progress = metadata.progress as WorkflowRunProgress | undefined;
+            if (!progress) return;
+
+            // Show the new run in the history panel as soon as it exists
+            if (!historyLoaded && state.workflowId) {
+                historyLoaded = true;
+                void state.loadWorkflowHistory(state.workflowId);
+            }
+
+            for (const [nodeId, nodeProgress] of Object.entries(progress.nodes)) {
+                const node = state.nodes.find((n) => n.id === nodeId);
+                if (!node) continue;
+
+                // Stream partial LLM output while the node is running
+                if (nodeProgress.status === 'running') {
+                    const partialOutput = metadata[getPartialOutputKey(nodeId)];
+                    if (typeof partialOutput === 'string' && partialOutput !== node.data.output) {
+                        state.updateNodeData(nodeId, { output: partialOutput });
+                    }
+                }
+
+                // Finished / total items of a node run once per map item
+                const existingTaskId = taskIds.get(nodeId);
+                if (existingTaskId && nodeProgress.progress && appliedProgress.get(nodeId) !== nodeProgress.progress) {
+                    appliedProgress.set(nodeId, nodeProgress.progress);
+                    state.updateTask(existingTaskId, { progress: nodeProgress.progress });
+                }
+
+                if (appliedStatus.get(nodeId) === nodeProgress.status) continue;
+                appliedStatus.set(nodeId, nodeProgress.status);
+
+                // Queued behind the workflow's concurrency limit, then running
+                if (nodeProgress.status === 'queued' || nodeProgress.status === 'running') {
+                    const taskId = taskIds.get(nodeId);
+                    if (taskId) {
+                        state.updateTask(taskId, { status: nodeProgress.status, startedAt: new Date() });
+                    } else {
+                        const nodeName = (node.data.label as string) || node.type || 'Node';
+                        const newTaskId = state.addTask(nodeId, nodeName, nodeProgress.status);
+                        taskIds.set(nodeId, newTaskId);
+                        if (nodeProgress.progress) {
+                            appliedProgress.set(nodeId, nodeProgress.progress);
+                            state.updateTask(newTaskId, { progress: nodeProgress.progress });
+                        }
+                    }
+                    if (nodeProgress.status === 'running') {
+                        state.updateNodeData(nodeId, { isProcessing: true, isLoading: true });
+                    }
+                    continue;
+                }
+
+                const outputData = nodeProgress.output ? getNodeOutputData(node, nodeProgress.output) : {};
+                // Mirror the cache the orchestrator saved, so the next save from the canvas keeps it
+                if (nodeProgress.output && nodeProgress.inputHash) {
+                    outputData.cache = { inputHash: nodeProgress.inputHash, output: nodeProgress.output };
+                }
+                state.updateNodeData(nodeId, { ...outputData, isProcessing: false, isLoading: false });
+
+                const taskId = taskIds.get(nodeId);
+                if (taskId) {
+                    state.updateTask(taskId, {
+                        status: nodeProgress.status,
+                        completedAt: new Date(),
+                        error: nodeProgress.error,
+                    });
+                }
+            }
+        },
+
+        finishExecution: async (runStatus) => {
+            const state = getState();
+
+            // Clear flags on nodes the run never reported as finished
+            for (const [nodeId, status] of appliedStatus) {
+                if (status !== 'running' && status !== 'queued') continue;
+                state.updateNodeData(nodeId, { isProcessing: false, isLoading: false });
+                const taskId = taskIds.get(nodeId);
+                if (taskId) {
+                    state.updateTask(taskId, {
+                        status: runStatus === 'cancelled' ? 'cancelled' : 'failed',
+                        completedAt: new Date(),
+                    });
+                }
+            }
+            appliedStatus.clear();
+            appliedProgress.clear();
+            taskIds.clear();
+
+            set({ activeRun: null });
+            if (state.workflowId) {
+                await state.loadWorkflowHistory(state.workflowId);
+            }
+        },
+    };
+};
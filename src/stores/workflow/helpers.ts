@@ -2,10 +2,27 @@ import type {
     TextNodeData,
     ImageNodeData,
     LLMNodeData,
+    ChatNodeData,
+    GenerateImageNodeData,
     VideoNodeData,
     CropImageNodeData,
+    TransformImageNodeData,
+    CompositeNodeData,
+    TrimVideoNodeData,
     ExtractFrameNodeData,
-    GeminiModel,
+    ConditionNodeData,
+    MapNodeData,
+    CollectNodeData,
+    WorkflowInputNodeData,
+    WorkflowOutputNodeData,
+    SubworkflowNodeData,
+    TemplateNodeData,
+} from '@/types/workflow.types';
+import {
+    DEFAULT_IMAGE_MODEL,
+    DEFAULT_IMAGE_PROVIDER,
+    DEFAULT_LLM_MODEL,
+    DEFAULT_LLM_PROVIDER,
 } from '@/types/workflow.types';
 
 // ============================================================================
@@ -29,7 +46,25 @@ export const generateTaskId = () => `task_${Date.now()}_${++nodeIdCounter}`;
 // Node Type Definition
 // ============================================================================
 
-export type NodeType = 'text' | 'image' | 'video' | 'cropImage' | 'extractFrame' | 'llm';
+export type NodeType =
+    | 'text'
+    | 'image'
+    | 'video'
+    | 'cropImage'
+    | 'transformImage'
+    | 'composite'
+    | 'trimVideo'
+    | 'extractFrame'
+    | 'llm'
+    | 'chat'
+    | 'generateImage'
+    | 'condition'
+    | 'map'
+    | 'collect'
+    | 'workflowInput'
+    | 'workflowOutput'
+    | 'subworkflow'
+    | 'template';
 
 // ============================================================================
 // Default Node Data
@@ -37,7 +72,25 @@ export type NodeType = 'text' | 'image' | 'video' | 'cropImage' | 'extractFrame'
 
 export const getDefaultNodeData = (
     type: NodeType
-): TextNodeData | ImageNodeData | VideoNodeData | CropImageNodeData | ExtractFrameNodeData | LLMNodeData => {
+):
+    | TextNodeData
+    | ImageNodeData
+    | VideoNodeData
+    | CropImageNodeData
+    | TransformImageNodeData
+    | CompositeNodeData
+    | TrimVideoNodeData
+    | ExtractFrameNodeData
+    | LLMNodeData
+    | ChatNodeData
+    | GenerateImageNodeData
+    | ConditionNodeData
+    | MapNodeData
+    | CollectNodeData
+    | WorkflowInputNodeData
+    | WorkflowOutputNodeData
+    | SubworkflowNodeData
+    | TemplateNodeData => {
     switch (type) {
         case 'text':
             return { text: '', label: 'Text' };
@@ -54,10 +107,53 @@ export const getDefaultNodeData = (
                 aspectRatio: 'custom' as const,
                 label: 'Crop'
             };
+        case 'transformImage':
+            return {
+                resizeMode: 'none' as const,
+                rotate: 0 as const,
+                format: 'png' as const,
+                quality: 85,
+                label: 'Transform Image'
+            };
+        case 'composite':
+            return { layers: [], label: 'Composite' };
+        case 'trimVideo':
+            return { start: 0, label: 'Trim Video' };
         case 'extractFrame':
             return { timestamp: 0, label: 'Extract Video Frame' };
         case 'llm':
-            return { model: 'gemini-2.5-flash' as GeminiModel, label: 'Run Any LLM' };
+            return { provider: DEFAULT_LLM_PROVIDER, model: DEFAULT_LLM_MODEL, label: 'Run Any LLM' };
+        case 'chat':
+            return { provider: DEFAULT_LLM_PROVIDER, model: DEFAULT_LLM_MODEL, messages: [], label: 'Chat' };
+        case 'generateImage':
+            return {
+                provider: DEFAULT_IMAGE_PROVIDER,
+                model: DEFAULT_IMAGE_MODEL,
+                width: 1024,
+                height: 1024,
+                count: 1,
+                label: 'Generate Image'
+            };
+        case 'condition':
+            return {
+                mode: 'if' as const,
+                rules: [{ id: 'rule_1', label: 'Rule 1', operator: 'contains' as const, value: '' }],
+                provider: DEFAULT_LLM_PROVIDER,
+                model: DEFAULT_LLM_MODEL,
+                label: 'Condition'
+            };
+        case 'map':
+            return { splitMode: 'auto' as const, label: 'Map' };
+        case 'collect':
+            return { format: 'lines' as const, label: 'Collect' };
+        case 'workflowInput':
+            return { name: 'input', valueType: 'text' as const, label: 'Workflow Input' };
+        case 'workflowOutput':
+            return { name: 'output', valueType: 'text' as const, label: 'Workflow Output' };
+        case 'subworkflow':
+            return { inputs: [], outputs: [], label: 'Sub-workflow' };
+        case 'template':
+            return { template: 'Write a {{ tone | default: "friendly" }} post about {{ product }}.', label: 'Template' };
     }
 };
 
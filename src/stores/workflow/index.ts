@@ -10,5 +10,6 @@ export * from './historySlice';
 export * from './taskSlice';
 export * from './persistenceSlice';
 export * from './runHistorySlice';
+export * from './executionSlice';
 export * from './selectors';
 
@@ -5,6 +5,7 @@ import type {
     ImageNodeData,
     ImageItem,
 } from '@/types/workflow.types';
+import { DEFAULT_MAX_CONCURRENCY } from '@/types/workflow.types';
 import type { StateCreator } from './types';
 import type { HistorySlice } from './historySlice';
 import { getWorkflowById, updateWorkflow, createWorkflow } from '@/lib/actions';
@@ -45,6 +46,7 @@ export interface PersistenceSlice {
     // Workflow management
     setWorkflow: (id: string | null, name: string, nodes: WorkflowNode[], edges: WorkflowEdge[]) => void;
     setWorkflowName: (name: string) => void;
+    setMaxConcurrency: (maxConcurrency: number) => void;
     clearWorkflow: () => void;
     markClean: () => void;
 
@@ -61,8 +63,8 @@ export interface PersistenceSlice {
         imageUrls: string[];
     };
 
-    // Output propagation
-    propagateOutput: (sourceNodeId: string, output: string) => void;
+    // Output propagation; with a handle, only along that handle's edges
+    propagateOutput: (sourceNodeId: string, output: string, sourceHandle?: string) => void;
 
     // Import/Export
     exportWorkflow: () => void;
@@ -74,6 +76,7 @@ export const createPersistenceSlice: StateCreator<PersistenceSlice> = (set, get)
         set({
             workflowId: id,
             workflowName: name,
+            maxConcurrency: DEFAULT_MAX_CONCURRENCY,
             nodes,
             edges,
             undoStack: [],
@@ -86,12 +89,17 @@ export const createPersistenceSlice: StateCreator<PersistenceSlice> = (set, get)
         set({ workflowName: name, isDirty: true });
     },
 
+    setMaxConcurrency: (maxConcurrency) => {
+        set({ maxConcurrency: Math.max(1, Math.round(maxConcurrency)), isDirty: true });
+    },
+
     clearWorkflow: () => {
         set({
             nodes: [],
             edges: [],
             workflowId: null,
             workflowName: 'untitled',
+            maxConcurrency: DEFAULT_MAX_CONCURRENCY,
             undoStack: [],
             redoStack: [],
             isDirty: false,
@@ -114,6 +122,7 @@ export const createPersistenceSlice: StateCreator<PersistenceSlice> = (set, get)
                 set({
                     workflowId: workflow.id,
                     workflowName: workflow.name,
+                    maxConcurrency: workflow.maxConcurrency,
                     nodes,
                     edges,
                     undoStack: [],
@@ -133,7 +142,7 @@ export const createPersistenceSlice: StateCreator<PersistenceSlice> = (set, get)
 
     saveWorkflow: async () => {
         const state = get();
-        const { workflowId, workflowName, nodes, edges, isDirty } = state;
+        const { workflowId, workflowName, maxConcurrency, nodes, edges, isDirty } = state;
 
         if (!workflowId || !isDirty) {
             return true;
@@ -147,6 +156,7 @@ export const createPersistenceSlice: StateCreator<PersistenceSlice> = (set, get)
             await updateWorkflow({
                 id: workflowId,
                 name: workflowName,
+                maxConcurrency,
                 nodes: cleanedNodes as any,
                 edges: edges as any,
             });
@@ -185,6 +195,7 @@ export const createPersistenceSlice: StateCreator<PersistenceSlice> = (set, get)
             set({
                 workflowId,
                 workflowName: name,
+                maxConcurrency: createResponse.workflow.maxConcurrency,
                 nodes,
                 edges,
                 undoStack: [],
@@ -239,8 +250,16 @@ export const createPersistenceSlice: StateCreator<PersistenceSlice> = (set, get)
                             }
                         }
                     }
-                    // Handle CropImageNode
-                    if (sourceNode.type === 'cropImage') {
+                    // Handle GenerateImageNode
+                    if (sourceNode.type === 'generateImage') {
+                        result.imageUrls.push(...(sourceNode.data.outputImageUrls ?? []));
+                    }
+                    // Handle CropImageNode, TransformImageNode and CompositeNode
+                    if (
+                        sourceNode.type === 'cropImage' ||
+                        sourceNode.type === 'transformImage' ||
+                        sourceNode.type === 'composite'
+                    ) {
                         const cropData = sourceNode.data as { outputImageUrl?: string };
                         if (cropData.outputImageUrl) {
                             result.imageUrls.push(cropData.outputImageUrl);
@@ -260,9 +279,11 @@ export const createPersistenceSlice: StateCreator<PersistenceSlice> = (set, get)
         return result;
     },
 
-    propagateOutput: (sourceNodeId, output) => {
+    propagateOutput: (sourceNodeId, output, sourceHandle) => {
         const state = get();
-        const outgoingEdges = state.edges.filter((e) => e.source === sourceNodeId);
+        const outgoingEdges = state.edges.filter(
+            (e) => e.source === sourceNodeId && (!sourceHandle || e.sourceHandle === sourceHandle)
+        );
 
         for (const edge of outgoingEdges) {
             const targetNode = state.nodes.find((n) => n.id === edge.target);
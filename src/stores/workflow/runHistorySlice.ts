@@ -62,6 +62,7 @@ export const createRunHistorySlice: StateCreator<RunHistorySlice> = (set, get) =
                 completedAt: run.completedAt ? new Date(run.completedAt) : undefined,
                 duration: run.duration || undefined,
                 nodeCount: run.nodeCount,
+                inputs: (run.inputs as Record<string, string> | null) ?? undefined,
                 nodeRuns: run.nodeRuns.map((nr) => ({
                     id: nr.id,
                     nodeId: nr.nodeId,
@@ -74,6 +75,8 @@ export const createRunHistorySlice: StateCreator<RunHistorySlice> = (set, get) =
                     inputData: nr.inputData as Record<string, unknown> | undefined,
                     outputData: nr.outputData as Record<string, unknown> | undefined,
                     error: nr.error || undefined,
+                    iteration: nr.iteration ?? undefined,
+                    parentNodeRunId: nr.parentNodeRunId ?? undefined,
                 })),
             }));
 
@@ -1,4 +1,5 @@
-import type { RunTask } from '@/types/workflow.types';
+import type { RunTask, RunTaskStatus } from '@/types/workflow.types';
+import { getNodeRunTag } from '@/types/workflow.types';
 import type { StateCreator } from './types';
 import { generateTaskId } from './helpers';
 
@@ -7,20 +8,21 @@ import { generateTaskId } from './helpers';
 // ============================================================================
 
 export interface TaskSlice {
-    addTask: (nodeId: string, nodeName: string) => string;
+    addTask: (nodeId: string, nodeName: string, status?: RunTaskStatus) => string;
     updateTask: (taskId: string, updates: Partial<RunTask>) => void;
     removeTask: (taskId: string) => void;
+    cancelTask: (taskId: string) => Promise<void>;
     clearAllTasks: () => void;
 }
 
-export const createTaskSlice: StateCreator<TaskSlice> = (set) => ({
-    addTask: (nodeId, nodeName) => {
+export const createTaskSlice: StateCreator<TaskSlice> = (set, get) => ({
+    addTask: (nodeId, nodeName, status = 'running') => {
         const taskId = generateTaskId();
         const task: RunTask = {
             id: taskId,
             nodeId,
             nodeName,
-            status: 'running',
+            status,
             startedAt: new Date(),
             progress: '1/1',
         };
@@ -44,6 +46,27 @@ export const createTaskSlice: StateCreator<TaskSlice> = (set) => ({
         }));
     },
 
+    cancelTask: async (taskId) => {
+        const { runTasks, activeRun } = get();
+        const task = runTasks.find((t) => t.id === taskId);
+        if (!task || task.status !== 'running') return;
+
+        // Standalone node runs know their run id; nodes inside a workflow run are found by tag.
+        // The task is marked cancelled once the run reports back.
+        const query = task.triggerRunId
+            ? `runId=${encodeURIComponent(task.triggerRunId)}`
+            : activeRun
+                ? `tag=${encodeURIComponent(getNodeRunTag(activeRun.triggerRunId, task.nodeId))}`
+                : null;
+        if (!query) return;
+
+        try {
+            await fetch(`/api/trigger?${query}`, { method: 'DELETE' });
+        } catch (error) {
+            console.error('Failed to cancel task:', error);
+        }
+    },
+
     clearAllTasks: () => {
         set({ runTasks: [] });
     },
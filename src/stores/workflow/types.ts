@@ -5,7 +5,9 @@ import type {
     HistoryState,
     RunTask,
     WorkflowRun,
+    ActiveWorkflowRun,
 } from '@/types/workflow.types';
+import { DEFAULT_MAX_CONCURRENCY } from '@/types/workflow.types';
 
 // ============================================================================
 // Store State Types
@@ -18,6 +20,7 @@ export interface WorkflowStateData {
     viewport: Viewport;
     workflowId: string | null;
     workflowName: string;
+    maxConcurrency: number; // node tasks a workflow run executes at once
     isDirty: boolean;
     isSaving: boolean;
     isLoading: boolean;
@@ -30,6 +33,9 @@ export interface WorkflowStateData {
     currentRun: WorkflowRun | null;
     isLoadingHistory: boolean;
 
+    // Server-side workflow execution being followed via Realtime
+    activeRun: ActiveWorkflowRun | null;
+
     // History for undo/redo
     undoStack: HistoryState[];
     redoStack: HistoryState[];
@@ -46,6 +52,7 @@ export const initialState: WorkflowStateData = {
     viewport: { x: 0, y: 0, zoom: 0.55 },
     workflowId: null,
     workflowName: 'untitled',
+    maxConcurrency: DEFAULT_MAX_CONCURRENCY,
     isDirty: false,
     isSaving: false,
     isLoading: false,
@@ -53,6 +60,7 @@ export const initialState: WorkflowStateData = {
     workflowRuns: [],
     currentRun: null,
     isLoadingHistory: false,
+    activeRun: null,
     undoStack: [],
     redoStack: [],
     maxHistorySize: 50,
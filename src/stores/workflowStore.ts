@@ -16,6 +16,8 @@ import {
     type PersistenceSlice,
     createRunHistorySlice,
     type RunHistorySlice,
+    createExecutionSlice,
+    type ExecutionSlice,
 } from './workflow';
 
 // ============================================================================
@@ -28,7 +30,8 @@ export type WorkflowState = WorkflowStateData &
     HistorySlice &
     TaskSlice &
     PersistenceSlice &
-    RunHistorySlice;
+    RunHistorySlice &
+    ExecutionSlice;
 
 // ============================================================================
 // Store Creation
@@ -53,6 +56,7 @@ export const useWorkflowStore = create<WorkflowState>()(
             ...createTaskSlice(typedSet, typedGet),
             ...createPersistenceSlice(typedSet, typedGet),
             ...createRunHistorySlice(typedSet, typedGet),
+            ...createExecutionSlice(typedSet, typedGet),
         };
     })
 );
@@ -0,0 +1,126 @@
+/**
+ * Batch Run Workflow Task - Trigger.dev Task for batch runs
+ *
+ * Runs a workflow once per row of a BatchRun's dataset, each row's values
+ * going to the workflow input nodes. Rows go through the run-workflow
+ * orchestrator (run scope 'batch') `concurrency` at a time; every row's
+ * WorkflowRun points back at the batch, so its outputs and node runs can be
+ * read from the history. Rows whose run failed before it was recorded keep
+ * their error on the batch instead.
+ */
+
+import { task, logger } from "@trigger.dev/sdk/v3";
+import prisma from "@/lib/db";
+import { runWorkflowTask } from "./runWorkflowTask";
+import { batchRowQueue } from "./queues";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface BatchRunWorkflowTaskPayload {
+    batchRunId: string;
+    userId: string;
+}
+
+export interface BatchRunWorkflowTaskResult {
+    status: "completed" | "cancelled";
+    /** Rows whose run did not complete */
+    failedRows: number;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const toErrorMessage = (error: unknown): string => {
+    if (error == null) return "Unknown error";
+    if (typeof error === "string") return error;
+    const message = (error as { message?: unknown }).message;
+    return typeof message === "string" ? message : JSON.stringify(error);
+};
+
+// ============================================================================
+// Task Definition
+// ============================================================================
+
+export const batchRunWorkflowTask = task({
+    id: "batch-run-workflow",
+    maxDuration: 300, // time spent waiting on the row runs is not counted
+    retry: {
+        // Retrying would run every row again
+        maxAttempts: 1,
+    },
+    run: async (payload: BatchRunWorkflowTaskPayload): Promise<BatchRunWorkflowTaskResult> => {
+        const { batchRunId, userId } = payload;
+
+        const batchRun = await prisma.batchRun.findFirst({
+            where: { id: batchRunId, workflow: { userId } },
+        });
+        if (!batchRun) {
+            throw new Error("Batch run not found");
+        }
+
+        const rows = batchRun.rows as unknown as Record<string, string>[];
+        const chunkSize = Math.max(1, batchRun.concurrency);
+        const rowErrors: Record<number, string> = {};
+        let failedRows = 0;
+
+        logger.info("Starting batch run", { batchRunId, workflowId: batchRun.workflowId, rows: rows.length, chunkSize });
+
+        for (let start = 0; start < rows.length; start += chunkSize) {
+            // Stopped from the batch run dialog
+            const current = await prisma.batchRun.findUnique({
+                where: { id: batchRunId },
+                select: { status: true },
+            });
+            if (current?.status !== "running") {
+                logger.info("Batch run was stopped", { batchRunId, finishedRows: start });
+                return { status: "cancelled", failedRows };
+            }
+
+            const chunk = rows.slice(start, start + chunkSize);
+            const results = await runWorkflowTask.batchTriggerAndWait(
+                chunk.map((inputs, i) => ({
+                    payload: {
+                        workflowId: batchRun.workflowId,
+                        userId,
+                        runScope: "batch" as const,
+                        inputs,
+                        batchRow: { batchRunId, index: start + i },
+                    },
+                    options: {
+                        queue: batchRowQueue.name,
+                        concurrencyKey: userId, // per-user copy of batchRowQueue
+                    },
+                }))
+            );
+
+            // Results come back in the same order the rows were sent
+            results.runs.forEach((result, i) => {
+                if (result.ok && result.output.status === "completed") return;
+                failedRows++;
+                if (!result.ok) rowErrors[start + i] = toErrorMessage(result.error);
+            });
+
+            await prisma.batchRun.update({
+                where: { id: batchRunId },
+                data: { rowErrors },
+            });
+        }
+
+        await prisma.batchRun.updateMany({
+            where: { id: batchRunId, status: "running" },
+            data: { status: "completed", completedAt: new Date() },
+        });
+
+        logger.info("Batch run finished", { batchRunId, failedRows });
+        return { status: "completed", failedRows };
+    },
+    onFailure: async ({ payload }) => {
+        await prisma.batchRun.updateMany({
+            where: { id: payload.batchRunId, status: "running" },
+            data: { status: "failed", completedAt: new Date() },
+        });
+    },
+});
@@ -0,0 +1,89 @@
+/**
+ * Chat Task - Trigger.dev Task for chat nodes
+ *
+ * Sends the next user turn of a conversation to the node's provider along
+ * with the turns before it, and returns the conversation with both turns
+ * appended. Like the LLM task, partial output is streamed into the root
+ * run's metadata when a nodeId is given.
+ */
+
+import { task, logger, metadata } from "@trigger.dev/sdk/v3";
+import {
+    formatChatTranscript,
+    getPartialOutputKey,
+    type ChatMessage,
+    type LLMProviderId,
+} from "@/types/workflow.types";
+import { generateText } from "@/lib/llm";
+import { nodeTaskQueue } from "./queues";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ChatTaskPayload {
+    /** Defaults to Gemini */
+    provider?: LLMProviderId;
+    model: string;
+    systemPrompt?: string;
+    /** Conversation so far, oldest first */
+    history: ChatMessage[];
+    /** Next user turn */
+    message: string;
+    /** Workflow node this call belongs to; enables partial output streaming */
+    nodeId?: string;
+    /** User whose workspace credentials the call is made with; set server-side */
+    userId?: string;
+}
+
+export interface ChatTaskResult {
+    reply: string;
+    transcript: string;
+    /** History with the new user turn and the reply appended */
+    messages: ChatMessage[];
+}
+
+// ============================================================================
+// Task Definition
+// ============================================================================
+
+export const chatTask = task({
+    id: "llm-chat",
+    queue: nodeTaskQueue,
+    maxDuration: 120, // 2 minutes max for LLM calls
+    retry: {
+        maxAttempts: 2,
+        minTimeoutInMs: 1000,
+        maxTimeoutInMs: 5000,
+        factor: 2,
+    },
+    run: async (payload: ChatTaskPayload): Promise<ChatTaskResult> => {
+        const { provider, model, systemPrompt, history, message, nodeId, userId } = payload;
+
+        logger.info("Starting chat task", {
+            provider,
+            model,
+            hasSystemPrompt: !!systemPrompt,
+            historyLength: history.length,
+        });
+
+        const reply = await generateText({
+            provider,
+            userId,
+            model,
+            systemPrompt,
+            userMessage: message,
+            history: history.map(({ role, text }) => ({ role, text })),
+            onText: nodeId ? (partial: string) => metadata.root.set(getPartialOutputKey(nodeId), partial) : undefined,
+        });
+
+        const messages: ChatMessage[] = [
+            ...history,
+            { id: crypto.randomUUID(), role: "user", text: message },
+            { id: crypto.randomUUID(), role: "model", text: reply },
+        ];
+
+        logger.info("Chat task completed", { outputLength: reply.length, historyLength: messages.length });
+        return { reply, transcript: formatChatTranscript(messages), messages };
+    },
+});
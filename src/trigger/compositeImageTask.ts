@@ -0,0 +1,217 @@
+/**
+ * Composite Image Task - Trigger.dev Task for Text and Logo Overlays
+ *
+ * Draws a composite node's layers over its base image with FFmpeg: image
+ * layers through the overlay filter, text layers through drawtext. The
+ * result is uploaded via Transloadit.
+ */
+
+import { task, logger } from "@trigger.dev/sdk/v3";
+import { execFileSync } from "child_process";
+import * as fs from "fs/promises";
+import * as path from "path";
+import * as os from "os";
+import { imageSizeFromFile } from "image-size/fromFile";
+import {
+    MAX_COMPOSITE_LAYERS,
+    type CompositeFont,
+    type CompositeLayer,
+} from "@/types/workflow.types";
+import { uploadImageDataToTransloadit } from "@/lib/transloadit";
+import { nodeTaskQueue } from "./queues";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface CompositeImageTaskPayload {
+    baseImageUrl: string;
+    /** Drawn in order; text and imageUrl already resolved from connected inputs */
+    layers: CompositeLayer[];
+}
+
+export interface CompositeImageTaskResult {
+    compositeImageUrl: string;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+// fontconfig generic families
+const FONT_FAMILIES: Record<CompositeFont, string> = {
+    sans: "Sans",
+    serif: "Serif",
+    mono: "Monospace",
+};
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+async function getFfmpegPath(): Promise<string> {
+    const m = await import("ffmpeg-static");
+    const p = typeof m === "string" ? m : (m as { default?: string | null }).default;
+    if (typeof p !== "string" || !p) throw new Error("ffmpeg-static path not found");
+    return p;
+}
+
+async function downloadTo(url: string, filePath: string): Promise<void> {
+    const res = await fetch(url);
+    if (!res.ok) {
+        throw new Error(`Failed to fetch image: ${res.status}`);
+    }
+    await fs.writeFile(filePath, Buffer.from(await res.arrayBuffer()));
+}
+
+const clamp = (value: number | undefined, min: number, max: number): number =>
+    Math.min(Math.max(Number(value) || 0, min), max);
+
+/**
+ * Position expression along one axis. `frame` and `layer` name the
+ * filter's own size variables (W and w for overlay, w and text_w for drawtext).
+ */
+function toPosition(
+    align: CompositeLayer["alignX"] | CompositeLayer["alignY"],
+    offset: number,
+    frame: string,
+    layer: string
+): string {
+    if (align === "left" || align === "top") return String(offset);
+    if (align === "right" || align === "bottom") return `${frame}-${layer}-${offset}`;
+    return `(${frame}-${layer})/2+${offset}`;
+}
+
+/**
+ * FFmpeg filter graph drawing each layer over the previous result. Input 0
+ * is the base image; image layers read the inputs after it, in order, and
+ * text layers their text files. Returns the graph and its output label.
+ */
+function buildFilterGraph(
+    layers: CompositeLayer[],
+    base: { width: number; height: number },
+    textFiles: Map<string, string>
+): { graph: string; output: string } {
+    const filters: string[] = [];
+    let previous = "0:v";
+    let imageInput = 1;
+
+    layers.forEach((layer, index) => {
+        const label = `l${index}`;
+        const offsetX = Math.round((clamp(layer.offsetX, 0, 100) / 100) * base.width);
+        const offsetY = Math.round((clamp(layer.offsetY, 0, 100) / 100) * base.height);
+        const opacity = clamp(layer.opacity, 0, 100) / 100;
+
+        if (layer.type === "image") {
+            const width = Math.max(1, Math.round((clamp(layer.scale, 1, 100) / 100) * base.width));
+            filters.push(
+                `[${imageInput++}:v]scale=${width}:-1,format=rgba,colorchannelmixer=aa=${opacity}[o${index}]`,
+                `[${previous}][o${index}]overlay=x=${toPosition(layer.alignX, offsetX, "W", "w")}` +
+                    `:y=${toPosition(layer.alignY, offsetY, "H", "h")}:format=auto[${label}]`
+            );
+        } else {
+            const fontSize = Math.max(1, Math.round((clamp(layer.scale, 1, 100) / 100) * base.height));
+            const color = layer.color && HEX_COLOR.test(layer.color) ? layer.color.slice(1) : "ffffff";
+            const font = `${FONT_FAMILIES[layer.font ?? "sans"] ?? FONT_FAMILIES.sans}${layer.bold ? "\\:bold" : ""}`;
+            // Text comes from a file and expansion is off, so it needs no escaping
+            filters.push(
+                `[${previous}]drawtext=textfile='${textFiles.get(layer.id)}':expansion=none` +
+                    `:font='${font}':fontsize=${fontSize}:fontcolor=0x${color}@${opacity}` +
+                    `:x=${toPosition(layer.alignX, offsetX, "w", "text_w")}` +
+                    `:y=${toPosition(layer.alignY, offsetY, "h", "text_h")}[${label}]`
+            );
+        }
+        previous = label;
+    });
+
+    return { graph: filters.join(";"), output: previous };
+}
+
+// ============================================================================
+// Task Definition
+// ============================================================================
+
+export const compositeImageTask = task({
+    id: "composite-image",
+    queue: nodeTaskQueue,
+    maxDuration: 180,
+    retry: {
+        maxAttempts: 3,
+        minTimeoutInMs: 1000,
+        maxTimeoutInMs: 5000,
+        factor: 2,
+    },
+    run: async (payload: CompositeImageTaskPayload): Promise<CompositeImageTaskResult> => {
+        const baseImageUrl = String(payload.baseImageUrl ?? "");
+        const layers = (payload.layers ?? []).slice(0, MAX_COMPOSITE_LAYERS);
+        if (layers.length === 0) {
+            throw new Error("Add a text or image layer to composite");
+        }
+
+        logger.info("Starting composite image task (FFmpeg)", {
+            baseImageUrl: baseImageUrl.substring(0, 50) + "...",
+            layers: layers.map((layer) => layer.type),
+        });
+
+        const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "composite-"));
+        // No extensions on inputs: FFmpeg detects the image format itself
+        const basePath = path.join(tmpDir, "base");
+        const outputPath = path.join(tmpDir, "composite.png");
+
+        try {
+            // 1. Download the base image and every image layer; write text layers to files
+            await downloadTo(baseImageUrl, basePath);
+            const overlayPaths: string[] = [];
+            const textFiles = new Map<string, string>();
+            for (const [index, layer] of layers.entries()) {
+                if (layer.type === "image") {
+                    if (!layer.imageUrl) throw new Error(`Layer ${index + 1} has no image`);
+                    const overlayPath = path.join(tmpDir, `overlay-${index}`);
+                    await downloadTo(layer.imageUrl, overlayPath);
+                    overlayPaths.push(overlayPath);
+                } else {
+                    const textPath = path.join(tmpDir, `text-${index}.txt`);
+                    await fs.writeFile(textPath, (layer.text ?? "").replace(/\r\n?/g, "\n"));
+                    textFiles.set(layer.id, textPath);
+                }
+            }
+
+            // 2. Sizes and offsets are relative to the base image
+            const size = await imageSizeFromFile(basePath);
+            const base = { width: Number(size.width), height: Number(size.height) };
+            if (!Number.isFinite(base.width) || !Number.isFinite(base.height)) {
+                throw new Error("Could not get base image dimensions");
+            }
+
+            // 3. Draw the layers
+            const { graph, output } = buildFilterGraph(layers, base, textFiles);
+            const ffmpegPath = await getFfmpegPath();
+            execFileSync(
+                ffmpegPath,
+                [
+                    "-y",
+                    "-i", basePath,
+                    ...overlayPaths.flatMap((overlayPath) => ["-i", overlayPath]),
+                    "-filter_complex", graph,
+                    "-map", `[${output}]`,
+                    "-frames:v", "1",
+                    outputPath,
+                ],
+                { maxBuffer: 10 * 1024 * 1024 }
+            );
+
+            // 4. Upload the result
+            const composite = await fs.readFile(outputPath);
+            const uploaded = await uploadImageDataToTransloadit(
+                new Blob([new Uint8Array(composite)], { type: "image/png" }),
+                "composite.png"
+            );
+
+            logger.info("Composite image task completed", {
+                compositeImageUrl: uploaded.ssl_url.substring(0, 50) + "...",
+            });
+
+            return { compositeImageUrl: uploaded.ssl_url };
+        } finally {
+            await fs.rm(tmpDir, { recursive: true, force: true });
+        }
+    },
+});
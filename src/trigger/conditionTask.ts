@@ -0,0 +1,108 @@
+/**
+ * Condition Task - Trigger.dev Task for condition (If / Switch) nodes
+ *
+ * Tests the node's rules against its input text and returns the branch
+ * taken. Text, regex and JSON-path rules are evaluated locally; LLM rules
+ * ask the node's model their yes/no question about the input. A regex that
+ * backtracks for too long fails the node rather than stalling the worker.
+ */
+
+import { task, logger } from "@trigger.dev/sdk/v3";
+import * as vm from "vm";
+import type { ConditionNodeData, LLMProviderId } from "@/types/workflow.types";
+import {
+    evaluateConditionRule,
+    getActiveRules,
+    getMatchedBranch,
+    isAffirmativeAnswer,
+} from "@/lib/conditionEvaluator";
+import { generateText } from "@/lib/llm";
+import { nodeTaskQueue } from "./queues";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ConditionTaskPayload {
+    mode: ConditionNodeData["mode"];
+    rules: ConditionNodeData["rules"];
+    provider?: LLMProviderId;
+    model: string;
+    text: string;
+    /** User whose workspace credentials LLM rules use; set server-side */
+    userId?: string;
+}
+
+export interface ConditionTaskResult {
+    /** Output handle of the branch taken */
+    branch: string;
+    /** Input text, passed through on the branch taken */
+    text: string;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const REGEX_TIMEOUT_MS = 1000;
+
+/**
+ * Test a regex with a time limit: vm's timeout interrupts even a synchronous
+ * backtracking match
+ */
+const testRegexWithTimeout = (regex: RegExp, text: string): boolean => {
+    try {
+        return vm.runInNewContext("regex.test(text)", { regex, text }, { timeout: REGEX_TIMEOUT_MS }) as boolean;
+    } catch (error) {
+        if ((error as { code?: string }).code === "ERR_SCRIPT_EXECUTION_TIMEOUT") {
+            throw new Error(`Regular expression ${regex.source} took over ${REGEX_TIMEOUT_MS / 1000}s to evaluate`);
+        }
+        throw error;
+    }
+};
+
+const askYesNo = async (payload: ConditionTaskPayload, question: string): Promise<boolean> => {
+    const answer = await generateText({
+        provider: payload.provider,
+        userId: payload.userId,
+        model: payload.model,
+        systemPrompt: "Answer the question about the input below with a single word, yes or no.",
+        userMessage: `Question: ${question}\n\nInput:\n${payload.text}`,
+    });
+    logger.info("LLM rule answered", { question, answer });
+    return isAffirmativeAnswer(answer);
+};
+
+// ============================================================================
+// Task Definition
+// ============================================================================
+
+export const conditionTask = task({
+    id: "evaluate-condition",
+    queue: nodeTaskQueue,
+    maxDuration: 60,
+    run: async (payload: ConditionTaskPayload): Promise<ConditionTaskResult> => {
+        const { text } = payload;
+        const rules = getActiveRules(payload);
+
+        logger.info("Evaluating condition", { mode: payload.mode, ruleCount: rules.length });
+
+        // Rules are tested in order and the first match wins, so later LLM
+        // rules are never asked once an earlier rule has matched
+        let matchIndex = -1;
+        for (let i = 0; i < rules.length; i++) {
+            const rule = rules[i];
+            const matched = rule.operator === "llm"
+                ? await askYesNo(payload, rule.value)
+                : evaluateConditionRule(rule, text, testRegexWithTimeout);
+            if (matched) {
+                matchIndex = i;
+                break;
+            }
+        }
+
+        const branch = getMatchedBranch(payload, matchIndex);
+        logger.info("Condition evaluated", { branch });
+        return { branch, text };
+    },
+});
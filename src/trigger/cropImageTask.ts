@@ -11,6 +11,7 @@ import * as fs from "fs/promises";
 import * as path from "path";
 import * as os from "os";
 import { imageSizeFromFile } from "image-size/fromFile";
+import { nodeTaskQueue } from "./queues";
 
 // ============================================================================
 // Types
@@ -242,6 +243,7 @@ async function uploadCroppedImageToTransloaditV2(localPath: string): Promise<str
 
 export const cropImageTask = task({
     id: "crop-image",
+    queue: nodeTaskQueue,
     maxDuration: 180,
     retry: {
         maxAttempts: 3,
@@ -0,0 +1,137 @@
+/**
+ * Deliver Webhook Task - Trigger.dev Task for outgoing webhooks
+ *
+ * POSTs one WebhookDelivery to its webhook's URL, signed with the webhook
+ * secret (see src/lib/webhooks.ts). Anything but a 2xx response is retried
+ * with exponential backoff; every attempt is recorded on the delivery, which
+ * is marked failed once the retries run out.
+ */
+
+import { task, logger, AbortTaskRunError } from "@trigger.dev/sdk/v3";
+import prisma from "@/lib/db";
+import {
+    assertWebhookUrlAllowed,
+    signWebhookPayload,
+    WEBHOOK_DELIVERY_HEADER,
+    WEBHOOK_EVENT_HEADER,
+    WEBHOOK_SIGNATURE_HEADER,
+    WEBHOOK_TIMESTAMP_HEADER,
+} from "@/lib/webhooks";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface DeliverWebhookTaskPayload {
+    deliveryId: string;
+}
+
+export interface DeliverWebhookTaskResult {
+    status: "delivered" | "skipped";
+    responseStatus?: number;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** Time a receiver has to respond before the attempt counts as failed */
+const REQUEST_TIMEOUT_MS = 10_000;
+
+/** Response body kept in the delivery log when a receiver rejects a request */
+const MAX_ERROR_BODY_LENGTH = 500;
+
+const toErrorMessage = (error: unknown): string =>
+    error instanceof Error ? error.message : String(error);
+
+// ============================================================================
+// Task Definition
+// ============================================================================
+
+export const deliverWebhookTask = task({
+    id: "deliver-webhook",
+    maxDuration: 60,
+    retry: {
+        maxAttempts: 6,
+        minTimeoutInMs: 5_000,
+        maxTimeoutInMs: 10 * 60_000,
+        factor: 3,
+        randomize: true,
+    },
+    run: async (payload: DeliverWebhookTaskPayload): Promise<DeliverWebhookTaskResult> => {
+        const delivery = await prisma.webhookDelivery.findUnique({
+            where: { id: payload.deliveryId },
+            include: { webhook: true },
+        });
+        if (!delivery || !delivery.webhook.enabled) {
+            logger.info("Webhook removed or disabled, skipping delivery", { deliveryId: payload.deliveryId });
+            return { status: "skipped" };
+        }
+
+        // The host may resolve elsewhere than when the webhook was saved; a
+        // blocked destination is not retried
+        try {
+            await assertWebhookUrlAllowed(delivery.webhook.url);
+        } catch (err) {
+            await prisma.webhookDelivery.update({
+                where: { id: delivery.id },
+                data: { attempts: { increment: 1 }, error: toErrorMessage(err) },
+            });
+            throw new AbortTaskRunError(toErrorMessage(err));
+        }
+
+        // The body is the same on every attempt; only the timestamp and signature change
+        const body = JSON.stringify({ id: delivery.id, ...(delivery.payload as Record<string, unknown>) });
+        const timestamp = Math.floor(Date.now() / 1000);
+
+        let responseStatus: number | undefined;
+        let error: string | undefined;
+        try {
+            const response = await fetch(delivery.webhook.url, {
+                method: "POST",
+                headers: {
+                    "Content-Type": "application/json",
+                    [WEBHOOK_EVENT_HEADER]: delivery.event,
+                    [WEBHOOK_DELIVERY_HEADER]: delivery.id,
+                    [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+                    [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(delivery.webhook.secret, timestamp, body),
+                },
+                body,
+                // A redirect could lead to a host that was never checked; it counts as a failure
+                redirect: "manual",
+                signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+            });
+            responseStatus = response.status;
+            if (!response.ok) {
+                const text = await response.text().catch(() => "");
+                error = `HTTP ${response.status}${text ? `: ${text.slice(0, MAX_ERROR_BODY_LENGTH)}` : ""}`;
+            }
+        } catch (err) {
+            error = toErrorMessage(err);
+        }
+
+        await prisma.webhookDelivery.update({
+            where: { id: delivery.id },
+            data: {
+                attempts: { increment: 1 },
+                responseStatus: responseStatus ?? null,
+                error: error ?? null,
+                ...(error ? {} : { status: "delivered", deliveredAt: new Date() }),
+            },
+        });
+
+        if (error) {
+            logger.warn("Webhook delivery attempt failed", { deliveryId: delivery.id, error });
+            throw new Error(error);
+        }
+
+        logger.info("Webhook delivered", { deliveryId: delivery.id, responseStatus });
+        return { status: "delivered", responseStatus };
+    },
+    onFailure: async ({ payload }) => {
+        await prisma.webhookDelivery.update({
+            where: { id: payload.deliveryId },
+            data: { status: "failed" },
+        });
+    },
+});
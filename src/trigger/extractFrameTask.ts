@@ -11,6 +11,7 @@ import { execSync } from "child_process";
 import * as fs from "fs/promises";
 import * as path from "path";
 import * as os from "os";
+import { nodeTaskQueue } from "./queues";
 
 // ============================================================================
 // Types
@@ -122,6 +123,7 @@ async function uploadFrameToTransloadit(localPath: string): Promise<string> {
 
 export const extractFrameTask = task({
     id: "extract-video-frame",
+    queue: nodeTaskQueue,
     maxDuration: 300,
     retry: {
         maxAttempts: 3,
@@ -0,0 +1,80 @@
+/**
+ * Generate Image Task - Trigger.dev Task for generate-image nodes
+ *
+ * Generates images on the node's provider (see src/lib/imageGeneration),
+ * from a prompt and optionally a reference image, then uploads each one
+ * via Transloadit so the node outputs lasting URLs.
+ */
+
+import { task, logger } from "@trigger.dev/sdk/v3";
+import { MAX_GENERATED_IMAGES, type ImageProviderId } from "@/types/workflow.types";
+import { generateImages } from "@/lib/imageGeneration";
+import { uploadImageDataToTransloadit } from "@/lib/transloadit";
+import { nodeTaskQueue } from "./queues";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface GenerateImageTaskPayload {
+    /** Defaults to Replicate */
+    provider?: ImageProviderId;
+    model: string;
+    prompt: string;
+    negativePrompt?: string;
+    /** Image to start from (image-to-image) */
+    referenceImageUrl?: string;
+    width: number;
+    height: number;
+    seed?: number;
+    count: number;
+}
+
+export interface GenerateImageTaskResult {
+    imageUrls: string[];
+}
+
+// ============================================================================
+// Task Definition
+// ============================================================================
+
+export const generateImageTask = task({
+    id: "generate-image",
+    queue: nodeTaskQueue,
+    maxDuration: 300, // hosted models can queue for a while
+    retry: {
+        maxAttempts: 2,
+        minTimeoutInMs: 1000,
+        maxTimeoutInMs: 5000,
+        factor: 2,
+    },
+    run: async (payload: GenerateImageTaskPayload): Promise<GenerateImageTaskResult> => {
+        const { provider, model, referenceImageUrl, width, height, seed } = payload;
+        const count = Math.min(Math.max(Math.round(payload.count) || 1, 1), MAX_GENERATED_IMAGES);
+
+        logger.info("Starting generate image task", {
+            provider,
+            model,
+            width,
+            height,
+            seed,
+            count,
+            hasReference: !!referenceImageUrl,
+        });
+
+        const images = await generateImages({ ...payload, count });
+
+        const imageUrls: string[] = [];
+        for (const [index, image] of images.entries()) {
+            const extension = image.mimeType.split("/")[1]?.split(";")[0] || "png";
+            const uploaded = await uploadImageDataToTransloadit(
+                new Blob([new Uint8Array(image.data)], { type: image.mimeType }),
+                `generated-${index + 1}.${extension}`
+            );
+            imageUrls.push(uploaded.ssl_url);
+        }
+
+        logger.info("Generate image task completed", { imageCount: imageUrls.length });
+        return { imageUrls };
+    },
+});
@@ -5,5 +5,12 @@
  */
 
 export { llmTask } from './llmTask';
+export { chatTask } from './chatTask';
+export { generateImageTask } from './generateImageTask';
 export { cropImageTask } from './cropImageTask';
+export { transformImageTask } from './transformImageTask';
+export { compositeImageTask } from './compositeImageTask';
+export { trimVideoTask } from './trimVideoTask';
 export { extractFrameTask } from './extractFrameTask';
+export { conditionTask } from './conditionTask';
+export { runWorkflowTask } from './runWorkflowTask';
@@ -1,26 +1,55 @@
 /**
- * LLM Task - Trigger.dev Task for Google Gemini API
+ * LLM Task - Trigger.dev Task for LLM nodes
  * 
- * This task runs LLM inference using the Google Gemini API.
- * Supports multimodal prompts with images.
+ * This task runs LLM inference on the node's provider (Gemini, OpenAI,
+ * Anthropic or a local OpenAI-compatible server, see src/lib/llm) with the
+ * user's workspace credentials. Supports multimodal prompts with images.
+ * When a nodeId is given, partial output is streamed into the root run's
+ * metadata so the canvas can render tokens as they arrive.
+ * With a response schema, the response is validated against it and the model
+ * is re-asked with the validation errors until it complies.
  */
 
-import { task, logger } from "@trigger.dev/sdk/v3";
-import { GoogleGenerativeAI, HarmCategory, HarmBlockThreshold } from "@google/generative-ai";
+import { task, logger, metadata } from "@trigger.dev/sdk/v3";
+import {
+    DEFAULT_STRUCTURED_OUTPUT_RETRIES,
+    getPartialOutputKey,
+    type LLMGenerationParams,
+    type LLMProviderId,
+} from "@/types/workflow.types";
+import { detectImageMimeType, generateCandidates, type LLMImage } from "@/lib/llm";
+import { getFieldValues, parseStructuredOutput, type JsonSchema } from "@/lib/structuredOutput";
+import { nodeTaskQueue } from "./queues";
 
 // ============================================================================
 // Types
 // ============================================================================
 
 export interface LLMTaskPayload {
-    model: 'gemini-2.5-flash' | 'gemini-1.5-flash' | 'gemini-1.5-pro' | 'gemini-1.0-pro';
+    /** Defaults to Gemini */
+    provider?: LLMProviderId;
+    model: string;
     systemPrompt?: string;
     userMessage: string;
-    images?: string[]; // base64 encoded without data URI prefix
+    images?: string[]; // base64 encoded without data URI prefix, or image URLs
+    /** Sampling settings; unset fields use the provider's defaults */
+    generation?: LLMGenerationParams;
+    /** JSON Schema of a structured output; the response must be a JSON object matching it */
+    responseSchema?: JsonSchema;
+    /** Re-asks after a response fails schema validation */
+    maxRetries?: number;
+    /** Workflow node this call belongs to; enables partial output streaming */
+    nodeId?: string;
+    /** User whose workspace credentials the call is made with; set server-side */
+    userId?: string;
 }
 
 export interface LLMTaskResult {
     output: string;
+    /** Every response, when the call asked for more than one */
+    candidates?: string[];
+    /** Top-level fields of a structured output, as text */
+    fields?: Record<string, string>;
 }
 
 // ============================================================================
@@ -28,32 +57,30 @@ export interface LLMTaskResult {
 // ============================================================================
 
 /**
- * Detect MIME type from base64 image data
+ * Resolve an image reference to raw base64.
+ * Workflow runs pass image URLs (uploads, crop/frame outputs) rather than base64.
  */
-const detectImageMimeType = (imageBase64: string): string => {
-    if (imageBase64.startsWith('/9j/')) return 'image/jpeg';
-    if (imageBase64.startsWith('iVBORw')) return 'image/png';
-    if (imageBase64.startsWith('R0lGOD')) return 'image/gif';
-    if (imageBase64.startsWith('UklGR')) return 'image/webp';
-    return 'image/jpeg';
+const resolveImageBase64 = async (image: string): Promise<string> => {
+    if (image.startsWith('data:')) {
+        return image.slice(image.indexOf(',') + 1);
+    }
+    if (image.startsWith('http://') || image.startsWith('https://')) {
+        const response = await fetch(image);
+        if (!response.ok) {
+            throw new Error(`Failed to fetch image: ${response.status} ${response.statusText}`);
+        }
+        return Buffer.from(await response.arrayBuffer()).toString('base64');
+    }
+    return image;
 };
 
-/**
- * Default safety settings for Gemini
- */
-const SAFETY_SETTINGS = [
-    { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
-    { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
-    { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
-    { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
-];
-
 // ============================================================================
 // Task Definition
 // ============================================================================
 
 export const llmTask = task({
-    id: "llm-gemini",
+    id: "llm-gemini", // named before other providers were added
+    queue: nodeTaskQueue,
     maxDuration: 120, // 2 minutes max for LLM calls
     retry: {
         maxAttempts: 2,
@@ -62,80 +89,71 @@ export const llmTask = task({
         factor: 2,
     },
     run: async (payload: LLMTaskPayload): Promise<LLMTaskResult> => {
-        const { model, systemPrompt, userMessage, images } = payload;
-
-        logger.info("Starting LLM task", { model, hasSystemPrompt: !!systemPrompt, imageCount: images?.length ?? 0 });
-
-        // Check for API key
-        const apiKey = process.env.GOOGLE_GEMINI_API_KEY;
-        if (!apiKey) {
-            throw new Error("GOOGLE_GEMINI_API_KEY is not configured. Please add it to your environment variables.");
-        }
-
-        // Build the prompt parts
-        const parts: Array<{ text: string } | { inlineData: { mimeType: string; data: string } }> = [];
-
-        // Add system prompt if provided
-        if (systemPrompt) {
-            parts.push({ text: `System Instructions: ${systemPrompt}\n\n` });
-        }
-
-        // Add user message
-        parts.push({ text: userMessage });
-
-        // Add images if provided (multimodal support)
+        const { provider, model, systemPrompt, userMessage, images, generation, responseSchema, nodeId, userId } = payload;
+
+        logger.info("Starting LLM task", {
+            provider,
+            model,
+            hasSystemPrompt: !!systemPrompt,
+            imageCount: images?.length ?? 0,
+            generation,
+            structured: !!responseSchema,
+        });
+
+        // Resolve images (multimodal support)
+        const resolvedImages: LLMImage[] = [];
         if (images && images.length > 0) {
             logger.info("Adding images to prompt", { count: images.length });
-            for (const imageBase64 of images) {
-                parts.push({
-                    inlineData: {
-                        mimeType: detectImageMimeType(imageBase64),
-                        data: imageBase64,
-                    },
-                });
+            for (const image of images) {
+                const imageBase64 = await resolveImageBase64(image);
+                resolvedImages.push({ mimeType: detectImageMimeType(imageBase64), data: imageBase64 });
             }
         }
 
-        const callGemini = async (key: string) => {
-            const genAI = new GoogleGenerativeAI(key);
-            const generativeModel = genAI.getGenerativeModel({ model, safetySettings: SAFETY_SETTINGS });
-            const result = await generativeModel.generateContent(parts);
-            const response = await result.response;
-            return response.text();
+        const request = {
+            provider,
+            userId,
+            model,
+            systemPrompt,
+            userMessage,
+            images: resolvedImages,
+            generation,
+            onText: nodeId ? (partial: string) => metadata.root.set(getPartialOutputKey(nodeId), partial) : undefined,
         };
 
-        try {
-            logger.info("Calling Gemini API...");
-            const text = await callGemini(apiKey);
-            logger.info("LLM task completed", { outputLength: text.length });
-            return { output: text };
-        } catch (error) {
-            const err = error instanceof Error ? error : new Error(String(error));
-            const msg = err.message.toLowerCase();
-            const isQuotaOrRate = msg.includes('quota') || msg.includes('rate') || msg.includes('429') || msg.includes('resource_exhausted');
-
-            if (isQuotaOrRate) {
-                const backupKey = process.env.GOOGLE_GEMINI_API_KEY_BACKUP;
-                if (backupKey && backupKey !== apiKey) {
-                    logger.info("Quota/rate limit hit with primary key, retrying with backup key...");
-                    try {
-                        const text = await callGemini(backupKey);
-                        logger.info("LLM task completed with backup key", { outputLength: text.length });
-                        return { output: text };
-                    } catch (backupError) {
-                        logger.error("Backup key also failed", { error: backupError });
-                    }
-                }
-                throw new Error(
-                    `API quota exceeded. Please try again later or check your API key limits. (API: ${err.message})`
-                );
-            }
+        if (!responseSchema) {
+            const candidates = await generateCandidates(request);
+            const text = candidates[0] ?? "";
+            logger.info("LLM task completed", { outputLength: text.length, candidateCount: candidates.length });
+            return candidates.length > 1 ? { output: text, candidates } : { output: text };
+        }
 
-            if (msg.includes('api key') || msg.includes('authentication')) {
-                throw new Error(`Invalid API key. Please check your GOOGLE_GEMINI_API_KEY. (API: ${err.message})`);
+        // One response per attempt: the output and its fields come from it
+        const structuredRequest = {
+            ...request,
+            responseSchema,
+            generation: generation && { ...generation, candidateCount: undefined },
+        };
+        const maxRetries = payload.maxRetries ?? DEFAULT_STRUCTURED_OUTPUT_RETRIES;
+        let prompt = userMessage;
+        let lastError = "";
+        for (let attempt = 0; attempt <= maxRetries; attempt++) {
+            const [text = ""] = await generateCandidates({ ...structuredRequest, userMessage: prompt });
+            const result = parseStructuredOutput(text, responseSchema);
+            if (result.ok) {
+                logger.info("LLM task completed", { outputLength: text.length, attempts: attempt + 1 });
+                return { output: JSON.stringify(result.value, null, 2), fields: getFieldValues(result.value) };
             }
 
-            throw error;
+            lastError = result.error;
+            logger.warn("LLM response failed schema validation", { attempt: attempt + 1, error: lastError });
+            prompt = [
+                userMessage,
+                `Your previous response did not match the required JSON schema:\n${lastError}`,
+                `Previous response:\n${text}`,
+                "Respond again with only the corrected JSON.",
+            ].join("\n\n");
         }
+        throw new Error(`Response did not match the output schema after ${maxRetries + 1} attempts: ${lastError}`);
     },
 });
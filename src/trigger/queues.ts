@@ -0,0 +1,56 @@
+/**
+ * Trigger.dev queues
+ *
+ * Runs are triggered with `concurrencyKey: userId`, which gives every user
+ * their own copy of each queue. The limits below are therefore per user and
+ * hold across browser tabs, scheduled runs and API calls alike. They are read
+ * from the environment when the tasks are registered (`trigger dev` or a
+ * deploy), so a change takes effect on the next one.
+ */
+
+import { queue } from "@trigger.dev/sdk/v3";
+import { MAX_BATCH_CONCURRENCY } from "@/types/workflow.types";
+
+/** A positive whole number from the environment, else the default */
+const getPerUserLimit = (name: string, fallback: number): number => {
+    const value = Number(process.env[name]);
+    return Number.isInteger(value) && value > 0 ? value : fallback;
+};
+
+/**
+ * Node tasks (LLM, crop image, extract frame) a user can have executing at once.
+ * Keeps wide fan-outs from tripping Gemini rate limits.
+ * NODE_TASK_CONCURRENCY_PER_USER, default 5.
+ */
+export const nodeTaskQueue = queue({
+    name: "node-tasks",
+    concurrencyLimit: getPerUserLimit("NODE_TASK_CONCURRENCY_PER_USER", 5),
+});
+
+/**
+ * Top-level workflow runs a user can have in progress at
+ * once; later runs wait queued. WORKFLOW_RUN_CONCURRENCY_PER_USER, default 2.
+ */
+export const workflowRunQueue = queue({
+    name: "workflow-runs",
+    concurrencyLimit: getPerUserLimit("WORKFLOW_RUN_CONCURRENCY_PER_USER", 2),
+});
+
+/**
+ * Row runs of batch runs, which the batch task sends here instead of
+ * workflowRunQueue so that a batch's own concurrency setting is what limits them
+ */
+export const batchRowQueue = queue({
+    name: "batch-rows",
+    concurrencyLimit: MAX_BATCH_CONCURRENCY,
+});
+
+/**
+ * Sub-workflow runs. Not limited: the calling run holds its own slot while it
+ * waits, so a limit shared with it (or between nesting levels) could leave
+ * every slot held by a waiting parent. Their node tasks still go through
+ * nodeTaskQueue.
+ */
+export const subworkflowRunQueue = queue({
+    name: "subworkflow-runs",
+});
@@ -0,0 +1,864 @@
+/**
+ * Run Workflow Task - Trigger.dev orchestrator for a whole workflow DAG
+ *
+ * Loads the saved workflow, builds the execution plan and runs each batch
+ * through the node tasks with batch.triggerAndWait. History (WorkflowRun /
+ * NodeRun) is written here, and per-node progress is published as run
+ * metadata so the browser can follow along without owning the execution.
+ *
+ * Nodes whose resolved inputs hash to their cached output are not re-run
+ * (NodeRun status 'cached') unless the run is forced; fresh outputs are
+ * written back to the workflow as the new cache.
+ *
+ * Retries (with backoff) and timeouts come from each node's execution
+ * settings. A node that still fails applies its failure policy: stop the
+ * workflow, skip its dependents (NodeRun status 'skipped'), or continue with
+ * a fallback value.
+ *
+ * Each batch runs at most `Workflow.maxConcurrency` node tasks at a time (the
+ * rest are reported as 'queued'); node tasks and workflow runs are also
+ * limited per user through the queues in ./queues.
+ *
+ * Condition nodes route their input down one branch; nodes reachable only
+ * through the branches not taken are marked skipped as soon as the
+ * condition resolves.
+ *
+ * Map nodes run the nodes downstream of them once per item of their input,
+ * each item in its own run context (outputs, skips and branches), with one
+ * NodeRun per item. Their collect nodes gather the per-item outputs back
+ * into a list. Per-item runs don't use or update node caches.
+ *
+ * Sub-workflow nodes trigger this task again for the workflow they reference,
+ * passing their inputs to its workflow input nodes. The child run records
+ * its NodeRuns under the parent's WorkflowRun, nested below the sub-workflow
+ * node's NodeRun, and returns the values of its workflow output nodes.
+ *
+ * Failed nodes and the finished run raise the workflow's webhook events
+ * (see src/lib/webhooks.ts).
+ */
+
+import { task, logger, metadata, batch, wait } from "@trigger.dev/sdk/v3";
+import prisma from "@/lib/db";
+import {
+    createExecutionPlan,
+    getConnectedNodes,
+    getInactiveNodeIds,
+    getMapScopes,
+    type MapScope,
+} from "@/lib/dagExecution";
+import {
+    gatherNodeInputs,
+    getNodeRunParameters,
+    getCollectOutput,
+    getFallbackOutput,
+    getNodeExecutionSettings,
+    getNodeHandleOutputs,
+    getNodeOutputData,
+    resolveNodeExecution,
+    type NodeOutputMap,
+    type NodeTaskType,
+    type ResolvedExecutionSettings,
+} from "@/lib/nodeExecutor";
+import { getNodeRunTag, getUserRunTag, MAP_HANDLES, WORKFLOW_INPUT_HANDLES } from "@/types/workflow.types";
+import type {
+    NodeOutputCache,
+    NodeRunProgress,
+    RunScope,
+    RunTaskStatus,
+    RunStatus,
+    WorkflowEdge,
+    WorkflowNode,
+    WorkflowRunProgress,
+} from "@/types/workflow.types";
+import { dispatchNodeFailedWebhooks, dispatchRunWebhooks } from "@/lib/webhooks";
+import { subworkflowRunQueue, workflowRunQueue } from "./queues";
+import type { llmTask, LLMTaskPayload } from "./llmTask";
+import type { chatTask, ChatTaskPayload } from "./chatTask";
+import type { generateImageTask, GenerateImageTaskPayload } from "./generateImageTask";
+import type { cropImageTask, CropImageTaskPayload } from "./cropImageTask";
+import type { transformImageTask, TransformImageTaskPayload } from "./transformImageTask";
+import type { compositeImageTask, CompositeImageTaskPayload } from "./compositeImageTask";
+import type { trimVideoTask, TrimVideoTaskPayload } from "./trimVideoTask";
+import type { extractFrameTask, ExtractFrameTaskPayload } from "./extractFrameTask";
+import type { conditionTask, ConditionTaskPayload } from "./conditionTask";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface RunWorkflowTaskPayload {
+    workflowId: string;
+    userId: string;
+    runScope: RunScope;
+    /** Nodes to run; defaults to every connected node in the workflow */
+    nodeIds?: string[];
+    /** Re-run every node, ignoring cached outputs */
+    force?: boolean;
+    /** Values supplied for the workflow input nodes, keyed by node id */
+    inputs?: Record<string, string>;
+    /** Set when running as a sub-workflow node of another run */
+    parent?: SubworkflowParent;
+    /** Set when running one row of a batch run */
+    batchRow?: BatchRow;
+}
+
+export interface BatchRow {
+    batchRunId: string;
+    /** Row index in the batch's dataset */
+    index: number;
+}
+
+export interface SubworkflowParent {
+    workflowRunId: string;
+    /** NodeRun of the sub-workflow node; the child's NodeRuns nest under it */
+    nodeRunId: string;
+    /** Workflows being run above this one, outermost first */
+    callStack: string[];
+}
+
+export interface RunWorkflowTaskResult {
+    workflowRunId: string;
+    status: RunStatus;
+    /** Values of the workflow output nodes, keyed by node id */
+    outputs: Record<string, string>;
+}
+
+type NodeTask =
+    | typeof llmTask
+    | typeof chatTask
+    | typeof generateImageTask
+    | typeof cropImageTask
+    | typeof transformImageTask
+    | typeof compositeImageTask
+    | typeof trimVideoTask
+    | typeof extractFrameTask
+    | typeof conditionTask
+    | typeof runWorkflowTask;
+
+/**
+ * State nodes run against: the whole run, or one item of a map node
+ */
+interface RunContext {
+    /** Outputs produced so far; downstream nodes resolve inputs from here */
+    outputs: NodeOutputMap;
+    /** Nodes whose dependents must be skipped, with the reason recorded on them */
+    blocked: Map<string, string>;
+    /** Edges out of condition branches that were not taken */
+    inactiveEdgeIds: Set<string>;
+    /** Nodes cut off by those edges, with the reason recorded on them */
+    branchSkipped: Map<string, string>;
+    /** Item index, when running once per item of a map node */
+    iteration?: number;
+    /** Map node whose item this is */
+    mapNodeId?: string;
+}
+
+interface PendingNode {
+    node: WorkflowNode;
+    context: RunContext;
+    nodeRun: { id: string; startedAt: Date };
+    taskType: NodeTaskType;
+    payload: Record<string, unknown>;
+    inputHash: string;
+    settings: ResolvedExecutionSettings;
+    attempt: number;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Build a batch item for one attempt of the task backing a node.
+ * Retries are driven from here, so the task's own retry is turned off.
+ * Model calls are made with the workflow owner's provider credentials.
+ * The tags let a single node's run be found and cancelled from the canvas,
+ * by its owner only.
+ */
+const toBatchItem = (item: PendingNode, tag: string, userId: string) => {
+    const { taskType, payload, settings } = item;
+    const options = {
+        tags: [tag, getUserRunTag(userId)],
+        maxAttempts: 1,
+        maxDuration: settings.timeoutSeconds,
+        concurrencyKey: userId, // per-user copy of nodeTaskQueue
+    };
+    switch (taskType) {
+        case "llm":
+            return { id: "llm-gemini" as const, payload: { ...payload, userId } as unknown as LLMTaskPayload, options };
+        case "chat":
+            return { id: "llm-chat" as const, payload: { ...payload, userId } as unknown as ChatTaskPayload, options };
+        case "generate-image":
+            return { id: "generate-image" as const, payload: payload as unknown as GenerateImageTaskPayload, options };
+        case "crop-image":
+            return { id: "crop-image" as const, payload: payload as unknown as CropImageTaskPayload, options };
+        case "transform-image":
+            return { id: "transform-image" as const, payload: payload as unknown as TransformImageTaskPayload, options };
+        case "composite-image":
+            return { id: "composite-image" as const, payload: payload as unknown as CompositeImageTaskPayload, options };
+        case "trim-video":
+            return { id: "trim-video" as const, payload: payload as unknown as TrimVideoTaskPayload, options };
+        case "extract-frame":
+            return { id: "extract-video-frame" as const, payload: payload as unknown as ExtractFrameTaskPayload, options };
+        case "condition":
+            return { id: "evaluate-condition" as const, payload: { ...payload, userId } as unknown as ConditionTaskPayload, options };
+        case "subworkflow":
+            return {
+                id: "run-workflow" as const,
+                payload: payload as unknown as RunWorkflowTaskPayload,
+                options: { ...options, queue: subworkflowRunQueue.name },
+            };
+    }
+};
+
+/**
+ * A fresh run context, or a copy of `parent` for one item of a map node
+ */
+const createRunContext = (parent?: RunContext, item?: { mapNodeId: string; iteration: number }): RunContext => ({
+    outputs: new Map(parent?.outputs),
+    blocked: new Map(parent?.blocked),
+    inactiveEdgeIds: new Set(parent?.inactiveEdgeIds),
+    branchSkipped: new Map(parent?.branchSkipped),
+    ...item,
+});
+
+/**
+ * Overall status of a node run once per map item
+ */
+const getIterationsStatus = (statuses: RunTaskStatus[]): RunTaskStatus => {
+    if (statuses.includes("failed")) return "failed";
+    if (statuses.includes("cancelled")) return "cancelled";
+    if (statuses.length > 0 && statuses.every(status => status === "skipped")) return "skipped";
+    if (statuses.length > 0 && statuses.every(status => status === "cached")) return "cached";
+    return "completed";
+};
+
+const getNodeName = (node: WorkflowNode): string =>
+    (node.data.label as string) || node.type || "Node";
+
+const isCancelledError = (error: unknown): boolean =>
+    (error as { code?: string } | undefined)?.code === "TASK_RUN_CANCELLED";
+
+const toErrorMessage = (error: unknown): string => {
+    if (error == null) return "Unknown error";
+    if (typeof error === "string") return error;
+    if (error instanceof Error) return error.message;
+    const message = (error as { message?: unknown }).message;
+    return typeof message === "string" ? message : JSON.stringify(error);
+};
+
+/**
+ * Finish a NodeRun row with its duration
+ */
+const finishNodeRun = async (
+    nodeRun: { id: string; startedAt: Date },
+    update: { status: "completed" | "cached" | "failed" | "skipped" | "cancelled"; outputData?: Record<string, unknown>; error?: string }
+) => {
+    const completedAt = new Date();
+    await prisma.nodeRun.update({
+        where: { id: nodeRun.id },
+        data: {
+            status: update.status,
+            completedAt,
+            duration: completedAt.getTime() - nodeRun.startedAt.getTime(),
+            outputData: update.outputData as object | undefined,
+            error: update.error,
+        },
+    });
+};
+
+/**
+ * Store fresh node outputs as their cache in the saved workflow. Chat nodes
+ * also take the conversation with this run's turns, so the next run (from
+ * the editor, a schedule or the API) continues it.
+ * Re-reads the nodes so edits saved while the run was in progress are kept,
+ * with the workflow row locked so runs finishing at once (e.g. batch rows)
+ * don't overwrite each other's caches.
+ */
+const saveNodeCaches = async (workflowId: string, caches: Map<string, NodeOutputCache>) => {
+    if (caches.size === 0) return;
+
+    await prisma.$transaction(async (tx) => {
+        await tx.$queryRaw`SELECT id FROM "Workflow" WHERE id = ${workflowId} FOR UPDATE`;
+        const workflow = await tx.workflow.findUnique({
+            where: { id: workflowId },
+            select: { nodes: true },
+        });
+        if (!workflow) return;
+
+        const nodes = (workflow.nodes as unknown as WorkflowNode[]) || [];
+        await tx.workflow.update({
+            where: { id: workflowId },
+            data: {
+                nodes: nodes.map(node => {
+                    const cache = caches.get(node.id);
+                    if (!cache) return node;
+                    const conversation = node.type === "chat" ? getNodeOutputData(node, cache.output) : {};
+                    return { ...node, data: { ...node.data, ...conversation, cache } };
+                }) as object,
+            },
+        });
+    });
+};
+
+// ============================================================================
+// Task Definition
+// ============================================================================
+
+export const runWorkflowTask = task({
+    id: "run-workflow",
+    queue: workflowRunQueue,
+    maxDuration: 300, // time spent waiting on child tasks is not counted
+    retry: {
+        // Retrying would re-run every node and duplicate history
+        maxAttempts: 1,
+    },
+    run: async (payload: RunWorkflowTaskPayload, { ctx }): Promise<RunWorkflowTaskResult> => {
+        const { workflowId, userId, runScope, nodeIds, force, inputs, parent, batchRow } = payload;
+
+        logger.info("Starting workflow run", {
+            workflowId,
+            runScope,
+            nodeCount: nodeIds?.length,
+            force,
+            parentWorkflowRunId: parent?.workflowRunId,
+        });
+
+        const workflow = await prisma.workflow.findFirst({
+            where: { id: workflowId, userId },
+        });
+
+        if (!workflow) {
+            throw new Error("Workflow not found");
+        }
+
+        const nodes = (workflow.nodes as unknown as WorkflowNode[]) || [];
+        const edges = (workflow.edges as unknown as WorkflowEdge[]) || [];
+
+        const targetNodes = nodeIds?.length
+            ? nodes.filter(n => nodeIds.includes(n.id))
+            : getConnectedNodes(nodes, edges);
+
+        if (targetNodes.length === 0) {
+            throw new Error("No nodes to run");
+        }
+
+        const plan = createExecutionPlan(targetNodes, edges);
+        if (!plan.isValidDAG) {
+            throw new Error(plan.error || "Invalid workflow");
+        }
+
+        const mapScopes = getMapScopes(nodes, edges);
+        if (mapScopes.error) {
+            throw new Error(mapScopes.error);
+        }
+        // Map scope each node runs in (body nodes) or gathers (collect nodes)
+        const bodyScopes = new Map<string, MapScope>();
+        const collectScopes = new Map<string, MapScope>();
+        for (const scope of mapScopes.scopes) {
+            scope.bodyNodeIds.forEach(id => bodyScopes.set(id, scope));
+            scope.collectNodeIds.forEach(id => collectScopes.set(id, scope));
+        }
+
+        const concurrency = Math.max(1, workflow.maxConcurrency);
+        const callStack = [...(parent?.callStack ?? []), workflowId];
+
+        // A sub-workflow run records its nodes in the history of the run that called it
+        const workflowRun = parent
+            ? { id: parent.workflowRunId, startedAt: new Date() }
+            : await prisma.workflowRun.create({
+                data: {
+                    workflowId,
+                    runScope,
+                    status: "running",
+                    nodeCount: targetNodes.length,
+                    triggerRunId: ctx.run.id,
+                    inputs,
+                    batchRunId: batchRow?.batchRunId,
+                    batchIndex: batchRow?.index,
+                },
+            });
+
+        const progress: WorkflowRunProgress = { workflowRunId: workflowRun.id, nodes: {} };
+        const publishProgress = () => {
+            metadata.set("progress", JSON.parse(JSON.stringify(progress)));
+        };
+        publishProgress();
+
+        const targetNodeIds = new Set(targetNodes.map(n => n.id));
+        const main = createRunContext();
+
+        // Values passed in by the calling workflow
+        for (const [nodeId, value] of Object.entries(inputs ?? {})) {
+            main.outputs.set(nodeId, { [WORKFLOW_INPUT_HANDLES.OUTPUT]: value });
+        }
+        const workflowOutputs: Record<string, string> = {};
+
+        // Per-item contexts of the map nodes that ran, and how many of each
+        // body node's items have finished
+        const iterations = new Map<string, RunContext[]>();
+        const iterationResults = new Map<string, RunTaskStatus[]>();
+
+        /**
+         * Publish a node's progress. Nodes run once per map item report
+         * "running" with a finished/total count until their last item is done.
+         */
+        const reportNode = (node: WorkflowNode, context: RunContext, update: NodeRunProgress) => {
+            if (context.mapNodeId === undefined) {
+                progress.nodes[node.id] = update;
+                return;
+            }
+
+            const total = iterations.get(context.mapNodeId)?.length ?? 0;
+            const finished = iterationResults.get(node.id) ?? [];
+            iterationResults.set(node.id, finished);
+            if (update.status !== "queued" && update.status !== "running") {
+                finished.push(update.status);
+            }
+
+            const counter = `${finished.length}/${total}`;
+            if (finished.length < total) {
+                const started = update.status === "running" || progress.nodes[node.id]?.status === "running";
+                progress.nodes[node.id] = { status: started ? "running" : "queued", progress: counter };
+                return;
+            }
+            // Per-item outputs don't become the node's cache
+            progress.nodes[node.id] = {
+                ...update,
+                status: getIterationsStatus(finished),
+                inputHash: undefined,
+                progress: counter,
+            };
+        };
+
+        /**
+         * Deactivate the branches a condition node did not take. The nodes cut
+         * off are marked skipped in the run plan right away, and provide no
+         * output to nodes that merge them with the branch taken.
+         */
+        const routeBranches = (context: RunContext, node: WorkflowNode, output: Record<string, unknown>) => {
+            if (node.type !== "condition") return;
+
+            const { branch } = output as { branch?: string };
+            for (const edge of edges) {
+                if (edge.source === node.id && edge.sourceHandle !== branch) {
+                    context.inactiveEdgeIds.add(edge.id);
+                }
+            }
+
+            const reason = `Skipped: branch not taken by "${getNodeName(node)}"`;
+            for (const nodeId of getInactiveNodeIds(nodes, edges, context.inactiveEdgeIds)) {
+                context.outputs.set(nodeId, {});
+                if (!targetNodeIds.has(nodeId) || context.branchSkipped.has(nodeId)) continue;
+                context.branchSkipped.set(nodeId, reason);
+                if (context.mapNodeId === undefined) {
+                    progress.nodes[nodeId] = { status: "skipped", error: reason };
+                }
+            }
+        };
+
+        // Partial runs (selected, run from here) reuse the cached outputs of
+        // upstream nodes that are left out of the run
+        const reusedCaches = nodes.flatMap(node => {
+            const cache = (node.data as { cache?: NodeOutputCache }).cache;
+            return cache && !targetNodeIds.has(node.id) ? [{ node, cache }] : [];
+        });
+        for (const { node, cache } of reusedCaches) {
+            main.outputs.set(node.id, getNodeHandleOutputs(node, cache.output));
+        }
+        // ...including the branch a left-out condition node took last time
+        for (const { node, cache } of reusedCaches) {
+            routeBranches(main, node, cache.output);
+        }
+
+        let completedCount = 0;
+        let cachedCount = 0;
+        let failedCount = 0;
+        let skippedCount = 0;
+        let cancelledCount = 0;
+
+        // Set when a failed node's policy stops the workflow
+        let stopReason: string | undefined;
+
+        const createNodeRun = (
+            node: WorkflowNode,
+            context: RunContext,
+            data: { status: "running" | "skipped"; inputData?: Record<string, unknown>; error?: string }
+        ) => {
+            const now = new Date();
+            return prisma.nodeRun.create({
+                data: {
+                    workflowRunId: workflowRun.id,
+                    nodeId: node.id,
+                    nodeName: getNodeName(node),
+                    nodeType: node.type || "unknown",
+                    iteration: context.iteration,
+                    parentNodeRunId: parent?.nodeRunId,
+                    status: data.status,
+                    inputData: data.inputData as object | undefined,
+                    error: data.error,
+                    ...(data.status === "skipped" && { startedAt: now, completedAt: now, duration: 0 }),
+                },
+            });
+        };
+
+        /**
+         * Record a node that failed for good, then apply its failure policy
+         */
+        const failNode = async (
+            node: WorkflowNode,
+            context: RunContext,
+            nodeRun: { id: string; startedAt: Date },
+            error: string,
+            settings: ResolvedExecutionSettings = getNodeExecutionSettings(node)
+        ) => {
+            failedCount++;
+            const nodeName = getNodeName(node);
+
+            if (settings.onFailure === "fallback") {
+                const output = getFallbackOutput(node, settings.fallbackValue);
+                context.outputs.set(node.id, getNodeHandleOutputs(node, output));
+                routeBranches(context, node, output);
+                await finishNodeRun(nodeRun, {
+                    status: "failed",
+                    outputData: output,
+                    error: `${error} (continued with fallback value)`,
+                });
+                reportNode(node, context, { status: "failed", output, error });
+                await dispatchNodeFailedWebhooks(nodeRun.id);
+                return;
+            }
+
+            await finishNodeRun(nodeRun, { status: "failed", error });
+            reportNode(node, context, { status: "failed", error });
+            await dispatchNodeFailedWebhooks(nodeRun.id);
+            context.blocked.set(node.id, `Skipped: upstream node "${nodeName}" failed`);
+
+            if (settings.onFailure === "stop") {
+                stopReason ??= `Skipped: workflow stopped after "${nodeName}" failed`;
+            }
+        };
+
+        /**
+         * Start a node in one context: record skips, source / cached / invalid
+         * nodes straight away, and return the task to trigger otherwise
+         */
+        const startNode = async (node: WorkflowNode, context: RunContext): Promise<PendingNode | undefined> => {
+            // Nothing runs once the workflow is stopped, off a branch not taken,
+            // nor below a node that failed
+            const branchSkipReason = context.branchSkipped.get(node.id);
+            const skipReason =
+                stopReason ??
+                branchSkipReason ??
+                edges.filter(e => e.target === node.id).map(e => context.blocked.get(e.source)).find(Boolean);
+            if (skipReason) {
+                await createNodeRun(node, context, { status: "skipped", error: skipReason });
+                reportNode(node, context, { status: "skipped", error: skipReason });
+                // A node merging an untaken branch with the taken one still runs
+                if (!branchSkipReason) {
+                    context.blocked.set(node.id, skipReason);
+                }
+                skippedCount++;
+                return undefined;
+            }
+
+            const nodeRun = await createNodeRun(node, context, {
+                status: "running",
+                inputData: { ...gatherNodeInputs(node.id, nodes, edges, context.outputs), ...getNodeRunParameters(node) },
+            });
+            reportNode(node, context, { status: "running" });
+
+            // Gather what each item of the map node produced
+            const collectScope = node.type === "collect" ? collectScopes.get(node.id) : undefined;
+            const itemContexts = collectScope && iterations.get(collectScope.mapNodeId);
+            if (node.type === "collect" && itemContexts) {
+                const incoming = edges.filter(e => e.target === node.id);
+                const items = itemContexts.flatMap(item => {
+                    const values = incoming.map(e => item.outputs.get(e.source)?.[e.sourceHandle || "output"]);
+                    const value = values.find(v => v !== undefined);
+                    return value !== undefined ? [value] : [];
+                });
+                const output = getCollectOutput(node, items);
+                context.outputs.set(node.id, getNodeHandleOutputs(node, output));
+                await finishNodeRun(nodeRun, { status: "completed", outputData: output });
+                reportNode(node, context, { status: "completed", output });
+                completedCount++;
+                return undefined;
+            }
+
+            // Per-item runs always execute: a node has a single cache entry
+            const execution = resolveNodeExecution(node, nodes, edges, context.outputs, {
+                force: force || context.iteration !== undefined,
+            });
+
+            if (execution.kind === "source") {
+                await finishNodeRun(nodeRun, { status: "completed", outputData: execution.output });
+                reportNode(node, context, { status: "completed", output: execution.output });
+                completedCount++;
+
+                // Downstream nodes read a workflow input's value after its default is
+                // applied, and a template's text as rendered for this run
+                if (node.type === "workflowInput" || node.type === "template") {
+                    context.outputs.set(node.id, getNodeHandleOutputs(node, execution.output));
+                }
+                if (node.type === "workflowOutput" && context.iteration === undefined) {
+                    workflowOutputs[node.id] = (execution.output as { value: string }).value;
+                }
+
+                if (node.type === "map") {
+                    const items = (execution.output as { items: string[] }).items;
+                    iterations.set(node.id, items.map((item, iteration) => {
+                        const itemContext = createRunContext(context, { mapNodeId: node.id, iteration });
+                        itemContext.outputs.set(node.id, { [MAP_HANDLES.ITEM]: item });
+                        return itemContext;
+                    }));
+                    // Only the items carry the map node's output
+                    context.outputs.set(node.id, {});
+                    logger.info(`Map node ${node.id} split its input into ${items.length} items`);
+                }
+            } else if (execution.kind === "cached") {
+                context.outputs.set(node.id, getNodeHandleOutputs(node, execution.output));
+                await finishNodeRun(nodeRun, { status: "cached", outputData: execution.output });
+                reportNode(node, context, { status: "cached", output: execution.output });
+                routeBranches(context, node, execution.output);
+                cachedCount++;
+            } else if (execution.kind === "invalid") {
+                // Retrying can't fix a missing input; go straight to the failure policy
+                await failNode(node, context, nodeRun, execution.error);
+            } else if (execution.taskType === "subworkflow" && callStack.includes(String(execution.payload.workflowId))) {
+                // Saving a workflow rejects reference cycles, but a referenced
+                // workflow may have been edited since
+                await failNode(node, context, nodeRun, "Sub-workflow calls a workflow that is already running above it");
+            } else {
+                const taskPayload = execution.taskType === "subworkflow"
+                    ? {
+                        ...execution.payload,
+                        userId,
+                        runScope: "full",
+                        force,
+                        parent: { workflowRunId: workflowRun.id, nodeRunId: nodeRun.id, callStack },
+                    }
+                    : execution.payload;
+
+                reportNode(node, context, { status: "queued" });
+                return {
+                    node,
+                    context,
+                    nodeRun,
+                    taskType: execution.taskType,
+                    payload: taskPayload,
+                    inputHash: execution.inputHash,
+                    settings: getNodeExecutionSettings(node),
+                    attempt: 0,
+                };
+            }
+            return undefined;
+        };
+
+        /**
+         * Next tasks to run: at most `concurrency`, and no more items of a map
+         * node than its own parallelism allows
+         */
+        const takeChunk = (queue: PendingNode[]): PendingNode[] => {
+            const chunk: PendingNode[] = [];
+            const perMap = new Map<string, number>();
+
+            for (const item of queue) {
+                if (chunk.length >= concurrency) break;
+
+                const { mapNodeId } = item.context;
+                if (mapNodeId) {
+                    const mapNode = nodes.find(n => n.id === mapNodeId);
+                    const limit = (mapNode?.type === "map" && mapNode.data.maxParallel) || concurrency;
+                    const count = perMap.get(mapNodeId) ?? 0;
+                    if (count >= limit) continue;
+                    perMap.set(mapNodeId, count + 1);
+                }
+                chunk.push(item);
+            }
+
+            return chunk;
+        };
+
+        try {
+            for (const executionBatch of plan.batches) {
+                logger.info(`Running batch ${executionBatch.batchIndex + 1}/${plan.batches.length}`, {
+                    nodeIds: executionBatch.nodeIds,
+                });
+
+                const pending: PendingNode[] = [];
+
+                for (const nodeId of executionBatch.nodeIds) {
+                    const node = nodes.find(n => n.id === nodeId);
+                    if (!node) continue;
+
+                    // Body nodes run once per item of a map node that ran in this run
+                    const bodyScope = bodyScopes.get(node.id);
+                    const contexts = (bodyScope && iterations.get(bodyScope.mapNodeId)) || [main];
+
+                    if (contexts.length === 0) {
+                        const reason = "Skipped: the map node had no items";
+                        await createNodeRun(node, main, { status: "skipped", error: reason });
+                        progress.nodes[node.id] = { status: "skipped", error: reason };
+                        skippedCount++;
+                        continue;
+                    }
+
+                    for (const context of contexts) {
+                        const item = await startNode(node, context);
+                        if (item) pending.push(item);
+                    }
+                }
+                publishProgress();
+
+                const caches = new Map<string, NodeOutputCache>();
+
+                // At most `concurrency` node tasks in flight; the rest of the batch waits queued
+                let queue = pending;
+                while (queue.length > 0) {
+                    let attempts = takeChunk(queue);
+                    queue = queue.filter(item => !attempts.includes(item));
+                    for (const item of attempts) {
+                        reportNode(item.node, item.context, { status: "running" });
+                    }
+                    publishProgress();
+
+                    // Re-run the nodes that failed and have retries left
+                    while (attempts.length > 0) {
+                        const results = await batch.triggerAndWait<NodeTask>(
+                            attempts.map(item => toBatchItem(item, getNodeRunTag(ctx.run.id, item.node.id), userId))
+                        );
+
+                        const retries: PendingNode[] = [];
+
+                        // Results come back in the same order the items were sent
+                        for (let i = 0; i < attempts.length; i++) {
+                            const item = attempts[i];
+                            const { node, context, nodeRun, inputHash } = item;
+                            const result = results.runs[i];
+
+                            if (result?.ok) {
+                                const output = result.output as unknown as Record<string, unknown>;
+                                context.outputs.set(node.id, getNodeHandleOutputs(node, output));
+                                if (context.iteration === undefined) {
+                                    caches.set(node.id, { inputHash, output });
+                                }
+                                await finishNodeRun(nodeRun, { status: "completed", outputData: output });
+                                reportNode(node, context, { status: "completed", output, inputHash });
+                                routeBranches(context, node, output);
+                                completedCount++;
+                            } else if (isCancelledError(result?.error)) {
+                                // A single node was stopped from the task manager
+                                await finishNodeRun(nodeRun, { status: "cancelled" });
+                                reportNode(node, context, { status: "cancelled" });
+                                context.blocked.set(node.id, `Skipped: upstream node "${getNodeName(node)}" was cancelled`);
+                                cancelledCount++;
+                            } else if (item.attempt < item.settings.retries) {
+                                logger.warn(`Node ${node.id} failed, retrying`, {
+                                    attempt: item.attempt + 1,
+                                    iteration: context.iteration,
+                                    error: toErrorMessage(result?.error),
+                                });
+                                retries.push({ ...item, attempt: item.attempt + 1 });
+                            } else {
+                                await failNode(node, context, nodeRun, toErrorMessage(result?.error), item.settings);
+                            }
+                        }
+                        publishProgress();
+
+                        if (retries.length > 0) {
+                            // Exponential backoff; the chunk waits for its slowest retry
+                            const delay = Math.max(
+                                ...retries.map(item => item.settings.backoffSeconds * 2 ** (item.attempt - 1))
+                            );
+                            if (delay > 0) {
+                                await wait.for({ seconds: delay });
+                            }
+                        }
+                        attempts = retries;
+                    }
+                }
+
+                await saveNodeCaches(workflowId, caches);
+                publishProgress();
+            }
+        } catch (error) {
+            logger.error("Workflow run failed", { error: toErrorMessage(error) });
+
+            // Close this run's history: nodes still running failed with the
+            // run, and nodes that never started are recorded as skipped
+            const message = toErrorMessage(error);
+            const nodeRuns = await prisma.nodeRun.findMany({
+                where: { workflowRunId: workflowRun.id, parentNodeRunId: parent?.nodeRunId ?? null },
+                select: { id: true, nodeId: true, status: true, startedAt: true, iteration: true },
+            });
+            for (const nodeRun of nodeRuns.filter(n => n.status === "running")) {
+                await finishNodeRun(nodeRun, { status: "failed", error: `Workflow run failed: ${message}` });
+                if (nodeRun.iteration === null) {
+                    progress.nodes[nodeRun.nodeId] = { status: "failed", error: message };
+                }
+            }
+            const recorded = new Set(nodeRuns.map(n => n.nodeId));
+            const skipReason = "Skipped: workflow run failed";
+            for (const node of targetNodes.filter(n => !recorded.has(n.id))) {
+                await createNodeRun(node, main, { status: "skipped", error: skipReason });
+                progress.nodes[node.id] = { status: "skipped", error: skipReason };
+            }
+            publishProgress();
+
+            if (parent) throw error;
+            const completedAt = new Date();
+            await prisma.workflowRun.update({
+                where: { id: workflowRun.id },
+                data: {
+                    status: "failed",
+                    completedAt,
+                    duration: completedAt.getTime() - workflowRun.startedAt.getTime(),
+                },
+            });
+            await dispatchRunWebhooks(workflowRun.id);
+            throw error;
+        }
+
+        const status: RunStatus = stopReason
+            ? "failed"
+            : failedCount === 0 && cancelledCount === 0
+                ? "completed"
+                : completedCount + cachedCount > 0
+                  ? "partial"
+                  : failedCount > 0
+                    ? "failed"
+                    : "cancelled";
+
+        if (!parent) {
+            const completedAt = new Date();
+            await prisma.workflowRun.update({
+                where: { id: workflowRun.id },
+                data: {
+                    status,
+                    completedAt,
+                    duration: completedAt.getTime() - workflowRun.startedAt.getTime(),
+                },
+            });
+            await dispatchRunWebhooks(workflowRun.id);
+        }
+
+        logger.info("Workflow run finished", {
+            workflowRunId: workflowRun.id,
+            status,
+            completedCount,
+            cachedCount,
+            failedCount,
+            skippedCount,
+            cancelledCount,
+        });
+
+        // The sub-workflow node fails (and applies its own failure policy)
+        // unless every node of the sub-workflow succeeded
+        if (parent && status !== "completed") {
+            throw new Error(`Sub-workflow "${workflow.name}" ${status === "partial" ? "had failed nodes" : status}`);
+        }
+
+        return { workflowRunId: workflowRun.id, status, outputs: workflowOutputs };
+    },
+});
@@ -0,0 +1,84 @@
+/**
+ * Scheduled Workflow Task - Trigger.dev scheduled task for workflow schedules
+ *
+ * Each WorkflowSchedule is backed by an imperative Trigger.dev schedule on
+ * this task, with the workflow id as its externalId. On every tick the task
+ * runs the saved workflow through the run-workflow orchestrator (run scope
+ * 'scheduled', with the schedule's input values) and records how that run
+ * ended on the schedule, so failures show up on the dashboard.
+ */
+
+import { schedules, logger } from "@trigger.dev/sdk/v3";
+import prisma from "@/lib/db";
+import type { RunStatus } from "@/types/workflow.types";
+import { runWorkflowTask } from "./runWorkflowTask";
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const toErrorMessage = (error: unknown): string => {
+    if (error == null) return "Unknown error";
+    if (typeof error === "string") return error;
+    const message = (error as { message?: unknown }).message;
+    return typeof message === "string" ? message : JSON.stringify(error);
+};
+
+// ============================================================================
+// Task Definition
+// ============================================================================
+
+export const scheduledWorkflowTask = schedules.task({
+    id: "scheduled-workflow-run",
+    maxDuration: 300, // time spent waiting on the workflow run is not counted
+    retry: {
+        // A failed workflow run is recorded, not retried until the next tick
+        maxAttempts: 1,
+    },
+    run: async (payload) => {
+        const workflowId = payload.externalId;
+        const schedule = workflowId
+            ? await prisma.workflowSchedule.findUnique({
+                where: { workflowId },
+                include: { workflow: { select: { userId: true } } },
+            })
+            : null;
+
+        // Left behind by a deleted or disabled schedule
+        if (!schedule || !schedule.enabled) {
+            logger.warn("No enabled schedule for this workflow, skipping", { workflowId, scheduleId: payload.scheduleId });
+            return { skipped: true };
+        }
+
+        logger.info("Starting scheduled workflow run", { workflowId, timestamp: payload.timestamp });
+
+        const userId = schedule.workflow.userId;
+        const result = await runWorkflowTask.triggerAndWait({
+            workflowId: schedule.workflowId,
+            userId,
+            runScope: "scheduled",
+            inputs: (schedule.inputs as Record<string, string> | null) ?? undefined,
+        }, {
+            concurrencyKey: userId, // per-user copy of workflowRunQueue
+        });
+
+        let lastRunStatus: RunStatus;
+        let lastError: string | null = null;
+        if (result.ok) {
+            lastRunStatus = result.output.status;
+            if (lastRunStatus === "partial") lastError = "Some nodes failed";
+            if (lastRunStatus === "failed") lastError = "Nodes failed; see the run history";
+        } else {
+            lastRunStatus = "failed";
+            lastError = toErrorMessage(result.error);
+        }
+
+        await prisma.workflowSchedule.update({
+            where: { id: schedule.id },
+            data: { lastRunAt: new Date(), lastRunStatus, lastError },
+        });
+
+        logger.info("Scheduled workflow run finished", { workflowId, status: lastRunStatus });
+        return { skipped: false, status: lastRunStatus };
+    },
+});
@@ -0,0 +1,194 @@
+/**
+ * Transform Image Task - Trigger.dev Task for Image Transforms
+ *
+ * Resizes, rotates, flips and filters an image with FFmpeg, encodes it
+ * in the chosen format, then uploads the result via Transloadit.
+ */
+
+import { task, logger } from "@trigger.dev/sdk/v3";
+import { execFileSync } from "child_process";
+import * as fs from "fs/promises";
+import * as path from "path";
+import * as os from "os";
+import type { ImageOutputFormat, ImageTransformSettings } from "@/types/workflow.types";
+import { uploadImageDataToTransloadit } from "@/lib/transloadit";
+import { nodeTaskQueue } from "./queues";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface TransformImageTaskPayload extends ImageTransformSettings {
+    imageUrl: string;
+}
+
+export interface TransformImageTaskResult {
+    transformedImageUrl: string;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+interface OutputEncoder {
+    extension: string;
+    mimeType: string;
+    args: (quality: number) => string[];
+}
+
+/**
+ * FFmpeg encoder per output format; quality (1-100) is mapped onto each
+ * encoder's own scale
+ */
+const ENCODERS: Record<ImageOutputFormat, OutputEncoder> = {
+    png: {
+        extension: "png",
+        mimeType: "image/png",
+        args: () => ["-c:v", "png"],
+    },
+    jpeg: {
+        extension: "jpg",
+        mimeType: "image/jpeg",
+        // qscale 2 (best) to 31 (worst)
+        args: (quality) => ["-c:v", "mjpeg", "-q:v", String(Math.round(31 - (quality / 100) * 29))],
+    },
+    webp: {
+        extension: "webp",
+        mimeType: "image/webp",
+        args: (quality) => ["-c:v", "libwebp", "-quality", String(quality)],
+    },
+    avif: {
+        extension: "avif",
+        mimeType: "image/avif",
+        // CRF 0 (lossless) to 63 (worst)
+        args: (quality) => [
+            "-c:v", "libaom-av1",
+            "-still-picture", "1",
+            "-pix_fmt", "yuv420p",
+            "-crf", String(Math.round(63 - (quality / 100) * 63)),
+        ],
+    },
+};
+
+async function getFfmpegPath(): Promise<string> {
+    const m = await import("ffmpeg-static");
+    const p = typeof m === "string" ? m : (m as { default?: string | null }).default;
+    if (typeof p !== "string" || !p) throw new Error("ffmpeg-static path not found");
+    return p;
+}
+
+const toSize = (value: number | undefined): number | undefined =>
+    value && Number.isFinite(value) && value > 0 ? Math.round(value) : undefined;
+
+const clamp = (value: number | undefined, min: number, max: number): number =>
+    Math.min(Math.max(Number(value) || 0, min), max);
+
+/**
+ * FFmpeg video filters for the settings, in the order they are applied
+ */
+function buildFilters(settings: ImageTransformSettings): string[] {
+    const filters: string[] = [];
+
+    const width = toSize(settings.width);
+    const height = toSize(settings.height);
+    if (settings.resizeMode !== "none" && (width || height)) {
+        if (!width || !height) {
+            // -1 keeps the aspect ratio for the side left unset
+            filters.push(`scale=${width ?? -1}:${height ?? -1}`);
+        } else if (settings.resizeMode === "fit") {
+            filters.push(`scale=${width}:${height}:force_original_aspect_ratio=decrease`);
+        } else if (settings.resizeMode === "fill") {
+            filters.push(`scale=${width}:${height}:force_original_aspect_ratio=increase`, `crop=${width}:${height}`);
+        } else {
+            filters.push(`scale=${width}:${height}`);
+        }
+    }
+
+    if (settings.rotate === 90) filters.push("transpose=clock");
+    if (settings.rotate === 180) filters.push("hflip", "vflip");
+    if (settings.rotate === 270) filters.push("transpose=cclock");
+
+    if (settings.flipHorizontal) filters.push("hflip");
+    if (settings.flipVertical) filters.push("vflip");
+    if (settings.grayscale) filters.push("hue=s=0");
+
+    const blur = clamp(settings.blur, 0, 20);
+    if (blur > 0) filters.push(`gblur=sigma=${blur}`);
+    const sharpen = clamp(settings.sharpen, 0, 5);
+    if (sharpen > 0) filters.push(`unsharp=5:5:${sharpen}`);
+
+    return filters;
+}
+
+// ============================================================================
+// Task Definition
+// ============================================================================
+
+export const transformImageTask = task({
+    id: "transform-image",
+    queue: nodeTaskQueue,
+    maxDuration: 180,
+    retry: {
+        maxAttempts: 3,
+        minTimeoutInMs: 1000,
+        maxTimeoutInMs: 5000,
+        factor: 2,
+    },
+    run: async (payload: TransformImageTaskPayload): Promise<TransformImageTaskResult> => {
+        const imageUrl = String(payload.imageUrl ?? "");
+        const encoder = ENCODERS[payload.format] ?? ENCODERS.png;
+        const quality = clamp(payload.quality, 1, 100);
+        const filters = buildFilters(payload);
+
+        logger.info("Starting transform image task (FFmpeg)", {
+            imageUrl: imageUrl.substring(0, 50) + "...",
+            filters,
+            format: payload.format,
+            quality,
+        });
+
+        const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "transform-"));
+        // No extension on the input: FFmpeg detects the image format itself
+        const inputPath = path.join(tmpDir, "input");
+        const outputPath = path.join(tmpDir, `output.${encoder.extension}`);
+
+        try {
+            // 1. Download image
+            const imageRes = await fetch(imageUrl);
+            if (!imageRes.ok) {
+                throw new Error(`Failed to fetch image: ${imageRes.status}`);
+            }
+            await fs.writeFile(inputPath, Buffer.from(await imageRes.arrayBuffer()));
+
+            // 2. Transform and encode
+            const ffmpegPath = await getFfmpegPath();
+            execFileSync(
+                ffmpegPath,
+                [
+                    "-y",
+                    "-i", inputPath,
+                    ...(filters.length > 0 ? ["-vf", filters.join(",")] : []),
+                    "-frames:v", "1",
+                    ...encoder.args(quality),
+                    outputPath,
+                ],
+                { maxBuffer: 10 * 1024 * 1024 }
+            );
+
+            // 3. Upload the result
+            const output = await fs.readFile(outputPath);
+            const uploaded = await uploadImageDataToTransloadit(
+                new Blob([new Uint8Array(output)], { type: encoder.mimeType }),
+                path.basename(outputPath)
+            );
+
+            logger.info("Transform image task completed", {
+                transformedImageUrl: uploaded.ssl_url.substring(0, 50) + "...",
+            });
+
+            return { transformedImageUrl: uploaded.ssl_url };
+        } finally {
+            await fs.rm(tmpDir, { recursive: true, force: true });
+        }
+    },
+});
@@ -0,0 +1,196 @@
+/**
+ * Trim Video Task - Trigger.dev Task for Video Trimming
+ *
+ * Cuts a video down to a start/end range with FFmpeg. Each end of the range
+ * can be in seconds or a percentage of duration, as for extract frame. The
+ * streams are copied unless re-encode settings are given; audio can be
+ * dropped. The clip is uploaded via Transloadit as-is.
+ */
+
+import { task, logger } from "@trigger.dev/sdk/v3";
+import { execFileSync } from "child_process";
+import * as fs from "fs/promises";
+import * as path from "path";
+import * as os from "os";
+import type { VideoCodec, VideoEncodeSettings } from "@/types/workflow.types";
+import { uploadVideoDataToTransloadit } from "@/lib/transloadit";
+import { nodeTaskQueue } from "./queues";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface TrimVideoTaskPayload {
+    videoUrl: string;
+    /** Start in seconds */
+    start: number;
+    /** Optional: 0–100, start at this percentage of duration */
+    startPercent?: number;
+    /** Optional: end in seconds; unset with endPercent: the end of the video */
+    end?: number;
+    /** Optional: 0–100, end at this percentage of duration */
+    endPercent?: number;
+    /** Optional: re-encode the clip; unset: copy the streams */
+    encode?: VideoEncodeSettings;
+    mute?: boolean;
+}
+
+export interface TrimVideoTaskResult {
+    trimmedVideoUrl: string;
+    /** Clip length in seconds */
+    duration: number;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const ENCODERS: Record<VideoCodec, { ext: string; mime: string; args: (crf: number) => string[]; audio: string[] }> = {
+    h264: {
+        ext: "mp4",
+        mime: "video/mp4",
+        args: (crf) => ["-c:v", "libx264", "-crf", String(crf), "-preset", "veryfast", "-pix_fmt", "yuv420p", "-movflags", "+faststart"],
+        audio: ["-c:a", "aac", "-b:a", "128k"],
+    },
+    vp9: {
+        ext: "webm",
+        mime: "video/webm",
+        args: (crf) => ["-c:v", "libvpx-vp9", "-crf", String(crf), "-b:v", "0", "-row-mt", "1"],
+        audio: ["-c:a", "libopus", "-b:a", "128k"],
+    },
+};
+
+// Copied streams keep their codec, so the container has to accept it
+const WEBM_CODECS = new Set(["vp8", "vp9", "av1"]);
+
+async function getFfprobePath(): Promise<string> {
+    const ffprobeStatic = await import("ffprobe-static");
+    const p = (ffprobeStatic as { path: string }).path;
+    if (!p) throw new Error("ffprobe-static path not found");
+    return p;
+}
+
+async function getFfmpegPath(): Promise<string> {
+    const m = await import("ffmpeg-static");
+    const p = typeof m === "string" ? m : (m as { default?: string | null }).default;
+    if (typeof p !== "string" || !p) throw new Error("ffmpeg-static path not found");
+    return p;
+}
+
+/** Duration in seconds and video codec name, using ffprobe */
+async function probeVideo(filePath: string): Promise<{ duration: number; codec?: string }> {
+    const ffprobePath = await getFfprobePath();
+    const out = execFileSync(
+        ffprobePath,
+        ["-v", "error", "-select_streams", "v:0", "-show_entries", "stream=codec_name:format=duration", "-of", "json", filePath],
+        { encoding: "utf-8", maxBuffer: 1024 * 1024 }
+    );
+    const probe = JSON.parse(out) as { streams?: { codec_name?: string }[]; format?: { duration?: string } };
+    const duration = parseFloat(probe.format?.duration ?? "");
+    if (!Number.isFinite(duration) || duration <= 0) {
+        throw new Error(`Could not get video duration: ${out.trim()}`);
+    }
+    return { duration, codec: probe.streams?.[0]?.codec_name };
+}
+
+/** A range end in seconds: the percentage of duration when set, else the seconds */
+const toSeconds = (seconds: number | undefined, percent: number | undefined, duration: number): number | undefined =>
+    percent != null ? (duration * Number(percent)) / 100 : seconds != null ? Number(seconds) : undefined;
+
+// ============================================================================
+// Task Definition
+// ============================================================================
+
+export const trimVideoTask = task({
+    id: "trim-video",
+    queue: nodeTaskQueue,
+    maxDuration: 600,
+    retry: {
+        maxAttempts: 3,
+        minTimeoutInMs: 1000,
+        maxTimeoutInMs: 5000,
+        factor: 2,
+    },
+    run: async (payload: TrimVideoTaskPayload): Promise<TrimVideoTaskResult> => {
+        const videoUrl = String(payload.videoUrl ?? "");
+        const encode = payload.encode && ENCODERS[payload.encode.codec] ? payload.encode : undefined;
+
+        logger.info("Starting trim video task (FFmpeg)", {
+            videoUrl: videoUrl.substring(0, 50) + "...",
+            start: payload.start,
+            startPercent: payload.startPercent,
+            end: payload.end,
+            endPercent: payload.endPercent,
+            codec: encode?.codec ?? "copy",
+            mute: !!payload.mute,
+        });
+
+        const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "trim-video-"));
+        // No extension on the input: ffprobe/ffmpeg detect the format
+        const videoPath = path.join(tmpDir, "video");
+
+        try {
+            // 1. Download video
+            const videoRes = await fetch(videoUrl);
+            if (!videoRes.ok) {
+                throw new Error(`Failed to fetch video: ${videoRes.status}`);
+            }
+            await fs.writeFile(videoPath, Buffer.from(await videoRes.arrayBuffer()));
+
+            // 2. Resolve the range against the duration
+            const { duration, codec } = await probeVideo(videoPath);
+            const start = Math.max(0, toSeconds(payload.start, payload.startPercent, duration) ?? 0);
+            const end = Math.min(duration, toSeconds(payload.end, payload.endPercent, duration) ?? duration);
+            if (!Number.isFinite(start) || !Number.isFinite(end) || start >= end) {
+                throw new Error(
+                    `Trim range is empty: start ${start.toFixed(2)}s, end ${end.toFixed(2)}s (video is ${duration.toFixed(2)}s)`
+                );
+            }
+            logger.info("Resolved trim range", { duration, start, end });
+
+            // 3. Trim with FFmpeg
+            const ext = encode ? ENCODERS[encode.codec].ext : codec && WEBM_CODECS.has(codec) ? "webm" : "mp4";
+            const outputPath = path.join(tmpDir, `trimmed.${ext}`);
+            const height = encode?.height ? Math.round(Number(encode.height)) : 0;
+            const crf = Math.min(Math.max(Math.round(Number(encode?.crf) || 0), 0), 51);
+            const codecArgs = encode
+                ? [
+                    ...ENCODERS[encode.codec].args(crf),
+                    ...(height > 0 ? ["-vf", `scale=-2:${height}`] : []),
+                    ...(payload.mute ? [] : ENCODERS[encode.codec].audio),
+                ]
+                : ["-c", "copy", "-avoid_negative_ts", "make_zero"];
+
+            const ffmpegPath = await getFfmpegPath();
+            execFileSync(
+                ffmpegPath,
+                [
+                    "-y",
+                    "-ss", String(start),
+                    "-i", videoPath,
+                    "-t", String(end - start),
+                    "-map", "0:v:0",
+                    ...(payload.mute ? ["-an"] : ["-map", "0:a:0?"]),
+                    ...codecArgs,
+                    outputPath,
+                ],
+                { maxBuffer: 50 * 1024 * 1024 }
+            );
+
+            // 4. Upload the clip
+            const trimmed = await fs.readFile(outputPath);
+            const uploaded = await uploadVideoDataToTransloadit(
+                new Blob([new Uint8Array(trimmed)], { type: encode ? ENCODERS[encode.codec].mime : `video/${ext}` }),
+                `trimmed.${ext}`
+            );
+
+            logger.info("Trim video task completed", {
+                trimmedVideoUrl: uploaded.ssl_url.substring(0, 50) + "...",
+            });
+
+            return { trimmedVideoUrl: uploaded.ssl_url, duration: end - start };
+        } finally {
+            await fs.rm(tmpDir, { recursive: true, force: true });
+        }
+    },
+});
@@ -28,19 +28,140 @@ export interface ImageNodeData {
     isLocked?: boolean;
 }
 
+/**
+ * Last task output of an executable node, with the hash of the resolved
+ * inputs and parameters that produced it. Runs reuse it while the hash matches.
+ */
+export interface NodeOutputCache {
+    inputHash: string;
+    output: Record<string, unknown>;
+}
+
+/**
+ * What a workflow run does once a node has failed all its attempts:
+ * - stop: stop the workflow; nodes not yet run are skipped
+ * - skip-dependents: skip the nodes downstream of it, keep running the rest
+ * - fallback: continue, passing `fallbackValue` downstream as the node's output
+ */
+export type NodeFailurePolicy = 'stop' | 'skip-dependents' | 'fallback';
+
+/**
+ * Per-node retry / timeout / failure settings, honoured by workflow runs.
+ * Unset fields fall back to the node task's defaults.
+ */
+export interface NodeExecutionSettings {
+    retries?: number; // attempts after the first
+    backoffSeconds?: number; // delay before the first retry, doubled for each retry after it
+    timeoutSeconds?: number; // per attempt
+    onFailure?: NodeFailurePolicy;
+    fallbackValue?: string;
+}
+
+/**
+ * Sampling settings for an LLM call. Unset fields use the provider's
+ * defaults; a provider ignores the ones its API lacks (Anthropic has no seed,
+ * OpenAI no top-K).
+ */
+export interface LLMGenerationParams {
+    temperature?: number;
+    topP?: number;
+    topK?: number;
+    maxOutputTokens?: number;
+    stopSequences?: string[];
+    candidateCount?: number; // responses to generate; the first is the node's output
+    seed?: number;
+}
+
+export type LLMOutputFieldType = 'string' | 'number' | 'integer' | 'boolean' | 'array';
+
+/**
+ * Top-level field of an LLM node's JSON output, built in the node's field editor
+ */
+export interface LLMOutputField {
+    name: string;
+    type: LLMOutputFieldType; // arrays are of strings
+    description?: string;
+    required?: boolean;
+}
+
+/**
+ * JSON output of an LLM node: a schema built from fields, or a JSON Schema
+ * authored in the node. Each top-level property gets its own output handle.
+ */
+export interface LLMStructuredOutput {
+    mode: 'fields' | 'schema';
+    fields: LLMOutputField[];
+    schema?: string; // JSON Schema source, used in 'schema' mode
+    maxRetries?: number; // re-asks after a response fails validation; defaults to DEFAULT_STRUCTURED_OUTPUT_RETRIES
+}
+
+export const DEFAULT_STRUCTURED_OUTPUT_RETRIES = 2;
+
 export interface LLMNodeData {
     [key: string]: unknown;
-    model: GeminiModel;
+    provider?: LLMProviderId; // defaults to DEFAULT_LLM_PROVIDER
+    model: string;
     systemPrompt?: string;
     userMessage?: string;
     images?: string[]; // base64 encoded
+    generation?: LLMGenerationParams;
+    structuredOutput?: LLMStructuredOutput; // unset: plain text output
     output?: string;
+    candidates?: string[]; // every response of the last run, when more than one was asked for
+    fieldValues?: Record<string, string>; // top-level fields of the last structured output
+    cache?: NodeOutputCache;
+    execution?: NodeExecutionSettings;
+    isLoading?: boolean;
+    error?: string;
+    label?: string;
+    isLocked?: boolean;
+}
+
+export interface ChatMessage {
+    id: string;
+    role: 'user' | 'model';
+    text: string;
+}
+
+/**
+ * A conversation set aside when the chat was edited or branched from an
+ * earlier turn, kept so it can be switched back to
+ */
+export interface ChatBranch {
+    id: string;
+    messages: ChatMessage[];
+}
+
+/**
+ * Multi-turn conversation: each run sends one new user turn along with the
+ * history and appends the reply to it
+ */
+export interface ChatNodeData {
+    [key: string]: unknown;
+    provider?: LLMProviderId; // defaults to DEFAULT_LLM_PROVIDER
+    model: string;
+    systemPrompt?: string;
+    messages: ChatMessage[]; // oldest first
+    draft?: string; // next user turn, used when no message input is connected
+    branches?: ChatBranch[];
+    output?: string; // latest reply
+    transcript?: string;
+    cache?: NodeOutputCache;
+    execution?: NodeExecutionSettings;
     isLoading?: boolean;
     error?: string;
     label?: string;
     isLocked?: boolean;
 }
 
+export const MAX_CHAT_BRANCHES = 10;
+
+/**
+ * Conversation as plain text, for the chat node's transcript output
+ */
+export const formatChatTranscript = (messages: ChatMessage[]) =>
+    messages.map(message => `${message.role === 'user' ? 'User' : 'Model'}: ${message.text}`).join('\n\n');
+
 export interface VideoNodeData {
     [key: string]: unknown;
     videoUrl?: string;
@@ -56,6 +177,8 @@ export interface CropImageNodeData {
     [key: string]: unknown;
     inputImageUrl?: string;
     outputImageUrl?: string;
+    cache?: NodeOutputCache;
+    execution?: NodeExecutionSettings;
     previewDimensions?: { width: number; height: number };
     cropX: number;  // percentage 0-100
     cropY: number;  // percentage 0-100
@@ -67,10 +190,111 @@ export interface CropImageNodeData {
     isLocked?: boolean;
 }
 
+/**
+ * How a transform resizes to its width and height:
+ * - none: keep the input size
+ * - fit: scale down or up to fit inside the box, keeping the aspect ratio
+ * - fill: cover the box, keeping the aspect ratio, and center-crop the overflow
+ * - exact: stretch to the box
+ * With only one side set, every mode scales to it and keeps the aspect ratio.
+ */
+export type ImageResizeMode = 'none' | 'fit' | 'fill' | 'exact';
+
+export type ImageOutputFormat = 'png' | 'jpeg' | 'webp' | 'avif';
+
+export const IMAGE_OUTPUT_FORMATS: { value: ImageOutputFormat; label: string; lossy: boolean }[] = [
+    { value: 'png', label: 'PNG', lossy: false },
+    { value: 'jpeg', label: 'JPEG', lossy: true },
+    { value: 'webp', label: 'WebP', lossy: true },
+    { value: 'avif', label: 'AVIF', lossy: true },
+];
+
+/**
+ * Transform image settings, applied in this order: resize, rotate, flip,
+ * grayscale, blur, sharpen, then encoding
+ */
+export interface ImageTransformSettings {
+    resizeMode: ImageResizeMode;
+    width?: number;   // pixels
+    height?: number;  // pixels
+    rotate: 0 | 90 | 180 | 270;  // degrees clockwise
+    flipHorizontal?: boolean;
+    flipVertical?: boolean;
+    grayscale?: boolean;
+    blur?: number;     // gaussian sigma 0-20, 0 is off
+    sharpen?: number;  // unsharp mask amount 0-5, 0 is off
+    format: ImageOutputFormat;
+    quality: number;   // 1-100, lossy formats only
+}
+
+export interface TransformImageNodeData extends ImageTransformSettings {
+    [key: string]: unknown;
+    outputImageUrl?: string;
+    cache?: NodeOutputCache;
+    execution?: NodeExecutionSettings;
+    isProcessing?: boolean;
+    error?: string;
+    label?: string;
+    isLocked?: boolean;
+}
+
+export type CompositeLayerType = 'text' | 'image';
+
+/**
+ * Text layer fonts, as fontconfig generic families so they resolve to
+ * whatever fonts the task's machine has installed
+ */
+export type CompositeFont = 'sans' | 'serif' | 'mono';
+
+export const COMPOSITE_FONTS: { value: CompositeFont; label: string }[] = [
+    { value: 'sans', label: 'Sans-serif' },
+    { value: 'serif', label: 'Serif' },
+    { value: 'mono', label: 'Monospace' },
+];
+
+/**
+ * Text or image drawn over a composite node's base image. Each layer has its
+ * own input handle; a connected value replaces `text` / `imageUrl`.
+ */
+export interface CompositeLayer {
+    id: string;
+    type: CompositeLayerType;
+    text?: string;      // text layers, used when no text is connected
+    imageUrl?: string;  // image layers, used when no image is connected
+    alignX: 'left' | 'center' | 'right';
+    alignY: 'top' | 'middle' | 'bottom';
+    offsetX: number;  // percentage of base width, inward from the aligned edge
+    offsetY: number;  // percentage of base height, inward from the aligned edge
+    scale: number;    // image: width as a percentage of base width; text: font size as a percentage of base height
+    opacity: number;  // percentage 0-100
+    font?: CompositeFont;
+    bold?: boolean;
+    color?: string;   // text colour, #rrggbb
+}
+
+export const MAX_COMPOSITE_LAYERS = 8;
+
+/**
+ * Layers are drawn over the base image in order, the last one on top
+ */
+export interface CompositeNodeData {
+    [key: string]: unknown;
+    layers: CompositeLayer[];
+    outputImageUrl?: string;
+    cache?: NodeOutputCache;
+    execution?: NodeExecutionSettings;
+    isProcessing?: boolean;
+    error?: string;
+    label?: string;
+    isLocked?: boolean;
+}
+
 export interface ExtractFrameNodeData {
     [key: string]: unknown;
     inputVideoUrl?: string;
     outputFrameUrl?: string;
+    cache?: NodeOutputCache;
+    execution?: NodeExecutionSettings;
     /** Timestamp in seconds (used when timestampPercent is not set or when we have duration) */
     timestamp: number;
     /** Optional: 0–100, extract frame at this percentage of video duration (e.g. 50 for "50%") */
@@ -82,13 +306,230 @@ export interface ExtractFrameNodeData {
     isLocked?: boolean;
 }
 
+export type VideoCodec = 'h264' | 'vp9';
+
+export const VIDEO_CODECS: { value: VideoCodec; label: string }[] = [
+    { value: 'h264', label: 'H.264 (MP4)' },
+    { value: 'vp9', label: 'VP9 (WebM)' },
+];
+
+/**
+ * Re-encoding of a trimmed clip; without it the streams are copied, which is
+ * fast but starts the clip at the keyframe before `start`
+ */
+export interface VideoEncodeSettings {
+    codec: VideoCodec;
+    crf: number;      // quality 0-51, lower is better
+    height?: number;  // scale to this height, keeping the aspect ratio
+}
+
+export interface TrimVideoNodeData {
+    [key: string]: unknown;
+    outputVideoUrl?: string;
+    cache?: NodeOutputCache;
+    execution?: NodeExecutionSettings;
+    /** Start in seconds (used when startPercent is not set) */
+    start: number;
+    /** Optional: 0–100, start at this percentage of video duration */
+    startPercent?: number;
+    /** End in seconds (used when endPercent is not set); unset: the end of the video */
+    end?: number;
+    /** Optional: 0–100, end at this percentage of video duration */
+    endPercent?: number;
+    encode?: VideoEncodeSettings;
+    mute?: boolean;
+    outputDuration?: number;
+    isProcessing?: boolean;
+    error?: string;
+    label?: string;
+    isLocked?: boolean;
+}
+
+/**
+ * How a condition rule tests the node's input text:
+ * - contains / equals / regex: plain text matching
+ * - json-path: parse the input as JSON and compare the value at `path`
+ * - llm: ask the model the yes/no question in `value`
+ */
+export type ConditionOperator = 'contains' | 'equals' | 'regex' | 'json-path' | 'llm';
+
+export type JsonPathComparison = 'exists' | 'equals' | 'not-equals' | 'contains' | 'greater-than' | 'less-than';
+
+export interface ConditionRule {
+    id: string; // output handle of the rule's branch in switch mode
+    label: string;
+    operator: ConditionOperator;
+    value: string; // text, pattern, comparison value or yes/no question
+    caseSensitive?: boolean;
+    path?: string; // json-path only, e.g. "$.items[0].status"
+    comparison?: JsonPathComparison; // json-path only, defaults to 'equals'
+}
+
+/**
+ * If mode tests the first rule and routes the input to the 'true' or 'false'
+ * handle. Switch mode routes it to the first matching rule's handle, or to
+ * 'default' when none match. Nodes on the branches not taken are skipped.
+ */
+export interface ConditionNodeData {
+    [key: string]: unknown;
+    mode: 'if' | 'switch';
+    rules: ConditionRule[];
+    provider?: LLMProviderId; // used by llm rules, with model
+    model: string;
+    inputText?: string; // used when no input is connected
+    matchedBranch?: string;
+    output?: string;
+    cache?: NodeOutputCache;
+    execution?: NodeExecutionSettings;
+    isProcessing?: boolean;
+    label?: string;
+    isLocked?: boolean;
+}
+
+/**
+ * How a map node splits text input into items:
+ * - auto: a JSON array if the text parses as one, otherwise one item per line
+ * - lines: one item per non-empty line
+ * - json: a JSON array (non-string elements are serialized)
+ * Image lists (e.g. every image of an Image node) are always split per image.
+ */
+export type MapSplitMode = 'auto' | 'lines' | 'json';
+
+/**
+ * Runs the nodes downstream of it once per item of its input list, up to the
+ * collect nodes that gather the per-item outputs back into a list
+ */
+export interface MapNodeData {
+    [key: string]: unknown;
+    splitMode: MapSplitMode;
+    maxParallel?: number; // items in flight at once, within the workflow's own limit
+    inputText?: string; // used when no input is connected
+    items?: string[]; // items of the last run
+    label?: string;
+    isLocked?: boolean;
+}
+
+export interface CollectNodeData {
+    [key: string]: unknown;
+    format: 'lines' | 'json'; // how the list is joined on the text output
+    items?: unknown[];
+    output?: string;
+    label?: string;
+    isLocked?: boolean;
+}
+
+export type WorkflowValueType = 'text' | 'image' | 'video';
+
+/**
+ * A parameter of the workflow: supplied when it is run (from the run dialog,
+ * or by a sub-workflow node calling it), otherwise its default is used
+ */
+export interface WorkflowInputNodeData {
+    [key: string]: unknown;
+    name: string;
+    valueType: WorkflowValueType;
+    defaultValue?: string;
+    required?: boolean; // the run fails unless a value (or default) is given
+    label?: string;
+    isLocked?: boolean;
+}
+
+/**
+ * A value the workflow returns, e.g. to the sub-workflow node calling it
+ */
+export interface WorkflowOutputNodeData {
+    [key: string]: unknown;
+    name: string;
+    valueType: WorkflowValueType;
+    value?: string; // value of the last run
+    label?: string;
+    isLocked?: boolean;
+}
+
+/**
+ * A workflow input or output as seen from a sub-workflow node; the id of the
+ * input / output node doubles as the sub-workflow node's handle id
+ */
+export interface WorkflowPort {
+    id: string;
+    name: string;
+    valueType: WorkflowValueType;
+}
+
+export interface WorkflowInputPort extends WorkflowPort {
+    defaultValue?: string;
+    required?: boolean;
+}
+
+/**
+ * What a workflow takes and returns, read from its input and output nodes
+ */
+export interface WorkflowSignature {
+    inputs: WorkflowInputPort[];
+    outputs: WorkflowPort[];
+}
+
+/**
+ * Runs another saved workflow, passing its inputs in and its outputs on
+ */
+export interface SubworkflowNodeData {
+    [key: string]: unknown;
+    workflowId?: string;
+    workflowName?: string;
+    inputs: WorkflowInputPort[]; // signature of the referenced workflow when it was picked
+    outputs: WorkflowPort[];
+    outputValues?: Record<string, string>; // keyed by output id
+    cache?: NodeOutputCache;
+    execution?: NodeExecutionSettings;
+    isProcessing?: boolean;
+    label?: string;
+    isLocked?: boolean;
+}
+
+/**
+ * Text-to-image, or image-to-image when a reference image is connected
+ */
+export interface GenerateImageNodeData {
+    [key: string]: unknown;
+    provider?: ImageProviderId; // defaults to DEFAULT_IMAGE_PROVIDER
+    model: string;
+    prompt?: string; // used when no prompt is connected
+    negativePrompt?: string;
+    width: number;
+    height: number;
+    seed?: number; // unset: the provider picks one per run
+    count: number; // images per run, up to MAX_GENERATED_IMAGES
+    outputImageUrls?: string[];
+    currentIndex?: number; // image shown in the node
+    cache?: NodeOutputCache;
+    execution?: NodeExecutionSettings;
+    isProcessing?: boolean;
+    error?: string;
+    label?: string;
+    isLocked?: boolean;
+}
+
+export const MAX_GENERATED_IMAGES = 4;
+
+/**
+ * Text with `{{name}}` placeholders, each filled from its own input handle.
+ * See src/lib/templateRenderer.ts for the syntax.
+ */
+export interface TemplateNodeData {
+    [key: string]: unknown;
+    template: string;
+    output?: string; // text rendered by the last run
+    label?: string;
+    isLocked?: boolean;
+}
+
 // ============================================================================
 // Workflow History Types
 // ============================================================================
 
-export type RunTaskStatus = 'running' | 'completed' | 'failed';
-export type RunScope = 'full' | 'selected' | 'single';
-export type RunStatus = 'running' | 'completed' | 'failed' | 'partial';
+export type RunTaskStatus = 'queued' | 'running' | 'completed' | 'cached' | 'failed' | 'skipped' | 'cancelled';
+export type RunScope = 'full' | 'selected' | 'single' | 'up-to-here' | 'from-here' | 'scheduled' | 'batch';
+export type RunStatus = 'running' | 'completed' | 'failed' | 'partial' | 'cancelled';
 
 export interface RunTask {
     id: string;
@@ -99,6 +540,7 @@ export interface RunTask {
     completedAt?: Date;
     progress?: string; // e.g., "1/1", "2/3"
     error?: string;
+    triggerRunId?: string; // Trigger.dev run backing a standalone node run (for cancel)
 }
 
 export interface NodeRun {
@@ -113,6 +555,8 @@ export interface NodeRun {
     inputData?: Record<string, unknown>;
     outputData?: Record<string, unknown>;
     error?: string;
+    iteration?: number; // item index, for nodes run once per item of a map node
+    parentNodeRunId?: string; // sub-workflow node run this node ran inside of
 }
 
 export interface WorkflowRun {
@@ -124,24 +568,284 @@ export interface WorkflowRun {
     completedAt?: Date;
     duration?: number; // in milliseconds
     nodeCount: number;
+    inputs?: Record<string, string>; // values supplied for the workflow input nodes, by node id
     nodeRuns: NodeRun[];
 }
 
+/**
+ * Per-node progress published by the run-workflow Trigger.dev task (run metadata)
+ */
+export interface NodeRunProgress {
+    status: RunTaskStatus;
+    output?: Record<string, unknown>;
+    inputHash?: string; // set when the output was produced by this run, for NodeOutputCache
+    error?: string;
+    progress?: string; // finished / total items, for nodes run once per item of a map node
+}
+
+export interface WorkflowRunProgress {
+    workflowRunId: string;
+    nodes: Record<string, NodeRunProgress>;
+}
+
+/**
+ * Root run metadata key the LLM task streams a node's partial output into
+ */
+export const getPartialOutputKey = (nodeId: string) => `partialOutput:${nodeId}`;
+
+/**
+ * Tag on a node's child run within a workflow run, used to cancel a single node
+ */
+export const getNodeRunTag = (workflowTriggerRunId: string, nodeId: string) => `${workflowTriggerRunId}_${nodeId}`;
+
+/**
+ * Tag on every node task run started for a user, so a cancel request can
+ * check the run is theirs
+ */
+export const getUserRunTag = (userId: string) => `user_${userId}`;
+
+/**
+ * Node tasks a workflow run executes at once unless the workflow sets its own
+ * limit (matches the Workflow.maxConcurrency column default)
+ */
+export const DEFAULT_MAX_CONCURRENCY = 4;
+
+/**
+ * Server-side workflow run the canvas is subscribed to (Trigger.dev Realtime)
+ */
+export interface ActiveWorkflowRun {
+    triggerRunId: string;
+    publicAccessToken: string;
+    scope: RunScope;
+}
+
+// ============================================================================
+// Schedule Types
+// ============================================================================
+
+/**
+ * Runs the saved workflow on a cron schedule (run scope 'scheduled')
+ */
+export interface WorkflowSchedule {
+    id: string;
+    cron: string;
+    timezone: string; // IANA, e.g. "Europe/Berlin"
+    enabled: boolean;
+    inputs?: Record<string, string>; // values for the workflow input nodes, by node id
+    lastRunAt?: Date;
+    lastRunStatus?: RunStatus;
+    lastError?: string;
+}
+
+export const SCHEDULE_PRESETS: { cron: string; label: string }[] = [
+    { cron: '0 9 * * *', label: 'Every day at 9:00' },
+    { cron: '0 9 * * 1-5', label: 'Weekdays at 9:00' },
+    { cron: '0 9 * * 1', label: 'Mondays at 9:00' },
+    { cron: '0 * * * *', label: 'Every hour' },
+];
+
+// ============================================================================
+// Batch Run Types
+// ============================================================================
+
+/**
+ * The workflow run once per row of an uploaded dataset (run scope 'batch')
+ */
+export type BatchRunStatus = 'running' | 'completed' | 'cancelled' | 'failed';
+
+/** Rows a batch run can have */
+export const MAX_BATCH_ROWS = 1000;
+
+/** Rows of a batch run in progress at once, at most */
+export const MAX_BATCH_CONCURRENCY = 10;
+
+export interface BatchRun {
+    id: string;
+    status: BatchRunStatus;
+    rowCount: number;
+    concurrency: number;
+    startedAt: Date;
+    completedAt?: Date;
+}
+
+/**
+ * One row of a batch run's results table. Rows not started yet are 'queued';
+ * rows left unstarted when the batch stopped are 'skipped'.
+ */
+export interface BatchRowResult {
+    index: number;
+    inputs: Record<string, string>; // by input node id
+    status: RunStatus | 'queued' | 'skipped';
+    runId?: string; // WorkflowRun of the row
+    outputs: Record<string, unknown>; // by workflow output name
+    error?: string;
+}
+
+// ============================================================================
+// Webhook Types
+// ============================================================================
+
+export type WebhookEvent = 'run.completed' | 'run.failed' | 'node.failed';
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+export const WEBHOOK_EVENTS: { value: WebhookEvent; label: string }[] = [
+    { value: 'run.completed', label: 'Run completed' },
+    { value: 'run.failed', label: 'Run failed (or partly failed)' },
+    { value: 'node.failed', label: 'Node failed' },
+];
+
+export interface Webhook {
+    id: string;
+    url: string;
+    secret: string;
+    events: WebhookEvent[];
+    enabled: boolean;
+    createdAt: Date;
+}
+
+export interface WebhookDelivery {
+    id: string;
+    event: WebhookEvent;
+    status: WebhookDeliveryStatus;
+    attempts: number;
+    responseStatus?: number;
+    error?: string;
+    createdAt: Date;
+    deliveredAt?: Date;
+}
+
 // ============================================================================
-// Gemini Models
+// LLM Providers
 // ============================================================================
 
-export type GeminiModel =
-    | 'gemini-2.5-flash'
-    | 'gemini-1.5-flash'
-    | 'gemini-1.5-pro'
-    | 'gemini-1.0-pro';
+/**
+ * Backends an LLM call can go to. 'openai' and 'local' both speak the
+ * OpenAI chat-completions API; 'local' points at a server such as Ollama or
+ * llama.cpp and needs no API key.
+ */
+export type LLMProviderId = 'gemini' | 'openai' | 'anthropic' | 'local';
+
+export interface LLMModelOption {
+    value: string;
+    label: string;
+}
 
-export const GEMINI_MODELS: { value: GeminiModel; label: string }[] = [
-    { value: 'gemini-2.5-flash', label: 'Gemini 2.5 Flash' },
-    { value: 'gemini-1.5-flash', label: 'Gemini 1.5 Flash' },
-    { value: 'gemini-1.5-pro', label: 'Gemini 1.5 Pro' },
-    { value: 'gemini-1.0-pro', label: 'Gemini 1.0 Pro' },
+export interface LLMProviderInfo {
+    id: LLMProviderId;
+    label: string;
+    /** Suggested models; any other model name the provider knows can be entered */
+    models: LLMModelOption[];
+    apiKeyRequired: boolean;
+    /** Base URL used when the workspace doesn't set one (OpenAI-compatible providers) */
+    defaultBaseUrl?: string;
+}
+
+export const LLM_PROVIDERS: LLMProviderInfo[] = [
+    {
+        id: 'gemini',
+        label: 'Google Gemini',
+        models: [
+            { value: 'gemini-2.5-flash', label: 'Gemini 2.5 Flash' },
+            { value: 'gemini-1.5-flash', label: 'Gemini 1.5 Flash' },
+            { value: 'gemini-1.5-pro', label: 'Gemini 1.5 Pro' },
+            { value: 'gemini-1.0-pro', label: 'Gemini 1.0 Pro' },
+        ],
+        apiKeyRequired: true,
+    },
+    {
+        id: 'openai',
+        label: 'OpenAI',
+        models: [
+            { value: 'gpt-4o-mini', label: 'GPT-4o mini' },
+            { value: 'gpt-4o', label: 'GPT-4o' },
+            { value: 'gpt-4.1-mini', label: 'GPT-4.1 mini' },
+        ],
+        apiKeyRequired: true,
+        defaultBaseUrl: 'https://api.openai.com/v1',
+    },
+    {
+        id: 'anthropic',
+        label: 'Anthropic',
+        models: [
+            { value: 'claude-3-5-haiku-latest', label: 'Claude 3.5 Haiku' },
+            { value: 'claude-sonnet-4-0', label: 'Claude Sonnet 4' },
+        ],
+        apiKeyRequired: true,
+    },
+    {
+        id: 'local',
+        label: 'Local (Ollama, llama.cpp)',
+        models: [
+            { value: 'llama3.2', label: 'Llama 3.2' },
+            { value: 'qwen2.5', label: 'Qwen 2.5' },
+            { value: 'llava', label: 'LLaVA (vision)' },
+        ],
+        apiKeyRequired: false,
+        defaultBaseUrl: 'http://localhost:11434/v1',
+    },
+];
+
+/** Nodes saved before providers existed have no provider and use Gemini */
+export const DEFAULT_LLM_PROVIDER: LLMProviderId = 'gemini';
+export const DEFAULT_LLM_MODEL = 'gemini-2.5-flash';
+
+export const getLLMProviderInfo = (id: LLMProviderId | undefined): LLMProviderInfo =>
+    LLM_PROVIDERS.find(p => p.id === (id ?? DEFAULT_LLM_PROVIDER)) ?? LLM_PROVIDERS[0];
+
+/**
+ * Backends a generate-image node can run on. 'local' draws a pattern derived
+ * from the request instead of calling a model: the same request always gives
+ * the same image, for tests and offline work.
+ */
+export type ImageProviderId = 'replicate' | 'local';
+
+export interface ImageProviderInfo {
+    id: ImageProviderId;
+    label: string;
+    models: LLMModelOption[];
+}
+
+export const IMAGE_PROVIDERS: ImageProviderInfo[] = [
+    {
+        id: 'replicate',
+        label: 'Replicate',
+        models: [
+            { value: 'black-forest-labs/flux-schnell', label: 'Flux Fast' },
+            { value: 'black-forest-labs/flux-dev', label: 'Flux Dev' },
+            { value: 'black-forest-labs/flux-kontext-pro', label: 'Flux Kontext' },
+            { value: 'minimax/image-01', label: 'Minimax Image' },
+            { value: 'ideogram-ai/ideogram-v3-turbo', label: 'Ideogram V3' },
+        ],
+    },
+    {
+        id: 'local',
+        label: 'Local stub',
+        models: [{ value: 'pattern', label: 'Test pattern' }],
+    },
+];
+
+export const DEFAULT_IMAGE_PROVIDER: ImageProviderId = 'replicate';
+export const DEFAULT_IMAGE_MODEL = 'black-forest-labs/flux-schnell';
+
+export const getImageProviderInfo = (id: ImageProviderId | undefined): ImageProviderInfo =>
+    IMAGE_PROVIDERS.find(p => p.id === (id ?? DEFAULT_IMAGE_PROVIDER)) ?? IMAGE_PROVIDERS[0];
+
+/**
+ * A workspace's API key and base URL for a provider, as shown in settings
+ * (the key itself is never sent back)
+ */
+export interface ProviderCredentialSummary {
+    provider: LLMProviderId;
+    apiKeyHint?: string; // last characters of the saved key
+    baseUrl?: string;
+    /** A key is configured on the server, used when the workspace has none */
+    hasServerKey: boolean;
+}
+
+export const WORKFLOW_VALUE_TYPES: { value: WorkflowValueType; label: string }[] = [
+    { value: 'text', label: 'Text' },
+    { value: 'image', label: 'Image URL' },
+    { value: 'video', label: 'Video URL' },
 ];
 
 // ============================================================================
@@ -152,16 +856,40 @@ export type TextFlowNode = Node<TextNodeData, 'text'>;
 export type ImageFlowNode = Node<ImageNodeData, 'image'>;
 export type VideoFlowNode = Node<VideoNodeData, 'video'>;
 export type CropImageFlowNode = Node<CropImageNodeData, 'cropImage'>;
+export type TransformImageFlowNode = Node<TransformImageNodeData, 'transformImage'>;
+export type CompositeFlowNode = Node<CompositeNodeData, 'composite'>;
 export type ExtractFrameFlowNode = Node<ExtractFrameNodeData, 'extractFrame'>;
+export type TrimVideoFlowNode = Node<TrimVideoNodeData, 'trimVideo'>;
 export type LLMFlowNode = Node<LLMNodeData, 'llm'>;
+export type ChatFlowNode = Node<ChatNodeData, 'chat'>;
+export type GenerateImageFlowNode = Node<GenerateImageNodeData, 'generateImage'>;
+export type ConditionFlowNode = Node<ConditionNodeData, 'condition'>;
+export type MapFlowNode = Node<MapNodeData, 'map'>;
+export type CollectFlowNode = Node<CollectNodeData, 'collect'>;
+export type WorkflowInputFlowNode = Node<WorkflowInputNodeData, 'workflowInput'>;
+export type WorkflowOutputFlowNode = Node<WorkflowOutputNodeData, 'workflowOutput'>;
+export type SubworkflowFlowNode = Node<SubworkflowNodeData, 'subworkflow'>;
+export type TemplateFlowNode = Node<TemplateNodeData, 'template'>;
 
 export type WorkflowNode =
     | TextFlowNode
     | ImageFlowNode
     | VideoFlowNode
     | CropImageFlowNode
+    | TransformImageFlowNode
+    | CompositeFlowNode
     | ExtractFrameFlowNode
-    | LLMFlowNode;
+    | TrimVideoFlowNode
+    | LLMFlowNode
+    | ChatFlowNode
+    | GenerateImageFlowNode
+    | ConditionFlowNode
+    | MapFlowNode
+    | CollectFlowNode
+    | WorkflowInputFlowNode
+    | WorkflowOutputFlowNode
+    | SubworkflowFlowNode
+    | TemplateFlowNode;
 export type WorkflowEdge = Edge;
 
 // ============================================================================
@@ -175,6 +903,20 @@ export const LLM_HANDLES = {
     OUTPUT: 'output',
 } as const;
 
+export const CHAT_HANDLES = {
+    SYSTEM_PROMPT: 'system_prompt',
+    MESSAGE: 'message',
+    REPLY: 'reply',
+    TRANSCRIPT: 'transcript',
+} as const;
+
+export const GENERATE_IMAGE_HANDLES = {
+    PROMPT: 'prompt',
+    NEGATIVE_PROMPT: 'negative_prompt',
+    REFERENCE_IMAGE: 'reference_image',
+    OUTPUT: 'output',
+} as const;
+
 export const TEXT_HANDLES = {
     OUTPUT: 'output',
 } as const;
@@ -196,20 +938,77 @@ export const CROP_IMAGE_HANDLES = {
     OUTPUT: 'output',
 } as const;
 
+export const TRANSFORM_IMAGE_HANDLES = {
+    IMAGE_INPUT: 'image_input',
+    OUTPUT: 'output',
+} as const;
+
+/**
+ * Fixed composite node handles; each layer adds an input handle (see
+ * src/lib/compositeLayers.ts)
+ */
+export const COMPOSITE_HANDLES = {
+    BASE_IMAGE: 'base_image',
+    OUTPUT: 'output',
+} as const;
+
 export const EXTRACT_FRAME_HANDLES = {
     VIDEO_INPUT: 'video_input',
     OUTPUT: 'output',
 } as const;
 
+export const TRIM_VIDEO_HANDLES = {
+    VIDEO_INPUT: 'video_input',
+    OUTPUT: 'output',
+} as const;
+
+/**
+ * Fixed condition node handles; switch mode adds one output handle per rule id
+ */
+export const CONDITION_HANDLES = {
+    INPUT: 'input',
+    TRUE: 'true',
+    FALSE: 'false',
+    DEFAULT: 'default',
+} as const;
+
+export const MAP_HANDLES = {
+    LIST: 'list',
+    ITEM: 'item',
+} as const;
+
+export const COLLECT_HANDLES = {
+    ITEMS: 'items',
+    TEXT: 'text',
+    IMAGES: 'images',
+} as const;
+
+export const WORKFLOW_INPUT_HANDLES = {
+    OUTPUT: 'output',
+} as const;
+
+export const WORKFLOW_OUTPUT_HANDLES = {
+    VALUE: 'value',
+} as const;
+
+/**
+ * Fixed template node handle; each placeholder adds an input handle
+ */
+export const TEMPLATE_HANDLES = {
+    OUTPUT: 'output',
+} as const;
+
 // ============================================================================
 // API Types
 // ============================================================================
 
 export interface LLMRunRequest {
-    model: GeminiModel;
+    provider?: LLMProviderId;
+    model: string;
     systemPrompt?: string;
     userMessage: string;
     images?: string[]; // base64 encoded without data URI prefix
+    generation?: LLMGenerationParams;
 }
 
 // LLMRunResponse is exported from api.types.ts
@@ -1,5 +1,6 @@
 import { defineConfig } from "@trigger.dev/sdk/v3";
 import { ffmpeg } from "@trigger.dev/build/extensions/core";
+import { prismaExtension } from "@trigger.dev/build/extensions/prisma";
 
 export default defineConfig({
   // Replace with your Trigger.dev project ID (Dashboard → Project Settings)
@@ -22,6 +23,7 @@ export default defineConfig({
   },
   dirs: ["./src/trigger"],
   build: {
-    extensions: [ffmpeg()],
+    // prismaExtension generates the Prisma client for the run-workflow orchestrator
+    extensions: [ffmpeg(), prismaExtension({ mode: "legacy", schema: "prisma/schema.prisma" })],
   },
 });